@@ -0,0 +1,17 @@
+-- 创建文章全文搜索索引表（FTS5）
+--
+-- drizzle-kit 不支持虚拟表，需要在应用结构迁移后单独执行。脚本可重复执行。
+-- 索引内容由应用写入（中日韩文本做二元分词），创建后调用重建索引接口写入已有文章：
+-- POST /api/v1/article/search/reindex
+--
+-- 使用方法：
+-- wrangler d1 execute cms_development --local --file scripts/create-article-fts.sql
+-- wrangler d1 execute cms_production --env production --file scripts/create-article-fts.sql
+
+CREATE VIRTUAL TABLE IF NOT EXISTS articles_fts USING fts5(
+  title,
+  description,
+  content,
+  markdown,
+  tokenize = 'unicode61 remove_diacritics 2'
+);
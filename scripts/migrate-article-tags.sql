@@ -0,0 +1,74 @@
+-- 迁移文章标签到 article_tags 关联表
+--
+-- 将 articles.tags 中的旧标签数据（JSON 数组或逗号分隔的字符串，元素为标签名称或标签ID）
+-- 解析为 article_tags 关联记录，不存在的标签名称自动创建 TAG 字典条目，
+-- 最后将 articles.tags 统一为标签名称的 JSON 数组。脚本可重复执行。
+--
+-- 使用方法（先应用包含 article_tags 表的结构迁移）：
+-- npm run db:generate
+-- npm run db:migrate
+-- wrangler d1 execute cms_development --local --file scripts/migrate-article-tags.sql
+-- wrangler d1 execute cms_production --env production --file scripts/migrate-article-tags.sql
+
+-- 步骤 1: 将逗号分隔的字符串转换为 JSON 数组
+UPDATE articles
+SET tags = '["' || replace(replace(replace(trim(tags), '\', '\\'), '"', '\"'), ',', '","') || '"]'
+WHERE tags IS NOT NULL AND trim(tags) != '' AND NOT json_valid(tags);
+
+-- 步骤 2: 为不存在的标签名称创建 TAG 字典条目
+INSERT INTO dicts (name, type, value, sort, site_id, status, created_at, update_at)
+SELECT DISTINCT
+  trim(j.value),
+  'TAG',
+  '',
+  0,
+  a.site_id,
+  'NORMAL',
+  CAST(strftime('%s', 'now') AS INTEGER),
+  CAST(strftime('%s', 'now') AS INTEGER)
+FROM articles a, json_each(CASE WHEN json_valid(a.tags) THEN a.tags ELSE '[]' END) j
+WHERE j.type = 'text'
+  AND trim(j.value) != ''
+  AND NOT EXISTS (
+    SELECT 1 FROM dicts d
+    WHERE d.site_id = a.site_id AND d.type = 'TAG' AND d.status = 'NORMAL' AND d.name = trim(j.value)
+  );
+
+-- 步骤 3: 创建文章标签关联（同名标签取 ID 最小的一条）
+INSERT OR IGNORE INTO article_tags (article_id, tag_id, site_id, created_at)
+SELECT article_id, tag_id, site_id, CAST(strftime('%s', 'now') AS INTEGER)
+FROM (
+  SELECT
+    a.id AS article_id,
+    a.site_id AS site_id,
+    j.key AS position,
+    (
+      SELECT MIN(d.id) FROM dicts d
+      WHERE d.site_id = a.site_id
+        AND d.type = 'TAG'
+        AND d.status = 'NORMAL'
+        AND (
+          (j.type = 'text' AND d.name = trim(j.value))
+          OR (j.type = 'integer' AND d.id = j.value)
+        )
+    ) AS tag_id
+  FROM articles a, json_each(CASE WHEN json_valid(a.tags) THEN a.tags ELSE '[]' END) j
+  ORDER BY a.id, j.key
+)
+WHERE tag_id IS NOT NULL;
+
+-- 步骤 4: 将 articles.tags 统一为标签名称的 JSON 数组
+UPDATE articles
+SET tags = (
+  SELECT json_group_array(name)
+  FROM (
+    SELECT d.name AS name
+    FROM article_tags t
+    JOIN dicts d ON d.id = t.tag_id
+    WHERE t.article_id = articles.id AND d.status = 'NORMAL'
+    ORDER BY t.id
+  )
+);
+
+-- 验证结果
+SELECT COUNT(*) AS article_tag_count FROM article_tags;
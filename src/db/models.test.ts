@@ -0,0 +1,100 @@
+/**
+ * 模型定义单元测试
+ */
+
+import { getTableColumns, type SQL } from 'drizzle-orm'
+import { SQLiteSyncDialect } from 'drizzle-orm/sqlite-core'
+import { describe, expect, it } from 'vitest'
+import { ValidationError } from '../errors'
+import type { QueryParams } from '../types'
+import { buildQuery } from '../utils/queryBuilder'
+import {
+  articleModel,
+  describeModel,
+  getModel,
+  getModelColumns,
+  MODELS,
+  publicArticleModel,
+  userModel,
+} from './models'
+
+function build(params: QueryParams) {
+  return buildQuery(params, {
+    siteId: 1,
+    tableColumns: getTableColumns(userModel.table),
+    model: userModel,
+  })
+}
+
+describe('models', () => {
+  it('should only declare existing columns', () => {
+    for (const model of Object.values(MODELS)) {
+      const columns = Object.keys(getTableColumns(model.table))
+      for (const field of [
+        ...model.filterable,
+        ...model.sortable,
+        ...model.searchable,
+        ...model.selectable,
+        ...model.writable,
+      ]) {
+        expect(columns, `${model.name}.${field}`).toContain(field)
+      }
+      for (const field of model.nullable) {
+        expect(model.writable, `${model.name}.${field}`).toContain(field)
+      }
+    }
+  })
+
+  it('should never expose sensitive fields', () => {
+    expect(userModel.selectable).not.toContain('password')
+    expect(Object.keys(getModelColumns(userModel))).not.toContain('password')
+    expect(userModel.writable).not.toContain('password')
+    expect(userModel.filterable).not.toContain('email')
+    expect(userModel.searchable).not.toContain('email')
+    expect(articleModel.filterable).not.toContain('site_id')
+    expect(publicArticleModel.selectable).not.toContain('user_id')
+  })
+
+  it('should describe models without the table', () => {
+    const description = describeModel(articleModel)
+    expect(description).not.toHaveProperty('table')
+    expect(description.sortable).toContain('created_at')
+    expect(description.expandable).toEqual(['channel', 'author', 'origin', 'tags'])
+  })
+
+  it('should look up models by name', () => {
+    expect(getModel('article')).toBe(articleModel)
+    expect(getModel('toString')).toBeUndefined()
+  })
+})
+
+describe('buildQuery with a model', () => {
+  it('should reject fields that are not filterable and list the allowed ones', () => {
+    expect(() => build({ filters: { password: 'x' } })).toThrow(ValidationError)
+    expect(() => build({ comparisons: [{ field: 'email', operator: 'eq', value: 'a' }] })).toThrow(
+      `允许的字段: ${userModel.filterable.join(', ')}`
+    )
+    expect(() =>
+      build({
+        filterGroup: {
+          logic: 'or',
+          conditions: [{ logic: 'and', conditions: [{ field: 'phone', operator: 'isNull' }] }],
+        },
+      })
+    ).toThrow('不支持按 phone 过滤')
+  })
+
+  it('should reject fields that are not sortable or searchable', () => {
+    expect(() => build({ sort: 'password' })).toThrow('不支持按 password 排序')
+    expect(() => build({ search: 'a', searchFields: ['email'] })).toThrow('不支持按 email 搜索')
+  })
+
+  it('should accept declared fields and search all searchable fields by default', () => {
+    const result = build({ filters: { type: 'USER' }, sort: 'username', search: 'tom' })
+    expect(result.orderBy).toBeDefined()
+
+    const { sql } = new SQLiteSyncDialect().sqlToQuery(result.where as SQL)
+    expect(sql).toContain('"username" like ?')
+    expect(sql).toContain('"nickname" like ?')
+  })
+})
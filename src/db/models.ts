@@ -0,0 +1,337 @@
+/**
+ * 模型定义
+ *
+ * 声明每个模型允许客户端过滤、排序、搜索、返回、分面统计和修改的字段，以及可通过 expand 参数展开的关联。
+ * buildQuery 按模型定义校验查询参数，PATCH 按 writable、nullable 校验补丁，未声明的字段返回 ValidationError；
+ * 定义同时通过 GET /api/v1/model 提供给管理后台。
+ */
+
+import { and, eq, getTableColumns, ne, type SQL, sql } from 'drizzle-orm'
+import { alias, type SQLiteColumn, type SQLiteTable } from 'drizzle-orm/sqlite-core'
+import { articles, articleTags, channels, dicts, promos, StatusEnum, sites, users } from './schema'
+
+// 关联关系
+export type ModelRelation =
+  | {
+      type: 'one' // 左连接单条记录（未关联或已删除时为 null）
+      table: SQLiteTable // 关联表（同一张表多次关联时使用别名）
+      on: SQL | undefined // 连接条件
+      columns: Record<string, SQLiteColumn> // 返回字段
+    }
+  | {
+      type: 'many' // 关联子查询，返回 JSON 数组
+      query: SQL
+    }
+
+// 模型定义
+export interface ModelDefinition {
+  name: string // 模型名称
+  table: SQLiteTable // 数据表
+  filterable: readonly string[] // 可过滤字段
+  sortable: readonly string[] // 可排序字段
+  searchable: readonly string[] // 可搜索字段（未指定 searchFields 时搜索全部）
+  selectable: readonly string[] // 可返回字段
+  facetable: readonly string[] // 可分面统计字段（日期字段按日、月、年分组）
+  writable: readonly string[] // 可通过 PATCH 修改的字段
+  nullable: readonly string[] // 可通过 PATCH 清空的字段（null 或 remove）
+  expandable: Record<string, ModelRelation> // 可展开的关联（按名称索引）
+}
+
+// 模型描述（不含数据表和关联定义，用于发现接口）
+export type ModelDescription = Omit<ModelDefinition, 'table' | 'expandable'> & {
+  expandable: string[] // 可展开的关联名称
+}
+
+// 作者、来源字典（同一次查询中分别关联 dicts 表）
+const authorDicts = alias(dicts, 'author_dicts')
+const originDicts = alias(dicts, 'origin_dicts')
+
+// 文章标签（按关联顺序，只返回未删除的标签）
+const articleTagsQuery = sql`(SELECT json_group_array(json_object('id', tag_id, 'name', tag_name)) FROM (
+  SELECT ${dicts.id} AS tag_id, ${dicts.name} AS tag_name FROM ${articleTags}
+  INNER JOIN ${dicts} ON ${dicts.id} = ${articleTags.tag_id}
+  WHERE ${articleTags.article_id} = ${articles.id} AND ${dicts.status} = ${StatusEnum.NORMAL}
+  ORDER BY ${articleTags.id}
+))`
+
+// 文章关联：栏目、作者、来源、标签
+const articleRelations: Record<string, ModelRelation> = {
+  channel: {
+    type: 'one',
+    table: channels,
+    on: and(eq(channels.id, articles.channel_id), ne(channels.status, StatusEnum.DELETE)),
+    columns: { id: channels.id, name: channels.name, pid: channels.pid, img: channels.img },
+  },
+  author: {
+    type: 'one',
+    table: authorDicts,
+    on: and(eq(authorDicts.id, articles.author_id), ne(authorDicts.status, StatusEnum.DELETE)),
+    columns: { id: authorDicts.id, name: authorDicts.name, value: authorDicts.value },
+  },
+  origin: {
+    type: 'one',
+    table: originDicts,
+    on: and(eq(originDicts.id, articles.origin_id), ne(originDicts.status, StatusEnum.DELETE)),
+    columns: { id: originDicts.id, name: originDicts.name, value: originDicts.value },
+  },
+  tags: {
+    type: 'many',
+    // 嵌套一层 sql：单表查询时 drizzle 会去掉顶层字段的表名前缀，子查询中的字段需要保留表名
+    query: sql`${articleTagsQuery}`.mapWith((value: string) => JSON.parse(value)),
+  },
+}
+
+// 文章（管理端）
+export const articleModel: ModelDefinition = {
+  name: 'article',
+  table: articles,
+  filterable: [
+    'id',
+    'title',
+    'channel_id',
+    'author',
+    'author_id',
+    'origin',
+    'origin_id',
+    'editor_id',
+    'user_id',
+    'type',
+    'status',
+    'publish_at',
+    'unpublish_at',
+    'is_top',
+    'created_at',
+    'update_at',
+  ],
+  sortable: [
+    'id',
+    'title',
+    'channel_id',
+    'type',
+    'status',
+    'publish_at',
+    'unpublish_at',
+    'is_top',
+    'created_at',
+    'update_at',
+  ],
+  searchable: ['title', 'description', 'content', 'markdown', 'author', 'origin'],
+  selectable: Object.keys(getTableColumns(articles)),
+  facetable: [
+    'channel_id',
+    'author_id',
+    'origin_id',
+    'user_id',
+    'type',
+    'status',
+    'is_top',
+    'publish_at',
+    'created_at',
+    'update_at',
+  ],
+  writable: [
+    'title',
+    'channel_id',
+    'tags',
+    'description',
+    'content',
+    'markdown',
+    'img',
+    'video',
+    'author',
+    'author_id',
+    'origin',
+    'origin_id',
+    'editor_id',
+    'type',
+    'is_top',
+    'publish_at',
+    'unpublish_at',
+  ],
+  nullable: [
+    'tags',
+    'description',
+    'content',
+    'markdown',
+    'img',
+    'video',
+    'author',
+    'author_id',
+    'origin',
+    'origin_id',
+    'editor_id',
+    'publish_at',
+    'unpublish_at',
+  ],
+  expandable: articleRelations,
+}
+
+// 文章（公开接口，不含作者账号和审核信息）
+export const publicArticleModel: ModelDefinition = {
+  name: 'public_article',
+  table: articles,
+  filterable: ['channel_id', 'type', 'is_top'],
+  sortable: ['id', 'title', 'is_top', 'publish_at', 'created_at', 'update_at'],
+  searchable: ['title', 'description'],
+  selectable: Object.keys(getTableColumns(articles)).filter(
+    (field) => !['user_id', 'editor_id', 'reject_reason'].includes(field)
+  ),
+  facetable: ['channel_id', 'type', 'is_top', 'created_at'],
+  writable: [],
+  nullable: [],
+  expandable: articleRelations,
+}
+
+// 站点
+export const siteModel: ModelDefinition = {
+  name: 'site',
+  table: sites,
+  filterable: ['id', 'name', 'status', 'created_at', 'update_at'],
+  sortable: ['id', 'name', 'status', 'created_at', 'update_at'],
+  searchable: ['name', 'title'],
+  selectable: Object.keys(getTableColumns(sites)),
+  facetable: ['status', 'created_at'],
+  writable: [
+    'name',
+    'title',
+    'logo',
+    'keywords',
+    'description',
+    'copyright',
+    'max_revisions',
+    'mail_sender_name',
+    'require_2fa',
+    'status',
+  ],
+  nullable: ['title', 'logo', 'keywords', 'description', 'copyright'],
+  expandable: {},
+}
+
+// 用户（不返回密码，不允许按邮箱、手机号过滤或搜索）
+export const userModel: ModelDefinition = {
+  name: 'user',
+  table: users,
+  filterable: [
+    'id',
+    'username',
+    'type',
+    'gender',
+    'status',
+    'last_login_time',
+    'locked_until',
+    'created_at',
+  ],
+  sortable: ['id', 'username', 'type', 'last_login_time', 'created_at', 'update_at'],
+  searchable: ['username', 'nickname'],
+  selectable: Object.keys(getTableColumns(users)).filter((field) => field !== 'password'),
+  facetable: ['type', 'gender', 'status', 'created_at'],
+  // 密码不出现在补丁文档中（管理员通过 PUT 重置，本人通过 PUT /me/password 修改）
+  writable: [
+    'username',
+    'nickname',
+    'avatar',
+    'email',
+    'phone',
+    'gender',
+    'type',
+    'status',
+    'evm_address',
+  ],
+  nullable: ['nickname', 'avatar', 'email', 'phone', 'evm_address'],
+  expandable: {},
+}
+
+// 栏目（树形结构整体返回，不支持列表查询参数）
+export const channelModel: ModelDefinition = {
+  name: 'channel',
+  table: channels,
+  filterable: [],
+  sortable: [],
+  searchable: [],
+  selectable: Object.keys(getTableColumns(channels)),
+  facetable: [],
+  writable: ['name', 'pid', 'sort', 'keywords', 'description', 'type', 'status', 'img'],
+  nullable: ['keywords', 'description', 'img'],
+  expandable: {},
+}
+
+// 字典（按类型整体返回，不支持列表查询参数）
+export const dictModel: ModelDefinition = {
+  name: 'dict',
+  table: dicts,
+  filterable: [],
+  sortable: [],
+  searchable: [],
+  selectable: Object.keys(getTableColumns(dicts)),
+  facetable: [],
+  writable: ['name', 'type', 'value', 'sort', 'status'],
+  nullable: ['value'],
+  expandable: {},
+}
+
+// 推广（按投放时间整体返回，不支持列表查询参数）
+export const promoModel: ModelDefinition = {
+  name: 'promo',
+  table: promos,
+  filterable: [],
+  sortable: [],
+  searchable: [],
+  selectable: Object.keys(getTableColumns(promos)),
+  facetable: [],
+  writable: [
+    'title',
+    'img',
+    'url',
+    'position',
+    'content',
+    'start_time',
+    'end_time',
+    'sort',
+    'status',
+  ],
+  nullable: ['img', 'url', 'position', 'content', 'start_time', 'end_time'],
+  expandable: {},
+}
+
+// 所有模型（按名称索引）
+export const MODELS: Record<string, ModelDefinition> = {
+  [articleModel.name]: articleModel,
+  [publicArticleModel.name]: publicArticleModel,
+  [siteModel.name]: siteModel,
+  [userModel.name]: userModel,
+  [channelModel.name]: channelModel,
+  [dictModel.name]: dictModel,
+  [promoModel.name]: promoModel,
+}
+
+/**
+ * 按名称获取模型定义
+ *
+ * @param name - 模型名称
+ * @returns 模型定义，不存在时返回 undefined
+ */
+export function getModel(name: string): ModelDefinition | undefined {
+  return Object.values(MODELS).find((model) => model.name === name)
+}
+
+/**
+ * 获取模型可返回字段的列定义
+ *
+ * @param model - 模型定义
+ * @returns 字段名到列的映射（用于 select）
+ */
+export function getModelColumns(model: ModelDefinition): Record<string, SQLiteColumn> {
+  const columns = getTableColumns(model.table) as Record<string, SQLiteColumn>
+  return Object.fromEntries(model.selectable.map((field) => [field, columns[field]]))
+}
+
+/**
+ * 获取模型描述
+ *
+ * @param model - 模型定义
+ * @returns 模型描述
+ */
+export function describeModel(model: ModelDefinition): ModelDescription {
+  const { table: _table, expandable, ...description } = model
+  return { ...description, expandable: Object.keys(expandable) }
+}
@@ -1,4 +1,4 @@
-import { index, integer, sqliteTable, text } from 'drizzle-orm/sqlite-core'
+import { index, integer, sqliteTable, text, uniqueIndex } from 'drizzle-orm/sqlite-core'
 
 // ============================================================================
 // 枚举定义（Enums）
@@ -9,6 +9,8 @@ export enum StatusEnum {
   PENDING = 'PENDING', // 待审核
   NORMAL = 'NORMAL', // 审核通过
   FAILURE = 'FAILURE', // 审核未通过
+  SCHEDULED = 'SCHEDULED', // 审核通过，等待定时发布（仅文章）
+  EXPIRED = 'EXPIRED', // 审核通过，已到定时下线时间（仅文章）
   DELETE = 'DELETE', // 已删除（软删除）
 }
 
@@ -58,6 +60,20 @@ export enum LogTypeEnum {
   POST = 'POST', // 新增操作
   PUT = 'PUT', // 修改操作
   DELETE = 'DELETE', // 删除操作
+  LOGIN = 'LOGIN', // 登录成功
+  LOGIN_FAILED = 'LOGIN_FAILED', // 登录失败
+}
+
+// 登录方式枚举
+export enum LoginMethodEnum {
+  PASSWORD = 'PASSWORD', // 用户名密码登录
+  EVM = 'EVM', // EVM 钱包签名登录
+}
+
+// 用户一次性令牌类型枚举（每种类型对应一封账户邮件）
+export enum UserTokenTypeEnum {
+  PASSWORD_RESET = 'PASSWORD_RESET', // 重置密码
+  EMAIL_VERIFICATION = 'EMAIL_VERIFICATION', // 验证邮箱
 }
 
 // 业务状态码枚举（前后端同步）
@@ -106,6 +122,9 @@ export const sites = sqliteTable(
     keywords: text('keywords').default(''),
     description: text('description').default(''),
     copyright: text('copyright').default(''),
+    max_revisions: integer('max_revisions').default(50), // 每篇文章保留的最大修订版本数
+    mail_sender_name: text('mail_sender_name', { length: 50 }).default(''), // 邮件发件人名称（为空时使用站点标题）
+    require_2fa: integer('require_2fa').default(0), // 1 为要求 MANAGE 及以上用户启用两步验证
     status: text('status', { length: 20 }).default(StatusEnum.PENDING),
     created_at: integer('created_at', { mode: 'timestamp' }).notNull(),
     update_at: integer('update_at', { mode: 'timestamp' }).notNull(),
@@ -115,6 +134,23 @@ export const sites = sqliteTable(
   })
 )
 
+// 站点域名映射表（主域名与别名域名）
+export const siteDomains = sqliteTable(
+  'site_domains',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    site_id: integer('site_id').notNull(),
+    domain: text('domain', { length: 255 }).notNull(), // 小写主机名，不含端口
+    is_primary: integer('is_primary').default(0), // 1 为主域名，0 为别名域名
+    created_at: integer('created_at', { mode: 'timestamp' }).notNull(),
+    update_at: integer('update_at', { mode: 'timestamp' }).notNull(),
+  },
+  (table) => ({
+    domainIdx: uniqueIndex('idx_site_domain_domain').on(table.domain),
+    siteIdx: index('idx_site_domain_site').on(table.site_id),
+  })
+)
+
 // 文章数据表
 export const articles = sqliteTable(
   'articles',
@@ -122,7 +158,7 @@ export const articles = sqliteTable(
     id: integer('id').primaryKey({ autoIncrement: true }),
     title: text('title', { length: 200 }).notNull(),
     channel_id: integer('channel_id').notNull(),
-    tags: text('tags').default(''), // JSON字符串
+    tags: text('tags').default(''), // 标签名称 JSON 数组（由 article_tags 同步生成）
     description: text('description').default(''),
     content: text('content').default(''),
     markdown: text('markdown').default(''),
@@ -136,6 +172,9 @@ export const articles = sqliteTable(
     user_id: integer('user_id'),
     type: text('type', { length: 20 }).default(ArticleTypeEnum.NORMAL),
     status: text('status', { length: 20 }).default(StatusEnum.PENDING),
+    reject_reason: text('reject_reason').default(''), // 审核驳回原因
+    publish_at: integer('publish_at', { mode: 'timestamp' }), // 定时发布时间（为空表示立即发布）
+    unpublish_at: integer('unpublish_at', { mode: 'timestamp' }), // 定时下线时间（为空表示不下线）
     is_top: integer('is_top').default(0),
     site_id: integer('site_id').notNull(),
     created_at: integer('created_at', { mode: 'timestamp' }).notNull(),
@@ -144,8 +183,46 @@ export const articles = sqliteTable(
   (table) => ({
     siteStatusIdx: index('idx_article_site_status').on(table.site_id, table.status),
     channelIdx: index('idx_article_channel').on(table.channel_id),
-    tagsIdx: index('idx_article_tags').on(table.tags),
     userIdx: index('idx_article_user').on(table.user_id),
+    publishIdx: index('idx_article_publish').on(table.publish_at),
+    unpublishIdx: index('idx_article_unpublish').on(table.unpublish_at),
+  })
+)
+
+// 文章修订版本表（每次更新后的内容快照）
+export const articleRevisions = sqliteTable(
+  'article_revisions',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    article_id: integer('article_id').notNull(),
+    title: text('title', { length: 200 }).notNull(),
+    description: text('description').default(''),
+    content: text('content').default(''),
+    markdown: text('markdown').default(''),
+    changed_fields: text('changed_fields').default('[]'), // JSON数组，本次变更的字段
+    restored_from: integer('restored_from'), // 从哪个修订版本恢复
+    user_id: integer('user_id'),
+    site_id: integer('site_id').notNull(),
+    created_at: integer('created_at', { mode: 'timestamp' }).notNull(),
+  },
+  (table) => ({
+    articleIdx: index('idx_article_revision_article').on(table.article_id, table.site_id),
+  })
+)
+
+// 文章标签关联表（关联 DictTypeEnum.TAG 字典条目）
+export const articleTags = sqliteTable(
+  'article_tags',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    article_id: integer('article_id').notNull(),
+    tag_id: integer('tag_id').notNull(), // dicts.id
+    site_id: integer('site_id').notNull(),
+    created_at: integer('created_at', { mode: 'timestamp' }).notNull(),
+  },
+  (table) => ({
+    articleTagIdx: uniqueIndex('idx_article_tag_article_tag').on(table.article_id, table.tag_id),
+    tagIdx: index('idx_article_tag_tag').on(table.tag_id, table.site_id),
   })
 )
 
@@ -182,12 +259,15 @@ export const users = sqliteTable(
     nickname: text('nickname', { length: 50 }).default(''),
     avatar: text('avatar', { length: 255 }).default(''),
     email: text('email', { length: 100 }).default(''),
+    email_verified_at: integer('email_verified_at', { mode: 'timestamp' }), // 邮箱验证时间（修改邮箱后清空）
     phone: text('phone', { length: 20 }).default(''),
     gender: text('gender', { length: 20 }).default(GenderEnum.UNKNOWN),
     type: text('type', { length: 20 }).default(UserTypeEnum.USER),
     site_id: integer('site_id'),
     status: text('status', { length: 20 }).default(StatusEnum.NORMAL),
     last_login_time: integer('last_login_time', { mode: 'timestamp' }),
+    failed_login_count: integer('failed_login_count').default(0), // 连续登录失败次数（登录成功或解锁后清零）
+    locked_until: integer('locked_until', { mode: 'timestamp' }), // 账户锁定截止时间
     evm_address: text('evm_address', { length: 42 }), // EVM 钱包地址（可选，0x + 40 个十六进制字符）
     created_at: integer('created_at', { mode: 'timestamp' }).notNull(),
     update_at: integer('update_at', { mode: 'timestamp' }).notNull(),
@@ -200,6 +280,134 @@ export const users = sqliteTable(
   })
 )
 
+// 刷新令牌表（只保存令牌的 SHA-256 哈希，每次刷新轮换为新令牌）
+export const refreshTokens = sqliteTable(
+  'refresh_tokens',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    user_id: integer('user_id').notNull(),
+    token_hash: text('token_hash', { length: 64 }).notNull(),
+    family: text('family', { length: 36 }).notNull(), // 同一次登录轮换出的令牌属于同一族
+    access_jti: text('access_jti', { length: 36 }).notNull(), // 同时签发的访问令牌 ID
+    access_expires_at: integer('access_expires_at', { mode: 'timestamp' }).notNull(),
+    expires_at: integer('expires_at', { mode: 'timestamp' }).notNull(),
+    revoked_at: integer('revoked_at', { mode: 'timestamp' }), // 已轮换或已撤销
+    created_at: integer('created_at', { mode: 'timestamp' }).notNull(),
+  },
+  (table) => ({
+    tokenHashIdx: uniqueIndex('idx_refresh_token_hash').on(table.token_hash),
+    userIdx: index('idx_refresh_token_user').on(table.user_id),
+    familyIdx: index('idx_refresh_token_family').on(table.family),
+    accessJtiIdx: index('idx_refresh_token_access_jti').on(table.access_jti),
+  })
+)
+
+// 用户一次性令牌表（重置密码、验证邮箱，只保存令牌的 SHA-256 哈希）
+export const userTokens = sqliteTable(
+  'user_tokens',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    user_id: integer('user_id').notNull(),
+    type: text('type', { length: 20 }).notNull(),
+    token_hash: text('token_hash', { length: 64 }).notNull(),
+    email: text('email', { length: 100 }).notNull(), // 发送令牌时的邮箱（邮箱变化后令牌失效）
+    expires_at: integer('expires_at', { mode: 'timestamp' }).notNull(),
+    used_at: integer('used_at', { mode: 'timestamp' }), // 已使用或已被新令牌取代
+    created_at: integer('created_at', { mode: 'timestamp' }).notNull(),
+  },
+  (table) => ({
+    tokenHashIdx: uniqueIndex('idx_user_token_hash').on(table.token_hash),
+    userTypeIdx: index('idx_user_token_user_type').on(table.user_id, table.type),
+  })
+)
+
+// 登录尝试记录表（用于失败次数统计和异常登录排查）
+export const loginAttempts = sqliteTable(
+  'login_attempts',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    user_id: integer('user_id'), // 用户不存在时为空
+    username: text('username', { length: 50 }).default(''), // 提交的用户名（钱包登录为钱包地址）
+    method: text('method', { length: 20 }).notNull(),
+    success: integer('success').notNull(), // 1 为成功，0 为失败
+    reason: text('reason', { length: 50 }).default(''), // 失败原因
+    ip: text('ip', { length: 50 }).default(''),
+    user_agent: text('user_agent', { length: 255 }).default(''),
+    site_id: integer('site_id'),
+    created_at: integer('created_at', { mode: 'timestamp' }).notNull(),
+  },
+  (table) => ({
+    userIdx: index('idx_login_attempt_user').on(table.user_id, table.created_at),
+    ipIdx: index('idx_login_attempt_ip').on(table.ip, table.created_at),
+    createdAtIdx: index('idx_login_attempt_create_time').on(table.created_at),
+  })
+)
+
+// 两步验证表（TOTP 密钥，每个用户一条，enabled_at 为空表示尚未完成绑定）
+export const userTotp = sqliteTable(
+  'user_totp',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    user_id: integer('user_id').notNull(),
+    secret: text('secret', { length: 64 }).notNull(), // Base32 编码的 TOTP 密钥
+    enabled_at: integer('enabled_at', { mode: 'timestamp' }),
+    last_used_step: integer('last_used_step').default(0), // 最近一次使用的时间步（防止验证码重放）
+    created_at: integer('created_at', { mode: 'timestamp' }).notNull(),
+    update_at: integer('update_at', { mode: 'timestamp' }).notNull(),
+  },
+  (table) => ({
+    userIdx: uniqueIndex('idx_user_totp_user').on(table.user_id),
+  })
+)
+
+// 两步验证恢复码表（只保存恢复码的 SHA-256 哈希，每个恢复码只能使用一次）
+export const userRecoveryCodes = sqliteTable(
+  'user_recovery_codes',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    user_id: integer('user_id').notNull(),
+    code_hash: text('code_hash', { length: 64 }).notNull(),
+    used_at: integer('used_at', { mode: 'timestamp' }),
+    created_at: integer('created_at', { mode: 'timestamp' }).notNull(),
+  },
+  (table) => ({
+    userIdx: index('idx_user_recovery_code_user').on(table.user_id),
+  })
+)
+
+// 邮件模板表（站点自定义的账户邮件模板，未配置时使用默认模板）
+export const mailTemplates = sqliteTable(
+  'mail_templates',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    site_id: integer('site_id').notNull(),
+    type: text('type', { length: 20 }).notNull(),
+    subject: text('subject', { length: 255 }).notNull(),
+    body: text('body').notNull(), // 纯文本正文，支持 {{变量}} 占位符
+    created_at: integer('created_at', { mode: 'timestamp' }).notNull(),
+    update_at: integer('update_at', { mode: 'timestamp' }).notNull(),
+  },
+  (table) => ({
+    siteTypeIdx: uniqueIndex('idx_mail_template_site_type').on(table.site_id, table.type),
+  })
+)
+
+// 已撤销的访问令牌表（按 jti 记录，令牌过期后可清理）
+export const revokedTokens = sqliteTable(
+  'revoked_tokens',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    jti: text('jti', { length: 36 }).notNull(),
+    user_id: integer('user_id').notNull(),
+    expires_at: integer('expires_at', { mode: 'timestamp' }).notNull(), // 访问令牌的过期时间
+    created_at: integer('created_at', { mode: 'timestamp' }).notNull(),
+  },
+  (table) => ({
+    jtiIdx: uniqueIndex('idx_revoked_token_jti').on(table.jti),
+    expiresIdx: index('idx_revoked_token_expires').on(table.expires_at),
+  })
+)
+
 // 字典数据表
 export const dicts = sqliteTable(
   'dicts',
@@ -1,12 +1,16 @@
 import { describe, expect, it } from 'vitest'
 import {
+  AccountLockedError,
   AppError,
   AuthenticationError,
   AuthorizationError,
   ConflictError,
   InternalError,
   NotFoundError,
+  PreconditionFailedError,
+  RateLimitError,
   toErrorResponse,
+  UnsupportedMediaTypeError,
   ValidationError,
 } from './index'
 
@@ -121,6 +125,54 @@ describe('Error Classes', () => {
     })
   })
 
+  describe('PreconditionFailedError', () => {
+    it('should create precondition failed error with 412 status code', () => {
+      const error = new PreconditionFailedError(undefined, '"1708070400000"')
+
+      expect(error.message).toBe('资源已被修改，请获取最新版本后重试')
+      expect(error.statusCode).toBe(412)
+      expect(error.code).toBe('PRECONDITION_FAILED')
+      expect(error.name).toBe('PreconditionFailedError')
+      expect(error.etag).toBe('"1708070400000"')
+    })
+  })
+
+  describe('UnsupportedMediaTypeError', () => {
+    it('should create unsupported media type error with 415 status code', () => {
+      const error = new UnsupportedMediaTypeError()
+
+      expect(error.message).toBe('不支持的请求体格式')
+      expect(error.statusCode).toBe(415)
+      expect(error.code).toBe('UNSUPPORTED_MEDIA_TYPE')
+      expect(error.name).toBe('UnsupportedMediaTypeError')
+    })
+  })
+
+  describe('RateLimitError', () => {
+    it('should create rate limit error with 429 status code', () => {
+      const error = new RateLimitError(undefined, 30)
+
+      expect(error.message).toBe('请求过于频繁，请稍后重试')
+      expect(error.statusCode).toBe(429)
+      expect(error.code).toBe('TOO_MANY_REQUESTS')
+      expect(error.name).toBe('RateLimitError')
+      expect(error.retryAfter).toBe(30)
+    })
+  })
+
+  describe('AccountLockedError', () => {
+    it('should create account locked error with 423 status code', () => {
+      const error = new AccountLockedError(undefined, 60)
+
+      expect(error.message).toBe('登录失败次数过多，账户已临时锁定')
+      expect(error.statusCode).toBe(423)
+      expect(error.code).toBe('ACCOUNT_LOCKED')
+      expect(error.name).toBe('AccountLockedError')
+      expect(error.retryAfter).toBe(60)
+      expect(toErrorResponse(error).error.retryAfter).toBe(60)
+    })
+  })
+
   describe('InternalError', () => {
     it('should create internal error with 500 status code', () => {
       const error = new InternalError()
@@ -254,6 +306,34 @@ describe('Error Classes', () => {
       })
     })
 
+    it('should include the current ETag for PreconditionFailedError', () => {
+      const error = new PreconditionFailedError(undefined, '"1708070400000"')
+      const response = toErrorResponse(error)
+
+      expect(response).toEqual({
+        success: false,
+        error: {
+          code: 'PRECONDITION_FAILED',
+          message: '资源已被修改，请获取最新版本后重试',
+          etag: '"1708070400000"',
+        },
+      })
+    })
+
+    it('should include the retry delay for RateLimitError', () => {
+      const error = new RateLimitError('请求过于频繁，请 30 秒后重试', 30)
+      const response = toErrorResponse(error)
+
+      expect(response).toEqual({
+        success: false,
+        error: {
+          code: 'TOO_MANY_REQUESTS',
+          message: '请求过于频繁，请 30 秒后重试',
+          retryAfter: 30,
+        },
+      })
+    })
+
     it('should convert InternalError to error response', () => {
       const error = new InternalError('数据库连接失败')
       const response = toErrorResponse(error)
@@ -76,6 +76,65 @@ export class ConflictError extends AppError {
   }
 }
 
+/**
+ * 文章状态错误 - 409
+ * 用于不允许的文章状态转换（如审核已发布的文章）
+ */
+export class ArticleStatusError extends AppError {
+  constructor(message: string = '文章状态异常') {
+    super(message, 409, 'ARTICLE_STATUS_ERROR')
+  }
+}
+
+/**
+ * 前置条件失败错误 - 412
+ * 用于 If-Match 与资源当前版本不一致（资源已被其他请求修改）
+ */
+export class PreconditionFailedError extends AppError {
+  constructor(
+    message: string = '资源已被修改，请获取最新版本后重试',
+    public etag?: string // 资源当前版本
+  ) {
+    super(message, 412, 'PRECONDITION_FAILED')
+  }
+}
+
+/**
+ * 不支持的媒体类型错误 - 415
+ * 用于请求体的 Content-Type 不被接口支持（如 PATCH 只接受补丁格式）
+ */
+export class UnsupportedMediaTypeError extends AppError {
+  constructor(message: string = '不支持的请求体格式') {
+    super(message, 415, 'UNSUPPORTED_MEDIA_TYPE')
+  }
+}
+
+/**
+ * 账户锁定错误 - 423
+ * 用于连续登录失败后账户被临时锁定
+ */
+export class AccountLockedError extends AppError {
+  constructor(
+    message: string = '登录失败次数过多，账户已临时锁定',
+    public retryAfter?: number // 距离解除锁定的秒数
+  ) {
+    super(message, 423, 'ACCOUNT_LOCKED')
+  }
+}
+
+/**
+ * 请求过于频繁错误 - 429
+ * 用于超过接口的速率限制
+ */
+export class RateLimitError extends AppError {
+  constructor(
+    message: string = '请求过于频繁，请稍后重试',
+    public retryAfter?: number // 距离可以再次请求的秒数
+  ) {
+    super(message, 429, 'TOO_MANY_REQUESTS')
+  }
+}
+
 /**
  * 内部服务器错误 - 500
  * 用于服务器内部错误
@@ -105,5 +164,18 @@ export function toErrorResponse(error: AppError) {
     response.error.details = error.details
   }
 
+  // 如果是 PreconditionFailedError，添加资源当前版本
+  if (error instanceof PreconditionFailedError && error.etag) {
+    response.error.etag = error.etag
+  }
+
+  // 如果是 RateLimitError 或 AccountLockedError，添加重试等待秒数
+  if (
+    (error instanceof RateLimitError || error instanceof AccountLockedError) &&
+    error.retryAfter
+  ) {
+    response.error.retryAfter = error.retryAfter
+  }
+
   return response
 }
@@ -1,11 +1,24 @@
+import { drizzle } from 'drizzle-orm/d1'
 import { Hono } from 'hono'
 import { errorHandler } from './middleware/errorHandler'
 import articles from './routes/articles'
 import channels from './routes/channels'
 import dictionaries from './routes/dictionaries'
+import { createDocsRoutes } from './routes/docs'
 import images from './routes/images'
+import models from './routes/models'
 import promos from './routes/promos'
+import publicContent from './routes/public'
+import sites from './routes/sites'
+import tags from './routes/tags'
+import trash from './routes/trash'
 import users from './routes/users'
+import { CacheManager } from './services/cacheManager'
+import { LoginAttemptService } from './services/loginAttemptService'
+import { SchedulerService } from './services/schedulerService'
+import { TokenService } from './services/tokenService'
+import { DEFAULT_TRASH_RETENTION_DAYS, TrashService } from './services/trashService'
+import { describeRoute } from './utils/openapi'
 
 // Define the environment bindings
 export interface Env {
@@ -18,6 +31,11 @@ export interface Env {
   PUBLIC_DOMAIN?: string
   MAX_UPLOAD_SIZE?: number
   CACHE_TTL?: number
+  TRASH_RETENTION_DAYS?: string
+  MAIL_TRANSPORT?: string // 设置为 memory 时邮件只输出到日志（仅用于本地开发）
+  MAIL_API_URL?: string // 邮件服务商 API 地址（未配置时无法发送邮件）
+  MAIL_API_KEY?: string
+  MAIL_FROM?: string // 发件地址
 }
 
 const app = new Hono<{ Bindings: Env }>()
@@ -26,7 +44,7 @@ const app = new Hono<{ Bindings: Env }>()
 app.onError(errorHandler)
 
 // Health check endpoint
-app.get('/health', (c) => {
+app.get('/health', describeRoute({ summary: '健康检查', tags: ['system'], raw: true }), (c) => {
   return c.json({
     status: 'ok',
     environment: c.env.ENVIRONMENT || 'development',
@@ -35,7 +53,7 @@ app.get('/health', (c) => {
 })
 
 // API version endpoint
-app.get('/api/v1', (c) => {
+app.get('/api/v1', describeRoute({ summary: 'API 版本信息', tags: ['system'], raw: true }), (c) => {
   return c.json({
     version: 'v1',
     name: 'Cloudflare CMS API',
@@ -46,6 +64,9 @@ app.get('/api/v1', (c) => {
 // 注册用户路由（公开端点：注册、登录）
 app.route('/api/v1', users)
 
+// 注册站点路由
+app.route('/api/v1/site', sites)
+
 // 注册频道路由
 app.route('/api/v1/channel', channels)
 
@@ -58,7 +79,76 @@ app.route('/api/v1/promo', promos)
 // 注册文章路由
 app.route('/api/v1/article', articles)
 
+// 注册标签路由
+app.route('/api/v1/tag', tags)
+
+// 注册回收站路由
+app.route('/api/v1/trash', trash)
+
+// 注册模型发现路由
+app.route('/api/v1/model', models)
+
 // 注册图片上传路由
 app.route('/api/v1', images)
 
-export default app
+// 注册公开内容路由（无需认证）
+app.route('/api/v1/public', publicContent)
+
+// 注册 API 文档路由（OpenAPI 文档从上面注册的路由生成，需要最后注册）
+app.route('/api/v1', createDocsRoutes(app))
+
+// 回收站清理的 cron 表达式（与 wrangler.toml 中的 [triggers] 一致）
+const TRASH_PURGE_CRON = '0 3 * * *'
+
+/**
+ * 定时任务处理函数（由 wrangler.toml 中的 cron 触发）
+ *
+ * - 每分钟：转换到达发布/下线时间的文章状态，使文章和推广的公开缓存失效
+ * - 每天：清理超过保留期（TRASH_RETENTION_DAYS，默认 30 天）的回收站记录、已过期的刷新令牌和撤销记录，
+ *   以及超过 90 天的登录尝试记录
+ */
+export const scheduled: ExportedHandlerScheduledHandler<Env> = async (controller, env, ctx) => {
+  const db = drizzle(env.DB)
+  const cacheManager = new CacheManager(env.CACHE)
+  const now = new Date(controller.scheduledTime)
+
+  if (controller.cron === TRASH_PURGE_CRON) {
+    const parsedDays = parseInt(env.TRASH_RETENTION_DAYS || '', 10)
+    const retentionDays =
+      Number.isNaN(parsedDays) || parsedDays < 1 ? DEFAULT_TRASH_RETENTION_DAYS : parsedDays
+    const trashService = new TrashService(db, cacheManager)
+    const tokenService = new TokenService(db, env.JWT_SECRET)
+    const loginAttemptService = new LoginAttemptService(db)
+
+    // 各清理任务互不影响，失败时输出错误
+    ctx.waitUntil(
+      trashService.purgeExpired(retentionDays, now).catch((error) => {
+        console.error('回收站清理失败:', error)
+      })
+    )
+    ctx.waitUntil(
+      tokenService.purgeExpired(now).catch((error) => {
+        console.error('令牌清理失败:', error)
+      })
+    )
+    ctx.waitUntil(
+      loginAttemptService.purgeExpired(now).catch((error) => {
+        console.error('登录尝试记录清理失败:', error)
+      })
+    )
+    return
+  }
+
+  const schedulerService = new SchedulerService(db, cacheManager)
+
+  ctx.waitUntil(
+    schedulerService.run(now).catch((error) => {
+      console.error('定时任务执行失败:', error)
+    })
+  )
+}
+
+export default {
+  fetch: app.fetch,
+  scheduled,
+}
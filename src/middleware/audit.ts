@@ -10,11 +10,13 @@
  * 4. 提取请求元数据（IP、User-Agent）
  * 5. 调用 auditLogService.log() 记录操作
  * 6. 不阻塞请求处理（即使日志记录失败）
+ * 7. 支持路由通过 setAuditContent() 自定义日志内容（如状态转换说明）
  */
 
 import type { Context, MiddlewareHandler } from 'hono'
 import { AuditLogService } from '../services/auditLogService'
 import { LogTypeEnum, ModuleEnum } from '../types'
+import { getClientIp } from '../utils/request'
 import { getAuthContext } from './auth'
 import { getSiteContext } from './site'
 
@@ -88,6 +90,24 @@ function extractResourceInfo(path: string): {
   return { module, resourceId }
 }
 
+/**
+ * 设置自定义审计日志内容
+ *
+ * 默认日志内容只包含操作类型、模块和资源ID，
+ * 路由可以调用此函数记录更具体的操作说明（如文章状态转换）。
+ * 路径无法体现实际模块时（如回收站），可同时指定模块。
+ *
+ * @param c Hono 上下文
+ * @param content 日志内容
+ * @param module 日志模块（可选）
+ */
+export function setAuditContent(c: Context, content: string, module?: ModuleEnum): void {
+  c.set('auditContent', content)
+  if (module) {
+    c.set('auditModule', module)
+  }
+}
+
 /**
  * 从 HTTP 方法映射到日志类型
  *
@@ -172,20 +192,18 @@ async function recordAuditLog(c: Context, logType: LogTypeEnum): Promise<void> {
     const path = c.req.path
     const { module, resourceId } = extractResourceInfo(path)
 
-    // 如果无法识别模块，使用 SYSTEM
-    const finalModule = module || ModuleEnum.SYSTEM
+    // 优先使用路由指定的模块，无法识别时使用 SYSTEM
+    const finalModule =
+      (c.get('auditModule') as ModuleEnum | undefined) || module || ModuleEnum.SYSTEM
 
-    // 构建日志内容
-    const content = resourceId
-      ? `${logType} ${finalModule} #${resourceId}`
-      : `${logType} ${finalModule}`
+    // 构建日志内容（优先使用路由设置的自定义内容）
+    const customContent = c.get('auditContent') as string | undefined
+    const content =
+      customContent ||
+      (resourceId ? `${logType} ${finalModule} #${resourceId}` : `${logType} ${finalModule}`)
 
     // 提取请求元数据
-    const ip =
-      c.req.header('CF-Connecting-IP') ||
-      c.req.header('X-Forwarded-For') ||
-      c.req.header('X-Real-IP') ||
-      ''
+    const ip = getClientIp(c)
     const userAgent = c.req.header('User-Agent') || ''
 
     // 获取数据库实例
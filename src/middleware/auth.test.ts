@@ -156,6 +156,47 @@ describe('认证中间件', () => {
       expect(body.error.message).toContain('令牌验证失败')
     })
 
+    it('应该拒绝已被撤销的令牌', async () => {
+      const payload = { userId: 1, username: 'testuser', type: UserTypeEnum.EDITOR, siteId: 1 }
+      const revokedToken = await generateToken({ ...payload, jti: 'revoked-jti' }, testSecret)
+      const validToken = await generateToken({ ...payload, jti: 'valid-jti' }, testSecret)
+
+      // 撤销状态已缓存在 KV 中，不会查询数据库
+      const cache: Record<string, string> = {
+        'token:revoked:revoked-jti': 'true',
+        'token:revoked:valid-jti': 'false',
+      }
+      const testApp = new Hono()
+      testApp.onError(errorHandler)
+      testApp.use('*', async (c, next) => {
+        c.env = {
+          JWT_SECRET: testSecret,
+          DB: {},
+          CACHE: { get: async (key: string) => cache[key] ?? null },
+        }
+        await next()
+      })
+      testApp.use('*', authMiddleware)
+      testApp.get('/test', (c) => c.json({ auth: getAuthContext(c) }))
+
+      const res = await testApp.request('/test', {
+        headers: { Authorization: `Bearer ${revokedToken}` },
+      })
+      const body = (await res.json()) as { error: { message: string } }
+
+      expect(res.status).toBe(401)
+      expect(body.error.message).toBe('令牌已被撤销')
+
+      const ok = await testApp.request('/test', {
+        headers: { Authorization: `Bearer ${validToken}` },
+      })
+      const data = (await ok.json()) as { auth: { jti: string; exp: number } }
+
+      expect(ok.status).toBe(200)
+      expect(data.auth.jti).toBe('valid-jti')
+      expect(data.auth.exp).toBeGreaterThan(Date.now() / 1000)
+    })
+
     it('应该正确提取所有用户上下文字段', async () => {
       const token = await generateToken(
         {
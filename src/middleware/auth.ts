@@ -7,11 +7,15 @@
  * 功能：
  * 1. 从 Authorization 头提取 JWT 令牌
  * 2. 验证令牌并提取用户上下文
- * 3. 将 AuthContext 附加到请求上下文
+ * 3. 检查令牌是否已被撤销（退出登录、用户类型或状态变化）
+ * 4. 将 AuthContext 附加到请求上下文
  */
 
+import { drizzle } from 'drizzle-orm/d1'
 import type { Context, MiddlewareHandler } from 'hono'
 import { AuthenticationError } from '../errors'
+import { CacheManager } from '../services/cacheManager'
+import { TokenService } from '../services/tokenService'
 import type { AuthContext } from '../types'
 import { verifyToken } from '../utils/jwt'
 
@@ -56,6 +60,19 @@ export const authMiddleware: MiddlewareHandler = async (c: Context, next) => {
     // 验证并解码 JWT 令牌
     const payload = await verifyToken(token, secret)
 
+    // 检查撤销列表（未绑定数据库时跳过）
+    if (payload.jti && c.env?.DB) {
+      const tokenService = new TokenService(
+        drizzle(c.env.DB),
+        secret,
+        undefined,
+        c.env.CACHE ? new CacheManager(c.env.CACHE) : undefined
+      )
+      if (await tokenService.isRevoked(payload.jti, payload.exp)) {
+        throw new AuthenticationError('令牌已被撤销')
+      }
+    }
+
     // 构建认证上下文
     const authContext: AuthContext = {
       userId: payload.userId,
@@ -64,12 +81,21 @@ export const authMiddleware: MiddlewareHandler = async (c: Context, next) => {
       siteId: payload.siteId,
     }
 
+    // 可撤销的令牌记录 jti 和过期时间（退出登录时使用）
+    if (payload.jti) {
+      authContext.jti = payload.jti
+      authContext.exp = payload.exp
+    }
+
     // 将认证上下文存储到请求上下文
     c.set('authContext', authContext)
 
     // 继续处理请求
     await next()
   } catch (error) {
+    if (error instanceof AuthenticationError) {
+      throw error
+    }
     // JWT 验证失败（无效或过期）
     if (error instanceof Error) {
       throw new AuthenticationError(`令牌验证失败: ${error.message}`)
@@ -5,11 +5,14 @@
 import { Hono } from 'hono'
 import { describe, expect, it, vi } from 'vitest'
 import {
+  AccountLockedError,
   AuthenticationError,
   AuthorizationError,
   ConflictError,
   InternalError,
   NotFoundError,
+  PreconditionFailedError,
+  RateLimitError,
   ValidationError,
 } from '../errors'
 import { errorHandler } from './errorHandler'
@@ -116,6 +119,72 @@ describe('errorHandler middleware', () => {
     })
   })
 
+  it('should handle PreconditionFailedError with 412 status and the current ETag', async () => {
+    const app = new Hono()
+    app.onError(errorHandler)
+    app.get('/test', () => {
+      throw new PreconditionFailedError(undefined, '"1708070400000"')
+    })
+
+    const res = await app.request('/test')
+    const body = await res.json()
+
+    expect(res.status).toBe(412)
+    expect(res.headers.get('ETag')).toBe('"1708070400000"')
+    expect(body).toEqual({
+      success: false,
+      error: {
+        code: 'PRECONDITION_FAILED',
+        message: '资源已被修改，请获取最新版本后重试',
+        etag: '"1708070400000"',
+      },
+    })
+  })
+
+  it('should handle RateLimitError with 429 status and Retry-After', async () => {
+    const app = new Hono()
+    app.onError(errorHandler)
+    app.get('/test', () => {
+      throw new RateLimitError('请求过于频繁，请 30 秒后重试', 30)
+    })
+
+    const res = await app.request('/test')
+    const body = await res.json()
+
+    expect(res.status).toBe(429)
+    expect(res.headers.get('Retry-After')).toBe('30')
+    expect(body).toEqual({
+      success: false,
+      error: {
+        code: 'TOO_MANY_REQUESTS',
+        message: '请求过于频繁，请 30 秒后重试',
+        retryAfter: 30,
+      },
+    })
+  })
+
+  it('should handle AccountLockedError with 423 status and Retry-After', async () => {
+    const app = new Hono()
+    app.onError(errorHandler)
+    app.get('/test', () => {
+      throw new AccountLockedError(undefined, 120)
+    })
+
+    const res = await app.request('/test')
+    const body = await res.json()
+
+    expect(res.status).toBe(423)
+    expect(res.headers.get('Retry-After')).toBe('120')
+    expect(body).toEqual({
+      success: false,
+      error: {
+        code: 'ACCOUNT_LOCKED',
+        message: '登录失败次数过多，账户已临时锁定',
+        retryAfter: 120,
+      },
+    })
+  })
+
   it('should handle InternalError with 500 status', async () => {
     const app = new Hono()
     app.onError(errorHandler)
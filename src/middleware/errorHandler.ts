@@ -10,7 +10,13 @@
  */
 
 import type { Context, ErrorHandler } from 'hono'
-import { AppError, ValidationError } from '../errors'
+import {
+  AccountLockedError,
+  AppError,
+  PreconditionFailedError,
+  RateLimitError,
+  ValidationError,
+} from '../errors'
 import { errorResponse } from '../utils/response'
 
 /**
@@ -33,6 +39,18 @@ export const errorHandler: ErrorHandler = (err: Error, c: Context) => {
       err instanceof ValidationError ? err.details : undefined
     )
 
+    // 版本冲突时返回资源当前版本
+    if (err instanceof PreconditionFailedError && err.etag) {
+      c.header('ETag', err.etag)
+      response.error.etag = err.etag
+    }
+
+    // 限流或账户锁定时返回重试等待秒数
+    if ((err instanceof RateLimitError || err instanceof AccountLockedError) && err.retryAfter) {
+      c.header('Retry-After', String(err.retryAfter))
+      response.error.retryAfter = err.retryAfter
+    }
+
     return c.json(response, err.statusCode)
   }
 
@@ -0,0 +1,121 @@
+/**
+ * 限流中间件测试
+ */
+
+import type { Context } from 'hono'
+import { Hono } from 'hono'
+import { describe, expect, it } from 'vitest'
+import type { RateLimitPolicy } from '../types'
+import { errorHandler } from './errorHandler'
+import { getRateLimitIdentifier, rateLimit } from './rateLimit'
+
+// 模拟 KV（只实现限流用到的读写）
+function createEnv() {
+  const store = new Map<string, string>()
+  return {
+    store,
+    env: {
+      CACHE: {
+        get: async (key: string) => store.get(key) ?? null,
+        put: async (key: string, value: string) => {
+          store.set(key, value)
+        },
+      },
+    },
+  }
+}
+
+function createApp(policy: RateLimitPolicy) {
+  const app = new Hono()
+  app.onError(errorHandler)
+  app.post('/login', rateLimit(policy), (c: Context) => c.json({ success: true }))
+  return app
+}
+
+describe('rateLimit middleware', () => {
+  const policy: RateLimitPolicy = { name: 'login', limit: 2, window: 60 }
+
+  it('should add rate limit headers to allowed responses', async () => {
+    const { env } = createEnv()
+    const res = await createApp(policy).request(
+      '/login',
+      { method: 'POST', headers: { 'CF-Connecting-IP': '1.2.3.4' } },
+      env
+    )
+
+    expect(res.status).toBe(200)
+    expect(res.headers.get('X-RateLimit-Limit')).toBe('2')
+    expect(res.headers.get('X-RateLimit-Remaining')).toBe('1')
+    expect(Number(res.headers.get('X-RateLimit-Reset'))).toBeGreaterThan(Date.now() / 1000)
+  })
+
+  it('should return 429 with Retry-After through the error handler', async () => {
+    const { env } = createEnv()
+    const app = createApp(policy)
+    const request = () =>
+      app.request('/login', { method: 'POST', headers: { 'CF-Connecting-IP': '1.2.3.4' } }, env)
+
+    await request()
+    await request()
+    const res = await request()
+    const body = (await res.json()) as { error: { code: string; retryAfter: number } }
+
+    expect(res.status).toBe(429)
+    expect(Number(res.headers.get('Retry-After'))).toBeGreaterThan(0)
+    expect(res.headers.get('X-RateLimit-Remaining')).toBe('0')
+    expect(body.error.code).toBe('TOO_MANY_REQUESTS')
+    expect(body.error.retryAfter).toBe(Number(res.headers.get('Retry-After')))
+
+    // 其他 IP 不受影响
+    const other = await app.request(
+      '/login',
+      { method: 'POST', headers: { 'CF-Connecting-IP': '5.6.7.8' } },
+      env
+    )
+    expect(other.status).toBe(200)
+  })
+
+  it('should skip rate limiting when KV is not bound', async () => {
+    const app = createApp({ ...policy, limit: 0 })
+    const res = await app.request('/login', { method: 'POST' }, {})
+
+    expect(res.status).toBe(200)
+    expect(res.headers.get('X-RateLimit-Limit')).toBeNull()
+  })
+})
+
+describe('getRateLimitIdentifier', () => {
+  async function identify(
+    policy: RateLimitPolicy,
+    headers: Record<string, string>,
+    context: Record<string, unknown> = {}
+  ) {
+    const app = new Hono()
+    app.get('/', (c: Context) => {
+      for (const [key, value] of Object.entries(context)) {
+        c.set(key as never, value as never)
+      }
+      return c.text(getRateLimitIdentifier(c, policy))
+    })
+    return (await app.request('/', { headers })).text()
+  }
+
+  const policy: RateLimitPolicy = { name: 'upload', limit: 1, window: 60 }
+
+  it('should use the client IP by default', async () => {
+    expect(await identify(policy, { 'CF-Connecting-IP': '1.2.3.4' })).toBe('ip:1.2.3.4')
+    expect(await identify(policy, { 'X-Forwarded-For': '1.2.3.4, 10.0.0.1' })).toBe('ip:1.2.3.4')
+    expect(await identify(policy, {})).toBe('ip:unknown')
+  })
+
+  it('should use the user or site id when available', async () => {
+    const authContext = { userId: 7, username: 'u', type: 'USER', siteId: 1 }
+    expect(await identify({ ...policy, keyBy: 'user' }, {}, { authContext })).toBe('user:7')
+    expect(await identify({ ...policy, keyBy: 'site' }, {}, { siteContext: { siteId: 3 } })).toBe(
+      'site:3'
+    )
+    expect(await identify({ ...policy, keyBy: 'user' }, { 'CF-Connecting-IP': '1.2.3.4' })).toBe(
+      'ip:1.2.3.4'
+    )
+  })
+})
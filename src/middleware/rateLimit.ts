@@ -0,0 +1,92 @@
+/**
+ * 限流中间件
+ *
+ * 按路由的限流策略计数（计数存储在 KV 中，见 services/rateLimiter）：
+ * 1. 按策略的 keyBy 确定计数标识：客户端 IP、用户 ID 或站点 ID
+ * 2. 响应头返回 X-RateLimit-Limit、X-RateLimit-Remaining、X-RateLimit-Reset
+ * 3. 超过限制时抛出 RateLimitError，由全局错误处理中间件返回 429 和 Retry-After
+ * 4. 未绑定 KV 时不限流
+ */
+
+import type { Context, MiddlewareHandler } from 'hono'
+import { RateLimitError } from '../errors'
+import { CacheManager } from '../services/cacheManager'
+import { RateLimiter } from '../services/rateLimiter'
+import type { AuthContext, RateLimitPolicy, SiteContext } from '../types'
+import { setRouteMetadata } from '../utils/openapi'
+import { getClientIp } from '../utils/request'
+
+// 路由限流策略
+export const RATE_LIMIT_POLICIES = {
+  // 登录（用户名密码和钱包签名登录共用计数）：每个 IP 每分钟 10 次
+  login: { name: 'login', limit: 10, window: 60, algorithm: 'sliding', keyBy: 'ip' },
+  // 注册：每个 IP 每小时 5 次
+  register: { name: 'register', limit: 5, window: 3600, keyBy: 'ip' },
+  // 刷新令牌：每个 IP 每分钟 30 次
+  refresh: { name: 'refresh', limit: 30, window: 60, keyBy: 'ip' },
+  // 账户邮件（忘记密码、重置密码、发送和使用邮箱验证令牌共用计数）：每个 IP 每小时 10 次
+  accountEmail: { name: 'account_email', limit: 10, window: 3600, keyBy: 'ip' },
+  // 图片上传：每个用户每分钟 30 次
+  upload: { name: 'upload', limit: 30, window: 60, keyBy: 'user' },
+} satisfies Record<string, RateLimitPolicy>
+
+/**
+ * 限流中间件
+ *
+ * keyBy 为 user 时需要在 authMiddleware 之后执行，为 site 时需要在 siteMiddleware 之后执行，
+ * 否则按 IP 计数。
+ *
+ * @param policy - 限流策略
+ * @returns Hono 中间件处理函数
+ *
+ * @example
+ * users.post('/login', rateLimit(RATE_LIMIT_POLICIES.login), siteMiddleware, handler)
+ */
+export function rateLimit(policy: RateLimitPolicy): MiddlewareHandler {
+  const middleware: MiddlewareHandler = async (c: Context, next) => {
+    if (!c.env?.CACHE) {
+      await next()
+      return
+    }
+
+    const rateLimiter = new RateLimiter(new CacheManager(c.env.CACHE))
+    const result = await rateLimiter.consume(policy, getRateLimitIdentifier(c, policy))
+
+    c.header('X-RateLimit-Limit', String(result.limit))
+    c.header('X-RateLimit-Remaining', String(result.remaining))
+    c.header('X-RateLimit-Reset', String(result.reset))
+
+    if (!result.allowed) {
+      throw new RateLimitError(`请求过于频繁，请 ${result.retryAfter} 秒后重试`, result.retryAfter)
+    }
+
+    await next()
+  }
+  setRouteMetadata(middleware, { rateLimit: policy })
+  return middleware
+}
+
+/**
+ * 获取限流计数标识
+ *
+ * @param c - Hono 上下文
+ * @param policy - 限流策略
+ * @returns 计数标识（如 ip:1.2.3.4、user:1、site:1）
+ */
+export function getRateLimitIdentifier(c: Context, policy: RateLimitPolicy): string {
+  if (policy.keyBy === 'user') {
+    const authContext = c.get('authContext') as AuthContext | undefined
+    if (authContext) {
+      return `user:${authContext.userId}`
+    }
+  }
+
+  if (policy.keyBy === 'site') {
+    const siteContext = c.get('siteContext') as SiteContext | undefined
+    if (siteContext) {
+      return `site:${siteContext.siteId}`
+    }
+  }
+
+  return `ip:${getClientIp(c) || 'unknown'}`
+}
@@ -192,6 +192,95 @@ describe('站点隔离中间件', () => {
     })
   })
 
+  describe('按域名解析站点', () => {
+    // 模拟已缓存的域名映射（domain:{hostname} -> siteId，0 表示未绑定）
+    const createEnv = (mappings: Record<string, number>) => ({
+      DB: {},
+      CACHE: {
+        get: async (key: string) => (key in mappings ? JSON.stringify(mappings[key]) : null),
+        put: async () => {},
+        delete: async () => {},
+      },
+    })
+
+    it('应该优先使用 Host 头解析的站点', async () => {
+      app.use('*', siteMiddleware)
+      app.get('/test', (c) => c.json({ siteId: getSiteContext(c).siteId }))
+
+      const res = await app.request(
+        'http://www.example.com/test',
+        { headers: { 'Site-Id': '2' } },
+        createEnv({ 'domain:www.example.com': 7 })
+      )
+
+      const data = (await res.json()) as any
+      expect(res.status).toBe(200)
+      expect(data.siteId).toBe(7)
+    })
+
+    it('应该忽略 Host 头中的端口并转为小写', async () => {
+      app.use('*', siteMiddleware)
+      app.get('/test', (c) => c.json({ siteId: getSiteContext(c).siteId }))
+
+      const res = await app.request(
+        '/test',
+        { headers: { Host: 'WWW.Example.com:8787' } },
+        createEnv({ 'domain:www.example.com': 7 })
+      )
+
+      const data = (await res.json()) as any
+      expect(data.siteId).toBe(7)
+    })
+
+    it('域名未绑定时应该回退到 Site-Id 头', async () => {
+      app.use('*', siteMiddleware)
+      app.get('/test', (c) => c.json({ siteId: getSiteContext(c).siteId }))
+
+      const res = await app.request(
+        'http://api.example.com/test',
+        { headers: { 'Site-Id': '3' } },
+        createEnv({ 'domain:api.example.com': 0 })
+      )
+
+      const data = (await res.json()) as any
+      expect(data.siteId).toBe(3)
+    })
+
+    it('域名未绑定且无 Site-Id 头时应该回退到 JWT 中的 siteId', async () => {
+      app.use('*', async (c: Context, next: () => Promise<void>) => {
+        c.set('authContext' as any, { userId: 1, username: 'test', type: 'USER', siteId: 5 })
+        await next()
+      })
+      app.use('*', siteMiddleware)
+      app.get('/test', (c) => c.json({ siteId: getSiteContext(c).siteId }))
+
+      const res = await app.request(
+        'http://api.example.com/test',
+        {},
+        createEnv({ 'domain:api.example.com': 0 })
+      )
+
+      const data = (await res.json()) as any
+      expect(data.siteId).toBe(5)
+    })
+
+    it('未知域名且无其他来源时应该返回 404', async () => {
+      app.use('*', siteMiddleware)
+      app.get('/test', (c) => c.json({ success: true }))
+
+      const res = await app.request(
+        'http://unknown.example.com/test',
+        {},
+        createEnv({ 'domain:unknown.example.com': 0 })
+      )
+      const body = (await res.json()) as any
+
+      expect(res.status).toBe(404)
+      expect(body.error.code).toBe('NOT_FOUND_ERROR')
+      expect(body.error.message).toBe('域名 unknown.example.com 未绑定任何站点')
+    })
+  })
+
   describe('getSiteContext', () => {
     it('应该返回已设置的站点上下文', async () => {
       app.use('*', siteMiddleware)
@@ -224,7 +313,7 @@ describe('站点隔离中间件', () => {
     it('应该能够与其他中间件一起工作', async () => {
       // 模拟认证中间件
       const mockAuthMiddleware = async (c: Context, next: () => Promise<void>) => {
-        c.set('authContext' as any, { userId: 1, username: 'test', type: 'USER', siteId: null })
+        c.set('authContext' as any, { userId: 1, username: 'test', type: 'USER', siteId: 789 })
         await next()
       }
 
@@ -246,5 +335,34 @@ describe('站点隔离中间件', () => {
       expect(data.auth).toBeDefined()
       expect(data.site.siteId).toBe(789)
     })
+
+    it('应该拒绝访问令牌所属站点以外的站点', async () => {
+      app.use('*', async (c: Context, next: () => Promise<void>) => {
+        c.set('authContext' as any, { userId: 1, username: 'test', type: 'MANAGE', siteId: 1 })
+        await next()
+      })
+      app.use('*', siteMiddleware)
+      app.get('/test', (c) => c.json({ success: true }))
+
+      const res = await app.request('/test', { headers: { 'Site-Id': '2' } })
+      const body = (await res.json()) as any
+
+      expect(res.status).toBe(403)
+      expect(body.error.code).toBe('AUTHORIZATION_ERROR')
+    })
+
+    it('超级管理员应该可以访问任意站点', async () => {
+      app.use('*', async (c: Context, next: () => Promise<void>) => {
+        c.set('authContext' as any, { userId: 1, username: 'root', type: 'SUPERMANAGE', siteId: 1 })
+        await next()
+      })
+      app.use('*', siteMiddleware)
+      app.get('/test', (c) => c.json({ siteId: getSiteContext(c).siteId }))
+
+      const res = await app.request('/test', { headers: { 'Site-Id': '2' } })
+
+      expect(res.status).toBe(200)
+      expect(((await res.json()) as any).siteId).toBe(2)
+    })
   })
 })
@@ -4,37 +4,74 @@
  * 需求 1.3：当 Site-Id 请求头缺失时，系统应拒绝请求并返回认证错误
  *
  * 功能：
- * 1. 从 Site-Id 头提取 site_id
+ * 1. 按 Host 头 → Site-Id 头 → JWT siteId 的顺序解析 site_id
  * 2. 验证 site_id 存在且有效
- * 3. 将 SiteContext 附加到请求上下文
+ * 3. 已认证的非超级管理员只能访问令牌所属站点
+ * 4. 将 SiteContext 附加到请求上下文
  */
 
+import { drizzle } from 'drizzle-orm/d1'
 import type { Context, MiddlewareHandler } from 'hono'
-import { AuthenticationError } from '../errors'
-import type { SiteContext } from '../types'
+import { AuthenticationError, AuthorizationError, NotFoundError } from '../errors'
+import { CacheManager } from '../services/cacheManager'
+import { normalizeDomain, SiteService } from '../services/siteService'
+import { type AuthContext, type SiteContext, UserTypeEnum } from '../types'
 
 /**
  * 站点隔离中间件
  *
- * 从请求头中提取 Site-Id 并验证，将站点上下文附加到请求
+ * 解析顺序：
+ * 1. Host 头：通过域名映射表解析（结果缓存在 KV 中）
+ * 2. Site-Id 头：显式指定站点
+ * 3. JWT 中的 siteId：需要在 authMiddleware 之后执行
+ *
+ * 如果主机名未绑定任何站点且没有其他来源，返回 404。
+ * 已认证用户（SUPERMANAGE 除外）解析到的站点与令牌中的 siteId 不一致时返回 403。
  *
  * @returns Hono 中间件处理函数
  */
 export const siteMiddleware: MiddlewareHandler = async (c: Context, next) => {
-  // 从请求头提取 Site-Id
-  const siteIdHeader = c.req.header('Site-Id')
+  // 1. 通过 Host 头解析站点
+  const hostname = getRequestHostname(c)
+  let siteId = hostname ? await resolveSiteIdByHost(c, hostname) : null
+  const hostResolved = siteId !== undefined
 
-  // 验证 Site-Id 头是否存在（包括空字符串）
-  if (!siteIdHeader || siteIdHeader.trim() === '') {
-    throw new AuthenticationError('缺少 Site-Id 头')
+  // 2. 从请求头提取 Site-Id
+  if (!siteId) {
+    const siteIdHeader = c.req.header('Site-Id')
+
+    if (siteIdHeader && siteIdHeader.trim() !== '') {
+      // 解析 site_id 为数字
+      siteId = parseInt(siteIdHeader, 10)
+
+      // 验证 site_id 是否为有效数字
+      if (Number.isNaN(siteId) || siteId <= 0) {
+        throw new AuthenticationError('Site-Id 必须是有效的正整数')
+      }
+    }
   }
 
-  // 解析 site_id 为数字
-  const siteId = parseInt(siteIdHeader, 10)
+  // 3. 使用 JWT 中的 siteId
+  const authContext = c.get('authContext') as AuthContext | undefined
+  if (!siteId) {
+    siteId = authContext?.siteId ?? null
+  }
 
-  // 验证 site_id 是否为有效数字
-  if (isNaN(siteId) || siteId <= 0) {
-    throw new AuthenticationError('Site-Id 必须是有效的正整数')
+  if (!siteId) {
+    // 主机名已查询但未绑定站点
+    if (hostResolved && hostname) {
+      throw new NotFoundError(`域名 ${hostname} 未绑定任何站点`)
+    }
+    throw new AuthenticationError('缺少 Site-Id 头')
+  }
+
+  // 防止通过 Host 或 Site-Id 头跨站点访问
+  if (
+    authContext &&
+    authContext.type !== UserTypeEnum.SUPERMANAGE &&
+    authContext.siteId !== siteId
+  ) {
+    throw new AuthorizationError('无权访问该站点')
   }
 
   // 构建站点上下文
@@ -49,6 +86,37 @@ export const siteMiddleware: MiddlewareHandler = async (c: Context, next) => {
   await next()
 }
 
+/**
+ * 获取请求主机名
+ *
+ * @param c Hono 上下文
+ * @returns 规范化后的主机名
+ */
+function getRequestHostname(c: Context): string {
+  const host = c.req.header('Host') || new URL(c.req.url).host
+  return normalizeDomain(host)
+}
+
+/**
+ * 通过域名映射解析站点ID
+ *
+ * @param c Hono 上下文
+ * @param hostname 主机名
+ * @returns 站点ID；未绑定时返回 null；数据库未配置时返回 undefined（跳过域名解析）
+ */
+async function resolveSiteIdByHost(
+  c: Context,
+  hostname: string
+): Promise<number | null | undefined> {
+  const rawDb = c.env?.DB
+  if (!rawDb) {
+    return undefined
+  }
+
+  const siteService = new SiteService(drizzle(rawDb), new CacheManager(c.env.CACHE))
+  return siteService.resolveSiteIdByDomain(hostname)
+}
+
 /**
  * 从请求上下文中获取站点上下文
  *
@@ -0,0 +1,114 @@
+/**
+ * 请求校验中间件测试
+ */
+
+import type { Context } from 'hono'
+import { Hono } from 'hono'
+import { describe, expect, it } from 'vitest'
+import { ValidationError } from '../errors'
+import type { CreateDictInput, ListQuery } from '../types'
+import { createDictSchema, listQuerySchema } from '../types/schemas'
+import { errorHandler } from './errorHandler'
+import {
+  getValidatedJson,
+  getValidatedQuery,
+  parseSchema,
+  validateJson,
+  validateQuery,
+} from './validation'
+
+type ErrorBody = { error: { message: string; details?: Record<string, string[]> } }
+
+describe('parseSchema', () => {
+  it('should return transformed data', () => {
+    expect(parseSchema(createDictSchema, { name: ' 标签 ', type: 'TAG', extra: 1 })).toEqual({
+      name: '标签',
+      type: 'TAG',
+    })
+  })
+
+  it('should group errors by field path', () => {
+    try {
+      parseSchema(createDictSchema, { name: 'a'.repeat(51), type: 'UNKNOWN', sort: 1.5 })
+      expect.unreachable()
+    } catch (error) {
+      expect(error).toBeInstanceOf(ValidationError)
+      const details = (error as ValidationError).details ?? {}
+      expect(Object.keys(details).sort()).toEqual(['name', 'sort', 'type'])
+      expect((error as ValidationError).message).toContain('name')
+    }
+  })
+
+  it('should report errors on the body itself as _root', () => {
+    expect(() => parseSchema(createDictSchema, [])).toThrow(ValidationError)
+    try {
+      parseSchema(createDictSchema, null)
+    } catch (error) {
+      expect(Object.keys((error as ValidationError).details ?? {})).toEqual(['_root'])
+    }
+  })
+})
+
+describe('validateJson', () => {
+  const app = new Hono()
+  app.onError(errorHandler)
+  app.post('/dict', validateJson(createDictSchema), (c: Context) =>
+    c.json(getValidatedJson<CreateDictInput>(c))
+  )
+
+  function post(body: string) {
+    return app.request('/dict', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body,
+    })
+  }
+
+  it('should pass the validated body to the handler', async () => {
+    const res = await post('{"name":"友链","type":"FRIENDLINK","value":"https://example.com"}')
+    expect(res.status).toBe(200)
+    expect(await res.json()).toEqual({
+      name: '友链',
+      type: 'FRIENDLINK',
+      value: 'https://example.com',
+    })
+  })
+
+  it('should return 400 with per-field details', async () => {
+    const res = await post('{"name":"","type":"TAG","sort":"1"}')
+    expect(res.status).toBe(400)
+    const body = (await res.json()) as ErrorBody
+    expect(Object.keys(body.error.details ?? {}).sort()).toEqual(['name', 'sort'])
+  })
+
+  it('should reject malformed JSON', async () => {
+    const res = await post('{')
+    expect(res.status).toBe(400)
+    expect(((await res.json()) as ErrorBody).error.message).toBe('请求体不是有效的 JSON')
+  })
+})
+
+describe('validateQuery', () => {
+  const app = new Hono()
+  app.onError(errorHandler)
+  app.get('/list', validateQuery(listQuerySchema), (c: Context) =>
+    c.json(getValidatedQuery<ListQuery>(c))
+  )
+
+  it('should apply defaults and convert values', async () => {
+    const res = await app.request('/list?pageSize=20&fields=id,title&withTotal=false&sort=')
+    expect(await res.json()).toEqual({
+      page: 1,
+      pageSize: 20,
+      withTotal: false,
+      fields: ['id', 'title'],
+    })
+  })
+
+  it('should reject invalid pagination and sort order', async () => {
+    const res = await app.request('/list?page=0&pageSize=101&sortOrder=up')
+    expect(res.status).toBe(400)
+    const body = (await res.json()) as ErrorBody
+    expect(Object.keys(body.error.details ?? {}).sort()).toEqual(['page', 'pageSize', 'sortOrder'])
+  })
+})
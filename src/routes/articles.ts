@@ -4,9 +4,21 @@
  * 实现文章管理相关的 API 端点：
  * - POST /api/v1/article - 创建文章（需要 EDITOR 或更高权限）
  * - PUT /api/v1/article/:id - 更新文章（需要 EDITOR 或更高权限）
+ * - PATCH /api/v1/article/:id - 部分更新文章（需要 EDITOR 或更高权限）
  * - DELETE /api/v1/article/:id - 删除文章（需要 MANAGE 或更高权限）
  * - GET /api/v1/article - 查询文章列表（需要认证）
+ * - GET /api/v1/article/review - 查询审核队列（需要 EDITOR 或更高权限）
+ * - GET /api/v1/article/facet - 分面统计文章（需要认证）
+ * - GET /api/v1/article/search - 全文搜索文章（需要认证）
+ * - POST /api/v1/article/search/reindex - 重建搜索索引（需要 MANAGE 或更高权限）
  * - GET /api/v1/article/:id - 获取单个文章（需要认证）
+ * - POST /api/v1/article/:id/approve - 审核通过（需要 EDITOR 或更高权限）
+ * - POST /api/v1/article/:id/reject - 驳回（需要 EDITOR 或更高权限）
+ * - POST /api/v1/article/:id/resubmit - 重新提交审核（文章作者或 EDITOR 或更高权限）
+ * - GET /api/v1/article/:id/revision - 查询修订版本列表（需要 EDITOR 或更高权限）
+ * - GET /api/v1/article/:id/revision/diff - 比较两个修订版本（需要 EDITOR 或更高权限）
+ * - GET /api/v1/article/:id/revision/:revisionId - 获取修订版本（需要 EDITOR 或更高权限）
+ * - POST /api/v1/article/:id/revision/:revisionId/restore - 恢复修订版本（需要 EDITOR 或更高权限）
  *
  * **验证需求**: 2.1, 2.2, 2.3, 2.4, 2.5
  */
@@ -14,22 +26,75 @@
 import { drizzle } from 'drizzle-orm/d1'
 import type { Context } from 'hono'
 import { Hono } from 'hono'
+import { articleModel } from '../db/models'
 import { AuthorizationError, ValidationError } from '../errors'
-import { auditMiddleware } from '../middleware/audit'
+import { auditMiddleware, setAuditContent } from '../middleware/audit'
 import { authMiddleware, getAuthContext } from '../middleware/auth'
 import { getSiteContext, siteMiddleware } from '../middleware/site'
+import {
+  getValidatedJson,
+  getValidatedQuery,
+  parseSchema,
+  validateJson,
+  validateQuery,
+} from '../middleware/validation'
+import { ArticleRevisionService } from '../services/articleRevisionService'
+import { ArticleSearchService } from '../services/articleSearchService'
 import { ArticleService } from '../services/articleService'
+import { CacheManager } from '../services/cacheManager'
 import {
+  type ArticleFacetQuery,
+  type ArticleListQuery,
+  type ArticleReindexQuery,
+  type ArticleSearchParams,
   type CreateArticleInput,
+  type ListQuery,
+  type PaginationQuery,
   type QueryParams,
+  type RejectArticleInput,
+  type RevisionDiffQuery,
   type UpdateArticleInput,
   UserTypeEnum,
 } from '../types'
+import {
+  articleFacetQuerySchema,
+  articleListQuerySchema,
+  articleReindexQuerySchema,
+  articleSearchQuerySchema,
+  createArticleSchema,
+  listQuerySchema,
+  paginationQuerySchema,
+  rejectArticleSchema,
+  revisionDiffQuerySchema,
+  updateArticleSchema,
+} from '../types/schemas'
+import { ArticleReviewActionEnum } from '../utils/articleStatus'
 import { checkPermission } from '../utils/authorization'
+import { getETag, jsonWithETag } from '../utils/etag'
+import { parseFacets } from '../utils/facetQuery'
+import { parseFilterQuery } from '../utils/filterQuery'
+import {
+  describeRoute,
+  type JsonSchema,
+  messageSchema,
+  modelSchema,
+  paginatedSchema,
+} from '../utils/openapi'
+import { applyPatch, parsePatchRequest } from '../utils/patch'
 import { successResponse } from '../utils/response'
 
 const articles = new Hono()
 
+// 重建索引响应结构（OpenAPI 文档）
+const reindexResultSchema: JsonSchema = {
+  type: 'object',
+  required: ['indexed', 'nextCursor'],
+  properties: {
+    indexed: { type: 'integer' },
+    nextCursor: { type: ['integer', 'null'], description: '为 null 时已完成' },
+  },
+}
+
 /**
  * POST /api/v1/articles
  * 创建文章（需要认证）
@@ -44,35 +109,42 @@ const articles = new Hono()
  *
  * **验证需求**: 2.1, 2.2
  */
-articles.post('/', authMiddleware, siteMiddleware, auditMiddleware, async (c: Context) => {
-  const authContext = getAuthContext(c)
-  const { siteId } = getSiteContext(c)
+articles.post(
+  '/',
+  describeRoute({
+    summary: '创建文章',
+    description: '需要认证',
+    status: 201,
+    response: modelSchema(articleModel),
+  }),
+  authMiddleware,
+  siteMiddleware,
+  auditMiddleware,
+  validateJson(createArticleSchema),
+  async (c: Context) => {
+    const authContext = getAuthContext(c)
+    const { siteId } = getSiteContext(c)
 
-  // 所有认证用户都可以创建文章
-  // USER 权限创建的文章默认为 PENDING 状态
-  // EDITOR 及以上权限创建的文章默认为 NORMAL 状态
+    // 所有认证用户都可以创建文章
+    // USER 权限创建的文章默认为 PENDING 状态
+    // EDITOR 及以上权限创建的文章默认为 NORMAL 状态
 
-  // 获取请求体
-  const body = (await c.req.json()) as CreateArticleInput
+    // 获取已校验的请求体
+    const body = getValidatedJson<CreateArticleInput>(c)
 
-  // 验证必填字段
-  if (!body.title) {
-    throw new ValidationError('文章标题不能为空')
-  }
-
-  if (!body.channel_id) {
-    throw new ValidationError('频道ID不能为空')
-  }
+    // 创建缓存管理器实例
+    const cacheManager = new CacheManager(c.env.CACHE)
 
-  // 创建文章服务实例
-  const db = drizzle(c.env.DB)
-  const articleService = new ArticleService(db)
+    // 创建文章服务实例
+    const db = drizzle(c.env.DB)
+    const articleService = new ArticleService(db, cacheManager)
 
-  // 创建文章，传递用户权限类型
-  const article = await articleService.create(body, siteId, authContext.userId, authContext.type)
+    // 创建文章，传递用户权限类型
+    const article = await articleService.create(body, siteId, authContext.userId, authContext.type)
 
-  return c.json(successResponse(article), 201)
-})
+    return c.json(successResponse(article), 201)
+  }
+)
 
 /**
  * PUT /api/v1/articles/:id
@@ -83,37 +155,136 @@ articles.post('/', authMiddleware, siteMiddleware, auditMiddleware, async (c: Co
  *
  * 请求体：UpdateArticleInput
  *
- * 响应：Article
+ * 请求头：
+ * - If-Match: string - 版本（可选，来自 ETag，与当前版本不一致时返回 412）
+ *
+ * 响应：Article（响应头 ETag 为更新后的版本）
  *
  * **验证需求**: 2.3
  */
-articles.put('/:id', authMiddleware, siteMiddleware, auditMiddleware, async (c: Context) => {
-  const authContext = getAuthContext(c)
-  const { siteId } = getSiteContext(c)
+articles.put(
+  '/:id',
+  describeRoute({
+    summary: '更新文章',
+    description: '需要 EDITOR 或更高权限',
+    response: modelSchema(articleModel),
+  }),
+  authMiddleware,
+  siteMiddleware,
+  auditMiddleware,
+  validateJson(updateArticleSchema),
+  async (c: Context) => {
+    const authContext = getAuthContext(c)
+    const { siteId } = getSiteContext(c)
 
-  // 检查权限：需要 EDITOR 或更高权限
-  if (!checkPermission(authContext.type, UserTypeEnum.EDITOR)) {
-    throw new AuthorizationError('权限不足，需要 EDITOR 或更高权限')
-  }
+    // 检查权限：需要 EDITOR 或更高权限
+    if (!checkPermission(authContext.type, UserTypeEnum.EDITOR)) {
+      throw new AuthorizationError('权限不足，需要 EDITOR 或更高权限')
+    }
+
+    // 获取文章ID
+    const articleId = parseInt(c.req.param('id'), 10)
+    if (isNaN(articleId) || articleId <= 0) {
+      throw new ValidationError('无效的文章ID')
+    }
+
+    // 获取已校验的请求体
+    const body = getValidatedJson<UpdateArticleInput>(c)
 
-  // 获取文章ID
-  const articleId = parseInt(c.req.param('id'), 10)
-  if (isNaN(articleId) || articleId <= 0) {
-    throw new ValidationError('无效的文章ID')
+    // 创建缓存管理器实例
+    const cacheManager = new CacheManager(c.env.CACHE)
+
+    // 创建文章服务实例
+    const db = drizzle(c.env.DB)
+    const articleService = new ArticleService(db, cacheManager)
+
+    // 更新文章
+    const article = await articleService.update(
+      articleId,
+      body,
+      siteId,
+      authContext.userId,
+      c.req.header('If-Match')
+    )
+
+    c.header('ETag', getETag(article))
+    return c.json(successResponse(article))
   }
+)
+
+/**
+ * PATCH /api/v1/articles/:id
+ * 部分更新文章（需要 EDITOR 或更高权限）
+ *
+ * 路径参数：
+ * - id: number - 文章ID
+ *
+ * 请求体（按 Content-Type 区分，只能修改 articleModel 声明的可修改字段）：
+ * - application/merge-patch+json: 要修改的字段，null 表示清空
+ * - application/json-patch+json: JSON Patch 操作数组
+ *
+ * 请求头：
+ * - If-Match: string - 版本（可选，来自 ETag，与当前版本不一致时返回 412）
+ *
+ * 响应：Article（响应头 ETag 为更新后的版本）
+ */
+articles.patch(
+  '/:id',
+  describeRoute({
+    summary: '部分更新文章',
+    description: '需要 EDITOR 或更高权限',
+    response: modelSchema(articleModel),
+  }),
+  authMiddleware,
+  siteMiddleware,
+  auditMiddleware,
+  async (c: Context) => {
+    const authContext = getAuthContext(c)
+    const { siteId } = getSiteContext(c)
+
+    // 检查权限：需要 EDITOR 或更高权限
+    if (!checkPermission(authContext.type, UserTypeEnum.EDITOR)) {
+      throw new AuthorizationError('权限不足，需要 EDITOR 或更高权限')
+    }
+
+    // 获取文章ID
+    const articleId = parseInt(c.req.param('id'), 10)
+    if (Number.isNaN(articleId) || articleId <= 0) {
+      throw new ValidationError('无效的文章ID')
+    }
+
+    // 获取补丁
+    const patch = await parsePatchRequest(c)
 
-  // 获取请求体
-  const body = (await c.req.json()) as UpdateArticleInput
+    // 创建缓存管理器实例
+    const cacheManager = new CacheManager(c.env.CACHE)
 
-  // 创建文章服务实例
-  const db = drizzle(c.env.DB)
-  const articleService = new ArticleService(db)
+    // 创建文章服务实例
+    const db = drizzle(c.env.DB)
+    const articleService = new ArticleService(db, cacheManager)
 
-  // 更新文章
-  const article = await articleService.update(articleId, body, siteId)
+    // 将补丁应用到当前文章
+    const existingArticle = await articleService.getById(articleId, siteId)
+    const { changes, ifMatch } = applyPatch(
+      existingArticle,
+      patch,
+      articleModel,
+      c.req.header('If-Match')
+    )
 
-  return c.json(successResponse(article))
-})
+    // 更新文章
+    const article = await articleService.update(
+      articleId,
+      parseSchema(updateArticleSchema, changes),
+      siteId,
+      authContext.userId,
+      ifMatch
+    )
+
+    c.header('ETag', getETag(article))
+    return c.json(successResponse(article))
+  }
+)
 
 /**
  * DELETE /api/v1/articles/:id
@@ -126,30 +297,44 @@ articles.put('/:id', authMiddleware, siteMiddleware, auditMiddleware, async (c:
  *
  * **验证需求**: 2.4
  */
-articles.delete('/:id', authMiddleware, siteMiddleware, auditMiddleware, async (c: Context) => {
-  const authContext = getAuthContext(c)
-  const { siteId } = getSiteContext(c)
+articles.delete(
+  '/:id',
+  describeRoute({
+    summary: '删除文章',
+    description: '需要 MANAGE 或更高权限',
+    response: messageSchema,
+  }),
+  authMiddleware,
+  siteMiddleware,
+  auditMiddleware,
+  async (c: Context) => {
+    const authContext = getAuthContext(c)
+    const { siteId } = getSiteContext(c)
 
-  // 检查权限：需要 MANAGE 或更高权限
-  if (!checkPermission(authContext.type, UserTypeEnum.MANAGE)) {
-    throw new AuthorizationError('权限不足，需要 MANAGE 或更高权限')
-  }
+    // 检查权限：需要 MANAGE 或更高权限
+    if (!checkPermission(authContext.type, UserTypeEnum.MANAGE)) {
+      throw new AuthorizationError('权限不足，需要 MANAGE 或更高权限')
+    }
 
-  // 获取文章ID
-  const articleId = parseInt(c.req.param('id'), 10)
-  if (isNaN(articleId) || articleId <= 0) {
-    throw new ValidationError('无效的文章ID')
-  }
+    // 获取文章ID
+    const articleId = parseInt(c.req.param('id'), 10)
+    if (isNaN(articleId) || articleId <= 0) {
+      throw new ValidationError('无效的文章ID')
+    }
 
-  // 创建文章服务实例
-  const db = drizzle(c.env.DB)
-  const articleService = new ArticleService(db)
+    // 创建缓存管理器实例
+    const cacheManager = new CacheManager(c.env.CACHE)
 
-  // 删除文章（软删除）
-  await articleService.delete(articleId, siteId)
+    // 创建文章服务实例
+    const db = drizzle(c.env.DB)
+    const articleService = new ArticleService(db, cacheManager)
 
-  return c.json(successResponse({ message: '文章已删除' }))
-})
+    // 删除文章（软删除）
+    await articleService.delete(articleId, siteId)
+
+    return c.json(successResponse({ message: '文章已删除' }))
+  }
+)
 
 /**
  * GET /api/v1/articles
@@ -158,78 +343,243 @@ articles.delete('/:id', authMiddleware, siteMiddleware, auditMiddleware, async (
  * 查询参数：
  * - page: number - 页码（默认 1）
  * - pageSize: number - 每页数量（默认 10）
- * - filters: object - 精确匹配过滤条件（如 channel_id, type, status）
+ * - filter[field][op]: 过滤条件（如 filter[channel_id][in]=3,5,9，语法见 utils/filterQuery）
  * - sort: string - 排序字段
  * - sortOrder: 'asc' | 'desc' - 排序方向
  * - search: string - 搜索关键词
  * - searchFields: string[] - 搜索字段（如 title, content）
- * - comparisons: object - 比较运算符过滤（如 gt, lt, gte, lte）
+ * - tag_id: number - 标签ID过滤（可选）
+ * - cursor: string - 游标（可选，来自上一次响应的 nextCursor/prevCursor，指定后忽略 page）
+ * - fields: string - 返回字段（逗号分隔，如 id,title,update_at）
+ * - expand: string - 展开关联（逗号分隔，可选 channel、author、origin、tags）
  *
  * 响应：PaginatedResult<Article>
  *
  * **验证需求**: 2.5
  */
-articles.get('/', authMiddleware, siteMiddleware, async (c: Context) => {
-  const { siteId } = getSiteContext(c)
-
-  // 获取查询参数
-  const page = parseInt(c.req.query('page') || '1', 10)
-  const pageSize = parseInt(c.req.query('pageSize') || '10', 10)
-  const sort = c.req.query('sort')
-  const sortOrder = c.req.query('sortOrder') as 'asc' | 'desc' | undefined
-  const search = c.req.query('search')
-  const searchFields = c.req.query('searchFields')?.split(',')
-
-  // 解析 filters 和 comparisons（如果作为 JSON 字符串传递）
-  let filters: Record<string, any> | undefined
-  let comparisons:
-    | { field: string; operator: 'gt' | 'lt' | 'gte' | 'lte'; value: any }[]
-    | undefined
-
-  const filtersParam = c.req.query('filters')
-  if (filtersParam) {
-    try {
-      filters = JSON.parse(filtersParam)
-    } catch (e) {
-      throw new ValidationError('无效的 filters 参数格式')
+articles.get(
+  '/',
+  describeRoute({
+    summary: '查询文章列表',
+    description: '需要认证，支持分页、过滤、排序和搜索',
+    response: paginatedSchema(modelSchema(articleModel)),
+  }),
+  authMiddleware,
+  siteMiddleware,
+  validateQuery(articleListQuerySchema),
+  async (c: Context) => {
+    const { siteId } = getSiteContext(c)
+
+    // 获取已校验的查询参数（标签过滤单独传给服务）
+    const { tag_id: tagId, ...query } = getValidatedQuery<ArticleListQuery>(c)
+
+    // 构建查询参数（解析 filter[...] 过滤参数）
+    const queryParams: QueryParams = {
+      ...query,
+      filterGroup: parseFilterQuery(new URL(c.req.url).searchParams),
     }
+
+    // 创建文章服务实例
+    const db = drizzle(c.env.DB)
+    const articleService = new ArticleService(db)
+
+    // 查询文章列表
+    const result = await articleService.query(queryParams, siteId, tagId)
+
+    return c.json(successResponse(result))
   }
+)
+
+/**
+ * GET /api/v1/article/review
+ * 查询审核队列（需要 EDITOR 或更高权限）
+ *
+ * 只返回待审核（PENDING）的文章，默认按创建时间升序排列。
+ *
+ * 查询参数：
+ * - page: number - 页码（默认 1）
+ * - pageSize: number - 每页数量（默认 10）
+ * - filter[field][op]: 过滤条件（如 filter[channel_id]=3，语法见 utils/filterQuery）
+ * - sort: string - 排序字段（默认 created_at）
+ * - sortOrder: 'asc' | 'desc' - 排序方向
+ * - search: string - 搜索关键词
+ * - searchFields: string[] - 搜索字段（如 title, content）
+ * - fields: string - 返回字段（逗号分隔）
+ * - expand: string - 展开关联（逗号分隔，可选 channel、author、origin、tags）
+ *
+ * 响应：PaginatedResult<Article>
+ */
+articles.get(
+  '/review',
+  describeRoute({
+    summary: '查询审核队列',
+    description: '需要 EDITOR 或更高权限',
+    response: paginatedSchema(modelSchema(articleModel)),
+  }),
+  authMiddleware,
+  siteMiddleware,
+  validateQuery(listQuerySchema),
+  async (c: Context) => {
+    const authContext = getAuthContext(c)
+    const { siteId } = getSiteContext(c)
+
+    // 检查权限：需要 EDITOR 或更高权限
+    if (!checkPermission(authContext.type, UserTypeEnum.EDITOR)) {
+      throw new AuthorizationError('权限不足，需要 EDITOR 或更高权限')
+    }
 
-  const comparisonsParam = c.req.query('comparisons')
-  if (comparisonsParam) {
-    try {
-      comparisons = JSON.parse(comparisonsParam)
-    } catch (e) {
-      throw new ValidationError('无效的 comparisons 参数格式')
+    // 构建查询参数（解析 filter[...] 过滤参数）
+    const queryParams: QueryParams = {
+      ...getValidatedQuery<ListQuery>(c),
+      filterGroup: parseFilterQuery(new URL(c.req.url).searchParams),
     }
+
+    // 创建文章服务实例
+    const db = drizzle(c.env.DB)
+    const articleService = new ArticleService(db)
+
+    // 查询审核队列
+    const result = await articleService.queryReviewQueue(queryParams, siteId)
+
+    return c.json(successResponse(result))
   }
+)
+
+/**
+ * GET /api/v1/article/facet
+ * 分面统计文章（需要认证）
+ *
+ * 按字段分组计数，用于列表页筛选侧栏和后台统计，统计条件与文章列表相同。
+ *
+ * 查询参数：
+ * - facets: string - 统计字段（必填，逗号分隔，日期字段需指定粒度，如 channel_id,status,created_at:month）
+ * - filter[field][op]: 过滤条件（语法见 utils/filterQuery）
+ * - search: string - 搜索关键词
+ * - searchFields: string[] - 搜索字段（如 title, content）
+ * - tag_id: number - 标签ID过滤（可选）
+ *
+ * 响应：FacetResult
+ */
+articles.get(
+  '/facet',
+  describeRoute({ summary: '分面统计文章', description: '需要认证' }),
+  authMiddleware,
+  siteMiddleware,
+  validateQuery(articleFacetQuerySchema),
+  async (c: Context) => {
+    const { siteId } = getSiteContext(c)
+
+    // 获取已校验的查询参数
+    const { facets: facetsParam, tag_id: tagId, ...query } = getValidatedQuery<ArticleFacetQuery>(c)
+
+    // 解析统计字段和过滤参数
+    const facets = parseFacets(facetsParam)
+    const queryParams: QueryParams = {
+      ...query,
+      filterGroup: parseFilterQuery(new URL(c.req.url).searchParams),
+    }
 
-  // 验证分页参数
-  if (page < 1 || pageSize < 1 || pageSize > 100) {
-    throw new ValidationError('无效的分页参数')
+    // 创建文章服务实例
+    const db = drizzle(c.env.DB)
+    const articleService = new ArticleService(db)
+
+    // 分面统计
+    const result = await articleService.facets(queryParams, facets, siteId, tagId)
+
+    return c.json(successResponse(result))
   }
+)
 
-  // 构建查询参数
-  const queryParams: QueryParams = {
-    page,
-    pageSize,
-    filters,
-    sort,
-    sortOrder,
-    search,
-    searchFields,
-    comparisons,
+/**
+ * GET /api/v1/article/search
+ * 全文搜索文章（需要认证）
+ *
+ * 基于 FTS5 索引搜索标题、描述和正文，支持中文，按相关度排序。
+ *
+ * 查询参数：
+ * - q: string - 搜索关键词（必填）
+ * - page: number - 页码（默认 1）
+ * - pageSize: number - 每页数量（默认 10，最大 100）
+ * - channel_id: number - 频道ID过滤（可选）
+ * - type: ArticleTypeEnum - 文章类型过滤（可选）
+ * - status: StatusEnum - 状态过滤（可选）
+ *
+ * 响应：PaginatedResult<ArticleSearchResult>（含 score 和 highlights）
+ */
+articles.get(
+  '/search',
+  describeRoute({
+    summary: '全文搜索文章',
+    description: '需要认证',
+    response: paginatedSchema(modelSchema(articleModel)),
+  }),
+  authMiddleware,
+  siteMiddleware,
+  validateQuery(articleSearchQuerySchema),
+  async (c: Context) => {
+    const { siteId } = getSiteContext(c)
+
+    // 获取已校验的搜索参数
+    const searchParams = getValidatedQuery<ArticleSearchParams>(c)
+
+    // 创建搜索服务实例
+    const db = drizzle(c.env.DB)
+    const searchService = new ArticleSearchService(db)
+
+    // 搜索文章
+    const result = await searchService.search(searchParams, siteId)
+
+    return c.json(successResponse(result))
   }
+)
 
-  // 创建文章服务实例
-  const db = drizzle(c.env.DB)
-  const articleService = new ArticleService(db)
+/**
+ * POST /api/v1/article/search/reindex
+ * 重建当前站点的搜索索引（需要 MANAGE 或更高权限）
+ *
+ * 用于首次启用全文搜索或修复索引。每次请求处理一批文章，
+ * 响应的 nextCursor 不为 null 时，以 ?cursor={nextCursor} 再次请求直到完成。
+ *
+ * 查询参数：
+ * - cursor: number - 起始游标（默认 0，即从头开始）
+ *
+ * 响应：{ indexed: number, nextCursor: number | null }
+ */
+articles.post(
+  '/search/reindex',
+  describeRoute({
+    summary: '重建当前站点的搜索索引',
+    description: '需要 MANAGE 或更高权限',
+    response: reindexResultSchema,
+  }),
+  authMiddleware,
+  siteMiddleware,
+  auditMiddleware,
+  validateQuery(articleReindexQuerySchema),
+  async (c: Context) => {
+    const authContext = getAuthContext(c)
+    const { siteId } = getSiteContext(c)
+
+    // 检查权限：需要 MANAGE 或更高权限
+    if (!checkPermission(authContext.type, UserTypeEnum.MANAGE)) {
+      throw new AuthorizationError('权限不足，需要 MANAGE 或更高权限')
+    }
+
+    const { cursor } = getValidatedQuery<ArticleReindexQuery>(c)
+
+    // 创建搜索服务实例
+    const db = drizzle(c.env.DB)
+    const searchService = new ArticleSearchService(db)
 
-  // 查询文章列表
-  const result = await articleService.query(queryParams, siteId)
+    // 重建一批搜索索引
+    const result = await searchService.rebuild(siteId, cursor)
 
-  return c.json(successResponse(result))
-})
+    // 记录重建操作到审计日志
+    setAuditContent(c, `REINDEX ARTICLE SEARCH (cursor ${cursor}, ${result.indexed} articles)`)
+
+    return c.json(successResponse(result))
+  }
+)
 
 /**
  * GET /api/v1/articles/:id
@@ -238,27 +588,440 @@ articles.get('/', authMiddleware, siteMiddleware, async (c: Context) => {
  * 路径参数：
  * - id: number - 文章ID
  *
- * 响应：Article
+ * 请求头：
+ * - If-None-Match: string - 版本（可选，与当前版本一致时返回 304）
+ *
+ * 响应：Article（响应头 ETag 为当前版本）
  *
  * **验证需求**: 2.5
  */
-articles.get('/:id', authMiddleware, siteMiddleware, async (c: Context) => {
-  const { siteId } = getSiteContext(c)
+articles.get(
+  '/:id',
+  describeRoute({
+    summary: '获取单个文章',
+    description: '需要认证',
+    response: modelSchema(articleModel),
+  }),
+  authMiddleware,
+  siteMiddleware,
+  async (c: Context) => {
+    const { siteId } = getSiteContext(c)
+
+    // 获取文章ID
+    const articleId = parseInt(c.req.param('id'), 10)
+    if (isNaN(articleId) || articleId <= 0) {
+      throw new ValidationError('无效的文章ID')
+    }
+
+    // 创建文章服务实例
+    const db = drizzle(c.env.DB)
+    const articleService = new ArticleService(db)
+
+    // 获取文章详情
+    const article = await articleService.getById(articleId, siteId)
+
+    return jsonWithETag(c, article)
+  }
+)
+
+/**
+ * POST /api/v1/article/:id/approve
+ * 审核通过（需要 EDITOR 或更高权限）
+ *
+ * 状态转换：PENDING -> NORMAL（未到发布时间为 SCHEDULED，已到下线时间为 EXPIRED）
+ *
+ * 路径参数：
+ * - id: number - 文章ID
+ *
+ * 响应：Article
+ */
+articles.post(
+  '/:id/approve',
+  describeRoute({
+    summary: '审核通过',
+    description: '需要 EDITOR 或更高权限',
+    response: modelSchema(articleModel),
+  }),
+  authMiddleware,
+  siteMiddleware,
+  auditMiddleware,
+  async (c: Context) => {
+    const authContext = getAuthContext(c)
+    const { siteId } = getSiteContext(c)
+
+    // 检查权限：需要 EDITOR 或更高权限
+    if (!checkPermission(authContext.type, UserTypeEnum.EDITOR)) {
+      throw new AuthorizationError('权限不足，需要 EDITOR 或更高权限')
+    }
+
+    // 获取文章ID
+    const articleId = parseInt(c.req.param('id'), 10)
+    if (Number.isNaN(articleId) || articleId <= 0) {
+      throw new ValidationError('无效的文章ID')
+    }
+
+    // 创建缓存管理器实例
+    const cacheManager = new CacheManager(c.env.CACHE)
+
+    // 创建文章服务实例
+    const db = drizzle(c.env.DB)
+    const articleService = new ArticleService(db, cacheManager)
+
+    // 审核通过
+    const { article, from, to } = await articleService.review(
+      articleId,
+      ArticleReviewActionEnum.APPROVE,
+      siteId
+    )
+
+    // 记录状态转换到审计日志
+    setAuditContent(c, `APPROVE ARTICLE #${articleId}: ${from} -> ${to}`)
+
+    return c.json(successResponse(article))
+  }
+)
+
+/**
+ * POST /api/v1/article/:id/reject
+ * 驳回（需要 EDITOR 或更高权限）
+ *
+ * 状态转换：PENDING/SCHEDULED/NORMAL/EXPIRED -> FAILURE
+ *
+ * 路径参数：
+ * - id: number - 文章ID
+ *
+ * 请求体：RejectArticleInput（reason 必填）
+ *
+ * 响应：Article
+ */
+articles.post(
+  '/:id/reject',
+  describeRoute({
+    summary: '驳回',
+    description: '需要 EDITOR 或更高权限',
+    response: modelSchema(articleModel),
+  }),
+  authMiddleware,
+  siteMiddleware,
+  auditMiddleware,
+  validateJson(rejectArticleSchema),
+  async (c: Context) => {
+    const authContext = getAuthContext(c)
+    const { siteId } = getSiteContext(c)
+
+    // 检查权限：需要 EDITOR 或更高权限
+    if (!checkPermission(authContext.type, UserTypeEnum.EDITOR)) {
+      throw new AuthorizationError('权限不足，需要 EDITOR 或更高权限')
+    }
+
+    // 获取文章ID
+    const articleId = parseInt(c.req.param('id'), 10)
+    if (Number.isNaN(articleId) || articleId <= 0) {
+      throw new ValidationError('无效的文章ID')
+    }
+
+    // 获取已校验的请求体
+    const body = getValidatedJson<RejectArticleInput>(c)
+
+    // 创建缓存管理器实例
+    const cacheManager = new CacheManager(c.env.CACHE)
+
+    // 创建文章服务实例
+    const db = drizzle(c.env.DB)
+    const articleService = new ArticleService(db, cacheManager)
+
+    // 驳回文章
+    const { article, from, to } = await articleService.review(
+      articleId,
+      ArticleReviewActionEnum.REJECT,
+      siteId,
+      body.reason
+    )
+
+    // 记录状态转换到审计日志
+    setAuditContent(
+      c,
+      `REJECT ARTICLE #${articleId}: ${from} -> ${to}，原因：${article.reject_reason}`
+    )
+
+    return c.json(successResponse(article))
+  }
+)
+
+/**
+ * POST /api/v1/article/:id/resubmit
+ * 重新提交审核（文章作者或 EDITOR 或更高权限）
+ *
+ * 状态转换：FAILURE -> PENDING
+ *
+ * 路径参数：
+ * - id: number - 文章ID
+ *
+ * 响应：Article
+ */
+articles.post(
+  '/:id/resubmit',
+  describeRoute({
+    summary: '重新提交审核',
+    description: '文章作者或 EDITOR 或更高权限',
+    response: modelSchema(articleModel),
+  }),
+  authMiddleware,
+  siteMiddleware,
+  auditMiddleware,
+  async (c: Context) => {
+    const authContext = getAuthContext(c)
+    const { siteId } = getSiteContext(c)
+
+    // 获取文章ID
+    const articleId = parseInt(c.req.param('id'), 10)
+    if (Number.isNaN(articleId) || articleId <= 0) {
+      throw new ValidationError('无效的文章ID')
+    }
+
+    // 创建缓存管理器实例
+    const cacheManager = new CacheManager(c.env.CACHE)
+
+    // 创建文章服务实例
+    const db = drizzle(c.env.DB)
+    const articleService = new ArticleService(db, cacheManager)
+
+    // 检查权限：EDITOR 以下权限只能重新提交自己的文章
+    if (!checkPermission(authContext.type, UserTypeEnum.EDITOR)) {
+      const existingArticle = await articleService.getById(articleId, siteId)
+      if (existingArticle.user_id !== authContext.userId) {
+        throw new AuthorizationError('权限不足，只能重新提交自己的文章')
+      }
+    }
+
+    // 重新提交审核
+    const { article, from, to } = await articleService.review(
+      articleId,
+      ArticleReviewActionEnum.RESUBMIT,
+      siteId
+    )
 
-  // 获取文章ID
-  const articleId = parseInt(c.req.param('id'), 10)
-  if (isNaN(articleId) || articleId <= 0) {
-    throw new ValidationError('无效的文章ID')
+    // 记录状态转换到审计日志
+    setAuditContent(c, `RESUBMIT ARTICLE #${articleId}: ${from} -> ${to}`)
+
+    return c.json(successResponse(article))
   }
+)
 
-  // 创建文章服务实例
-  const db = drizzle(c.env.DB)
-  const articleService = new ArticleService(db)
+/**
+ * GET /api/v1/article/:id/revision
+ * 查询修订版本列表（需要 EDITOR 或更高权限）
+ *
+ * 路径参数：
+ * - id: number - 文章ID
+ *
+ * 查询参数：
+ * - page: number - 页码（默认 1）
+ * - pageSize: number - 每页数量（默认 10）
+ *
+ * 响应：PaginatedResult<ArticleRevisionSummary>
+ */
+articles.get(
+  '/:id/revision',
+  describeRoute({ summary: '查询修订版本列表', description: '需要 EDITOR 或更高权限' }),
+  authMiddleware,
+  siteMiddleware,
+  validateQuery(paginationQuerySchema),
+  async (c: Context) => {
+    const authContext = getAuthContext(c)
+    const { siteId } = getSiteContext(c)
+
+    // 检查权限：需要 EDITOR 或更高权限
+    if (!checkPermission(authContext.type, UserTypeEnum.EDITOR)) {
+      throw new AuthorizationError('权限不足，需要 EDITOR 或更高权限')
+    }
+
+    // 获取文章ID
+    const articleId = parseInt(c.req.param('id'), 10)
+    if (Number.isNaN(articleId) || articleId <= 0) {
+      throw new ValidationError('无效的文章ID')
+    }
 
-  // 获取文章详情
-  const article = await articleService.getById(articleId, siteId)
+    // 创建文章服务实例
+    const db = drizzle(c.env.DB)
+    const articleService = new ArticleService(db)
+    const revisionService = new ArticleRevisionService(db)
 
-  return c.json(successResponse(article))
-})
+    // 检查文章是否存在
+    await articleService.getById(articleId, siteId)
+
+    // 查询修订版本列表
+    const result = await revisionService.query(
+      articleId,
+      siteId,
+      getValidatedQuery<PaginationQuery>(c)
+    )
+
+    return c.json(successResponse(result))
+  }
+)
+
+/**
+ * GET /api/v1/article/:id/revision/diff
+ * 比较两个修订版本（需要 EDITOR 或更高权限）
+ *
+ * 路径参数：
+ * - id: number - 文章ID
+ *
+ * 查询参数：
+ * - from: number - 旧版本ID
+ * - to: number - 新版本ID
+ *
+ * 响应：ArticleRevisionDiff（按字段的按行差异）
+ */
+articles.get(
+  '/:id/revision/diff',
+  describeRoute({ summary: '比较两个修订版本', description: '需要 EDITOR 或更高权限' }),
+  authMiddleware,
+  siteMiddleware,
+  validateQuery(revisionDiffQuerySchema),
+  async (c: Context) => {
+    const authContext = getAuthContext(c)
+    const { siteId } = getSiteContext(c)
+
+    // 检查权限：需要 EDITOR 或更高权限
+    if (!checkPermission(authContext.type, UserTypeEnum.EDITOR)) {
+      throw new AuthorizationError('权限不足，需要 EDITOR 或更高权限')
+    }
+
+    // 获取文章ID
+    const articleId = parseInt(c.req.param('id'), 10)
+    if (Number.isNaN(articleId) || articleId <= 0) {
+      throw new ValidationError('无效的文章ID')
+    }
+
+    // 获取已校验的版本ID
+    const { from: fromId, to: toId } = getValidatedQuery<RevisionDiffQuery>(c)
+
+    // 创建修订版本服务实例
+    const db = drizzle(c.env.DB)
+    const revisionService = new ArticleRevisionService(db)
+
+    // 比较修订版本
+    const result = await revisionService.diff(articleId, fromId, toId, siteId)
+
+    return c.json(successResponse(result))
+  }
+)
+
+/**
+ * GET /api/v1/article/:id/revision/:revisionId
+ * 获取修订版本（需要 EDITOR 或更高权限）
+ *
+ * 路径参数：
+ * - id: number - 文章ID
+ * - revisionId: number - 修订版本ID
+ *
+ * 响应：ArticleRevision
+ */
+articles.get(
+  '/:id/revision/:revisionId',
+  describeRoute({ summary: '获取修订版本', description: '需要 EDITOR 或更高权限' }),
+  authMiddleware,
+  siteMiddleware,
+  async (c: Context) => {
+    const authContext = getAuthContext(c)
+    const { siteId } = getSiteContext(c)
+
+    // 检查权限：需要 EDITOR 或更高权限
+    if (!checkPermission(authContext.type, UserTypeEnum.EDITOR)) {
+      throw new AuthorizationError('权限不足，需要 EDITOR 或更高权限')
+    }
+
+    // 获取文章ID和修订版本ID
+    const articleId = parseInt(c.req.param('id'), 10)
+    if (Number.isNaN(articleId) || articleId <= 0) {
+      throw new ValidationError('无效的文章ID')
+    }
+
+    const revisionId = parseInt(c.req.param('revisionId'), 10)
+    if (Number.isNaN(revisionId) || revisionId <= 0) {
+      throw new ValidationError('无效的修订版本ID')
+    }
+
+    // 创建修订版本服务实例
+    const db = drizzle(c.env.DB)
+    const revisionService = new ArticleRevisionService(db)
+
+    // 获取修订版本
+    const revision = await revisionService.getById(articleId, revisionId, siteId)
+
+    return c.json(successResponse(revision))
+  }
+)
+
+/**
+ * POST /api/v1/article/:id/revision/:revisionId/restore
+ * 恢复修订版本（需要 EDITOR 或更高权限）
+ *
+ * 将修订版本的标题、描述和正文恢复为当前内容，并保存为新的修订版本。
+ *
+ * 路径参数：
+ * - id: number - 文章ID
+ * - revisionId: number - 修订版本ID
+ *
+ * 请求头：
+ * - If-Match: string - 版本（可选，来自 ETag，与当前版本不一致时返回 412）
+ *
+ * 响应：Article（响应头 ETag 为恢复后的版本）
+ */
+articles.post(
+  '/:id/revision/:revisionId/restore',
+  describeRoute({
+    summary: '恢复修订版本',
+    description: '需要 EDITOR 或更高权限',
+    response: modelSchema(articleModel),
+  }),
+  authMiddleware,
+  siteMiddleware,
+  auditMiddleware,
+  async (c: Context) => {
+    const authContext = getAuthContext(c)
+    const { siteId } = getSiteContext(c)
+
+    // 检查权限：需要 EDITOR 或更高权限
+    if (!checkPermission(authContext.type, UserTypeEnum.EDITOR)) {
+      throw new AuthorizationError('权限不足，需要 EDITOR 或更高权限')
+    }
+
+    // 获取文章ID和修订版本ID
+    const articleId = parseInt(c.req.param('id'), 10)
+    if (Number.isNaN(articleId) || articleId <= 0) {
+      throw new ValidationError('无效的文章ID')
+    }
+
+    const revisionId = parseInt(c.req.param('revisionId'), 10)
+    if (Number.isNaN(revisionId) || revisionId <= 0) {
+      throw new ValidationError('无效的修订版本ID')
+    }
+
+    // 创建缓存管理器实例
+    const cacheManager = new CacheManager(c.env.CACHE)
+
+    // 创建文章服务实例
+    const db = drizzle(c.env.DB)
+    const articleService = new ArticleService(db, cacheManager)
+
+    // 恢复修订版本
+    const article = await articleService.restoreRevision(
+      articleId,
+      revisionId,
+      siteId,
+      authContext.userId,
+      c.req.header('If-Match')
+    )
+
+    // 记录恢复操作到审计日志
+    setAuditContent(c, `RESTORE ARTICLE #${articleId}: revision #${revisionId}`)
+
+    c.header('ETag', getETag(article))
+    return c.json(successResponse(article))
+  }
+)
 
 export default articles
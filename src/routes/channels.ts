@@ -4,6 +4,7 @@
  * 实现频道管理相关的 API 端点：
  * - POST /api/v1/channel - 创建频道（需要 MANAGE 或更高权限）
  * - PUT /api/v1/channel/:id - 更新频道（需要 MANAGE 或更高权限）
+ * - PATCH /api/v1/channel/:id - 部分更新频道（需要 MANAGE 或更高权限）
  * - DELETE /api/v1/channel/:id - 删除频道（需要 MANAGE 或更高权限）
  * - GET /api/v1/channel/tree - 获取频道树（需要认证）
  *
@@ -13,14 +14,20 @@
 import { drizzle } from 'drizzle-orm/d1'
 import type { Context } from 'hono'
 import { Hono } from 'hono'
+import { channelModel } from '../db/models'
 import { AuthorizationError, ValidationError } from '../errors'
 import { auditMiddleware } from '../middleware/audit'
 import { authMiddleware, getAuthContext } from '../middleware/auth'
 import { getSiteContext, siteMiddleware } from '../middleware/site'
+import { getValidatedJson, parseSchema, validateJson } from '../middleware/validation'
 import { CacheManager } from '../services/cacheManager'
 import { ChannelService } from '../services/channelService'
 import { type CreateChannelInput, type UpdateChannelInput, UserTypeEnum } from '../types'
+import { createChannelSchema, updateChannelSchema } from '../types/schemas'
 import { checkPermission } from '../utils/authorization'
+import { getETag } from '../utils/etag'
+import { describeRoute, listSchema, messageSchema, modelSchema } from '../utils/openapi'
+import { applyPatch, parsePatchRequest } from '../utils/patch'
 import { successResponse } from '../utils/response'
 
 const channels = new Hono()
@@ -35,35 +42,43 @@ const channels = new Hono()
  *
  * **验证需求**: 3.1, 3.2
  */
-channels.post('/', authMiddleware, siteMiddleware, auditMiddleware, async (c: Context) => {
-  const authContext = getAuthContext(c)
-  const { siteId } = getSiteContext(c)
+channels.post(
+  '/',
+  describeRoute({
+    summary: '创建频道',
+    description: '需要 MANAGE 或更高权限',
+    status: 201,
+    response: modelSchema(channelModel),
+  }),
+  authMiddleware,
+  siteMiddleware,
+  auditMiddleware,
+  validateJson(createChannelSchema),
+  async (c: Context) => {
+    const authContext = getAuthContext(c)
+    const { siteId } = getSiteContext(c)
 
-  // 检查权限：需要 MANAGE 或更高权限
-  if (!checkPermission(authContext.type, UserTypeEnum.MANAGE)) {
-    throw new AuthorizationError('权限不足，需要 MANAGE 或更高权限')
-  }
-
-  // 获取请求体
-  const body = (await c.req.json()) as CreateChannelInput
+    // 检查权限：需要 MANAGE 或更高权限
+    if (!checkPermission(authContext.type, UserTypeEnum.MANAGE)) {
+      throw new AuthorizationError('权限不足，需要 MANAGE 或更高权限')
+    }
 
-  // 验证必填字段
-  if (!body.name) {
-    throw new ValidationError('频道名称不能为空')
-  }
+    // 获取已校验的请求体
+    const body = getValidatedJson<CreateChannelInput>(c)
 
-  // 创建缓存管理器实例
-  const cacheManager = new CacheManager(c.env.CACHE)
+    // 创建缓存管理器实例
+    const cacheManager = new CacheManager(c.env.CACHE)
 
-  // 创建频道服务实例
-  const db = drizzle(c.env.DB)
-  const channelService = new ChannelService(db, cacheManager)
+    // 创建频道服务实例
+    const db = drizzle(c.env.DB)
+    const channelService = new ChannelService(db, cacheManager)
 
-  // 创建频道
-  const channel = await channelService.create(body, siteId)
+    // 创建频道
+    const channel = await channelService.create(body, siteId)
 
-  return c.json(successResponse(channel), 201)
-})
+    return c.json(successResponse(channel), 201)
+  }
+)
 
 /**
  * PUT /api/v1/channels/:id
@@ -74,40 +89,129 @@ channels.post('/', authMiddleware, siteMiddleware, auditMiddleware, async (c: Co
  *
  * 请求体：UpdateChannelInput
  *
- * 响应：Channel
+ * 请求头：
+ * - If-Match: string - 版本（可选，来自 ETag，与当前版本不一致时返回 412）
+ *
+ * 响应：Channel（响应头 ETag 为更新后的版本）
  *
  * **验证需求**: 3.2, 3.4
  */
-channels.put('/:id', authMiddleware, siteMiddleware, auditMiddleware, async (c: Context) => {
-  const authContext = getAuthContext(c)
-  const { siteId } = getSiteContext(c)
+channels.put(
+  '/:id',
+  describeRoute({
+    summary: '更新频道',
+    description: '需要 MANAGE 或更高权限',
+    response: modelSchema(channelModel),
+  }),
+  authMiddleware,
+  siteMiddleware,
+  auditMiddleware,
+  validateJson(updateChannelSchema),
+  async (c: Context) => {
+    const authContext = getAuthContext(c)
+    const { siteId } = getSiteContext(c)
 
-  // 检查权限：需要 MANAGE 或更高权限
-  if (!checkPermission(authContext.type, UserTypeEnum.MANAGE)) {
-    throw new AuthorizationError('权限不足，需要 MANAGE 或更高权限')
-  }
+    // 检查权限：需要 MANAGE 或更高权限
+    if (!checkPermission(authContext.type, UserTypeEnum.MANAGE)) {
+      throw new AuthorizationError('权限不足，需要 MANAGE 或更高权限')
+    }
+
+    // 获取频道ID
+    const channelId = parseInt(c.req.param('id'), 10)
+    if (isNaN(channelId) || channelId <= 0) {
+      throw new ValidationError('无效的频道ID')
+    }
 
-  // 获取频道ID
-  const channelId = parseInt(c.req.param('id'), 10)
-  if (isNaN(channelId) || channelId <= 0) {
-    throw new ValidationError('无效的频道ID')
+    // 获取已校验的请求体
+    const body = getValidatedJson<UpdateChannelInput>(c)
+
+    // 创建缓存管理器实例
+    const cacheManager = new CacheManager(c.env.CACHE)
+
+    // 创建频道服务实例
+    const db = drizzle(c.env.DB)
+    const channelService = new ChannelService(db, cacheManager)
+
+    // 更新频道
+    const channel = await channelService.update(channelId, body, siteId, c.req.header('If-Match'))
+
+    c.header('ETag', getETag(channel))
+    return c.json(successResponse(channel))
   }
+)
 
-  // 获取请求体
-  const body = (await c.req.json()) as UpdateChannelInput
+/**
+ * PATCH /api/v1/channels/:id
+ * 部分更新频道（需要 MANAGE 或更高权限）
+ *
+ * 路径参数：
+ * - id: number - 频道ID
+ *
+ * 请求体（按 Content-Type 区分，只能修改 channelModel 声明的可修改字段）：
+ * - application/merge-patch+json: 要修改的字段，null 表示清空
+ * - application/json-patch+json: JSON Patch 操作数组
+ *
+ * 请求头：
+ * - If-Match: string - 版本（可选，来自 ETag，与当前版本不一致时返回 412）
+ *
+ * 响应：Channel（响应头 ETag 为更新后的版本）
+ */
+channels.patch(
+  '/:id',
+  describeRoute({
+    summary: '部分更新频道',
+    description: '需要 MANAGE 或更高权限',
+    response: modelSchema(channelModel),
+  }),
+  authMiddleware,
+  siteMiddleware,
+  auditMiddleware,
+  async (c: Context) => {
+    const authContext = getAuthContext(c)
+    const { siteId } = getSiteContext(c)
+
+    // 检查权限：需要 MANAGE 或更高权限
+    if (!checkPermission(authContext.type, UserTypeEnum.MANAGE)) {
+      throw new AuthorizationError('权限不足，需要 MANAGE 或更高权限')
+    }
+
+    // 获取频道ID
+    const channelId = parseInt(c.req.param('id'), 10)
+    if (Number.isNaN(channelId) || channelId <= 0) {
+      throw new ValidationError('无效的频道ID')
+    }
 
-  // 创建缓存管理器实例
-  const cacheManager = new CacheManager(c.env.CACHE)
+    // 获取补丁
+    const patch = await parsePatchRequest(c)
 
-  // 创建频道服务实例
-  const db = drizzle(c.env.DB)
-  const channelService = new ChannelService(db, cacheManager)
+    // 创建缓存管理器实例
+    const cacheManager = new CacheManager(c.env.CACHE)
 
-  // 更新频道
-  const channel = await channelService.update(channelId, body, siteId)
+    // 创建频道服务实例
+    const db = drizzle(c.env.DB)
+    const channelService = new ChannelService(db, cacheManager)
 
-  return c.json(successResponse(channel))
-})
+    // 将补丁应用到当前频道
+    const existingChannel = await channelService.getById(channelId, siteId)
+    const { changes, ifMatch } = applyPatch(
+      existingChannel,
+      patch,
+      channelModel,
+      c.req.header('If-Match')
+    )
+
+    // 更新频道
+    const channel = await channelService.update(
+      channelId,
+      parseSchema(updateChannelSchema, changes),
+      siteId,
+      ifMatch
+    )
+
+    c.header('ETag', getETag(channel))
+    return c.json(successResponse(channel))
+  }
+)
 
 /**
  * DELETE /api/v1/channels/:id
@@ -120,33 +224,44 @@ channels.put('/:id', authMiddleware, siteMiddleware, auditMiddleware, async (c:
  *
  * **验证需求**: 3.4
  */
-channels.delete('/:id', authMiddleware, siteMiddleware, auditMiddleware, async (c: Context) => {
-  const authContext = getAuthContext(c)
-  const { siteId } = getSiteContext(c)
+channels.delete(
+  '/:id',
+  describeRoute({
+    summary: '删除频道',
+    description: '需要 MANAGE 或更高权限',
+    response: messageSchema,
+  }),
+  authMiddleware,
+  siteMiddleware,
+  auditMiddleware,
+  async (c: Context) => {
+    const authContext = getAuthContext(c)
+    const { siteId } = getSiteContext(c)
 
-  // 检查权限：需要 MANAGE 或更高权限
-  if (!checkPermission(authContext.type, UserTypeEnum.MANAGE)) {
-    throw new AuthorizationError('权限不足，需要 MANAGE 或更高权限')
-  }
+    // 检查权限：需要 MANAGE 或更高权限
+    if (!checkPermission(authContext.type, UserTypeEnum.MANAGE)) {
+      throw new AuthorizationError('权限不足，需要 MANAGE 或更高权限')
+    }
 
-  // 获取频道ID
-  const channelId = parseInt(c.req.param('id'), 10)
-  if (isNaN(channelId) || channelId <= 0) {
-    throw new ValidationError('无效的频道ID')
-  }
+    // 获取频道ID
+    const channelId = parseInt(c.req.param('id'), 10)
+    if (isNaN(channelId) || channelId <= 0) {
+      throw new ValidationError('无效的频道ID')
+    }
 
-  // 创建缓存管理器实例
-  const cacheManager = new CacheManager(c.env.CACHE)
+    // 创建缓存管理器实例
+    const cacheManager = new CacheManager(c.env.CACHE)
 
-  // 创建频道服务实例
-  const db = drizzle(c.env.DB)
-  const channelService = new ChannelService(db, cacheManager)
+    // 创建频道服务实例
+    const db = drizzle(c.env.DB)
+    const channelService = new ChannelService(db, cacheManager)
 
-  // 删除频道（软删除）
-  await channelService.delete(channelId, siteId)
+    // 删除频道（软删除）
+    await channelService.delete(channelId, siteId)
 
-  return c.json(successResponse({ message: '频道已删除' }))
-})
+    return c.json(successResponse({ message: '频道已删除' }))
+  }
+)
 
 /**
  * GET /api/v1/channels/tree
@@ -156,20 +271,30 @@ channels.delete('/:id', authMiddleware, siteMiddleware, auditMiddleware, async (
  *
  * **验证需求**: 3.3
  */
-channels.get('/tree', authMiddleware, siteMiddleware, async (c: Context) => {
-  const { siteId } = getSiteContext(c)
+channels.get(
+  '/tree',
+  describeRoute({
+    summary: '获取频道树',
+    description: '需要认证',
+    response: listSchema(modelSchema(channelModel)),
+  }),
+  authMiddleware,
+  siteMiddleware,
+  async (c: Context) => {
+    const { siteId } = getSiteContext(c)
 
-  // 创建缓存管理器实例
-  const cacheManager = new CacheManager(c.env.CACHE)
+    // 创建缓存管理器实例
+    const cacheManager = new CacheManager(c.env.CACHE)
 
-  // 创建频道服务实例
-  const db = drizzle(c.env.DB)
-  const channelService = new ChannelService(db, cacheManager)
+    // 创建频道服务实例
+    const db = drizzle(c.env.DB)
+    const channelService = new ChannelService(db, cacheManager)
 
-  // 获取频道树
-  const tree = await channelService.getTree(siteId)
+    // 获取频道树
+    const tree = await channelService.getTree(siteId)
 
-  return c.json(successResponse(tree))
-})
+    return c.json(successResponse(tree))
+  }
+)
 
 export default channels
@@ -4,6 +4,7 @@
  * 实现字典管理相关的 API 端点：
  * - POST /api/v1/dict - 创建字典条目（需要 MANAGE 或更高权限）
  * - PUT /api/v1/dict/:id - 更新字典条目（需要 MANAGE 或更高权限）
+ * - PATCH /api/v1/dict/:id - 部分更新字典条目（需要 MANAGE 或更高权限）
  * - DELETE /api/v1/dict/:id - 删除字典条目（需要 MANAGE 或更高权限）
  * - GET /api/v1/dict - 查询字典条目（需要认证，支持类型过滤）
  *
@@ -13,13 +14,32 @@
 import { drizzle } from 'drizzle-orm/d1'
 import type { Context } from 'hono'
 import { Hono } from 'hono'
+import { dictModel } from '../db/models'
 import { AuthorizationError, ValidationError } from '../errors'
 import { auditMiddleware } from '../middleware/audit'
 import { authMiddleware, getAuthContext } from '../middleware/auth'
 import { getSiteContext, siteMiddleware } from '../middleware/site'
+import {
+  getValidatedJson,
+  getValidatedQuery,
+  parseSchema,
+  validateJson,
+  validateQuery,
+} from '../middleware/validation'
+import { CacheManager } from '../services/cacheManager'
 import { DictionaryService } from '../services/dictionaryService'
-import { type CreateDictInput, DictTypeEnum, type UpdateDictInput, UserTypeEnum } from '../types'
+import {
+  type CreateDictInput,
+  type DictQuery,
+  DictTypeEnum,
+  type UpdateDictInput,
+  UserTypeEnum,
+} from '../types'
+import { createDictSchema, dictQuerySchema, updateDictSchema } from '../types/schemas'
 import { checkPermission } from '../utils/authorization'
+import { getETag } from '../utils/etag'
+import { describeRoute, listSchema, messageSchema, modelSchema } from '../utils/openapi'
+import { applyPatch, parsePatchRequest } from '../utils/patch'
 import { successResponse } from '../utils/response'
 
 const dictionaries = new Hono()
@@ -34,32 +54,43 @@ const dictionaries = new Hono()
  *
  * **验证需求**: 6.1, 6.2
  */
-dictionaries.post('/', authMiddleware, siteMiddleware, auditMiddleware, async (c: Context) => {
-  const authContext = getAuthContext(c)
-  const { siteId } = getSiteContext(c)
+dictionaries.post(
+  '/',
+  describeRoute({
+    summary: '创建字典条目',
+    description: '需要 MANAGE 或更高权限',
+    status: 201,
+    response: modelSchema(dictModel),
+  }),
+  authMiddleware,
+  siteMiddleware,
+  auditMiddleware,
+  validateJson(createDictSchema),
+  async (c: Context) => {
+    const authContext = getAuthContext(c)
+    const { siteId } = getSiteContext(c)
 
-  // 检查权限：需要 MANAGE 或更高权限
-  if (!checkPermission(authContext.type, UserTypeEnum.MANAGE)) {
-    throw new AuthorizationError('权限不足，需要 MANAGE 或更高权限')
-  }
+    // 检查权限：需要 MANAGE 或更高权限
+    if (!checkPermission(authContext.type, UserTypeEnum.MANAGE)) {
+      throw new AuthorizationError('权限不足，需要 MANAGE 或更高权限')
+    }
 
-  // 获取请求体
-  const body = (await c.req.json()) as CreateDictInput
+    // 获取已校验的请求体
+    const body = getValidatedJson<CreateDictInput>(c)
 
-  // 验证必填字段
-  if (!body.name || !body.type) {
-    throw new ValidationError('字典名称和类型不能为空')
-  }
+    // 创建缓存管理器实例
+    const cacheManager = new CacheManager(c.env.CACHE)
 
-  // 创建字典服务实例
-  const db = drizzle(c.env.DB)
-  const dictionaryService = new DictionaryService(db)
+    // 创建字典服务实例
+    const db = drizzle(c.env.DB)
+    const dictionaryService = new DictionaryService(db, cacheManager)
 
-  // 创建字典条目
-  const dict = await dictionaryService.create(body, siteId)
+    // 创建字典条目
+    const dict = await dictionaryService.create(body, siteId)
 
-  return c.json(successResponse(dict), 201)
-})
+    return c.json(successResponse(dict), 201)
+  }
+)
 
 /**
  * PUT /api/v1/dictionaries/:id
@@ -70,37 +101,129 @@ dictionaries.post('/', authMiddleware, siteMiddleware, auditMiddleware, async (c
  *
  * 请求体：UpdateDictInput
  *
- * 响应：Dict
+ * 请求头：
+ * - If-Match: string - 版本（可选，来自 ETag，与当前版本不一致时返回 412）
+ *
+ * 响应：Dict（响应头 ETag 为更新后的版本）
  *
  * **验证需求**: 6.3
  */
-dictionaries.put('/:id', authMiddleware, siteMiddleware, auditMiddleware, async (c: Context) => {
-  const authContext = getAuthContext(c)
-  const { siteId } = getSiteContext(c)
+dictionaries.put(
+  '/:id',
+  describeRoute({
+    summary: '更新字典条目',
+    description: '需要 MANAGE 或更高权限',
+    response: modelSchema(dictModel),
+  }),
+  authMiddleware,
+  siteMiddleware,
+  auditMiddleware,
+  validateJson(updateDictSchema),
+  async (c: Context) => {
+    const authContext = getAuthContext(c)
+    const { siteId } = getSiteContext(c)
 
-  // 检查权限：需要 MANAGE 或更高权限
-  if (!checkPermission(authContext.type, UserTypeEnum.MANAGE)) {
-    throw new AuthorizationError('权限不足，需要 MANAGE 或更高权限')
-  }
+    // 检查权限：需要 MANAGE 或更高权限
+    if (!checkPermission(authContext.type, UserTypeEnum.MANAGE)) {
+      throw new AuthorizationError('权限不足，需要 MANAGE 或更高权限')
+    }
+
+    // 获取字典条目ID
+    const dictId = parseInt(c.req.param('id'), 10)
+    if (isNaN(dictId) || dictId <= 0) {
+      throw new ValidationError('无效的字典条目ID')
+    }
+
+    // 获取已校验的请求体
+    const body = getValidatedJson<UpdateDictInput>(c)
 
-  // 获取字典条目ID
-  const dictId = parseInt(c.req.param('id'), 10)
-  if (isNaN(dictId) || dictId <= 0) {
-    throw new ValidationError('无效的字典条目ID')
+    // 创建缓存管理器实例
+    const cacheManager = new CacheManager(c.env.CACHE)
+
+    // 创建字典服务实例
+    const db = drizzle(c.env.DB)
+    const dictionaryService = new DictionaryService(db, cacheManager)
+
+    // 更新字典条目
+    const dict = await dictionaryService.update(dictId, body, siteId, c.req.header('If-Match'))
+
+    c.header('ETag', getETag(dict))
+    return c.json(successResponse(dict))
   }
+)
+
+/**
+ * PATCH /api/v1/dictionaries/:id
+ * 部分更新字典条目（需要 MANAGE 或更高权限）
+ *
+ * 路径参数：
+ * - id: number - 字典条目ID
+ *
+ * 请求体（按 Content-Type 区分，只能修改 dictModel 声明的可修改字段）：
+ * - application/merge-patch+json: 要修改的字段，null 表示清空
+ * - application/json-patch+json: JSON Patch 操作数组
+ *
+ * 请求头：
+ * - If-Match: string - 版本（可选，来自 ETag，与当前版本不一致时返回 412）
+ *
+ * 响应：Dict（响应头 ETag 为更新后的版本）
+ */
+dictionaries.patch(
+  '/:id',
+  describeRoute({
+    summary: '部分更新字典条目',
+    description: '需要 MANAGE 或更高权限',
+    response: modelSchema(dictModel),
+  }),
+  authMiddleware,
+  siteMiddleware,
+  auditMiddleware,
+  async (c: Context) => {
+    const authContext = getAuthContext(c)
+    const { siteId } = getSiteContext(c)
+
+    // 检查权限：需要 MANAGE 或更高权限
+    if (!checkPermission(authContext.type, UserTypeEnum.MANAGE)) {
+      throw new AuthorizationError('权限不足，需要 MANAGE 或更高权限')
+    }
+
+    // 获取字典条目ID
+    const dictId = parseInt(c.req.param('id'), 10)
+    if (Number.isNaN(dictId) || dictId <= 0) {
+      throw new ValidationError('无效的字典条目ID')
+    }
+
+    // 获取补丁
+    const patch = await parsePatchRequest(c)
+
+    // 创建缓存管理器实例
+    const cacheManager = new CacheManager(c.env.CACHE)
 
-  // 获取请求体
-  const body = (await c.req.json()) as UpdateDictInput
+    // 创建字典条目服务实例
+    const db = drizzle(c.env.DB)
+    const dictionaryService = new DictionaryService(db, cacheManager)
 
-  // 创建字典服务实例
-  const db = drizzle(c.env.DB)
-  const dictionaryService = new DictionaryService(db)
+    // 将补丁应用到当前字典条目
+    const existingDict = await dictionaryService.getById(dictId, siteId)
+    const { changes, ifMatch } = applyPatch(
+      existingDict,
+      patch,
+      dictModel,
+      c.req.header('If-Match')
+    )
 
-  // 更新字典条目
-  const dict = await dictionaryService.update(dictId, body, siteId)
+    // 更新字典条目
+    const dict = await dictionaryService.update(
+      dictId,
+      parseSchema(updateDictSchema, changes),
+      siteId,
+      ifMatch
+    )
 
-  return c.json(successResponse(dict))
-})
+    c.header('ETag', getETag(dict))
+    return c.json(successResponse(dict))
+  }
+)
 
 /**
  * DELETE /api/v1/dictionaries/:id
@@ -113,30 +236,44 @@ dictionaries.put('/:id', authMiddleware, siteMiddleware, auditMiddleware, async
  *
  * **验证需求**: 6.4
  */
-dictionaries.delete('/:id', authMiddleware, siteMiddleware, auditMiddleware, async (c: Context) => {
-  const authContext = getAuthContext(c)
-  const { siteId } = getSiteContext(c)
+dictionaries.delete(
+  '/:id',
+  describeRoute({
+    summary: '删除字典条目',
+    description: '需要 MANAGE 或更高权限',
+    response: messageSchema,
+  }),
+  authMiddleware,
+  siteMiddleware,
+  auditMiddleware,
+  async (c: Context) => {
+    const authContext = getAuthContext(c)
+    const { siteId } = getSiteContext(c)
 
-  // 检查权限：需要 MANAGE 或更高权限
-  if (!checkPermission(authContext.type, UserTypeEnum.MANAGE)) {
-    throw new AuthorizationError('权限不足，需要 MANAGE 或更高权限')
-  }
+    // 检查权限：需要 MANAGE 或更高权限
+    if (!checkPermission(authContext.type, UserTypeEnum.MANAGE)) {
+      throw new AuthorizationError('权限不足，需要 MANAGE 或更高权限')
+    }
 
-  // 获取字典条目ID
-  const dictId = parseInt(c.req.param('id'), 10)
-  if (isNaN(dictId) || dictId <= 0) {
-    throw new ValidationError('无效的字典条目ID')
-  }
+    // 获取字典条目ID
+    const dictId = parseInt(c.req.param('id'), 10)
+    if (isNaN(dictId) || dictId <= 0) {
+      throw new ValidationError('无效的字典条目ID')
+    }
+
+    // 创建缓存管理器实例
+    const cacheManager = new CacheManager(c.env.CACHE)
 
-  // 创建字典服务实例
-  const db = drizzle(c.env.DB)
-  const dictionaryService = new DictionaryService(db)
+    // 创建字典服务实例
+    const db = drizzle(c.env.DB)
+    const dictionaryService = new DictionaryService(db, cacheManager)
 
-  // 删除字典条目（软删除）
-  await dictionaryService.delete(dictId, siteId)
+    // 删除字典条目（软删除）
+    await dictionaryService.delete(dictId, siteId)
 
-  return c.json(successResponse({ message: '字典条目已删除' }))
-})
+    return c.json(successResponse({ message: '字典条目已删除' }))
+  }
+)
 
 /**
  * GET /api/v1/dictionaries
@@ -149,33 +286,41 @@ dictionaries.delete('/:id', authMiddleware, siteMiddleware, auditMiddleware, asy
  *
  * **验证需求**: 6.3
  */
-dictionaries.get('/', authMiddleware, siteMiddleware, async (c: Context) => {
-  const { siteId } = getSiteContext(c)
+dictionaries.get(
+  '/',
+  describeRoute({
+    summary: '查询字典条目',
+    description: '需要认证，支持类型过滤',
+    response: listSchema(modelSchema(dictModel)),
+  }),
+  authMiddleware,
+  siteMiddleware,
+  validateQuery(dictQuerySchema),
+  async (c: Context) => {
+    const { siteId } = getSiteContext(c)
 
-  // 获取查询参数
-  const type = c.req.query('type') as DictTypeEnum | undefined
+    // 获取已校验的查询参数
+    const { type } = getValidatedQuery<DictQuery>(c)
 
-  // 验证类型参数（如果提供）
-  if (type && !Object.values(DictTypeEnum).includes(type)) {
-    throw new ValidationError('无效的字典类型')
-  }
+    // 创建字典服务实例
+    const db = drizzle(c.env.DB)
+    const dictionaryService = new DictionaryService(db)
 
-  // 创建字典服务实例
-  const db = drizzle(c.env.DB)
-  const dictionaryService = new DictionaryService(db)
-
-  // 如果提供了类型参数，按类型查询；否则返回所有类型
-  let dicts
-  if (type) {
-    dicts = await dictionaryService.queryByType(type, siteId)
-  } else {
-    // 查询所有类型的字典条目
-    const allTypes = Object.values(DictTypeEnum)
-    const results = await Promise.all(allTypes.map((t) => dictionaryService.queryByType(t, siteId)))
-    dicts = results.flat()
-  }
+    // 如果提供了类型参数，按类型查询；否则返回所有类型
+    let dicts
+    if (type) {
+      dicts = await dictionaryService.queryByType(type, siteId)
+    } else {
+      // 查询所有类型的字典条目
+      const allTypes = Object.values(DictTypeEnum)
+      const results = await Promise.all(
+        allTypes.map((t) => dictionaryService.queryByType(t, siteId))
+      )
+      dicts = results.flat()
+    }
 
-  return c.json(successResponse(dicts))
-})
+    return c.json(successResponse(dicts))
+  }
+)
 
 export default dictionaries
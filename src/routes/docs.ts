@@ -0,0 +1,70 @@
+/**
+ * API 文档路由
+ *
+ * 实现 API 文档相关的端点（公开端点，不需要认证）：
+ * - GET /api/v1/openapi.json - OpenAPI 3.1 文档（从路由表生成）
+ * - GET /api/v1/docs - 交互式 API 文档页面
+ */
+
+import type { Context } from 'hono'
+import { Hono } from 'hono'
+import { renderDocsPage } from '../utils/docsPage'
+import { describeRoute, generateOpenAPIDocument, type JsonSchema } from '../utils/openapi'
+
+// 文档信息
+const API_INFO = {
+  title: 'Cloudflare CMS API',
+  version: 'v1',
+  description:
+    'Multi-site content management system API。成功响应为 { success: true, data }，错误响应为 { success: false, error: { code, message } }；业务状态码见 BusinessCode。',
+}
+
+/**
+ * 创建 API 文档路由
+ *
+ * 文档从应用路由表生成，需要在所有路由注册完成后挂载；首次请求时生成并在当前实例中复用。
+ *
+ * @param app - Hono 应用
+ * @returns 文档路由
+ */
+export function createDocsRoutes(app: Hono<any>): Hono {
+  const docs = new Hono()
+  let document: JsonSchema | undefined
+
+  /**
+   * GET /api/v1/openapi.json
+   * 获取 OpenAPI 文档（公开端点）
+   *
+   * 响应：OpenAPI 3.1 文档（不使用 successResponse 包装）
+   */
+  docs.get(
+    '/openapi.json',
+    describeRoute({ summary: '获取 OpenAPI 文档', tags: ['docs'], raw: true }),
+    async (c: Context) => {
+      document ??= generateOpenAPIDocument(app, API_INFO)
+      return c.json(document)
+    }
+  )
+
+  /**
+   * GET /api/v1/docs
+   * 交互式 API 文档页面（公开端点）
+   *
+   * 响应：HTML
+   */
+  docs.get(
+    '/docs',
+    describeRoute({
+      summary: '交互式 API 文档页面',
+      tags: ['docs'],
+      raw: true,
+      contentType: 'text/html',
+      response: { type: 'string' },
+    }),
+    async (c: Context) => {
+      return c.html(renderDocsPage('/api/v1/openapi.json', `${API_INFO.title} ${API_INFO.version}`))
+    }
+  )
+
+  return docs
+}
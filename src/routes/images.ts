@@ -11,12 +11,35 @@ import type { Context } from 'hono'
 import { Hono } from 'hono'
 import { ValidationError } from '../errors'
 import { authMiddleware } from '../middleware/auth'
+import { RATE_LIMIT_POLICIES, rateLimit } from '../middleware/rateLimit'
 import { getSiteContext, siteMiddleware } from '../middleware/site'
 import { ImageUploadService } from '../services/imageUploadService'
+import { describeRoute, type JsonSchema } from '../utils/openapi'
 import { successResponse } from '../utils/response'
 
 const images = new Hono()
 
+// 上传请求体（OpenAPI 文档，multipart/form-data 不经过 validateJson）
+const uploadRequestSchema: JsonSchema = {
+  required: true,
+  content: {
+    'multipart/form-data': {
+      schema: {
+        type: 'object',
+        required: ['file'],
+        properties: { file: { type: 'string', format: 'binary' } },
+      },
+    },
+  },
+}
+
+// 上传结果结构（OpenAPI 文档）
+const uploadResultSchema: JsonSchema = {
+  type: 'object',
+  required: ['url', 'filename'],
+  properties: { url: { type: 'string' }, filename: { type: 'string' } },
+}
+
 /**
  * POST /api/v1/upload
  * 上传图片（需要认证）
@@ -28,36 +51,51 @@ const images = new Hono()
  * - url: string - 图片的公共访问 URL
  * - filename: string - 存储的文件名
  *
+ * 限流：每个用户每分钟 30 次（超过返回 429）
+ *
  * **验证需求**: 11.1, 11.3, 11.5
  */
-images.post('/upload', authMiddleware, siteMiddleware, async (c: Context) => {
-  const { siteId } = getSiteContext(c)
+images.post(
+  '/upload',
+  describeRoute({
+    summary: '上传图片',
+    description: '需要认证',
+    status: 201,
+    requestBody: uploadRequestSchema,
+    response: uploadResultSchema,
+  }),
+  authMiddleware,
+  rateLimit(RATE_LIMIT_POLICIES.upload),
+  siteMiddleware,
+  async (c: Context) => {
+    const { siteId } = getSiteContext(c)
 
-  // 解析 multipart/form-data
-  const formData = await c.req.formData()
+    // 解析 multipart/form-data
+    const formData = await c.req.formData()
 
-  // 获取上传的文件
-  const file = formData.get('file')
+    // 获取上传的文件
+    const file = formData.get('file')
 
-  // 验证文件是否存在
-  if (!file) {
-    throw new ValidationError('缺少上传文件，请在表单字段 "file" 中提供文件')
-  }
+    // 验证文件是否存在
+    if (!file) {
+      throw new ValidationError('缺少上传文件，请在表单字段 "file" 中提供文件')
+    }
 
-  // 验证文件类型
-  if (!(file instanceof File)) {
-    throw new ValidationError('上传的内容不是有效的文件')
-  }
+    // 验证文件类型
+    if (!(file instanceof File)) {
+      throw new ValidationError('上传的内容不是有效的文件')
+    }
 
-  // 创建图片上传服务实例
-  const publicDomain = c.env.PUBLIC_DOMAIN || 'https://images.example.com'
-  const maxSize = c.env.MAX_UPLOAD_SIZE || 5 * 1024 * 1024
-  const imageUploadService = new ImageUploadService(c.env.IMAGES, publicDomain, maxSize)
+    // 创建图片上传服务实例
+    const publicDomain = c.env.PUBLIC_DOMAIN || 'https://images.example.com'
+    const maxSize = c.env.MAX_UPLOAD_SIZE || 5 * 1024 * 1024
+    const imageUploadService = new ImageUploadService(c.env.IMAGES, publicDomain, maxSize)
 
-  // 上传图片
-  const result = await imageUploadService.upload(file, siteId)
+    // 上传图片
+    const result = await imageUploadService.upload(file, siteId)
 
-  return c.json(successResponse(result), 201)
-})
+    return c.json(successResponse(result), 201)
+  }
+)
 
 export default images
@@ -0,0 +1,57 @@
+/**
+ * 模型发现路由
+ *
+ * 提供模型的可过滤、可排序、可搜索和可返回字段，供管理后台构建列表筛选界面：
+ * - GET /api/v1/model - 查询所有模型定义（需要认证）
+ * - GET /api/v1/model/:name - 查询单个模型定义（需要认证）
+ */
+
+import type { Context } from 'hono'
+import { Hono } from 'hono'
+import { describeModel, getModel, MODELS } from '../db/models'
+import { NotFoundError } from '../errors'
+import { authMiddleware } from '../middleware/auth'
+import { describeRoute } from '../utils/openapi'
+import { successResponse } from '../utils/response'
+
+const models = new Hono()
+
+/**
+ * GET /api/v1/model
+ * 查询所有模型定义（需要认证）
+ *
+ * 响应：ModelDescription[]
+ */
+models.get(
+  '/',
+  describeRoute({ summary: '查询所有模型定义', description: '需要认证' }),
+  authMiddleware,
+  async (c: Context) => {
+    return c.json(successResponse(Object.values(MODELS).map(describeModel)))
+  }
+)
+
+/**
+ * GET /api/v1/model/:name
+ * 查询单个模型定义（需要认证）
+ *
+ * 路径参数：
+ * - name: string - 模型名称（如 article、public_article、site、user、channel）
+ *
+ * 响应：ModelDescription
+ */
+models.get(
+  '/:name',
+  describeRoute({ summary: '查询单个模型定义', description: '需要认证' }),
+  authMiddleware,
+  async (c: Context) => {
+    const model = getModel(c.req.param('name'))
+    if (!model) {
+      throw new NotFoundError('模型不存在')
+    }
+
+    return c.json(successResponse(describeModel(model)))
+  }
+)
+
+export default models
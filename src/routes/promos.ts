@@ -4,6 +4,7 @@
  * 实现推广管理相关的 API 端点：
  * - POST /api/v1/promo - 创建推广（需要 MANAGE 或更高权限）
  * - PUT /api/v1/promo/:id - 更新推广（需要 MANAGE 或更高权限）
+ * - PATCH /api/v1/promo/:id - 部分更新推广（需要 MANAGE 或更高权限）
  * - DELETE /api/v1/promo/:id - 删除推广（需要 MANAGE 或更高权限）
  * - GET /api/v1/promo/active - 获取活动推广（需要认证）
  * - PUT /api/v1/promo/:id/toggle - 切换推广状态（需要 MANAGE 或更高权限）
@@ -14,14 +15,20 @@
 import { drizzle } from 'drizzle-orm/d1'
 import type { Context } from 'hono'
 import { Hono } from 'hono'
+import { promoModel } from '../db/models'
 import { AuthorizationError, ValidationError } from '../errors'
 import { auditMiddleware } from '../middleware/audit'
 import { authMiddleware, getAuthContext } from '../middleware/auth'
 import { getSiteContext, siteMiddleware } from '../middleware/site'
+import { getValidatedJson, parseSchema, validateJson } from '../middleware/validation'
 import { CacheManager } from '../services/cacheManager'
 import { PromoService } from '../services/promoService'
 import { type CreatePromoInput, type UpdatePromoInput, UserTypeEnum } from '../types'
+import { createPromoSchema, updatePromoSchema } from '../types/schemas'
 import { checkPermission } from '../utils/authorization'
+import { getETag } from '../utils/etag'
+import { describeRoute, listSchema, messageSchema, modelSchema } from '../utils/openapi'
+import { applyPatch, parsePatchRequest } from '../utils/patch'
 import { successResponse } from '../utils/response'
 
 const promos = new Hono()
@@ -36,35 +43,43 @@ const promos = new Hono()
  *
  * **验证需求**: 7.1
  */
-promos.post('/', authMiddleware, siteMiddleware, auditMiddleware, async (c: Context) => {
-  const authContext = getAuthContext(c)
-  const { siteId } = getSiteContext(c)
-
-  // 检查权限：需要 MANAGE 或更高权限
-  if (!checkPermission(authContext.type, UserTypeEnum.MANAGE)) {
-    throw new AuthorizationError('权限不足，需要 MANAGE 或更高权限')
-  }
-
-  // 获取请求体
-  const body = (await c.req.json()) as CreatePromoInput
-
-  // 验证必填字段
-  if (!body.title) {
-    throw new ValidationError('推广标题不能为空')
+promos.post(
+  '/',
+  describeRoute({
+    summary: '创建推广',
+    description: '需要 MANAGE 或更高权限',
+    status: 201,
+    response: modelSchema(promoModel),
+  }),
+  authMiddleware,
+  siteMiddleware,
+  auditMiddleware,
+  validateJson(createPromoSchema),
+  async (c: Context) => {
+    const authContext = getAuthContext(c)
+    const { siteId } = getSiteContext(c)
+
+    // 检查权限：需要 MANAGE 或更高权限
+    if (!checkPermission(authContext.type, UserTypeEnum.MANAGE)) {
+      throw new AuthorizationError('权限不足，需要 MANAGE 或更高权限')
+    }
+
+    // 获取已校验的请求体
+    const body = getValidatedJson<CreatePromoInput>(c)
+
+    // 创建缓存管理器实例
+    const cacheManager = new CacheManager(c.env.CACHE)
+
+    // 创建推广服务实例
+    const db = drizzle(c.env.DB)
+    const promoService = new PromoService(db, cacheManager)
+
+    // 创建推广
+    const promo = await promoService.create(body, siteId)
+
+    return c.json(successResponse(promo), 201)
   }
-
-  // 创建缓存管理器实例
-  const cacheManager = new CacheManager(c.env.CACHE)
-
-  // 创建推广服务实例
-  const db = drizzle(c.env.DB)
-  const promoService = new PromoService(db, cacheManager)
-
-  // 创建推广
-  const promo = await promoService.create(body, siteId)
-
-  return c.json(successResponse(promo), 201)
-})
+)
 
 /**
  * PUT /api/v1/promos/:id
@@ -75,40 +90,129 @@ promos.post('/', authMiddleware, siteMiddleware, auditMiddleware, async (c: Cont
  *
  * 请求体：UpdatePromoInput
  *
- * 响应：Promo
+ * 请求头：
+ * - If-Match: string - 版本（可选，来自 ETag，与当前版本不一致时返回 412）
+ *
+ * 响应：Promo（响应头 ETag 为更新后的版本）
  *
  * **验证需求**: 7.2
  */
-promos.put('/:id', authMiddleware, siteMiddleware, auditMiddleware, async (c: Context) => {
-  const authContext = getAuthContext(c)
-  const { siteId } = getSiteContext(c)
-
-  // 检查权限：需要 MANAGE 或更高权限
-  if (!checkPermission(authContext.type, UserTypeEnum.MANAGE)) {
-    throw new AuthorizationError('权限不足，需要 MANAGE 或更高权限')
+promos.put(
+  '/:id',
+  describeRoute({
+    summary: '更新推广',
+    description: '需要 MANAGE 或更高权限',
+    response: modelSchema(promoModel),
+  }),
+  authMiddleware,
+  siteMiddleware,
+  auditMiddleware,
+  validateJson(updatePromoSchema),
+  async (c: Context) => {
+    const authContext = getAuthContext(c)
+    const { siteId } = getSiteContext(c)
+
+    // 检查权限：需要 MANAGE 或更高权限
+    if (!checkPermission(authContext.type, UserTypeEnum.MANAGE)) {
+      throw new AuthorizationError('权限不足，需要 MANAGE 或更高权限')
+    }
+
+    // 获取推广ID
+    const promoId = parseInt(c.req.param('id'), 10)
+    if (isNaN(promoId) || promoId <= 0) {
+      throw new ValidationError('无效的推广ID')
+    }
+
+    // 获取已校验的请求体
+    const body = getValidatedJson<UpdatePromoInput>(c)
+
+    // 创建缓存管理器实例
+    const cacheManager = new CacheManager(c.env.CACHE)
+
+    // 创建推广服务实例
+    const db = drizzle(c.env.DB)
+    const promoService = new PromoService(db, cacheManager)
+
+    // 更新推广
+    const promo = await promoService.update(promoId, body, siteId, c.req.header('If-Match'))
+
+    c.header('ETag', getETag(promo))
+    return c.json(successResponse(promo))
   }
+)
 
-  // 获取推广ID
-  const promoId = parseInt(c.req.param('id'), 10)
-  if (isNaN(promoId) || promoId <= 0) {
-    throw new ValidationError('无效的推广ID')
+/**
+ * PATCH /api/v1/promos/:id
+ * 部分更新推广（需要 MANAGE 或更高权限）
+ *
+ * 路径参数：
+ * - id: number - 推广ID
+ *
+ * 请求体（按 Content-Type 区分，只能修改 promoModel 声明的可修改字段）：
+ * - application/merge-patch+json: 要修改的字段，null 表示清空
+ * - application/json-patch+json: JSON Patch 操作数组
+ *
+ * 请求头：
+ * - If-Match: string - 版本（可选，来自 ETag，与当前版本不一致时返回 412）
+ *
+ * 响应：Promo（响应头 ETag 为更新后的版本）
+ */
+promos.patch(
+  '/:id',
+  describeRoute({
+    summary: '部分更新推广',
+    description: '需要 MANAGE 或更高权限',
+    response: modelSchema(promoModel),
+  }),
+  authMiddleware,
+  siteMiddleware,
+  auditMiddleware,
+  async (c: Context) => {
+    const authContext = getAuthContext(c)
+    const { siteId } = getSiteContext(c)
+
+    // 检查权限：需要 MANAGE 或更高权限
+    if (!checkPermission(authContext.type, UserTypeEnum.MANAGE)) {
+      throw new AuthorizationError('权限不足，需要 MANAGE 或更高权限')
+    }
+
+    // 获取推广ID
+    const promoId = parseInt(c.req.param('id'), 10)
+    if (Number.isNaN(promoId) || promoId <= 0) {
+      throw new ValidationError('无效的推广ID')
+    }
+
+    // 获取补丁
+    const patch = await parsePatchRequest(c)
+
+    // 创建缓存管理器实例
+    const cacheManager = new CacheManager(c.env.CACHE)
+
+    // 创建推广服务实例
+    const db = drizzle(c.env.DB)
+    const promoService = new PromoService(db, cacheManager)
+
+    // 将补丁应用到当前推广
+    const existingPromo = await promoService.getById(promoId, siteId)
+    const { changes, ifMatch } = applyPatch(
+      existingPromo,
+      patch,
+      promoModel,
+      c.req.header('If-Match')
+    )
+
+    // 更新推广
+    const promo = await promoService.update(
+      promoId,
+      parseSchema(updatePromoSchema, changes),
+      siteId,
+      ifMatch
+    )
+
+    c.header('ETag', getETag(promo))
+    return c.json(successResponse(promo))
   }
-
-  // 获取请求体
-  const body = (await c.req.json()) as UpdatePromoInput
-
-  // 创建缓存管理器实例
-  const cacheManager = new CacheManager(c.env.CACHE)
-
-  // 创建推广服务实例
-  const db = drizzle(c.env.DB)
-  const promoService = new PromoService(db, cacheManager)
-
-  // 更新推广
-  const promo = await promoService.update(promoId, body, siteId)
-
-  return c.json(successResponse(promo))
-})
+)
 
 /**
  * DELETE /api/v1/promos/:id
@@ -121,33 +225,44 @@ promos.put('/:id', authMiddleware, siteMiddleware, auditMiddleware, async (c: Co
  *
  * **验证需求**: 7.3, 7.4
  */
-promos.delete('/:id', authMiddleware, siteMiddleware, auditMiddleware, async (c: Context) => {
-  const authContext = getAuthContext(c)
-  const { siteId } = getSiteContext(c)
-
-  // 检查权限：需要 MANAGE 或更高权限
-  if (!checkPermission(authContext.type, UserTypeEnum.MANAGE)) {
-    throw new AuthorizationError('权限不足，需要 MANAGE 或更高权限')
-  }
-
-  // 获取推广ID
-  const promoId = parseInt(c.req.param('id'), 10)
-  if (isNaN(promoId) || promoId <= 0) {
-    throw new ValidationError('无效的推广ID')
+promos.delete(
+  '/:id',
+  describeRoute({
+    summary: '删除推广',
+    description: '需要 MANAGE 或更高权限',
+    response: messageSchema,
+  }),
+  authMiddleware,
+  siteMiddleware,
+  auditMiddleware,
+  async (c: Context) => {
+    const authContext = getAuthContext(c)
+    const { siteId } = getSiteContext(c)
+
+    // 检查权限：需要 MANAGE 或更高权限
+    if (!checkPermission(authContext.type, UserTypeEnum.MANAGE)) {
+      throw new AuthorizationError('权限不足，需要 MANAGE 或更高权限')
+    }
+
+    // 获取推广ID
+    const promoId = parseInt(c.req.param('id'), 10)
+    if (isNaN(promoId) || promoId <= 0) {
+      throw new ValidationError('无效的推广ID')
+    }
+
+    // 创建缓存管理器实例
+    const cacheManager = new CacheManager(c.env.CACHE)
+
+    // 创建推广服务实例
+    const db = drizzle(c.env.DB)
+    const promoService = new PromoService(db, cacheManager)
+
+    // 删除推广（软删除）
+    await promoService.delete(promoId, siteId)
+
+    return c.json(successResponse({ message: '推广已删除' }))
   }
-
-  // 创建缓存管理器实例
-  const cacheManager = new CacheManager(c.env.CACHE)
-
-  // 创建推广服务实例
-  const db = drizzle(c.env.DB)
-  const promoService = new PromoService(db, cacheManager)
-
-  // 删除推广（软删除）
-  await promoService.delete(promoId, siteId)
-
-  return c.json(successResponse({ message: '推广已删除' }))
-})
+)
 
 /**
  * GET /api/v1/promos/active
@@ -157,21 +272,31 @@ promos.delete('/:id', authMiddleware, siteMiddleware, auditMiddleware, async (c:
  *
  * **验证需求**: 7.2, 7.3, 7.5
  */
-promos.get('/active', authMiddleware, siteMiddleware, async (c: Context) => {
-  const { siteId } = getSiteContext(c)
-
-  // 创建缓存管理器实例
-  const cacheManager = new CacheManager(c.env.CACHE)
-
-  // 创建推广服务实例
-  const db = drizzle(c.env.DB)
-  const promoService = new PromoService(db, cacheManager)
-
-  // 获取活动推广
-  const activePromos = await promoService.getActive(siteId)
-
-  return c.json(successResponse(activePromos))
-})
+promos.get(
+  '/active',
+  describeRoute({
+    summary: '获取活动推广',
+    description: '需要认证',
+    response: listSchema(modelSchema(promoModel)),
+  }),
+  authMiddleware,
+  siteMiddleware,
+  async (c: Context) => {
+    const { siteId } = getSiteContext(c)
+
+    // 创建缓存管理器实例
+    const cacheManager = new CacheManager(c.env.CACHE)
+
+    // 创建推广服务实例
+    const db = drizzle(c.env.DB)
+    const promoService = new PromoService(db, cacheManager)
+
+    // 获取活动推广
+    const activePromos = await promoService.getActive(siteId)
+
+    return c.json(successResponse(activePromos))
+  }
+)
 
 /**
  * PUT /api/v1/promos/:id/toggle
@@ -180,36 +305,51 @@ promos.get('/active', authMiddleware, siteMiddleware, async (c: Context) => {
  * 路径参数：
  * - id: number - 推广ID
  *
- * 响应：Promo
+ * 请求头：
+ * - If-Match: string - 版本（可选，来自 ETag，与当前版本不一致时返回 412）
+ *
+ * 响应：Promo（响应头 ETag 为更新后的版本）
  *
  * **验证需求**: 7.6
  */
-promos.put('/:id/toggle', authMiddleware, siteMiddleware, auditMiddleware, async (c: Context) => {
-  const authContext = getAuthContext(c)
-  const { siteId } = getSiteContext(c)
-
-  // 检查权限：需要 MANAGE 或更高权限
-  if (!checkPermission(authContext.type, UserTypeEnum.MANAGE)) {
-    throw new AuthorizationError('权限不足，需要 MANAGE 或更高权限')
+promos.put(
+  '/:id/toggle',
+  describeRoute({
+    summary: '切换推广状态',
+    description: '需要 MANAGE 或更高权限',
+    response: modelSchema(promoModel),
+  }),
+  authMiddleware,
+  siteMiddleware,
+  auditMiddleware,
+  async (c: Context) => {
+    const authContext = getAuthContext(c)
+    const { siteId } = getSiteContext(c)
+
+    // 检查权限：需要 MANAGE 或更高权限
+    if (!checkPermission(authContext.type, UserTypeEnum.MANAGE)) {
+      throw new AuthorizationError('权限不足，需要 MANAGE 或更高权限')
+    }
+
+    // 获取推广ID
+    const promoId = parseInt(c.req.param('id'), 10)
+    if (isNaN(promoId) || promoId <= 0) {
+      throw new ValidationError('无效的推广ID')
+    }
+
+    // 创建缓存管理器实例
+    const cacheManager = new CacheManager(c.env.CACHE)
+
+    // 创建推广服务实例
+    const db = drizzle(c.env.DB)
+    const promoService = new PromoService(db, cacheManager)
+
+    // 切换推广状态
+    const promo = await promoService.toggleStatus(promoId, siteId, c.req.header('If-Match'))
+
+    c.header('ETag', getETag(promo))
+    return c.json(successResponse(promo))
   }
-
-  // 获取推广ID
-  const promoId = parseInt(c.req.param('id'), 10)
-  if (isNaN(promoId) || promoId <= 0) {
-    throw new ValidationError('无效的推广ID')
-  }
-
-  // 创建缓存管理器实例
-  const cacheManager = new CacheManager(c.env.CACHE)
-
-  // 创建推广服务实例
-  const db = drizzle(c.env.DB)
-  const promoService = new PromoService(db, cacheManager)
-
-  // 切换推广状态
-  const promo = await promoService.toggleStatus(promoId, siteId)
-
-  return c.json(successResponse(promo))
-})
+)
 
 export default promos
@@ -0,0 +1,400 @@
+/**
+ * 公开内容路由
+ *
+ * 为前台网站提供无需认证的只读 API 端点：
+ * - GET /api/v1/public/site - 获取站点信息
+ * - GET /api/v1/public/channel/tree - 获取频道树
+ * - GET /api/v1/public/article - 查询已发布文章列表
+ * - GET /api/v1/public/article/:id - 获取已发布文章详情
+ * - GET /api/v1/public/dict - 查询标签和友情链接
+ * - GET /api/v1/public/tag - 查询标签及已发布文章数
+ * - GET /api/v1/public/tag/:id/article - 按标签查询已发布文章列表
+ * - GET /api/v1/public/promo/active - 获取当前活动的推广
+ *
+ * 站点通过请求域名或 Site-Id 头确定，只返回已发布（NORMAL）的内容，
+ * 并去除敏感字段（user_id、editor_id）。
+ */
+
+import { drizzle } from 'drizzle-orm/d1'
+import type { Context } from 'hono'
+import { Hono } from 'hono'
+import { channelModel, dictModel, promoModel, publicArticleModel } from '../db/models'
+import { NotFoundError, ValidationError } from '../errors'
+import { getSiteContext, siteMiddleware } from '../middleware/site'
+import { getValidatedQuery, validateQuery } from '../middleware/validation'
+import { CacheManager } from '../services/cacheManager'
+import { PUBLIC_DICT_TYPES, PublicContentService } from '../services/publicContentService'
+import type { DictQuery, PublicArticleQuery, PublicTagArticleQuery, QueryParams } from '../types'
+import {
+  dictQuerySchema,
+  publicArticleQuerySchema,
+  publicTagArticleQuerySchema,
+} from '../types/schemas'
+import { jsonWithETag } from '../utils/etag'
+import { parseFilterQuery } from '../utils/filterQuery'
+import {
+  describeRoute,
+  type JsonSchema,
+  listSchema,
+  modelSchema,
+  paginatedSchema,
+} from '../utils/openapi'
+import { successResponse } from '../utils/response'
+
+const publicContent = new Hono()
+
+// 公开内容的 HTTP 缓存头（浏览器/CDN 缓存 60 秒）
+const PUBLIC_CACHE_CONTROL = 'public, max-age=60'
+
+// 公开站点信息结构（OpenAPI 文档）
+const publicSiteSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    title: { type: 'string' },
+    logo: { type: 'string' },
+    keywords: { type: 'string' },
+    description: { type: 'string' },
+    copyright: { type: 'string' },
+  },
+}
+
+/**
+ * GET /api/v1/public/site
+ * 获取站点信息（无需认证）
+ *
+ * 响应：PublicSite（name、title、logo、keywords、description、copyright）
+ */
+publicContent.get(
+  '/site',
+  describeRoute({
+    summary: '获取站点信息',
+    description: '无需认证',
+    response: publicSiteSchema,
+  }),
+  siteMiddleware,
+  async (c: Context) => {
+    const { siteId } = getSiteContext(c)
+
+    // 创建缓存管理器实例
+    const cacheManager = new CacheManager(c.env.CACHE)
+
+    // 创建公开内容服务实例
+    const db = drizzle(c.env.DB)
+    const publicContentService = new PublicContentService(db, cacheManager)
+
+    // 获取站点信息
+    const site = await publicContentService.getSite(siteId)
+
+    c.header('Cache-Control', PUBLIC_CACHE_CONTROL)
+    return c.json(successResponse(site))
+  }
+)
+
+/**
+ * GET /api/v1/public/channel/tree
+ * 获取频道树（无需认证）
+ *
+ * 响应：ChannelTree[]
+ */
+publicContent.get(
+  '/channel/tree',
+  describeRoute({
+    summary: '获取频道树',
+    description: '无需认证',
+    response: listSchema(modelSchema(channelModel)),
+  }),
+  siteMiddleware,
+  async (c: Context) => {
+    const { siteId } = getSiteContext(c)
+
+    // 创建缓存管理器实例
+    const cacheManager = new CacheManager(c.env.CACHE)
+
+    // 创建公开内容服务实例
+    const db = drizzle(c.env.DB)
+    const publicContentService = new PublicContentService(db, cacheManager)
+
+    // 获取频道树
+    const tree = await publicContentService.getChannelTree(siteId)
+
+    c.header('Cache-Control', PUBLIC_CACHE_CONTROL)
+    return c.json(successResponse(tree))
+  }
+)
+
+/**
+ * GET /api/v1/public/article
+ * 查询已发布文章列表（无需认证，支持分页、过滤、排序和搜索）
+ *
+ * 查询参数：
+ * - page: number - 页码（默认 1）
+ * - pageSize: number - 每页数量（默认 10，最大 100）
+ * - channel_id: number - 频道ID过滤（可选）
+ * - type: ArticleTypeEnum - 文章类型过滤（可选）
+ * - is_top: number - 置顶过滤（可选）
+ * - filter[field][op]: 过滤条件（可选，只支持以上三个字段，如 filter[channel_id][in]=3,5,9）
+ * - sort: string - 排序字段
+ * - sortOrder: 'asc' | 'desc' - 排序方向
+ * - search: string - 搜索关键词（匹配标题和描述）
+ * - fields: string - 返回字段（逗号分隔，不包含正文）
+ * - expand: string - 展开关联（逗号分隔，可选 channel、author、origin、tags）
+ *
+ * 响应：PaginatedResult<PublicArticleSummary>
+ */
+publicContent.get(
+  '/article',
+  describeRoute({
+    summary: '查询已发布文章列表',
+    description: '无需认证，支持分页、过滤、排序和搜索',
+    response: paginatedSchema(modelSchema(publicArticleModel)),
+  }),
+  siteMiddleware,
+  validateQuery(publicArticleQuerySchema),
+  async (c: Context) => {
+    const { siteId } = getSiteContext(c)
+
+    // 获取已校验的查询参数（只允许按公开字段过滤）
+    const { channel_id, type, is_top, ...query } = getValidatedQuery<PublicArticleQuery>(c)
+    const filters: Record<string, any> = Object.fromEntries(
+      Object.entries({ channel_id, type, is_top }).filter(([, value]) => value !== undefined)
+    )
+
+    // 解析 filter[...] 过滤参数（同样只允许公开字段）
+    const filterGroup = parseFilterQuery(new URL(c.req.url).searchParams, {
+      allowedFields: publicArticleModel.filterable,
+    })
+
+    // 构建查询参数
+    const queryParams: QueryParams = {
+      ...query,
+      filters,
+      filterGroup,
+      searchFields: query.search ? ['title', 'description'] : undefined,
+    }
+
+    // 创建缓存管理器实例
+    const cacheManager = new CacheManager(c.env.CACHE)
+
+    // 创建公开内容服务实例
+    const db = drizzle(c.env.DB)
+    const publicContentService = new PublicContentService(db, cacheManager)
+
+    // 查询已发布文章列表
+    const result = await publicContentService.queryArticles(queryParams, siteId)
+
+    c.header('Cache-Control', PUBLIC_CACHE_CONTROL)
+    return c.json(successResponse(result))
+  }
+)
+
+/**
+ * GET /api/v1/public/article/:id
+ * 获取已发布文章详情（无需认证）
+ *
+ * 路径参数：
+ * - id: number - 文章ID
+ *
+ * 请求头：
+ * - If-None-Match: string - 版本（可选，与当前版本一致时返回 304）
+ *
+ * 响应：PublicArticle（响应头 ETag 为当前版本）
+ */
+publicContent.get(
+  '/article/:id',
+  describeRoute({
+    summary: '获取已发布文章详情',
+    description: '无需认证',
+    response: modelSchema(publicArticleModel),
+  }),
+  siteMiddleware,
+  async (c: Context) => {
+    const { siteId } = getSiteContext(c)
+
+    // 获取文章ID
+    const articleId = parseInt(c.req.param('id'), 10)
+    if (Number.isNaN(articleId) || articleId <= 0) {
+      throw new ValidationError('无效的文章ID')
+    }
+
+    // 创建缓存管理器实例
+    const cacheManager = new CacheManager(c.env.CACHE)
+
+    // 创建公开内容服务实例
+    const db = drizzle(c.env.DB)
+    const publicContentService = new PublicContentService(db, cacheManager)
+
+    // 获取文章详情
+    const article = await publicContentService.getArticle(articleId, siteId)
+
+    c.header('Cache-Control', PUBLIC_CACHE_CONTROL)
+    return jsonWithETag(c, article)
+  }
+)
+
+/**
+ * GET /api/v1/public/dict
+ * 查询公开字典条目（无需认证）
+ *
+ * 查询参数：
+ * - type: 'TAG' | 'FRIENDLINK' - 字典类型（可选，不提供时返回所有公开类型）
+ *
+ * 响应：Dict[]
+ */
+publicContent.get(
+  '/dict',
+  describeRoute({
+    summary: '查询公开字典条目',
+    description: '无需认证',
+    response: listSchema(modelSchema(dictModel)),
+  }),
+  siteMiddleware,
+  validateQuery(dictQuerySchema),
+  async (c: Context) => {
+    const { siteId } = getSiteContext(c)
+
+    // 获取已校验的查询参数
+    const { type } = getValidatedQuery<DictQuery>(c)
+
+    // 验证类型参数（如果提供）
+    if (type && !PUBLIC_DICT_TYPES.includes(type)) {
+      throw new ValidationError('无效的字典类型')
+    }
+
+    // 创建缓存管理器实例
+    const cacheManager = new CacheManager(c.env.CACHE)
+
+    // 创建公开内容服务实例
+    const db = drizzle(c.env.DB)
+    const publicContentService = new PublicContentService(db, cacheManager)
+
+    // 如果提供了类型参数，按类型查询；否则返回所有公开类型
+    const types = type ? [type] : PUBLIC_DICT_TYPES
+    const results = await Promise.all(types.map((t) => publicContentService.getDicts(t, siteId)))
+
+    c.header('Cache-Control', PUBLIC_CACHE_CONTROL)
+    return c.json(successResponse(results.flat()))
+  }
+)
+
+/**
+ * GET /api/v1/public/tag
+ * 查询标签及已发布文章数（无需认证）
+ *
+ * 响应：TagWithCount[]
+ */
+publicContent.get(
+  '/tag',
+  describeRoute({ summary: '查询标签及已发布文章数', description: '无需认证' }),
+  siteMiddleware,
+  async (c: Context) => {
+    const { siteId } = getSiteContext(c)
+
+    // 创建缓存管理器实例
+    const cacheManager = new CacheManager(c.env.CACHE)
+
+    // 创建公开内容服务实例
+    const db = drizzle(c.env.DB)
+    const publicContentService = new PublicContentService(db, cacheManager)
+
+    // 获取标签及已发布文章数
+    const tags = await publicContentService.getTags(siteId)
+
+    c.header('Cache-Control', PUBLIC_CACHE_CONTROL)
+    return c.json(successResponse(tags))
+  }
+)
+
+/**
+ * GET /api/v1/public/tag/:id/article
+ * 按标签查询已发布文章列表（无需认证，支持分页和排序）
+ *
+ * 路径参数：
+ * - id: number - 标签ID
+ *
+ * 查询参数：
+ * - page: number - 页码（默认 1）
+ * - pageSize: number - 每页数量（默认 10，最大 100）
+ * - sort: string - 排序字段
+ * - sortOrder: 'asc' | 'desc' - 排序方向
+ * - fields: string - 返回字段（逗号分隔，不包含正文）
+ * - expand: string - 展开关联（逗号分隔，可选 channel、author、origin、tags）
+ *
+ * 响应：PaginatedResult<PublicArticleSummary>
+ */
+publicContent.get(
+  '/tag/:id/article',
+  describeRoute({
+    summary: '按标签查询已发布文章列表',
+    description: '无需认证，支持分页和排序',
+    response: paginatedSchema(modelSchema(publicArticleModel)),
+  }),
+  siteMiddleware,
+  validateQuery(publicTagArticleQuerySchema),
+  async (c: Context) => {
+    const { siteId } = getSiteContext(c)
+
+    // 获取标签ID
+    const tagId = parseInt(c.req.param('id'), 10)
+    if (Number.isNaN(tagId) || tagId <= 0) {
+      throw new ValidationError('无效的标签ID')
+    }
+
+    // 创建缓存管理器实例
+    const cacheManager = new CacheManager(c.env.CACHE)
+
+    // 创建公开内容服务实例
+    const db = drizzle(c.env.DB)
+    const publicContentService = new PublicContentService(db, cacheManager)
+
+    // 验证标签存在（复用标签列表缓存）
+    const tags = await publicContentService.getTags(siteId)
+    if (!tags.some((tag) => tag.id === tagId)) {
+      throw new NotFoundError('标签不存在')
+    }
+
+    // 查询已发布文章列表
+    const result = await publicContentService.queryArticles(
+      getValidatedQuery<PublicTagArticleQuery>(c),
+      siteId,
+      tagId
+    )
+
+    c.header('Cache-Control', PUBLIC_CACHE_CONTROL)
+    return c.json(successResponse(result))
+  }
+)
+
+/**
+ * GET /api/v1/public/promo/active
+ * 获取当前活动的推广（无需认证）
+ *
+ * 响应：Promo[]
+ */
+publicContent.get(
+  '/promo/active',
+  describeRoute({
+    summary: '获取当前活动的推广',
+    description: '无需认证',
+    response: listSchema(modelSchema(promoModel)),
+  }),
+  siteMiddleware,
+  async (c: Context) => {
+    const { siteId } = getSiteContext(c)
+
+    // 创建缓存管理器实例
+    const cacheManager = new CacheManager(c.env.CACHE)
+
+    // 创建公开内容服务实例
+    const db = drizzle(c.env.DB)
+    const publicContentService = new PublicContentService(db, cacheManager)
+
+    // 获取活动推广
+    const activePromos = await publicContentService.getActivePromos(siteId)
+
+    c.header('Cache-Control', PUBLIC_CACHE_CONTROL)
+    return c.json(successResponse(activePromos))
+  }
+)
+
+export default publicContent
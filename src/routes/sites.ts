@@ -0,0 +1,709 @@
+/**
+ * 站点路由
+ *
+ * 实现站点管理相关的 API 端点：
+ * - GET /api/v1/site/settings - 获取当前站点设置（需要 MANAGE 或更高权限）
+ * - PUT /api/v1/site/settings - 更新当前站点设置（需要 MANAGE 或更高权限）
+ * - GET /api/v1/site/mail-templates - 查询当前站点的邮件模板（需要 MANAGE 或更高权限）
+ * - PUT /api/v1/site/mail-templates/:type - 自定义邮件模板（需要 MANAGE 或更高权限）
+ * - DELETE /api/v1/site/mail-templates/:type - 恢复默认邮件模板（需要 MANAGE 或更高权限）
+ * - POST /api/v1/site - 创建站点（需要 SUPERMANAGE 权限）
+ * - PUT /api/v1/site/:id - 更新站点（需要 SUPERMANAGE 权限）
+ * - DELETE /api/v1/site/:id - 删除站点（需要 SUPERMANAGE 权限）
+ * - GET /api/v1/site - 查询站点列表（需要 SUPERMANAGE 权限）
+ * - GET /api/v1/site/:id - 获取单个站点（需要 SUPERMANAGE 权限）
+ * - GET /api/v1/site/:id/domain - 查询站点域名（需要 SUPERMANAGE 权限）
+ * - POST /api/v1/site/:id/domain - 绑定站点域名（需要 SUPERMANAGE 权限）
+ * - DELETE /api/v1/site/:id/domain/:domainId - 解绑站点域名（需要 SUPERMANAGE 权限）
+ */
+
+import { drizzle } from 'drizzle-orm/d1'
+import type { Context } from 'hono'
+import { Hono } from 'hono'
+import { siteModel } from '../db/models'
+import { AuthorizationError, ValidationError } from '../errors'
+import { auditMiddleware } from '../middleware/audit'
+import { authMiddleware, getAuthContext } from '../middleware/auth'
+import { getSiteContext, siteMiddleware } from '../middleware/site'
+import {
+  getValidatedJson,
+  getValidatedQuery,
+  validateJson,
+  validateQuery,
+} from '../middleware/validation'
+import { CacheManager } from '../services/cacheManager'
+import { isMailTemplateType, MailService } from '../services/mailService'
+import { createMailTransport } from '../services/mailTransport'
+import { SiteService } from '../services/siteService'
+import {
+  type CreateSiteDomainInput,
+  type CreateSiteInput,
+  type QueryParams,
+  type StatusListQuery,
+  type UpdateMailTemplateInput,
+  type UpdateSiteInput,
+  type UpdateSiteSettingsInput,
+  UserTokenTypeEnum,
+  UserTypeEnum,
+} from '../types'
+import {
+  createSiteDomainSchema,
+  createSiteSchema,
+  statusListQuerySchema,
+  updateMailTemplateSchema,
+  updateSiteSchema,
+  updateSiteSettingsSchema,
+} from '../types/schemas'
+import { checkPermission } from '../utils/authorization'
+import { getETag, jsonWithETag } from '../utils/etag'
+import { parseFilterQuery } from '../utils/filterQuery'
+import {
+  describeRoute,
+  type JsonSchema,
+  listSchema,
+  messageSchema,
+  modelSchema,
+  paginatedSchema,
+} from '../utils/openapi'
+import { successResponse } from '../utils/response'
+
+const sites = new Hono()
+
+// 邮件模板结构（OpenAPI 文档）
+const mailTemplateSchema: JsonSchema = {
+  type: 'object',
+  required: ['type', 'subject', 'body', 'is_default'],
+  properties: {
+    type: { type: 'string', enum: Object.values(UserTokenTypeEnum) },
+    subject: { type: 'string' },
+    body: { type: 'string' },
+    is_default: { type: 'boolean' },
+  },
+}
+
+/**
+ * GET /api/v1/site/settings
+ * 获取当前站点设置（需要 MANAGE 或更高权限）
+ *
+ * 请求头：
+ * - If-None-Match: string - 版本（可选，与当前版本一致时返回 304）
+ *
+ * 响应：Site（响应头 ETag 为当前版本）
+ */
+sites.get(
+  '/settings',
+  describeRoute({
+    summary: '获取当前站点设置',
+    description: '需要 MANAGE 或更高权限',
+    response: modelSchema(siteModel),
+  }),
+  authMiddleware,
+  siteMiddleware,
+  async (c: Context) => {
+    const authContext = getAuthContext(c)
+    const { siteId } = getSiteContext(c)
+
+    // 检查权限：需要 MANAGE 或更高权限
+    if (!checkPermission(authContext.type, UserTypeEnum.MANAGE)) {
+      throw new AuthorizationError('权限不足，需要 MANAGE 或更高权限')
+    }
+
+    // 创建缓存管理器实例
+    const cacheManager = new CacheManager(c.env.CACHE)
+
+    // 创建站点服务实例
+    const db = drizzle(c.env.DB)
+    const siteService = new SiteService(db, cacheManager)
+
+    // 获取站点设置
+    const site = await siteService.getById(siteId)
+
+    return jsonWithETag(c, site)
+  }
+)
+
+/**
+ * PUT /api/v1/site/settings
+ * 更新当前站点设置（需要 MANAGE 或更高权限）
+ *
+ * 请求体：UpdateSiteSettingsInput（title、logo、keywords、description、copyright、max_revisions、mail_sender_name、require_2fa）
+ * - require_2fa 只有 SUPERMANAGE 可以修改
+ *
+ * 请求头：
+ * - If-Match: string - 版本（可选，来自 ETag，与当前版本不一致时返回 412）
+ *
+ * 响应：Site（响应头 ETag 为更新后的版本）
+ */
+sites.put(
+  '/settings',
+  describeRoute({
+    summary: '更新当前站点设置',
+    description: '需要 MANAGE 或更高权限',
+    response: modelSchema(siteModel),
+  }),
+  authMiddleware,
+  siteMiddleware,
+  auditMiddleware,
+  validateJson(updateSiteSettingsSchema),
+  async (c: Context) => {
+    const authContext = getAuthContext(c)
+    const { siteId } = getSiteContext(c)
+
+    // 检查权限：需要 MANAGE 或更高权限
+    if (!checkPermission(authContext.type, UserTypeEnum.MANAGE)) {
+      throw new AuthorizationError('权限不足，需要 MANAGE 或更高权限')
+    }
+
+    // 获取已校验的请求体
+    const body = getValidatedJson<UpdateSiteSettingsInput>(c)
+
+    // 两步验证策略约束的是 MANAGE 自己，只允许 SUPERMANAGE 修改
+    if (
+      body.require_2fa !== undefined &&
+      !checkPermission(authContext.type, UserTypeEnum.SUPERMANAGE)
+    ) {
+      throw new AuthorizationError('权限不足，修改两步验证策略需要 SUPERMANAGE 权限')
+    }
+
+    // 创建缓存管理器实例
+    const cacheManager = new CacheManager(c.env.CACHE)
+
+    // 创建站点服务实例
+    const db = drizzle(c.env.DB)
+    const siteService = new SiteService(db, cacheManager)
+
+    // 更新站点设置
+    const site = await siteService.updateSettings(siteId, body, c.req.header('If-Match'))
+
+    c.header('ETag', getETag(site))
+    return c.json(successResponse(site))
+  }
+)
+
+/**
+ * GET /api/v1/site/mail-templates
+ * 查询当前站点的邮件模板（需要 MANAGE 或更高权限）
+ *
+ * 响应：MailTemplate[]（未自定义的类型返回默认模板，is_default 为 true）
+ */
+sites.get(
+  '/mail-templates',
+  describeRoute({
+    summary: '查询当前站点的邮件模板',
+    description: '需要 MANAGE 或更高权限',
+    response: listSchema(mailTemplateSchema),
+  }),
+  authMiddleware,
+  siteMiddleware,
+  async (c: Context) => {
+    const authContext = getAuthContext(c)
+    const { siteId } = getSiteContext(c)
+
+    // 检查权限：需要 MANAGE 或更高权限
+    if (!checkPermission(authContext.type, UserTypeEnum.MANAGE)) {
+      throw new AuthorizationError('权限不足，需要 MANAGE 或更高权限')
+    }
+
+    // 创建邮件服务实例
+    const db = drizzle(c.env.DB)
+    const mailService = new MailService(db, createMailTransport(c.env))
+
+    const templates = await mailService.listTemplates(siteId)
+
+    return c.json(successResponse(templates))
+  }
+)
+
+/**
+ * PUT /api/v1/site/mail-templates/:type
+ * 自定义当前站点的邮件模板（需要 MANAGE 或更高权限）
+ *
+ * 路径参数：
+ * - type: UserTokenTypeEnum - 邮件类型（PASSWORD_RESET、EMAIL_VERIFICATION）
+ *
+ * 请求体：
+ * - subject: string - 主题
+ * - body: string - 纯文本正文（必须包含 {{token}}）
+ *
+ * 响应：MailTemplate
+ */
+sites.put(
+  '/mail-templates/:type',
+  describeRoute({
+    summary: '自定义当前站点的邮件模板',
+    description: '需要 MANAGE 或更高权限',
+    response: mailTemplateSchema,
+  }),
+  authMiddleware,
+  siteMiddleware,
+  auditMiddleware,
+  validateJson(updateMailTemplateSchema),
+  async (c: Context) => {
+    const authContext = getAuthContext(c)
+    const { siteId } = getSiteContext(c)
+
+    // 检查权限：需要 MANAGE 或更高权限
+    if (!checkPermission(authContext.type, UserTypeEnum.MANAGE)) {
+      throw new AuthorizationError('权限不足，需要 MANAGE 或更高权限')
+    }
+
+    // 校验邮件类型
+    const type = c.req.param('type')
+    if (!isMailTemplateType(type)) {
+      throw new ValidationError('无效的邮件类型')
+    }
+
+    // 获取已校验的请求体
+    const body = getValidatedJson<UpdateMailTemplateInput>(c)
+
+    // 创建邮件服务实例
+    const db = drizzle(c.env.DB)
+    const mailService = new MailService(db, createMailTransport(c.env))
+
+    const template = await mailService.updateTemplate(siteId, type, body)
+
+    return c.json(successResponse(template))
+  }
+)
+
+/**
+ * DELETE /api/v1/site/mail-templates/:type
+ * 恢复当前站点的默认邮件模板（需要 MANAGE 或更高权限）
+ *
+ * 路径参数：
+ * - type: UserTokenTypeEnum - 邮件类型
+ *
+ * 响应：成功消息（未自定义该模板时返回 404）
+ */
+sites.delete(
+  '/mail-templates/:type',
+  describeRoute({
+    summary: '恢复默认邮件模板',
+    description: '需要 MANAGE 或更高权限',
+    response: messageSchema,
+  }),
+  authMiddleware,
+  siteMiddleware,
+  auditMiddleware,
+  async (c: Context) => {
+    const authContext = getAuthContext(c)
+    const { siteId } = getSiteContext(c)
+
+    // 检查权限：需要 MANAGE 或更高权限
+    if (!checkPermission(authContext.type, UserTypeEnum.MANAGE)) {
+      throw new AuthorizationError('权限不足，需要 MANAGE 或更高权限')
+    }
+
+    // 校验邮件类型
+    const type = c.req.param('type')
+    if (!isMailTemplateType(type)) {
+      throw new ValidationError('无效的邮件类型')
+    }
+
+    // 创建邮件服务实例
+    const db = drizzle(c.env.DB)
+    const mailService = new MailService(db, createMailTransport(c.env))
+
+    await mailService.resetTemplate(siteId, type)
+
+    return c.json(successResponse({ message: '已恢复默认模板' }))
+  }
+)
+
+/**
+ * POST /api/v1/site
+ * 创建站点（需要 SUPERMANAGE 权限）
+ *
+ * 请求体：CreateSiteInput
+ *
+ * 响应：Site
+ */
+sites.post(
+  '/',
+  describeRoute({
+    summary: '创建站点',
+    description: '需要 SUPERMANAGE 权限',
+    status: 201,
+    response: modelSchema(siteModel),
+  }),
+  authMiddleware,
+  auditMiddleware,
+  validateJson(createSiteSchema),
+  async (c: Context) => {
+    const authContext = getAuthContext(c)
+
+    // 检查权限：需要 SUPERMANAGE 权限
+    if (!checkPermission(authContext.type, UserTypeEnum.SUPERMANAGE)) {
+      throw new AuthorizationError('权限不足，需要 SUPERMANAGE 权限')
+    }
+
+    // 获取已校验的请求体
+    const body = getValidatedJson<CreateSiteInput>(c)
+
+    // 创建缓存管理器实例
+    const cacheManager = new CacheManager(c.env.CACHE)
+
+    // 创建站点服务实例
+    const db = drizzle(c.env.DB)
+    const siteService = new SiteService(db, cacheManager)
+
+    // 创建站点
+    const site = await siteService.create(body)
+
+    return c.json(successResponse(site), 201)
+  }
+)
+
+/**
+ * PUT /api/v1/site/:id
+ * 更新站点（需要 SUPERMANAGE 权限）
+ *
+ * 路径参数：
+ * - id: number - 站点ID
+ *
+ * 请求体：UpdateSiteInput
+ *
+ * 请求头：
+ * - If-Match: string - 版本（可选，来自 ETag，与当前版本不一致时返回 412）
+ *
+ * 响应：Site（响应头 ETag 为更新后的版本）
+ */
+sites.put(
+  '/:id',
+  describeRoute({
+    summary: '更新站点',
+    description: '需要 SUPERMANAGE 权限',
+    response: modelSchema(siteModel),
+  }),
+  authMiddleware,
+  auditMiddleware,
+  validateJson(updateSiteSchema),
+  async (c: Context) => {
+    const authContext = getAuthContext(c)
+
+    // 检查权限：需要 SUPERMANAGE 权限
+    if (!checkPermission(authContext.type, UserTypeEnum.SUPERMANAGE)) {
+      throw new AuthorizationError('权限不足，需要 SUPERMANAGE 权限')
+    }
+
+    // 获取站点ID
+    const id = parseInt(c.req.param('id'), 10)
+    if (Number.isNaN(id) || id <= 0) {
+      throw new ValidationError('无效的站点ID')
+    }
+
+    // 获取已校验的请求体
+    const body = getValidatedJson<UpdateSiteInput>(c)
+
+    // 创建缓存管理器实例
+    const cacheManager = new CacheManager(c.env.CACHE)
+
+    // 创建站点服务实例
+    const db = drizzle(c.env.DB)
+    const siteService = new SiteService(db, cacheManager)
+
+    // 更新站点
+    const site = await siteService.update(id, body, c.req.header('If-Match'))
+
+    c.header('ETag', getETag(site))
+    return c.json(successResponse(site))
+  }
+)
+
+/**
+ * DELETE /api/v1/site/:id
+ * 删除站点（软删除，需要 SUPERMANAGE 权限）
+ *
+ * 路径参数：
+ * - id: number - 站点ID
+ *
+ * 响应：成功消息
+ */
+sites.delete(
+  '/:id',
+  describeRoute({
+    summary: '删除站点',
+    description: '软删除，需要 SUPERMANAGE 权限',
+    response: messageSchema,
+  }),
+  authMiddleware,
+  auditMiddleware,
+  async (c: Context) => {
+    const authContext = getAuthContext(c)
+
+    // 检查权限：需要 SUPERMANAGE 权限
+    if (!checkPermission(authContext.type, UserTypeEnum.SUPERMANAGE)) {
+      throw new AuthorizationError('权限不足，需要 SUPERMANAGE 权限')
+    }
+
+    // 获取站点ID
+    const id = parseInt(c.req.param('id'), 10)
+    if (Number.isNaN(id) || id <= 0) {
+      throw new ValidationError('无效的站点ID')
+    }
+
+    // 创建缓存管理器实例
+    const cacheManager = new CacheManager(c.env.CACHE)
+
+    // 创建站点服务实例
+    const db = drizzle(c.env.DB)
+    const siteService = new SiteService(db, cacheManager)
+
+    // 删除站点（软删除）
+    await siteService.delete(id)
+
+    return c.json(successResponse({ message: '站点已删除' }))
+  }
+)
+
+/**
+ * GET /api/v1/site
+ * 查询站点列表（需要 SUPERMANAGE 权限）
+ *
+ * 查询参数：
+ * - page: number - 页码（默认 1）
+ * - pageSize: number - 每页数量（默认 10）
+ * - sort: string - 排序字段
+ * - sortOrder: 'asc' | 'desc' - 排序方向
+ * - status: StatusEnum - 状态过滤
+ * - search: string - 搜索关键词（匹配 name、title）
+ * - filter[field][op]: 过滤条件（语法见 utils/filterQuery）
+ * - fields: string - 返回字段（逗号分隔）
+ *
+ * 响应：PaginatedResult<Site>
+ */
+sites.get(
+  '/',
+  describeRoute({
+    summary: '查询站点列表',
+    description: '需要 SUPERMANAGE 权限',
+    response: paginatedSchema(modelSchema(siteModel)),
+  }),
+  authMiddleware,
+  validateQuery(statusListQuerySchema),
+  async (c: Context) => {
+    const authContext = getAuthContext(c)
+
+    // 检查权限：需要 SUPERMANAGE 权限
+    if (!checkPermission(authContext.type, UserTypeEnum.SUPERMANAGE)) {
+      throw new AuthorizationError('权限不足，需要 SUPERMANAGE 权限')
+    }
+
+    // 获取已校验的查询参数
+    const { status, ...query } = getValidatedQuery<StatusListQuery>(c)
+
+    // 构建查询参数
+    const queryParams: QueryParams = {
+      ...query,
+      filters: status ? { status } : undefined,
+      filterGroup: parseFilterQuery(new URL(c.req.url).searchParams),
+      searchFields: ['name', 'title'],
+    }
+
+    // 创建缓存管理器实例
+    const cacheManager = new CacheManager(c.env.CACHE)
+
+    // 创建站点服务实例
+    const db = drizzle(c.env.DB)
+    const siteService = new SiteService(db, cacheManager)
+
+    // 查询站点列表
+    const result = await siteService.query(queryParams)
+
+    return c.json(successResponse(result))
+  }
+)
+
+/**
+ * GET /api/v1/site/:id
+ * 获取单个站点（需要 SUPERMANAGE 权限）
+ *
+ * 路径参数：
+ * - id: number - 站点ID
+ *
+ * 请求头：
+ * - If-None-Match: string - 版本（可选，与当前版本一致时返回 304）
+ *
+ * 响应：Site（响应头 ETag 为当前版本）
+ */
+sites.get(
+  '/:id',
+  describeRoute({
+    summary: '获取单个站点',
+    description: '需要 SUPERMANAGE 权限',
+    response: modelSchema(siteModel),
+  }),
+  authMiddleware,
+  async (c: Context) => {
+    const authContext = getAuthContext(c)
+
+    // 检查权限：需要 SUPERMANAGE 权限
+    if (!checkPermission(authContext.type, UserTypeEnum.SUPERMANAGE)) {
+      throw new AuthorizationError('权限不足，需要 SUPERMANAGE 权限')
+    }
+
+    // 获取站点ID
+    const id = parseInt(c.req.param('id'), 10)
+    if (Number.isNaN(id) || id <= 0) {
+      throw new ValidationError('无效的站点ID')
+    }
+
+    // 创建缓存管理器实例
+    const cacheManager = new CacheManager(c.env.CACHE)
+
+    // 创建站点服务实例
+    const db = drizzle(c.env.DB)
+    const siteService = new SiteService(db, cacheManager)
+
+    // 获取站点详情
+    const site = await siteService.getById(id)
+
+    return jsonWithETag(c, site)
+  }
+)
+
+/**
+ * GET /api/v1/site/:id/domain
+ * 查询站点域名（需要 SUPERMANAGE 权限）
+ *
+ * 路径参数：
+ * - id: number - 站点ID
+ *
+ * 响应：SiteDomain[]
+ */
+sites.get(
+  '/:id/domain',
+  describeRoute({ summary: '查询站点域名', description: '需要 SUPERMANAGE 权限' }),
+  authMiddleware,
+  async (c: Context) => {
+    const authContext = getAuthContext(c)
+
+    // 检查权限：需要 SUPERMANAGE 权限
+    if (!checkPermission(authContext.type, UserTypeEnum.SUPERMANAGE)) {
+      throw new AuthorizationError('权限不足，需要 SUPERMANAGE 权限')
+    }
+
+    // 获取站点ID
+    const id = parseInt(c.req.param('id'), 10)
+    if (Number.isNaN(id) || id <= 0) {
+      throw new ValidationError('无效的站点ID')
+    }
+
+    // 创建缓存管理器实例
+    const cacheManager = new CacheManager(c.env.CACHE)
+
+    // 创建站点服务实例
+    const db = drizzle(c.env.DB)
+    const siteService = new SiteService(db, cacheManager)
+
+    // 查询站点域名
+    const domains = await siteService.listDomains(id)
+
+    return c.json(successResponse(domains))
+  }
+)
+
+/**
+ * POST /api/v1/site/:id/domain
+ * 绑定站点域名（需要 SUPERMANAGE 权限）
+ *
+ * 路径参数：
+ * - id: number - 站点ID
+ *
+ * 请求体：CreateSiteDomainInput
+ * - domain: string - 域名（不含协议和端口）
+ * - is_primary?: number - 是否为主域名（1 是，0 否）
+ *
+ * 响应：SiteDomain
+ */
+sites.post(
+  '/:id/domain',
+  describeRoute({ summary: '绑定站点域名', description: '需要 SUPERMANAGE 权限', status: 201 }),
+  authMiddleware,
+  auditMiddleware,
+  validateJson(createSiteDomainSchema),
+  async (c: Context) => {
+    const authContext = getAuthContext(c)
+
+    // 检查权限：需要 SUPERMANAGE 权限
+    if (!checkPermission(authContext.type, UserTypeEnum.SUPERMANAGE)) {
+      throw new AuthorizationError('权限不足，需要 SUPERMANAGE 权限')
+    }
+
+    // 获取站点ID
+    const id = parseInt(c.req.param('id'), 10)
+    if (Number.isNaN(id) || id <= 0) {
+      throw new ValidationError('无效的站点ID')
+    }
+
+    // 获取已校验的请求体
+    const body = getValidatedJson<CreateSiteDomainInput>(c)
+
+    // 创建缓存管理器实例
+    const cacheManager = new CacheManager(c.env.CACHE)
+
+    // 创建站点服务实例
+    const db = drizzle(c.env.DB)
+    const siteService = new SiteService(db, cacheManager)
+
+    // 绑定站点域名
+    const domain = await siteService.addDomain(id, body)
+
+    return c.json(successResponse(domain), 201)
+  }
+)
+
+/**
+ * DELETE /api/v1/site/:id/domain/:domainId
+ * 解绑站点域名（需要 SUPERMANAGE 权限）
+ *
+ * 路径参数：
+ * - id: number - 站点ID
+ * - domainId: number - 域名映射ID
+ *
+ * 响应：成功消息
+ */
+sites.delete(
+  '/:id/domain/:domainId',
+  describeRoute({
+    summary: '解绑站点域名',
+    description: '需要 SUPERMANAGE 权限',
+    response: messageSchema,
+  }),
+  authMiddleware,
+  auditMiddleware,
+  async (c: Context) => {
+    const authContext = getAuthContext(c)
+
+    // 检查权限：需要 SUPERMANAGE 权限
+    if (!checkPermission(authContext.type, UserTypeEnum.SUPERMANAGE)) {
+      throw new AuthorizationError('权限不足，需要 SUPERMANAGE 权限')
+    }
+
+    // 获取站点ID
+    const id = parseInt(c.req.param('id'), 10)
+    if (Number.isNaN(id) || id <= 0) {
+      throw new ValidationError('无效的站点ID')
+    }
+
+    // 获取域名映射ID
+    const domainId = parseInt(c.req.param('domainId'), 10)
+    if (Number.isNaN(domainId) || domainId <= 0) {
+      throw new ValidationError('无效的域名ID')
+    }
+
+    // 创建缓存管理器实例
+    const cacheManager = new CacheManager(c.env.CACHE)
+
+    // 创建站点服务实例
+    const db = drizzle(c.env.DB)
+    const siteService = new SiteService(db, cacheManager)
+
+    // 解绑站点域名
+    await siteService.removeDomain(id, domainId)
+
+    return c.json(successResponse({ message: '域名已解绑' }))
+  }
+)
+
+export default sites
@@ -0,0 +1,115 @@
+/**
+ * 标签路由
+ *
+ * 实现标签相关的 API 端点（标签为 DictTypeEnum.TAG 字典条目，通过字典接口维护）：
+ * - GET /api/v1/tag - 查询标签及使用次数（需要认证）
+ * - GET /api/v1/tag/:id/article - 按标签查询文章列表（需要认证）
+ */
+
+import { drizzle } from 'drizzle-orm/d1'
+import type { Context } from 'hono'
+import { Hono } from 'hono'
+import { articleModel } from '../db/models'
+import { ValidationError } from '../errors'
+import { authMiddleware } from '../middleware/auth'
+import { getSiteContext, siteMiddleware } from '../middleware/site'
+import { getValidatedQuery, validateQuery } from '../middleware/validation'
+import { ArticleService } from '../services/articleService'
+import { TagService } from '../services/tagService'
+import type { QueryParams, StatusListQuery } from '../types'
+import { statusListQuerySchema } from '../types/schemas'
+import { describeRoute, modelSchema, paginatedSchema } from '../utils/openapi'
+import { successResponse } from '../utils/response'
+
+const tags = new Hono()
+
+/**
+ * GET /api/v1/tag
+ * 查询标签及使用次数（需要认证）
+ *
+ * 使用次数统计关联该标签的未删除文章，按 sort 升序排列。
+ *
+ * 响应：TagWithCount[]
+ */
+tags.get(
+  '/',
+  describeRoute({ summary: '查询标签及使用次数', description: '需要认证' }),
+  authMiddleware,
+  siteMiddleware,
+  async (c: Context) => {
+    const { siteId } = getSiteContext(c)
+
+    // 创建标签服务实例
+    const db = drizzle(c.env.DB)
+    const tagService = new TagService(db)
+
+    // 查询标签及使用次数
+    const results = await tagService.queryWithCounts(siteId)
+
+    return c.json(successResponse(results))
+  }
+)
+
+/**
+ * GET /api/v1/tag/:id/article
+ * 按标签查询文章列表（需要认证，支持分页和排序）
+ *
+ * 路径参数：
+ * - id: number - 标签ID
+ *
+ * 查询参数：
+ * - page: number - 页码（默认 1）
+ * - pageSize: number - 每页数量（默认 10，最大 100）
+ * - status: StatusEnum - 状态过滤（可选）
+ * - sort: string - 排序字段
+ * - sortOrder: 'asc' | 'desc' - 排序方向
+ * - search: string - 搜索关键词
+ * - fields: string - 返回字段（逗号分隔）
+ * - expand: string - 展开关联（逗号分隔，可选 channel、author、origin、tags）
+ *
+ * 响应：PaginatedResult<Article>
+ */
+tags.get(
+  '/:id/article',
+  describeRoute({
+    summary: '按标签查询文章列表',
+    description: '需要认证，支持分页和排序',
+    response: paginatedSchema(modelSchema(articleModel)),
+  }),
+  authMiddleware,
+  siteMiddleware,
+  validateQuery(statusListQuerySchema),
+  async (c: Context) => {
+    const { siteId } = getSiteContext(c)
+
+    // 获取标签ID
+    const tagId = parseInt(c.req.param('id'), 10)
+    if (Number.isNaN(tagId) || tagId <= 0) {
+      throw new ValidationError('无效的标签ID')
+    }
+
+    // 获取已校验的查询参数
+    const { status, ...query } = getValidatedQuery<StatusListQuery>(c)
+
+    // 创建服务实例
+    const db = drizzle(c.env.DB)
+    const tagService = new TagService(db)
+    const articleService = new ArticleService(db)
+
+    // 验证标签存在
+    await tagService.getById(tagId, siteId)
+
+    // 构建查询参数
+    const queryParams: QueryParams = {
+      ...query,
+      filters: status ? { status } : undefined,
+    }
+
+    // 查询文章列表
+    const result = await articleService.query(queryParams, siteId, tagId)
+
+    return c.json(successResponse(result))
+  }
+)
+
+export default tags
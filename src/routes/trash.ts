@@ -0,0 +1,200 @@
+/**
+ * 回收站路由
+ *
+ * 实现回收站相关的 API 端点（均需要 MANAGE 或更高权限）：
+ * - GET /api/v1/trash/:module - 查询已删除记录
+ * - POST /api/v1/trash/:module/:id/restore - 恢复记录
+ * - DELETE /api/v1/trash/:module/:id - 彻底删除记录
+ *
+ * module 可选值：article、channel、dict、promo、user
+ */
+
+import { drizzle } from 'drizzle-orm/d1'
+import type { Context } from 'hono'
+import { Hono } from 'hono'
+import { AuthorizationError, ValidationError } from '../errors'
+import { auditMiddleware, setAuditContent } from '../middleware/audit'
+import { authMiddleware, getAuthContext } from '../middleware/auth'
+import { getSiteContext, siteMiddleware } from '../middleware/site'
+import { getValidatedQuery, validateQuery } from '../middleware/validation'
+import { CacheManager } from '../services/cacheManager'
+import { isTrashModule, TRASH_AUDIT_MODULES, TrashService } from '../services/trashService'
+import { type PaginationQuery, UserTypeEnum } from '../types'
+import { paginationQuerySchema } from '../types/schemas'
+import { checkPermission } from '../utils/authorization'
+import { describeRoute, messageSchema, paginatedSchema } from '../utils/openapi'
+import { successResponse } from '../utils/response'
+
+const trash = new Hono()
+
+/**
+ * GET /api/v1/trash/:module
+ * 查询已删除记录（需要 MANAGE 或更高权限）
+ *
+ * 路径参数：
+ * - module: string - 模块（article、channel、dict、promo、user）
+ *
+ * 查询参数：
+ * - page: number - 页码（默认 1）
+ * - pageSize: number - 每页数量（默认 10）
+ *
+ * 响应：PaginatedResult（按删除时间降序）
+ */
+trash.get(
+  '/:module',
+  describeRoute({
+    summary: '查询已删除记录',
+    description: '需要 MANAGE 或更高权限',
+    response: paginatedSchema({}),
+  }),
+  authMiddleware,
+  siteMiddleware,
+  validateQuery(paginationQuerySchema),
+  async (c: Context) => {
+    const authContext = getAuthContext(c)
+    const { siteId } = getSiteContext(c)
+
+    // 检查权限：需要 MANAGE 或更高权限
+    if (!checkPermission(authContext.type, UserTypeEnum.MANAGE)) {
+      throw new AuthorizationError('权限不足，需要 MANAGE 或更高权限')
+    }
+
+    // 验证模块
+    const module = c.req.param('module')
+    if (!isTrashModule(module)) {
+      throw new ValidationError('无效的模块')
+    }
+
+    // 创建缓存管理器实例
+    const cacheManager = new CacheManager(c.env.CACHE)
+
+    // 创建回收站服务实例
+    const db = drizzle(c.env.DB)
+    const trashService = new TrashService(db, cacheManager)
+
+    // 查询已删除记录
+    const result = await trashService.query(module, siteId, getValidatedQuery<PaginationQuery>(c))
+
+    return c.json(successResponse(result))
+  }
+)
+
+/**
+ * POST /api/v1/trash/:module/:id/restore
+ * 恢复记录（需要 MANAGE 或更高权限）
+ *
+ * 恢复前验证依赖关系（如文章所属频道必须存在），恢复后状态为 NORMAL。
+ *
+ * 路径参数：
+ * - module: string - 模块
+ * - id: number - 记录ID
+ *
+ * 响应：恢复后的记录
+ */
+trash.post(
+  '/:module/:id/restore',
+  describeRoute({ summary: '恢复记录', description: '需要 MANAGE 或更高权限' }),
+  authMiddleware,
+  siteMiddleware,
+  auditMiddleware,
+  async (c: Context) => {
+    const authContext = getAuthContext(c)
+    const { siteId } = getSiteContext(c)
+
+    // 检查权限：需要 MANAGE 或更高权限
+    if (!checkPermission(authContext.type, UserTypeEnum.MANAGE)) {
+      throw new AuthorizationError('权限不足，需要 MANAGE 或更高权限')
+    }
+
+    // 验证模块
+    const module = c.req.param('module')
+    if (!isTrashModule(module)) {
+      throw new ValidationError('无效的模块')
+    }
+
+    // 获取记录ID
+    const id = parseInt(c.req.param('id'), 10)
+    if (Number.isNaN(id) || id <= 0) {
+      throw new ValidationError('无效的记录ID')
+    }
+
+    // 创建缓存管理器实例
+    const cacheManager = new CacheManager(c.env.CACHE)
+
+    // 创建回收站服务实例
+    const db = drizzle(c.env.DB)
+    const trashService = new TrashService(db, cacheManager)
+
+    // 恢复记录
+    const record = await trashService.restore(module, id, siteId)
+
+    // 记录恢复操作到审计日志
+    const auditModule = TRASH_AUDIT_MODULES[module]
+    setAuditContent(c, `RESTORE ${auditModule} #${id} FROM TRASH`, auditModule)
+
+    return c.json(successResponse(record))
+  }
+)
+
+/**
+ * DELETE /api/v1/trash/:module/:id
+ * 彻底删除记录（需要 MANAGE 或更高权限）
+ *
+ * 只能删除回收站中的记录，仍被引用的频道不能删除。
+ *
+ * 路径参数：
+ * - module: string - 模块
+ * - id: number - 记录ID
+ *
+ * 响应：{ message: string }
+ */
+trash.delete(
+  '/:module/:id',
+  describeRoute({
+    summary: '彻底删除记录',
+    description: '需要 MANAGE 或更高权限',
+    response: messageSchema,
+  }),
+  authMiddleware,
+  siteMiddleware,
+  auditMiddleware,
+  async (c: Context) => {
+    const authContext = getAuthContext(c)
+    const { siteId } = getSiteContext(c)
+
+    // 检查权限：需要 MANAGE 或更高权限
+    if (!checkPermission(authContext.type, UserTypeEnum.MANAGE)) {
+      throw new AuthorizationError('权限不足，需要 MANAGE 或更高权限')
+    }
+
+    // 验证模块
+    const module = c.req.param('module')
+    if (!isTrashModule(module)) {
+      throw new ValidationError('无效的模块')
+    }
+
+    // 获取记录ID
+    const id = parseInt(c.req.param('id'), 10)
+    if (Number.isNaN(id) || id <= 0) {
+      throw new ValidationError('无效的记录ID')
+    }
+
+    // 创建缓存管理器实例
+    const cacheManager = new CacheManager(c.env.CACHE)
+
+    // 创建回收站服务实例
+    const db = drizzle(c.env.DB)
+    const trashService = new TrashService(db, cacheManager)
+
+    // 彻底删除记录
+    await trashService.purge(module, id, siteId)
+
+    // 记录删除操作到审计日志
+    const auditModule = TRASH_AUDIT_MODULES[module]
+    setAuditContent(c, `PURGE ${auditModule} #${id} FROM TRASH`, auditModule)
+
+    return c.json(successResponse({ message: '记录已彻底删除' }))
+  }
+)
+
+export default trash
@@ -5,11 +5,31 @@
  * - POST /api/v1/register - 用户注册（公开端点）
  * - POST /api/v1/user - 创建用户（需要 MANAGE 或更高权限）
  * - PUT /api/v1/user/:id - 更新用户（需要 MANAGE 或更高权限，或用户本人）
+ * - PATCH /api/v1/user/:id - 部分更新用户（需要 MANAGE 或更高权限，或用户本人）
  * - DELETE /api/v1/user/:id - 删除用户（需要 MANAGE 或更高权限）
+ * - POST /api/v1/user/:id/unlock - 解除账户锁定（需要 MANAGE 或更高权限）
+ * - GET /api/v1/user/:id/login-attempts - 查询用户的登录尝试记录（需要 MANAGE 或更高权限）
  * - GET /api/v1/user - 查询用户列表（需要认证，支持分页和过滤）
  * - POST /api/v1/login - 用户登录（公开端点，不需要认证）
  * - GET /api/v1/login/nonce - 获取钱包登录 nonce（公开端点）
  * - POST /api/v1/login/evm - EVM 钱包签名登录（公开端点）
+ * - POST /api/v1/login/2fa - 提交两步验证码完成登录（公开端点）
+ * - POST /api/v1/login/2fa/setup - 登录过程中获取两步验证密钥（公开端点）
+ * - POST /api/v1/token/refresh - 使用刷新令牌换取新的令牌对（公开端点）
+ * - POST /api/v1/logout - 退出登录，撤销当前令牌（需要认证）
+ * - GET /api/v1/me - 获取当前用户资料（需要认证）
+ * - PUT /api/v1/me - 修改当前用户资料（需要认证）
+ * - PUT /api/v1/me/password - 修改当前用户密码（需要认证）
+ * - GET /api/v1/me/sessions - 查询当前用户的登录会话（需要认证）
+ * - POST /api/v1/me/email/verification - 发送邮箱验证邮件（需要认证）
+ * - GET /api/v1/me/2fa - 查询两步验证状态（需要认证）
+ * - POST /api/v1/me/2fa/setup - 获取两步验证密钥（需要认证）
+ * - POST /api/v1/me/2fa/enable - 提交验证码启用两步验证（需要认证）
+ * - POST /api/v1/me/2fa/disable - 关闭两步验证（需要认证）
+ * - POST /api/v1/me/2fa/recovery-codes - 重新生成恢复码（需要认证）
+ * - POST /api/v1/password/forgot - 发送重置密码邮件（公开端点）
+ * - POST /api/v1/password/reset - 使用重置令牌设置新密码（公开端点）
+ * - POST /api/v1/email/verify - 使用验证令牌验证邮箱（公开端点）
  *
  * **验证需求**: 5.1, 5.2, 5.3, 5.4, 5.5, 9.1, 21.1, 21.2, 21.3, 21.4, 21.5
  */
@@ -17,17 +37,191 @@
 import { drizzle } from 'drizzle-orm/d1'
 import type { Context } from 'hono'
 import { Hono } from 'hono'
+import { getModelColumns, userModel } from '../db/models'
 import { AuthorizationError, ValidationError } from '../errors'
+import { auditMiddleware, setAuditContent } from '../middleware/audit'
 import { authMiddleware, getAuthContext } from '../middleware/auth'
+import { RATE_LIMIT_POLICIES, rateLimit } from '../middleware/rateLimit'
 import { getSiteContext, siteMiddleware } from '../middleware/site'
+import {
+  getValidatedJson,
+  getValidatedQuery,
+  parseSchema,
+  validateJson,
+  validateQuery,
+} from '../middleware/validation'
+import { AccountService } from '../services/accountService'
+import { CacheManager } from '../services/cacheManager'
+import { LoginAttemptService } from '../services/loginAttemptService'
+import { DEFAULT_MAIL_FROM, MailService } from '../services/mailService'
+import { createMailTransport } from '../services/mailTransport'
+import { TokenService } from '../services/tokenService'
+import { TwoFactorService } from '../services/twoFactorService'
 import { UserService } from '../services/userService'
-import { type CreateUserInput, type UpdateUserInput, UserTypeEnum } from '../types'
+import {
+  type ChangePasswordRequest,
+  type CreateUserInput,
+  type ForgotPasswordRequest,
+  type LoginClient,
+  type LoginRequest,
+  type PaginationQuery,
+  type RefreshTokenRequest,
+  type RegisterInput,
+  type ResetPasswordRequest,
+  type TwoFactorChallengeRequest,
+  type TwoFactorCodeRequest,
+  type TwoFactorLoginRequest,
+  type UpdateProfileInput,
+  type UpdateUserInput,
+  type UserListQuery,
+  UserTypeEnum,
+  type VerifyEmailRequest,
+  type WalletLoginRequest,
+} from '../types'
+import {
+  changePasswordSchema,
+  createUserSchema,
+  forgotPasswordSchema,
+  loginSchema,
+  paginationQuerySchema,
+  refreshTokenSchema,
+  registerSchema,
+  resetPasswordSchema,
+  twoFactorChallengeSchema,
+  twoFactorCodeSchema,
+  twoFactorLoginSchema,
+  updateProfileSchema,
+  updateUserSchema,
+  userListQuerySchema,
+  verifyEmailSchema,
+  walletLoginSchema,
+} from '../types/schemas'
 import { checkPermission } from '../utils/authorization'
-import { generateToken } from '../utils/jwt'
+import { getETag, jsonWithETag } from '../utils/etag'
+import { DEFAULT_ACCESS_TOKEN_EXPIRATION } from '../utils/jwt'
+import {
+  describeRoute,
+  type JsonSchema,
+  listSchema,
+  messageSchema,
+  modelSchema,
+  paginatedSchema,
+} from '../utils/openapi'
+import { paginatedQuery } from '../utils/paginatedQuery'
+import { applyPatch, parsePatchRequest } from '../utils/patch'
+import { getClientIp } from '../utils/request'
 import { successResponse } from '../utils/response'
 
 const users = new Hono()
 
+/**
+ * 创建账户服务实例（找回密码、验证邮箱）
+ *
+ * @param c - Hono 上下文
+ * @returns 账户服务
+ */
+function createAccountService(c: Context): AccountService {
+  const db = drizzle(c.env.DB)
+  const mailService = new MailService(
+    db,
+    createMailTransport(c.env),
+    c.env.MAIL_FROM || DEFAULT_MAIL_FROM
+  )
+  const tokenService = new TokenService(
+    db,
+    c.env.JWT_SECRET,
+    c.env.JWT_EXPIRATION || DEFAULT_ACCESS_TOKEN_EXPIRATION,
+    new CacheManager(c.env.CACHE)
+  )
+  return new AccountService(db, mailService, tokenService)
+}
+
+/**
+ * 获取登录请求的客户端信息（用于登录失败统计和审计日志）
+ *
+ * @param c - Hono 上下文
+ * @returns 客户端 IP 和 User-Agent
+ */
+function getLoginClient(c: Context): LoginClient {
+  return { ip: getClientIp(c), user_agent: c.req.header('User-Agent') || '' }
+}
+
+// 登录响应结构（OpenAPI 文档）
+const loginResponseSchema: JsonSchema = {
+  type: 'object',
+  required: ['token', 'refreshToken', 'expiresIn', 'user'],
+  properties: {
+    token: { type: 'string' },
+    refreshToken: { type: 'string' },
+    expiresIn: { type: 'integer' },
+    user: modelSchema(userModel),
+    recoveryCodes: { type: 'array', items: { type: 'string' } },
+  },
+}
+
+// 两步验证挑战结构（OpenAPI 文档）
+const twoFactorChallengeResponseSchema: JsonSchema = {
+  type: 'object',
+  required: ['twoFactorRequired', 'setupRequired', 'challengeToken', 'expiresIn'],
+  properties: {
+    twoFactorRequired: { const: true },
+    setupRequired: { type: 'boolean' },
+    challengeToken: { type: 'string' },
+    expiresIn: { type: 'integer' },
+  },
+}
+
+// 登录或两步验证挑战（OpenAPI 文档）
+const loginOrChallengeSchema: JsonSchema = {
+  oneOf: [loginResponseSchema, twoFactorChallengeResponseSchema],
+}
+
+// 两步验证密钥结构（OpenAPI 文档）
+const twoFactorSetupSchema: JsonSchema = {
+  type: 'object',
+  required: ['secret', 'otpauthUri'],
+  properties: { secret: { type: 'string' }, otpauthUri: { type: 'string' } },
+}
+
+// 两步验证状态结构（OpenAPI 文档）
+const twoFactorStatusSchema: JsonSchema = {
+  type: 'object',
+  required: ['enabled', 'enabled_at', 'recovery_codes_remaining', 'required'],
+  properties: {
+    enabled: { type: 'boolean' },
+    enabled_at: { anyOf: [{ type: 'string', format: 'date-time' }, { type: 'null' }] },
+    recovery_codes_remaining: { type: 'integer' },
+    required: { type: 'boolean' },
+  },
+}
+
+// 恢复码结构（OpenAPI 文档）
+const recoveryCodesSchema: JsonSchema = {
+  type: 'object',
+  required: ['recoveryCodes'],
+  properties: { recoveryCodes: { type: 'array', items: { type: 'string' } } },
+}
+
+// 登录会话结构（OpenAPI 文档）
+const sessionSchema: JsonSchema = {
+  type: 'object',
+  required: ['id', 'created_at', 'last_active_at', 'expires_at', 'current'],
+  properties: {
+    id: { type: 'string' },
+    created_at: { type: 'string', format: 'date-time' },
+    last_active_at: { type: 'string', format: 'date-time' },
+    expires_at: { type: 'string', format: 'date-time' },
+    current: { type: 'boolean' },
+  },
+}
+
+// 钱包登录 nonce 响应结构（OpenAPI 文档）
+const nonceResponseSchema: JsonSchema = {
+  type: 'object',
+  required: ['message', 'timestamp'],
+  properties: { message: { type: 'string' }, timestamp: { type: 'integer' } },
+}
+
 /**
  * POST /api/v1/register
  * 用户注册（公开端点）
@@ -40,55 +234,69 @@ const users = new Hono()
  * - evm_address?: string - EVM 地址（可选）
  *
  * 响应：
- * - token: string - JWT 令牌
+ * - token: string - 访问令牌（JWT）
+ * - refreshToken: string - 刷新令牌
+ * - expiresIn: number - 访问令牌有效期（秒）
  * - user: UserWithoutPassword - 用户信息（不含密码）
  *
+ * 限流：每个 IP 每小时 5 次（超过返回 429）
+ *
  * **验证需求**: 5.1, 5.2
  */
-users.post('/register', siteMiddleware, async (c: Context) => {
-  const { siteId } = getSiteContext(c)
-
-  // 获取请求体
-  const body = (await c.req.json()) as CreateUserInput
-
-  // 验证必填字段
-  if (!body.username || !body.password || !body.nickname) {
-    throw new ValidationError('用户名、密码和昵称不能为空')
+users.post(
+  '/register',
+  describeRoute({
+    summary: '用户注册',
+    description: '公开端点',
+    tags: ['auth'],
+    status: 201,
+    response: loginResponseSchema,
+  }),
+  rateLimit(RATE_LIMIT_POLICIES.register),
+  siteMiddleware,
+  validateJson(registerSchema),
+  async (c: Context) => {
+    const { siteId } = getSiteContext(c)
+
+    // 获取已校验的请求体
+    const body = getValidatedJson<RegisterInput>(c)
+
+    // 创建用户服务实例
+    const db = drizzle(c.env.DB)
+    const userService = new UserService(
+      db,
+      c.env.JWT_SECRET,
+      c.env.JWT_EXPIRATION || DEFAULT_ACCESS_TOKEN_EXPIRATION,
+      new CacheManager(c.env.CACHE)
+    )
+
+    // 注册用户（默认为 USER 类型）
+    const user = await userService.create(
+      {
+        ...body,
+        type: UserTypeEnum.USER, // 注册的用户默认为普通用户
+      },
+      siteId
+    )
+
+    // 自动登录，签发访问令牌和刷新令牌
+    const tokenService = new TokenService(
+      db,
+      c.env.JWT_SECRET,
+      c.env.JWT_EXPIRATION || DEFAULT_ACCESS_TOKEN_EXPIRATION,
+      new CacheManager(c.env.CACHE)
+    )
+    const tokens = await tokenService.issue(user)
+
+    return c.json(
+      successResponse({
+        ...tokens,
+        user,
+      }),
+      201
+    )
   }
-
-  // 创建用户服务实例
-  const db = drizzle(c.env.DB)
-  const userService = new UserService(db, c.env.JWT_SECRET, c.env.JWT_EXPIRATION || '7d')
-
-  // 注册用户（默认为 USER 类型）
-  const user = await userService.create(
-    {
-      ...body,
-      type: UserTypeEnum.USER, // 注册的用户默认为普通用户
-    },
-    siteId
-  )
-
-  // 自动登录，生成 token
-  const token = await generateToken(
-    {
-      userId: user.id,
-      username: user.username,
-      type: user.type as UserTypeEnum,
-      siteId: user.site_id,
-    },
-    c.env.JWT_SECRET,
-    c.env.JWT_EXPIRATION || '7d'
-  )
-
-  return c.json(
-    successResponse({
-      token,
-      user,
-    }),
-    201
-  )
-})
+)
 
 /**
  * POST /api/v1/login
@@ -99,32 +307,53 @@ users.post('/register', siteMiddleware, async (c: Context) => {
  * - password: string - 密码
  *
  * 响应：
- * - token: string - JWT 令牌
+ * - token: string - 访问令牌（JWT）
+ * - refreshToken: string - 刷新令牌
+ * - expiresIn: number - 访问令牌有效期（秒）
  * - user: UserWithoutPassword - 用户信息（不含密码）
  *
+ * 需要两步验证时改为返回 TwoFactorChallenge（twoFactorRequired、setupRequired、challengeToken、expiresIn），
+ * 再调用 POST /api/v1/login/2fa 完成登录。
+ *
+ * 限流：每个 IP 每分钟 10 次（与钱包登录、两步验证共用计数）（超过返回 429）
+ *
+ * 账户锁定：连续失败 5 次后临时锁定（60 秒起，每多失败一次翻倍，最长 1 小时），锁定期间返回 423；
+ * 同一 IP 15 分钟内失败 20 次后返回 429。登录成功后清零失败次数。
+ *
  * **验证需求**: 9.1
  */
-users.post('/login', siteMiddleware, async (c: Context) => {
-  const { siteId } = getSiteContext(c)
-
-  // 获取请求体
-  const body = await c.req.json()
-  const { username, password } = body
-
-  // 验证必填字段
-  if (!username || !password) {
-    throw new ValidationError('用户名和密码不能为空')
+users.post(
+  '/login',
+  describeRoute({
+    summary: '用户登录',
+    description: '公开端点',
+    tags: ['auth'],
+    response: loginOrChallengeSchema,
+  }),
+  rateLimit(RATE_LIMIT_POLICIES.login),
+  siteMiddleware,
+  validateJson(loginSchema),
+  async (c: Context) => {
+    const { siteId } = getSiteContext(c)
+
+    // 获取已校验的请求体
+    const { username, password } = getValidatedJson<LoginRequest>(c)
+
+    // 创建用户服务实例
+    const db = drizzle(c.env.DB)
+    const userService = new UserService(
+      db,
+      c.env.JWT_SECRET,
+      c.env.JWT_EXPIRATION || DEFAULT_ACCESS_TOKEN_EXPIRATION,
+      new CacheManager(c.env.CACHE)
+    )
+
+    // 执行登录
+    const result = await userService.login(username, password, siteId, getLoginClient(c))
+
+    return c.json(successResponse(result))
   }
-
-  // 创建用户服务实例
-  const db = drizzle(c.env.DB)
-  const userService = new UserService(db, c.env.JWT_SECRET, c.env.JWT_EXPIRATION || '7d')
-
-  // 执行登录
-  const result = await userService.login(username, password, siteId)
-
-  return c.json(successResponse(result))
-})
+)
 
 /**
  * GET /api/v1/login/nonce
@@ -136,25 +365,41 @@ users.post('/login', siteMiddleware, async (c: Context) => {
  *
  * **验证需求**: 21.1, 21.2
  */
-users.get('/login/nonce', async (c: Context) => {
-  // 创建用户服务实例
-  const db = drizzle(c.env.DB)
-  const userService = new UserService(db, c.env.JWT_SECRET, c.env.JWT_EXPIRATION || '7d')
-
-  // 生成 nonce 消息
-  const message = userService.generateWalletLoginMessage()
-
-  // 提取时间戳
-  const timestampMatch = message.match(/Timestamp: (\d+)/)
-  const timestamp = timestampMatch ? parseInt(timestampMatch[1], 10) : Math.floor(Date.now() / 1000)
-
-  return c.json(
-    successResponse({
-      message,
-      timestamp,
-    })
-  )
-})
+users.get(
+  '/login/nonce',
+  describeRoute({
+    summary: '获取钱包登录的 nonce 消息',
+    description: '公开端点',
+    tags: ['auth'],
+    response: nonceResponseSchema,
+  }),
+  async (c: Context) => {
+    // 创建用户服务实例
+    const db = drizzle(c.env.DB)
+    const userService = new UserService(
+      db,
+      c.env.JWT_SECRET,
+      c.env.JWT_EXPIRATION || DEFAULT_ACCESS_TOKEN_EXPIRATION,
+      new CacheManager(c.env.CACHE)
+    )
+
+    // 生成 nonce 消息
+    const message = userService.generateWalletLoginMessage()
+
+    // 提取时间戳
+    const timestampMatch = message.match(/Timestamp: (\d+)/)
+    const timestamp = timestampMatch
+      ? parseInt(timestampMatch[1], 10)
+      : Math.floor(Date.now() / 1000)
+
+    return c.json(
+      successResponse({
+        message,
+        timestamp,
+      })
+    )
+  }
+)
 
 /**
  * POST /api/v1/login/evm
@@ -165,43 +410,657 @@ users.get('/login/nonce', async (c: Context) => {
  * - message: string - 被签名的消息（从 /login/nonce 获取）
  *
  * 响应：
- * - token: string - JWT 令牌
+ * - token: string - 访问令牌（JWT）
+ * - refreshToken: string - 刷新令牌
+ * - expiresIn: number - 访问令牌有效期（秒）
  * - user: UserWithoutPassword - 用户信息（不含密码）
  *
+ * 需要两步验证时与用户名密码登录相同，返回 TwoFactorChallenge。
+ *
+ * 限流：每个 IP 每分钟 10 次（与用户名密码登录、两步验证共用计数）（超过返回 429）
+ *
  * **验证需求**: 21.1, 21.3, 21.4, 21.5
  */
-users.post('/login/evm', siteMiddleware, async (c: Context) => {
-  const { siteId } = getSiteContext(c)
+users.post(
+  '/login/evm',
+  describeRoute({
+    summary: 'EVM 钱包签名登录',
+    description: '公开端点',
+    tags: ['auth'],
+    response: loginOrChallengeSchema,
+  }),
+  rateLimit(RATE_LIMIT_POLICIES.login),
+  siteMiddleware,
+  validateJson(walletLoginSchema),
+  async (c: Context) => {
+    const { siteId } = getSiteContext(c)
+
+    // 获取已校验的请求体（签名格式由 walletLoginSchema 校验）
+    const { signature, message } = getValidatedJson<WalletLoginRequest>(c)
+
+    // 验证消息时间戳（可选，防止重放攻击）
+    const { validateMessageTimestamp } = await import('../utils/evmSignature')
+    if (!validateMessageTimestamp(message)) {
+      throw new ValidationError('消息已过期，请重新获取 nonce')
+    }
+
+    // 创建用户服务实例
+    const db = drizzle(c.env.DB)
+    const userService = new UserService(
+      db,
+      c.env.JWT_SECRET,
+      c.env.JWT_EXPIRATION || DEFAULT_ACCESS_TOKEN_EXPIRATION,
+      new CacheManager(c.env.CACHE)
+    )
 
-  // 获取请求体
-  const body = await c.req.json()
-  const { signature, message } = body
+    // 执行钱包登录
+    const result = await userService.loginWithWallet(signature, message, siteId, getLoginClient(c))
 
-  // 验证必填字段
-  if (!signature || !message) {
-    throw new ValidationError('签名和消息不能为空')
+    return c.json(successResponse(result))
   }
+)
 
-  // 验证签名格式
-  if (!signature.startsWith('0x') || signature.length !== 132) {
-    throw new ValidationError('无效的签名格式')
+/**
+ * POST /api/v1/login/2fa
+ * 提交两步验证码完成登录（公开端点）
+ *
+ * 请求体：
+ * - challengeToken: string - 登录返回的挑战令牌
+ * - code: string - 验证器应用显示的验证码，或恢复码
+ *
+ * 响应：与登录相同；登录过程中完成绑定（setupRequired）时额外返回 recoveryCodes
+ *
+ * 限流：每个 IP 每分钟 10 次（与登录共用计数）（超过返回 429）
+ */
+users.post(
+  '/login/2fa',
+  describeRoute({
+    summary: '两步验证登录',
+    description: '公开端点',
+    tags: ['auth'],
+    response: loginResponseSchema,
+  }),
+  rateLimit(RATE_LIMIT_POLICIES.login),
+  validateJson(twoFactorLoginSchema),
+  async (c: Context) => {
+    // 获取已校验的请求体
+    const { challengeToken, code } = getValidatedJson<TwoFactorLoginRequest>(c)
+
+    // 创建用户服务实例
+    const db = drizzle(c.env.DB)
+    const userService = new UserService(
+      db,
+      c.env.JWT_SECRET,
+      c.env.JWT_EXPIRATION || DEFAULT_ACCESS_TOKEN_EXPIRATION,
+      new CacheManager(c.env.CACHE)
+    )
+
+    const result = await userService.loginWithTwoFactor(challengeToken, code, getLoginClient(c))
+
+    return c.json(successResponse(result))
   }
+)
 
-  // 验证消息时间戳（可选，防止重放攻击）
-  const { validateMessageTimestamp } = await import('../utils/evmSignature')
-  if (!validateMessageTimestamp(message)) {
-    throw new ValidationError('消息已过期，请重新获取 nonce')
+/**
+ * POST /api/v1/login/2fa/setup
+ * 登录过程中获取两步验证密钥（公开端点）
+ *
+ * 站点要求启用两步验证而用户尚未绑定时（登录返回 setupRequired: true），
+ * 使用挑战令牌获取密钥，在验证器应用中添加后调用 POST /api/v1/login/2fa 完成绑定和登录。
+ *
+ * 请求体：
+ * - challengeToken: string - 登录返回的挑战令牌
+ *
+ * 响应：TwoFactorSetup（secret、otpauthUri）
+ *
+ * 限流：每个 IP 每分钟 10 次（与登录共用计数）（超过返回 429）
+ */
+users.post(
+  '/login/2fa/setup',
+  describeRoute({
+    summary: '登录过程中获取两步验证密钥',
+    description: '公开端点',
+    tags: ['auth'],
+    response: twoFactorSetupSchema,
+  }),
+  rateLimit(RATE_LIMIT_POLICIES.login),
+  validateJson(twoFactorChallengeSchema),
+  async (c: Context) => {
+    // 获取已校验的请求体
+    const { challengeToken } = getValidatedJson<TwoFactorChallengeRequest>(c)
+
+    const twoFactorService = new TwoFactorService(drizzle(c.env.DB), c.env.JWT_SECRET)
+    const setup = await twoFactorService.setupWithChallenge(challengeToken)
+
+    return c.json(successResponse(setup))
   }
+)
 
-  // 创建用户服务实例
-  const db = drizzle(c.env.DB)
-  const userService = new UserService(db, c.env.JWT_SECRET, c.env.JWT_EXPIRATION || '7d')
+/**
+ * POST /api/v1/token/refresh
+ * 使用刷新令牌换取新的令牌对（公开端点）
+ *
+ * 请求体：
+ * - refreshToken: string - 刷新令牌
+ *
+ * 响应：与登录相同；旧刷新令牌随即失效，再次使用会撤销同一次登录签发的全部令牌
+ *
+ * 限流：每个 IP 每分钟 30 次（超过返回 429）
+ */
+users.post(
+  '/token/refresh',
+  describeRoute({
+    summary: '刷新访问令牌',
+    description: '公开端点',
+    tags: ['auth'],
+    response: loginResponseSchema,
+  }),
+  rateLimit(RATE_LIMIT_POLICIES.refresh),
+  validateJson(refreshTokenSchema),
+  async (c: Context) => {
+    // 获取已校验的请求体
+    const { refreshToken } = getValidatedJson<RefreshTokenRequest>(c)
+
+    // 创建令牌服务实例
+    const db = drizzle(c.env.DB)
+    const tokenService = new TokenService(
+      db,
+      c.env.JWT_SECRET,
+      c.env.JWT_EXPIRATION || DEFAULT_ACCESS_TOKEN_EXPIRATION,
+      new CacheManager(c.env.CACHE)
+    )
+
+    // 轮换刷新令牌
+    const result = await tokenService.refresh(refreshToken)
+
+    return c.json(successResponse(result))
+  }
+)
+
+/**
+ * POST /api/v1/logout
+ * 退出登录（需要认证）
+ *
+ * 撤销当前访问令牌及同一次登录签发的刷新令牌。
+ *
+ * 响应：成功消息
+ */
+users.post(
+  '/logout',
+  describeRoute({
+    summary: '退出登录',
+    description: '需要认证',
+    tags: ['auth'],
+    response: messageSchema,
+  }),
+  authMiddleware,
+  async (c: Context) => {
+    const authContext = getAuthContext(c)
+
+    // 旧版令牌没有 jti，无需撤销
+    if (authContext.jti && authContext.exp) {
+      const db = drizzle(c.env.DB)
+      const tokenService = new TokenService(
+        db,
+        c.env.JWT_SECRET,
+        c.env.JWT_EXPIRATION || DEFAULT_ACCESS_TOKEN_EXPIRATION,
+        new CacheManager(c.env.CACHE)
+      )
+      await tokenService.logout(authContext.jti, authContext.exp, authContext.userId)
+    }
+
+    return c.json(successResponse({ message: '已退出登录' }))
+  }
+)
+
+/**
+ * POST /api/v1/password/forgot
+ * 发送重置密码邮件（公开端点）
+ *
+ * 请求体：
+ * - email: string - 注册邮箱
+ *
+ * 无论邮箱是否已注册都返回相同的响应。
+ *
+ * 限流：每个 IP 每小时 10 次（与其他账户邮件接口共用计数）（超过返回 429）
+ */
+users.post(
+  '/password/forgot',
+  describeRoute({
+    summary: '发送重置密码邮件',
+    description: '公开端点',
+    tags: ['auth'],
+    response: messageSchema,
+  }),
+  rateLimit(RATE_LIMIT_POLICIES.accountEmail),
+  siteMiddleware,
+  validateJson(forgotPasswordSchema),
+  async (c: Context) => {
+    const { siteId } = getSiteContext(c)
+
+    // 获取已校验的请求体
+    const { email } = getValidatedJson<ForgotPasswordRequest>(c)
+
+    await createAccountService(c).requestPasswordReset(email, siteId)
+
+    return c.json(successResponse({ message: '如果该邮箱已注册，重置密码邮件已发送' }))
+  }
+)
+
+/**
+ * POST /api/v1/password/reset
+ * 使用重置令牌设置新密码（公开端点）
+ *
+ * 请求体：
+ * - token: string - 邮件中的重置令牌
+ * - newPassword: string - 新密码（SHA256 哈希）
+ *
+ * 成功后该用户已签发的全部登录令牌失效。
+ *
+ * 限流：每个 IP 每小时 10 次（与其他账户邮件接口共用计数）（超过返回 429）
+ */
+users.post(
+  '/password/reset',
+  describeRoute({
+    summary: '重置密码',
+    description: '公开端点',
+    tags: ['auth'],
+    response: messageSchema,
+  }),
+  rateLimit(RATE_LIMIT_POLICIES.accountEmail),
+  validateJson(resetPasswordSchema),
+  async (c: Context) => {
+    // 获取已校验的请求体
+    const { token, newPassword } = getValidatedJson<ResetPasswordRequest>(c)
+
+    await createAccountService(c).resetPassword(token, newPassword)
+
+    return c.json(successResponse({ message: '密码已重置，请重新登录' }))
+  }
+)
+
+/**
+ * POST /api/v1/email/verify
+ * 使用验证令牌验证邮箱（公开端点）
+ *
+ * 请求体：
+ * - token: string - 邮件中的验证令牌
+ *
+ * 限流：每个 IP 每小时 10 次（与其他账户邮件接口共用计数）（超过返回 429）
+ */
+users.post(
+  '/email/verify',
+  describeRoute({
+    summary: '验证邮箱',
+    description: '公开端点',
+    tags: ['auth'],
+    response: messageSchema,
+  }),
+  rateLimit(RATE_LIMIT_POLICIES.accountEmail),
+  validateJson(verifyEmailSchema),
+  async (c: Context) => {
+    // 获取已校验的请求体
+    const { token } = getValidatedJson<VerifyEmailRequest>(c)
+
+    await createAccountService(c).verifyEmail(token)
+
+    return c.json(successResponse({ message: '邮箱已验证' }))
+  }
+)
 
-  // 执行钱包登录
-  const result = await userService.loginWithWallet(signature, message, siteId)
+/**
+ * GET /api/v1/me
+ * 获取当前用户的资料（需要认证）
+ *
+ * 请求头：
+ * - If-None-Match: string - 版本（可选，未变化时返回 304）
+ *
+ * 响应：UserWithoutPassword（响应头 ETag 为当前版本）
+ */
+users.get(
+  '/me',
+  describeRoute({
+    summary: '获取当前用户资料',
+    description: '需要认证',
+    response: modelSchema(userModel),
+  }),
+  authMiddleware,
+  siteMiddleware,
+  async (c: Context) => {
+    const authContext = getAuthContext(c)
+    const { siteId } = getSiteContext(c)
+
+    // 创建用户服务实例
+    const db = drizzle(c.env.DB)
+    const userService = new UserService(
+      db,
+      c.env.JWT_SECRET,
+      c.env.JWT_EXPIRATION || DEFAULT_ACCESS_TOKEN_EXPIRATION,
+      new CacheManager(c.env.CACHE)
+    )
+
+    const user = await userService.getById(authContext.userId, siteId)
+
+    return jsonWithETag(c, user)
+  }
+)
 
-  return c.json(successResponse(result))
-})
+/**
+ * PUT /api/v1/me
+ * 修改当前用户的资料（需要认证）
+ *
+ * 请求体：
+ * - nickname?: string - 昵称
+ * - avatar?: string - 头像
+ * - email?: string - 邮箱（站点内唯一）
+ * - phone?: string - 手机号
+ * - gender?: GenderEnum - 性别
+ *
+ * 请求头：
+ * - If-Match: string - 版本（可选，来自 ETag，与当前版本不一致时返回 412）
+ *
+ * 响应：UserWithoutPassword（响应头 ETag 为更新后的版本）
+ */
+users.put(
+  '/me',
+  describeRoute({
+    summary: '修改当前用户资料',
+    description: '需要认证，只能修改昵称、头像、邮箱、手机号和性别',
+    response: modelSchema(userModel),
+  }),
+  authMiddleware,
+  siteMiddleware,
+  validateJson(updateProfileSchema),
+  async (c: Context) => {
+    const authContext = getAuthContext(c)
+    const { siteId } = getSiteContext(c)
+
+    // 获取已校验的请求体（其他字段已被忽略）
+    const body = getValidatedJson<UpdateProfileInput>(c)
+
+    // 创建用户服务实例
+    const db = drizzle(c.env.DB)
+    const userService = new UserService(
+      db,
+      c.env.JWT_SECRET,
+      c.env.JWT_EXPIRATION || DEFAULT_ACCESS_TOKEN_EXPIRATION,
+      new CacheManager(c.env.CACHE)
+    )
+
+    // 更新资料（邮箱唯一性由 UserService 校验）
+    const user = await userService.update(
+      authContext.userId,
+      body,
+      siteId,
+      c.req.header('If-Match')
+    )
+
+    c.header('ETag', getETag(user))
+    return c.json(successResponse(user))
+  }
+)
+
+/**
+ * PUT /api/v1/me/password
+ * 修改当前用户的密码（需要认证）
+ *
+ * 请求体：
+ * - currentPassword: string - 当前密码（SHA256 哈希）
+ * - newPassword: string - 新密码（SHA256 哈希）
+ *
+ * 修改后该用户其他登录签发的令牌立即失效，当前登录不受影响。
+ *
+ * 响应：成功消息
+ */
+users.put(
+  '/me/password',
+  describeRoute({
+    summary: '修改当前用户密码',
+    description: '需要认证，需要提供当前密码',
+    response: messageSchema,
+  }),
+  authMiddleware,
+  siteMiddleware,
+  validateJson(changePasswordSchema),
+  async (c: Context) => {
+    const authContext = getAuthContext(c)
+    const { siteId } = getSiteContext(c)
+
+    // 获取已校验的请求体
+    const { currentPassword, newPassword } = getValidatedJson<ChangePasswordRequest>(c)
+
+    // 创建用户服务实例
+    const db = drizzle(c.env.DB)
+    const userService = new UserService(
+      db,
+      c.env.JWT_SECRET,
+      c.env.JWT_EXPIRATION || DEFAULT_ACCESS_TOKEN_EXPIRATION,
+      new CacheManager(c.env.CACHE)
+    )
+
+    await userService.changePassword(
+      authContext.userId,
+      currentPassword,
+      newPassword,
+      siteId,
+      authContext.jti
+    )
+
+    return c.json(successResponse({ message: '密码已修改' }))
+  }
+)
+
+/**
+ * GET /api/v1/me/sessions
+ * 查询当前用户的有效登录会话（需要认证）
+ *
+ * 响应：SessionInfo[]（按最近活动时间降序，current 标记当前请求所用的登录）
+ */
+users.get(
+  '/me/sessions',
+  describeRoute({
+    summary: '查询当前用户的登录会话',
+    description: '需要认证',
+    response: listSchema(sessionSchema),
+  }),
+  authMiddleware,
+  async (c: Context) => {
+    const authContext = getAuthContext(c)
+
+    // 创建令牌服务实例
+    const db = drizzle(c.env.DB)
+    const tokenService = new TokenService(
+      db,
+      c.env.JWT_SECRET,
+      c.env.JWT_EXPIRATION || DEFAULT_ACCESS_TOKEN_EXPIRATION,
+      new CacheManager(c.env.CACHE)
+    )
+
+    const sessions = await tokenService.listSessions(authContext.userId, authContext.jti)
+
+    return c.json(successResponse(sessions))
+  }
+)
+
+/**
+ * POST /api/v1/me/email/verification
+ * 发送邮箱验证邮件到当前用户的邮箱（需要认证）
+ *
+ * 响应：成功消息（未设置邮箱或邮箱已验证时返回 400）
+ *
+ * 限流：每个 IP 每小时 10 次（与其他账户邮件接口共用计数）（超过返回 429）
+ */
+users.post(
+  '/me/email/verification',
+  describeRoute({
+    summary: '发送邮箱验证邮件',
+    description: '需要认证',
+    response: messageSchema,
+  }),
+  authMiddleware,
+  rateLimit(RATE_LIMIT_POLICIES.accountEmail),
+  siteMiddleware,
+  async (c: Context) => {
+    const authContext = getAuthContext(c)
+    const { siteId } = getSiteContext(c)
+
+    await createAccountService(c).requestEmailVerification(authContext.userId, siteId)
+
+    return c.json(successResponse({ message: '验证邮件已发送' }))
+  }
+)
+
+/**
+ * GET /api/v1/me/2fa
+ * 查询当前用户的两步验证状态（需要认证）
+ *
+ * 响应：TwoFactorStatus（enabled、enabled_at、recovery_codes_remaining、required）
+ */
+users.get(
+  '/me/2fa',
+  describeRoute({
+    summary: '查询两步验证状态',
+    description: '需要认证',
+    response: twoFactorStatusSchema,
+  }),
+  authMiddleware,
+  async (c: Context) => {
+    const authContext = getAuthContext(c)
+
+    const twoFactorService = new TwoFactorService(drizzle(c.env.DB), c.env.JWT_SECRET)
+    const status = await twoFactorService.getStatus(authContext.userId)
+
+    return c.json(successResponse(status))
+  }
+)
+
+/**
+ * POST /api/v1/me/2fa/setup
+ * 获取两步验证密钥（需要认证）
+ *
+ * 重复调用会生成新的密钥；调用 POST /api/v1/me/2fa/enable 提交验证码后才启用。
+ *
+ * 响应：TwoFactorSetup（secret、otpauthUri），已启用时返回 400
+ */
+users.post(
+  '/me/2fa/setup',
+  describeRoute({
+    summary: '获取两步验证密钥',
+    description: '需要认证',
+    response: twoFactorSetupSchema,
+  }),
+  authMiddleware,
+  async (c: Context) => {
+    const authContext = getAuthContext(c)
+
+    const twoFactorService = new TwoFactorService(drizzle(c.env.DB), c.env.JWT_SECRET)
+    const setup = await twoFactorService.setup(authContext.userId)
+
+    return c.json(successResponse(setup))
+  }
+)
+
+/**
+ * POST /api/v1/me/2fa/enable
+ * 提交验证码启用两步验证（需要认证）
+ *
+ * 请求体：
+ * - code: string - 验证器应用显示的验证码
+ *
+ * 响应：recoveryCodes（恢复码，只返回一次）
+ *
+ * 限流：每个 IP 每分钟 10 次（与登录共用计数）（超过返回 429）
+ */
+users.post(
+  '/me/2fa/enable',
+  describeRoute({
+    summary: '启用两步验证',
+    description: '需要认证',
+    response: recoveryCodesSchema,
+  }),
+  authMiddleware,
+  rateLimit(RATE_LIMIT_POLICIES.login),
+  validateJson(twoFactorCodeSchema),
+  async (c: Context) => {
+    const authContext = getAuthContext(c)
+
+    // 获取已校验的请求体
+    const { code } = getValidatedJson<TwoFactorCodeRequest>(c)
+
+    const twoFactorService = new TwoFactorService(drizzle(c.env.DB), c.env.JWT_SECRET)
+    const recoveryCodes = await twoFactorService.enable(authContext.userId, code)
+
+    return c.json(successResponse({ recoveryCodes }))
+  }
+)
+
+/**
+ * POST /api/v1/me/2fa/disable
+ * 关闭两步验证（需要认证）
+ *
+ * 请求体：
+ * - code: string - 验证码或恢复码
+ *
+ * 响应：成功消息（站点要求启用两步验证的管理员不能关闭）
+ *
+ * 限流：每个 IP 每分钟 10 次（与登录共用计数）（超过返回 429）
+ */
+users.post(
+  '/me/2fa/disable',
+  describeRoute({
+    summary: '关闭两步验证',
+    description: '需要认证',
+    response: messageSchema,
+  }),
+  authMiddleware,
+  rateLimit(RATE_LIMIT_POLICIES.login),
+  validateJson(twoFactorCodeSchema),
+  async (c: Context) => {
+    const authContext = getAuthContext(c)
+
+    // 获取已校验的请求体
+    const { code } = getValidatedJson<TwoFactorCodeRequest>(c)
+
+    const twoFactorService = new TwoFactorService(drizzle(c.env.DB), c.env.JWT_SECRET)
+    await twoFactorService.disable(authContext.userId, code)
+
+    return c.json(successResponse({ message: '已关闭两步验证' }))
+  }
+)
+
+/**
+ * POST /api/v1/me/2fa/recovery-codes
+ * 重新生成恢复码（需要认证）
+ *
+ * 请求体：
+ * - code: string - 验证码或恢复码
+ *
+ * 响应：recoveryCodes（新的恢复码，只返回一次；旧恢复码全部失效）
+ *
+ * 限流：每个 IP 每分钟 10 次（与登录共用计数）（超过返回 429）
+ */
+users.post(
+  '/me/2fa/recovery-codes',
+  describeRoute({
+    summary: '重新生成恢复码',
+    description: '需要认证',
+    response: recoveryCodesSchema,
+  }),
+  authMiddleware,
+  rateLimit(RATE_LIMIT_POLICIES.login),
+  validateJson(twoFactorCodeSchema),
+  async (c: Context) => {
+    const authContext = getAuthContext(c)
+
+    // 获取已校验的请求体
+    const { code } = getValidatedJson<TwoFactorCodeRequest>(c)
+
+    const twoFactorService = new TwoFactorService(drizzle(c.env.DB), c.env.JWT_SECRET)
+    const recoveryCodes = await twoFactorService.regenerateRecoveryCodes(authContext.userId, code)
+
+    return c.json(successResponse({ recoveryCodes }))
+  }
+)
 
 /**
  * POST /api/v1/user
@@ -213,83 +1072,203 @@ users.post('/login/evm', siteMiddleware, async (c: Context) => {
  *
  * **验证需求**: 5.1, 5.2
  */
-users.post('/user', authMiddleware, siteMiddleware, async (c: Context) => {
-  const authContext = getAuthContext(c)
-  const { siteId } = getSiteContext(c)
-
-  // 检查权限：需要 MANAGE 或更高权限
-  if (!checkPermission(authContext.type, UserTypeEnum.MANAGE)) {
-    throw new AuthorizationError('权限不足，需要 MANAGE 或更高权限')
-  }
-
-  // 获取请求体
-  const body = (await c.req.json()) as CreateUserInput
+users.post(
+  '/user',
+  describeRoute({
+    summary: '创建用户',
+    description: '需要 MANAGE 或更高权限',
+    status: 201,
+    response: modelSchema(userModel),
+  }),
+  authMiddleware,
+  siteMiddleware,
+  validateJson(createUserSchema),
+  async (c: Context) => {
+    const authContext = getAuthContext(c)
+    const { siteId } = getSiteContext(c)
+
+    // 检查权限：需要 MANAGE 或更高权限
+    if (!checkPermission(authContext.type, UserTypeEnum.MANAGE)) {
+      throw new AuthorizationError('权限不足，需要 MANAGE 或更高权限')
+    }
 
-  // 验证必填字段
-  if (!body.username || !body.password) {
-    throw new ValidationError('用户名和密码不能为空')
-  }
+    // 获取已校验的请求体
+    const body = getValidatedJson<CreateUserInput>(c)
 
-  // 创建用户服务实例
-  const db = drizzle(c.env.DB)
-  const userService = new UserService(db, c.env.JWT_SECRET, c.env.JWT_EXPIRATION || '7d')
+    // 创建用户服务实例
+    const db = drizzle(c.env.DB)
+    const userService = new UserService(
+      db,
+      c.env.JWT_SECRET,
+      c.env.JWT_EXPIRATION || DEFAULT_ACCESS_TOKEN_EXPIRATION,
+      new CacheManager(c.env.CACHE)
+    )
 
-  // 创建用户
-  const user = await userService.create(body, siteId)
+    // 创建用户
+    const user = await userService.create(body, siteId)
 
-  return c.json(successResponse(user), 201)
-})
+    return c.json(successResponse(user), 201)
+  }
+)
 
 /**
  * PUT /api/v1/user/:id
  * 更新用户（需要 MANAGE 或更高权限，或用户本人）
  *
+ * 管理员可以重置其他用户的密码（撤销该用户的全部令牌）；
+ * 用户本人不能在这里修改密码，需通过 PUT /me/password 验证当前密码。
+ *
  * 路径参数：
  * - id: number - 用户ID
  *
  * 请求体：UpdateUserInput
  *
- * 响应：UserWithoutPassword
+ * 请求头：
+ * - If-Match: string - 版本（可选，来自 ETag，与当前版本不一致时返回 412）
+ *
+ * 响应：UserWithoutPassword（响应头 ETag 为更新后的版本）
  *
  * **验证需求**: 5.3, 5.4
  */
-users.put('/user/:id', authMiddleware, siteMiddleware, async (c: Context) => {
-  const authContext = getAuthContext(c)
-  const { siteId } = getSiteContext(c)
-
-  // 获取用户ID
-  const userId = parseInt(c.req.param('id'), 10)
-  if (isNaN(userId) || userId <= 0) {
-    throw new ValidationError('无效的用户ID')
-  }
+users.put(
+  '/user/:id',
+  describeRoute({
+    summary: '更新用户',
+    description: '需要 MANAGE 或更高权限，或用户本人',
+    response: modelSchema(userModel),
+  }),
+  authMiddleware,
+  siteMiddleware,
+  validateJson(updateUserSchema),
+  async (c: Context) => {
+    const authContext = getAuthContext(c)
+    const { siteId } = getSiteContext(c)
+
+    // 获取用户ID
+    const userId = parseInt(c.req.param('id'), 10)
+    if (isNaN(userId) || userId <= 0) {
+      throw new ValidationError('无效的用户ID')
+    }
 
-  // 检查权限：需要 MANAGE 或更高权限，或者是用户本人
-  const isOwnProfile = authContext.userId === userId
-  const hasManagePermission = checkPermission(authContext.type, UserTypeEnum.MANAGE)
+    // 检查权限：需要 MANAGE 或更高权限，或者是用户本人
+    const isOwnProfile = authContext.userId === userId
+    const hasManagePermission = checkPermission(authContext.type, UserTypeEnum.MANAGE)
 
-  if (!isOwnProfile && !hasManagePermission) {
-    throw new AuthorizationError('权限不足，只能修改自己的信息或需要 MANAGE 权限')
-  }
+    if (!isOwnProfile && !hasManagePermission) {
+      throw new AuthorizationError('权限不足，只能修改自己的信息或需要 MANAGE 权限')
+    }
 
-  // 获取请求体
-  const body = (await c.req.json()) as UpdateUserInput
+    // 获取已校验的请求体
+    const body = getValidatedJson<UpdateUserInput>(c)
+
+    // 修改自己的密码需要验证当前密码（PUT /me/password），管理员只能在这里重置其他用户的密码
+    if (isOwnProfile && body.password !== undefined) {
+      throw new AuthorizationError('修改自己的密码请使用 PUT /me/password')
+    }
 
-  // 如果是普通用户修改自己的信息，不允许修改 type 和 status
-  if (isOwnProfile && !hasManagePermission) {
-    if (body.type !== undefined || body.status !== undefined) {
-      throw new AuthorizationError('普通用户不能修改自己的角色或状态')
+    // 如果是普通用户修改自己的信息，不允许修改 type 和 status
+    if (isOwnProfile && !hasManagePermission) {
+      if (body.type !== undefined || body.status !== undefined) {
+        throw new AuthorizationError('普通用户不能修改自己的角色或状态')
+      }
     }
+
+    // 创建用户服务实例
+    const db = drizzle(c.env.DB)
+    const userService = new UserService(
+      db,
+      c.env.JWT_SECRET,
+      c.env.JWT_EXPIRATION || DEFAULT_ACCESS_TOKEN_EXPIRATION,
+      new CacheManager(c.env.CACHE)
+    )
+
+    // 更新用户
+    const user = await userService.update(userId, body, siteId, c.req.header('If-Match'))
+
+    c.header('ETag', getETag(user))
+    return c.json(successResponse(user))
   }
+)
 
-  // 创建用户服务实例
-  const db = drizzle(c.env.DB)
-  const userService = new UserService(db, c.env.JWT_SECRET, c.env.JWT_EXPIRATION || '7d')
+/**
+ * PATCH /api/v1/user/:id
+ * 部分更新用户（需要 MANAGE 或更高权限，或用户本人）
+ *
+ * 路径参数：
+ * - id: number - 用户ID
+ *
+ * 请求体（按 Content-Type 区分，只能修改 userModel 声明的可修改字段，不能修改密码）：
+ * - application/merge-patch+json: 要修改的字段，null 表示清空
+ * - application/json-patch+json: JSON Patch 操作数组
+ *
+ * 请求头：
+ * - If-Match: string - 版本（可选，来自 ETag，与当前版本不一致时返回 412）
+ *
+ * 响应：UserWithoutPassword（响应头 ETag 为更新后的版本）
+ */
+users.patch(
+  '/user/:id',
+  describeRoute({
+    summary: '部分更新用户',
+    description: '需要 MANAGE 或更高权限，或用户本人',
+    response: modelSchema(userModel),
+  }),
+  authMiddleware,
+  siteMiddleware,
+  async (c: Context) => {
+    const authContext = getAuthContext(c)
+    const { siteId } = getSiteContext(c)
+
+    // 获取用户ID
+    const userId = parseInt(c.req.param('id'), 10)
+    if (Number.isNaN(userId) || userId <= 0) {
+      throw new ValidationError('无效的用户ID')
+    }
+
+    // 检查权限：需要 MANAGE 或更高权限，或者是用户本人
+    const isOwnProfile = authContext.userId === userId
+    const hasManagePermission = checkPermission(authContext.type, UserTypeEnum.MANAGE)
+
+    if (!isOwnProfile && !hasManagePermission) {
+      throw new AuthorizationError('权限不足，只能修改自己的信息或需要 MANAGE 权限')
+    }
+
+    // 获取补丁
+    const patch = await parsePatchRequest(c)
+
+    // 创建用户服务实例
+    const db = drizzle(c.env.DB)
+    const userService = new UserService(
+      db,
+      c.env.JWT_SECRET,
+      c.env.JWT_EXPIRATION || DEFAULT_ACCESS_TOKEN_EXPIRATION,
+      new CacheManager(c.env.CACHE)
+    )
+
+    // 将补丁应用到当前用户
+    const existingUser = await userService.getById(userId, siteId)
+    const { changes, ifMatch } = applyPatch(
+      existingUser,
+      patch,
+      userModel,
+      c.req.header('If-Match')
+    )
+    const data = parseSchema(updateUserSchema, changes)
+
+    // 如果是普通用户修改自己的信息，不允许修改 type 和 status
+    if (isOwnProfile && !hasManagePermission) {
+      if (data.type !== undefined || data.status !== undefined) {
+        throw new AuthorizationError('普通用户不能修改自己的角色或状态')
+      }
+    }
 
-  // 更新用户
-  const user = await userService.update(userId, body, siteId)
+    // 更新用户
+    const user = await userService.update(userId, data, siteId, ifMatch)
 
-  return c.json(successResponse(user))
-})
+    c.header('ETag', getETag(user))
+    return c.json(successResponse(user))
+  }
+)
 
 /**
  * DELETE /api/v1/user/:id
@@ -302,35 +1281,141 @@ users.put('/user/:id', authMiddleware, siteMiddleware, async (c: Context) => {
  *
  * **验证需求**: 5.5
  */
-users.delete('/user/:id', authMiddleware, siteMiddleware, async (c: Context) => {
-  const authContext = getAuthContext(c)
-  const { siteId } = getSiteContext(c)
+users.delete(
+  '/user/:id',
+  describeRoute({
+    summary: '删除用户',
+    description: '需要 MANAGE 或更高权限',
+    response: messageSchema,
+  }),
+  authMiddleware,
+  siteMiddleware,
+  async (c: Context) => {
+    const authContext = getAuthContext(c)
+    const { siteId } = getSiteContext(c)
+
+    // 检查权限：需要 MANAGE 或更高权限
+    if (!checkPermission(authContext.type, UserTypeEnum.MANAGE)) {
+      throw new AuthorizationError('权限不足，需要 MANAGE 或更高权限')
+    }
 
-  // 检查权限：需要 MANAGE 或更高权限
-  if (!checkPermission(authContext.type, UserTypeEnum.MANAGE)) {
-    throw new AuthorizationError('权限不足，需要 MANAGE 或更高权限')
-  }
+    // 获取用户ID
+    const userId = parseInt(c.req.param('id'), 10)
+    if (isNaN(userId) || userId <= 0) {
+      throw new ValidationError('无效的用户ID')
+    }
 
-  // 获取用户ID
-  const userId = parseInt(c.req.param('id'), 10)
-  if (isNaN(userId) || userId <= 0) {
-    throw new ValidationError('无效的用户ID')
+    // 不允许删除自己
+    if (authContext.userId === userId) {
+      throw new ValidationError('不能删除自己的账户')
+    }
+
+    // 创建用户服务实例
+    const db = drizzle(c.env.DB)
+    const userService = new UserService(
+      db,
+      c.env.JWT_SECRET,
+      c.env.JWT_EXPIRATION || DEFAULT_ACCESS_TOKEN_EXPIRATION,
+      new CacheManager(c.env.CACHE)
+    )
+
+    // 删除用户（软删除）
+    await userService.delete(userId, siteId)
+
+    return c.json(successResponse({ message: '用户已删除' }))
   }
+)
+
+/**
+ * POST /api/v1/user/:id/unlock
+ * 解除账户锁定（需要 MANAGE 或更高权限）
+ *
+ * 清零连续登录失败次数，用户可以立即再次登录。
+ *
+ * 路径参数：
+ * - id: number - 用户ID
+ *
+ * 响应：成功消息
+ */
+users.post(
+  '/user/:id/unlock',
+  describeRoute({
+    summary: '解除账户锁定',
+    description: '需要 MANAGE 或更高权限',
+    response: messageSchema,
+  }),
+  authMiddleware,
+  siteMiddleware,
+  auditMiddleware,
+  async (c: Context) => {
+    const authContext = getAuthContext(c)
+    const { siteId } = getSiteContext(c)
+
+    // 检查权限：需要 MANAGE 或更高权限
+    if (!checkPermission(authContext.type, UserTypeEnum.MANAGE)) {
+      throw new AuthorizationError('权限不足，需要 MANAGE 或更高权限')
+    }
+
+    // 获取用户ID
+    const userId = parseInt(c.req.param('id'), 10)
+    if (Number.isNaN(userId) || userId <= 0) {
+      throw new ValidationError('无效的用户ID')
+    }
 
-  // 不允许删除自己
-  if (authContext.userId === userId) {
-    throw new ValidationError('不能删除自己的账户')
+    const db = drizzle(c.env.DB)
+    await new LoginAttemptService(db).unlock(userId, siteId)
+
+    // 记录解锁操作到审计日志
+    setAuditContent(c, `UNLOCK USER #${userId}`)
+
+    return c.json(successResponse({ message: '账户已解锁' }))
   }
+)
 
-  // 创建用户服务实例
-  const db = drizzle(c.env.DB)
-  const userService = new UserService(db, c.env.JWT_SECRET, c.env.JWT_EXPIRATION || '7d')
+/**
+ * GET /api/v1/user/:id/login-attempts
+ * 查询用户的登录尝试记录（需要 MANAGE 或更高权限）
+ *
+ * 路径参数：
+ * - id: number - 用户ID
+ *
+ * 查询参数：
+ * - page: number - 页码（默认 1）
+ * - pageSize: number - 每页数量（默认 10）
+ *
+ * 响应：PaginatedResult<LoginAttempt>（最新的在前）
+ */
+users.get(
+  '/user/:id/login-attempts',
+  describeRoute({ summary: '查询用户的登录尝试记录', description: '需要 MANAGE 或更高权限' }),
+  authMiddleware,
+  siteMiddleware,
+  validateQuery(paginationQuerySchema),
+  async (c: Context) => {
+    const authContext = getAuthContext(c)
+    const { siteId } = getSiteContext(c)
+
+    // 检查权限：需要 MANAGE 或更高权限
+    if (!checkPermission(authContext.type, UserTypeEnum.MANAGE)) {
+      throw new AuthorizationError('权限不足，需要 MANAGE 或更高权限')
+    }
+
+    // 获取用户ID
+    const userId = parseInt(c.req.param('id'), 10)
+    if (Number.isNaN(userId) || userId <= 0) {
+      throw new ValidationError('无效的用户ID')
+    }
 
-  // 删除用户（软删除）
-  await userService.delete(userId, siteId)
+    const db = drizzle(c.env.DB)
+    const result = await new LoginAttemptService(db).query(
+      userId,
+      siteId,
+      getValidatedQuery<PaginationQuery>(c)
+    )
 
-  return c.json(successResponse({ message: '用户已删除' }))
-})
+    return c.json(successResponse(result))
+  }
+)
 
 /**
  * GET /api/v1/user
@@ -342,88 +1427,72 @@ users.delete('/user/:id', authMiddleware, siteMiddleware, async (c: Context) =>
  * - username: string - 用户名过滤（模糊匹配）
  * - type: UserTypeEnum - 用户类型过滤
  * - status: StatusEnum - 状态过滤
+ * - fields: string - 返回字段（逗号分隔，不能包含 password）
  *
  * 响应：PaginatedResult<UserWithoutPassword>
  *
  * **验证需求**: 5.4
  */
-users.get('/user', authMiddleware, siteMiddleware, async (c: Context) => {
-  const { siteId } = getSiteContext(c)
-
-  // 获取查询参数
-  const page = parseInt(c.req.query('page') || '1', 10)
-  const pageSize = parseInt(c.req.query('pageSize') || '10', 10)
-  const username = c.req.query('username')
-  const type = c.req.query('type') as UserTypeEnum | undefined
-  const status = c.req.query('status')
-
-  // 验证分页参数
-  if (page < 1 || pageSize < 1 || pageSize > 100) {
-    throw new ValidationError('无效的分页参数')
-  }
-
-  // 创建用户服务实例
-  const db = drizzle(c.env.DB)
-  const userService = new UserService(db, c.env.JWT_SECRET, c.env.JWT_EXPIRATION || '7d')
-
-  // 构建查询（这里简化实现，实际应该在 UserService 中实现 query 方法）
-  // 由于 UserService 没有 query 方法，我们直接使用数据库查询
-  const { users: usersTable, StatusEnum } = await import('../db/schema')
-  const { eq, and, like } = await import('drizzle-orm')
-
-  // 构建查询条件
-  const conditions = [eq(usersTable.site_id, siteId)]
+users.get(
+  '/user',
+  describeRoute({
+    summary: '查询用户列表',
+    description: '需要认证，支持分页和过滤',
+    response: paginatedSchema(modelSchema(userModel)),
+  }),
+  authMiddleware,
+  siteMiddleware,
+  validateQuery(userListQuerySchema),
+  async (c: Context) => {
+    const { siteId } = getSiteContext(c)
+
+    // 获取已校验的查询参数
+    const { username, type, status, ...query } = getValidatedQuery<UserListQuery>(c)
+
+    // 创建用户服务实例
+    const db = drizzle(c.env.DB)
+    const userService = new UserService(
+      db,
+      c.env.JWT_SECRET,
+      c.env.JWT_EXPIRATION || DEFAULT_ACCESS_TOKEN_EXPIRATION,
+      new CacheManager(c.env.CACHE)
+    )
+
+    // 构建查询（这里简化实现，实际应该在 UserService 中实现 query 方法）
+    // 由于 UserService 没有 query 方法，我们直接使用数据库查询
+    const { users: usersTable, StatusEnum } = await import('../db/schema')
+    const { eq, and, like } = await import('drizzle-orm')
+
+    // 构建查询条件（site_id 由分页查询自动过滤）
+    const conditions = []
+
+    // 默认排除已删除的用户
+    if (!status) {
+      conditions.push(eq(usersTable.status, StatusEnum.NORMAL))
+    } else {
+      conditions.push(eq(usersTable.status, status))
+    }
 
-  // 默认排除已删除的用户
-  if (!status) {
-    conditions.push(eq(usersTable.status, StatusEnum.NORMAL))
-  } else {
-    conditions.push(eq(usersTable.status, status as any))
-  }
+    if (username) {
+      conditions.push(like(usersTable.username, `%${username}%`))
+    }
 
-  if (username) {
-    conditions.push(like(usersTable.username, `%${username}%`))
-  }
+    if (type) {
+      conditions.push(eq(usersTable.type, type))
+    }
 
-  if (type) {
-    conditions.push(eq(usersTable.type, type))
-  }
+    // 查询数据和总数
+    const paginatedResult = await paginatedQuery(db, usersTable, query, {
+      siteId,
+      hasStatus: false,
+      model: userModel,
+      // 只返回模型声明的字段（不含密码）
+      columns: getModelColumns(userModel),
+      where: and(...conditions),
+    })
 
-  // 查询总数
-  const totalResult = await db
-    .select({ count: usersTable.id })
-    .from(usersTable)
-    .where(and(...conditions))
-    .all()
-
-  const total = totalResult.length
-
-  // 查询数据
-  const offset = (page - 1) * pageSize
-  const results = await db
-    .select()
-    .from(usersTable)
-    .where(and(...conditions))
-    .limit(pageSize)
-    .offset(offset)
-    .all()
-
-  // 排除密码字段
-  const usersWithoutPassword = results.map((user: any) => {
-    const { password, ...userWithoutPassword } = user
-    return userWithoutPassword
-  })
-
-  // 构建分页结果
-  const paginatedResult = {
-    data: usersWithoutPassword,
-    total,
-    page,
-    pageSize,
-    totalPages: Math.ceil(total / pageSize),
+    return c.json(successResponse(paginatedResult))
   }
-
-  return c.json(successResponse(paginatedResult))
-})
+)
 
 export default users
@@ -0,0 +1,302 @@
+/**
+ * 账户服务测试（找回密码、验证邮箱、邮件模板）
+ */
+
+import Database from 'better-sqlite3'
+import { eq } from 'drizzle-orm'
+import { drizzle } from 'drizzle-orm/better-sqlite3'
+import { decodeJwt } from 'jose'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { sites, users, userTokens } from '../db/schema'
+import { NotFoundError, ValidationError } from '../errors'
+import { StatusEnum, UserTokenTypeEnum, UserTypeEnum } from '../types'
+import { hashPassword, verifyPassword } from '../utils/password'
+import { AccountService } from './accountService'
+import { MailService, renderMailTemplate } from './mailService'
+import { MemoryMailTransport } from './mailTransport'
+import { TokenService } from './tokenService'
+import { UserService } from './userService'
+
+const SECRET = 'test-secret-key-for-jwt'
+
+// 从邮件正文中取出令牌（64 位十六进制）
+function extractToken(text: string): string {
+  return text.match(/[0-9a-f]{64}/)?.[0] as string
+}
+
+describe('AccountService', () => {
+  let db: ReturnType<typeof drizzle>
+  let transport: MemoryMailTransport
+  let mailService: MailService
+  let tokenService: TokenService
+  let accountService: AccountService
+  let user: typeof users.$inferSelect
+
+  beforeEach(async () => {
+    const sqlite = new Database(':memory:')
+    db = drizzle(sqlite)
+
+    sqlite.exec(`
+      CREATE TABLE sites (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        title TEXT DEFAULT '',
+        logo TEXT DEFAULT '',
+        keywords TEXT DEFAULT '',
+        description TEXT DEFAULT '',
+        copyright TEXT DEFAULT '',
+        max_revisions INTEGER DEFAULT 50,
+        mail_sender_name TEXT DEFAULT '',
+        require_2fa INTEGER DEFAULT 0,
+        status TEXT DEFAULT 'PENDING',
+        created_at INTEGER NOT NULL,
+        update_at INTEGER NOT NULL
+      );
+      CREATE TABLE users (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        username TEXT NOT NULL,
+        password TEXT NOT NULL,
+        nickname TEXT NOT NULL,
+        avatar TEXT DEFAULT '',
+        email TEXT DEFAULT '',
+        email_verified_at INTEGER,
+        phone TEXT DEFAULT '',
+        gender TEXT DEFAULT 'UNKNOWN',
+        type TEXT NOT NULL,
+        site_id INTEGER NOT NULL,
+        status TEXT DEFAULT 'PENDING',
+        last_login_time INTEGER,
+        failed_login_count INTEGER DEFAULT 0,
+        locked_until INTEGER,
+        evm_address TEXT DEFAULT '',
+        created_at INTEGER NOT NULL,
+        update_at INTEGER NOT NULL
+      );
+      CREATE TABLE user_tokens (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        type TEXT NOT NULL,
+        token_hash TEXT NOT NULL UNIQUE,
+        email TEXT NOT NULL,
+        expires_at INTEGER NOT NULL,
+        used_at INTEGER,
+        created_at INTEGER NOT NULL
+      );
+      CREATE TABLE mail_templates (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        site_id INTEGER NOT NULL,
+        type TEXT NOT NULL,
+        subject TEXT NOT NULL,
+        body TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        update_at INTEGER NOT NULL,
+        UNIQUE (site_id, type)
+      );
+      CREATE TABLE refresh_tokens (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        token_hash TEXT NOT NULL UNIQUE,
+        family TEXT NOT NULL,
+        access_jti TEXT NOT NULL,
+        access_expires_at INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL,
+        revoked_at INTEGER,
+        created_at INTEGER NOT NULL
+      );
+      CREATE TABLE revoked_tokens (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        jti TEXT NOT NULL UNIQUE,
+        user_id INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL,
+        created_at INTEGER NOT NULL
+      );
+    `)
+
+    const now = new Date()
+    db.insert(sites)
+      .values({ name: 'demo', title: '示例站点', created_at: now, update_at: now })
+      .run()
+    user = db
+      .insert(users)
+      .values({
+        username: 'alice',
+        password: await hashPassword('old-hash'),
+        nickname: 'Alice',
+        email: 'alice@example.com',
+        type: UserTypeEnum.USER,
+        site_id: 1,
+        status: StatusEnum.NORMAL,
+        created_at: now,
+        update_at: now,
+      })
+      .returning()
+      .get()
+
+    transport = new MemoryMailTransport(false)
+    mailService = new MailService(db as any, transport, 'no-reply@example.com')
+    tokenService = new TokenService(db as any, SECRET)
+    accountService = new AccountService(db as any, mailService, tokenService)
+  })
+
+  describe('password reset', () => {
+    it('should send a reset token and set the new password once', async () => {
+      const session = await tokenService.issue(user)
+
+      await accountService.requestPasswordReset('alice@example.com', 1)
+
+      expect(transport.messages).toHaveLength(1)
+      const [mail] = transport.messages
+      expect(mail.to).toBe('alice@example.com')
+      expect(mail.from).toEqual({ email: 'no-reply@example.com', name: '示例站点' })
+      expect(mail.subject).toBe('【示例站点】重置密码')
+      expect(mail.text).toContain('60 分钟内有效')
+
+      const token = extractToken(mail.text)
+      expect(db.select().from(userTokens).get()?.token_hash).not.toBe(token)
+
+      await accountService.resetPassword(token, 'new-hash')
+
+      const updated = db.select().from(users).where(eq(users.id, user.id)).get()
+      expect(await verifyPassword('new-hash', updated?.password as string)).toBe(true)
+      expect(await tokenService.isRevoked(decodeJwt(session.token).jti as string)).toBe(true)
+
+      // 令牌只能使用一次
+      await expect(accountService.resetPassword(token, 'other-hash')).rejects.toThrow(
+        ValidationError
+      )
+    })
+
+    it('should not reveal whether the email is registered', async () => {
+      await accountService.requestPasswordReset('nobody@example.com', 1)
+      await accountService.requestPasswordReset('alice@example.com', 2)
+
+      expect(transport.messages).toHaveLength(0)
+    })
+
+    it('should respond normally and invalidate the token when sending fails', async () => {
+      const send = vi.spyOn(transport, 'send').mockRejectedValueOnce(new Error('邮件发送失败: 500'))
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      await expect(
+        accountService.requestPasswordReset('alice@example.com', 1)
+      ).resolves.toBeUndefined()
+
+      expect(consoleError).toHaveBeenCalledTimes(1)
+      consoleError.mockRestore()
+      const token = extractToken(send.mock.calls[0][0].text)
+      expect(db.select().from(userTokens).get()?.used_at).toBeInstanceOf(Date)
+      await expect(accountService.resetPassword(token, 'new-hash')).rejects.toThrow(
+        '令牌无效或已过期'
+      )
+    })
+
+    it('should invalidate older and expired tokens', async () => {
+      await accountService.requestPasswordReset('alice@example.com', 1)
+      await accountService.requestPasswordReset('alice@example.com', 1)
+      const [first, second] = transport.messages.map((mail) => extractToken(mail.text))
+
+      await expect(accountService.resetPassword(first, 'new-hash')).rejects.toThrow(
+        '令牌无效或已过期'
+      )
+
+      db.update(userTokens)
+        .set({ expires_at: new Date(Date.now() - 1000) })
+        .run()
+      await expect(accountService.resetPassword(second, 'new-hash')).rejects.toThrow(
+        '令牌无效或已过期'
+      )
+    })
+
+    it('should reject tokens for another purpose', async () => {
+      await accountService.requestEmailVerification(user.id, 1)
+      const token = extractToken(transport.messages[0].text)
+
+      await expect(accountService.resetPassword(token, 'new-hash')).rejects.toThrow(ValidationError)
+    })
+  })
+
+  describe('email verification', () => {
+    it('should verify the current email', async () => {
+      await accountService.requestEmailVerification(user.id, 1)
+      const token = extractToken(transport.messages[0].text)
+
+      await accountService.verifyEmail(token)
+
+      const updated = db.select().from(users).where(eq(users.id, user.id)).get()
+      expect(updated?.email_verified_at).toBeInstanceOf(Date)
+      await expect(accountService.requestEmailVerification(user.id, 1)).rejects.toThrow(
+        '邮箱已验证'
+      )
+    })
+
+    it('should reject the token after the email changes and reset the verification', async () => {
+      const userService = new UserService(db as any, SECRET)
+      await accountService.requestEmailVerification(user.id, 1)
+      const token = extractToken(transport.messages[0].text)
+
+      await userService.update(user.id, { email: 'alice@new.example.com' }, 1)
+
+      await expect(accountService.verifyEmail(token)).rejects.toThrow(ValidationError)
+
+      db.update(users).set({ email_verified_at: new Date() }).where(eq(users.id, user.id)).run()
+      await userService.update(user.id, { email: 'alice@example.com' }, 1)
+      const updated = db.select().from(users).where(eq(users.id, user.id)).get()
+      expect(updated?.email_verified_at).toBeNull()
+    })
+
+    it('should require an email address', async () => {
+      db.update(users).set({ email: '' }).where(eq(users.id, user.id)).run()
+
+      await expect(accountService.requestEmailVerification(user.id, 1)).rejects.toThrow(
+        '未设置邮箱'
+      )
+      await expect(accountService.requestEmailVerification(99, 1)).rejects.toThrow(NotFoundError)
+    })
+  })
+
+  describe('mail templates', () => {
+    it('should use the site sender name and custom templates', async () => {
+      db.update(sites).set({ mail_sender_name: '示例站点客服' }).run()
+      await mailService.updateTemplate(1, UserTokenTypeEnum.PASSWORD_RESET, {
+        subject: '{{site}} 密码找回',
+        body: '点击 https://demo.example.com/reset?token={{token}} 重置 {{username}} 的密码',
+      })
+
+      await accountService.requestPasswordReset('alice@example.com', 1)
+
+      const [mail] = transport.messages
+      expect(mail.from.name).toBe('示例站点客服')
+      expect(mail.subject).toBe('示例站点 密码找回')
+      expect(mail.text).toMatch(
+        /^点击 https:\/\/demo\.example\.com\/reset\?token=[0-9a-f]{64} 重置 alice 的密码$/
+      )
+    })
+
+    it('should list default templates and reset custom ones', async () => {
+      await mailService.updateTemplate(1, UserTokenTypeEnum.EMAIL_VERIFICATION, {
+        subject: '验证',
+        body: '{{token}}',
+      })
+
+      const templates = await mailService.listTemplates(1)
+      expect(templates.map((template) => [template.type, template.is_default])).toEqual([
+        [UserTokenTypeEnum.PASSWORD_RESET, true],
+        [UserTokenTypeEnum.EMAIL_VERIFICATION, false],
+      ])
+
+      await mailService.resetTemplate(1, UserTokenTypeEnum.EMAIL_VERIFICATION)
+      expect(
+        (await mailService.getTemplate(1, UserTokenTypeEnum.EMAIL_VERIFICATION)).is_default
+      ).toBe(true)
+      await expect(
+        mailService.resetTemplate(1, UserTokenTypeEnum.EMAIL_VERIFICATION)
+      ).rejects.toThrow(NotFoundError)
+    })
+
+    it('should keep unknown placeholders when rendering', () => {
+      expect(renderMailTemplate('{{ site }}: {{token}} {{unknown}}', { site: 'A', token: 1 })).toBe(
+        'A: 1 {{unknown}}'
+      )
+    })
+  })
+})
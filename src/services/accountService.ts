@@ -0,0 +1,233 @@
+/**
+ * Account Service
+ *
+ * 自助找回密码和验证邮箱：
+ * - 忘记密码：向用户邮箱发送一次性重置令牌，使用令牌设置新密码后撤销该用户的全部登录令牌
+ * - 验证邮箱：向当前邮箱发送一次性验证令牌，使用令牌后记录验证时间
+ *
+ * 令牌为随机字符串，数据库只保存其 SHA-256 哈希；令牌过期、已使用、被新令牌取代或
+ * 用户邮箱发生变化后失效。
+ */
+
+import { and, eq, isNull } from 'drizzle-orm'
+import type { DrizzleD1Database } from 'drizzle-orm/d1'
+import { StatusEnum, users, userTokens } from '../db/schema'
+import { NotFoundError, ValidationError } from '../errors'
+import { UserTokenTypeEnum } from '../types'
+import { nextUpdateAt } from '../utils/etag'
+import { hashPassword } from '../utils/password'
+import { generateSecureToken, sha256Hex } from '../utils/secureToken'
+import type { MailService } from './mailService'
+import type { TokenService } from './tokenService'
+
+// 令牌有效期（分钟）
+export const USER_TOKEN_TTL_MINUTES: Record<UserTokenTypeEnum, number> = {
+  [UserTokenTypeEnum.PASSWORD_RESET]: 60,
+  [UserTokenTypeEnum.EMAIL_VERIFICATION]: 24 * 60,
+}
+
+type UserRecord = typeof users.$inferSelect
+
+export class AccountService {
+  constructor(
+    private db: DrizzleD1Database,
+    private mailService: MailService,
+    private tokenService: TokenService
+  ) {}
+
+  /**
+   * 发送重置密码邮件
+   *
+   * 邮箱未注册时不发送，也不返回错误（避免泄露邮箱是否已注册）；
+   * 邮件发送失败时同样正常返回，只记录错误日志。
+   *
+   * @param email - 邮箱
+   * @param siteId - 站点ID
+   */
+  async requestPasswordReset(email: string, siteId: number): Promise<void> {
+    const user = await this.db
+      .select()
+      .from(users)
+      .where(
+        and(eq(users.email, email), eq(users.site_id, siteId), eq(users.status, StatusEnum.NORMAL))
+      )
+      .get()
+
+    if (!user) {
+      return
+    }
+
+    try {
+      await this.sendToken(user, UserTokenTypeEnum.PASSWORD_RESET)
+    } catch (error) {
+      console.error('重置密码邮件发送失败:', error)
+    }
+  }
+
+  /**
+   * 使用重置令牌设置新密码
+   *
+   * 成功后令牌失效，并撤销该用户已签发的全部登录令牌。
+   *
+   * @param token - 重置令牌
+   * @param newPassword - 新密码的 SHA256 哈希
+   * @throws ValidationError 如果令牌无效或已过期
+   */
+  async resetPassword(token: string, newPassword: string): Promise<void> {
+    const user = await this.consumeToken(token, UserTokenTypeEnum.PASSWORD_RESET)
+
+    await this.db
+      .update(users)
+      .set({
+        password: await hashPassword(newPassword),
+        update_at: nextUpdateAt(user.update_at),
+      })
+      .where(eq(users.id, user.id))
+      .run()
+
+    await this.tokenService.revokeUserTokens(user.id)
+  }
+
+  /**
+   * 发送验证邮件到用户当前邮箱
+   *
+   * @param userId - 用户ID
+   * @param siteId - 站点ID
+   * @throws NotFoundError 如果用户不存在或已被删除
+   * @throws ValidationError 如果用户未设置邮箱或邮箱已验证
+   */
+  async requestEmailVerification(userId: number, siteId: number): Promise<void> {
+    const user = await this.db
+      .select()
+      .from(users)
+      .where(
+        and(eq(users.id, userId), eq(users.site_id, siteId), eq(users.status, StatusEnum.NORMAL))
+      )
+      .get()
+
+    if (!user) {
+      throw new NotFoundError('用户不存在或已被删除')
+    }
+    if (!user.email) {
+      throw new ValidationError('未设置邮箱')
+    }
+    if (user.email_verified_at) {
+      throw new ValidationError('邮箱已验证')
+    }
+
+    await this.sendToken(user, UserTokenTypeEnum.EMAIL_VERIFICATION)
+  }
+
+  /**
+   * 使用验证令牌验证邮箱
+   *
+   * @param token - 验证令牌
+   * @throws ValidationError 如果令牌无效、已过期或邮箱已变化
+   */
+  async verifyEmail(token: string): Promise<void> {
+    const user = await this.consumeToken(token, UserTokenTypeEnum.EMAIL_VERIFICATION)
+
+    await this.db
+      .update(users)
+      .set({
+        email_verified_at: new Date(),
+        update_at: nextUpdateAt(user.update_at),
+      })
+      .where(eq(users.id, user.id))
+      .run()
+  }
+
+  /**
+   * 生成令牌并发送邮件
+   *
+   * 同类型未使用的旧令牌随即失效。邮件发送失败时新令牌也随即失效（不保留未发出的有效令牌）。
+   *
+   * @param user - 用户
+   * @param type - 令牌类型
+   * @throws Error 如果邮件发送失败
+   */
+  private async sendToken(user: UserRecord, type: UserTokenTypeEnum): Promise<void> {
+    const now = new Date()
+    const token = generateSecureToken()
+    const ttlMinutes = USER_TOKEN_TTL_MINUTES[type]
+
+    await this.db
+      .update(userTokens)
+      .set({ used_at: now })
+      .where(
+        and(eq(userTokens.user_id, user.id), eq(userTokens.type, type), isNull(userTokens.used_at))
+      )
+      .run()
+
+    const tokenHash = await sha256Hex(token)
+    await this.db
+      .insert(userTokens)
+      .values({
+        user_id: user.id,
+        type,
+        token_hash: tokenHash,
+        email: user.email as string,
+        expires_at: new Date(now.getTime() + ttlMinutes * 60 * 1000),
+        used_at: null,
+        created_at: now,
+      })
+      .run()
+
+    try {
+      await this.mailService.send(user.site_id as number, type, user.email as string, {
+        username: user.username,
+        token,
+        expiresInMinutes: ttlMinutes,
+      })
+    } catch (error) {
+      await this.db
+        .update(userTokens)
+        .set({ used_at: new Date() })
+        .where(eq(userTokens.token_hash, tokenHash))
+        .run()
+      throw error
+    }
+  }
+
+  /**
+   * 校验并使用令牌
+   *
+   * @param token - 令牌
+   * @param type - 令牌类型
+   * @returns 令牌所属用户
+   * @throws ValidationError 如果令牌无效、已使用、已过期，或用户已停用、邮箱已变化
+   */
+  private async consumeToken(token: string, type: UserTokenTypeEnum): Promise<UserRecord> {
+    const invalid = new ValidationError('令牌无效或已过期')
+    const now = new Date()
+
+    const record = await this.db
+      .select()
+      .from(userTokens)
+      .where(and(eq(userTokens.token_hash, await sha256Hex(token)), eq(userTokens.type, type)))
+      .get()
+
+    if (!record || record.used_at || record.expires_at.getTime() <= now.getTime()) {
+      throw invalid
+    }
+
+    const user = await this.db.select().from(users).where(eq(users.id, record.user_id)).get()
+
+    if (!user || user.status !== StatusEnum.NORMAL || user.email !== record.email) {
+      throw invalid
+    }
+
+    // 条件更新，避免并发请求重复使用同一令牌
+    const used = await this.db
+      .update(userTokens)
+      .set({ used_at: now })
+      .where(and(eq(userTokens.id, record.id), isNull(userTokens.used_at)))
+      .returning()
+
+    if (used.length === 0) {
+      throw invalid
+    }
+
+    return user
+  }
+}
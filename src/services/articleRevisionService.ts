@@ -0,0 +1,270 @@
+/**
+ * Article Revision Service
+ *
+ * 管理文章修订版本：每次更新文章标题、描述或正文后保存内容快照，
+ * 记录操作人、时间和变更字段，支持版本列表、按行差异比较和版本清理。
+ * 每篇文章保留的版本数由站点的 max_revisions 配置控制。
+ */
+
+import { and, desc, eq, inArray } from 'drizzle-orm'
+import type { DrizzleD1Database } from 'drizzle-orm/d1'
+import { articleRevisions, sites } from '../db/schema'
+import { NotFoundError } from '../errors'
+import type { Article, ArticleRevision, PaginatedResult, QueryParams } from '../types'
+import { type DiffLine, diffLines, hasChanges } from '../utils/diff'
+import { paginatedQuery } from '../utils/paginatedQuery'
+import { DEFAULT_MAX_REVISIONS } from './siteService'
+
+// 纳入修订版本快照的文章字段
+export const REVISION_FIELDS = ['title', 'description', 'content', 'markdown'] as const
+
+export type RevisionField = (typeof REVISION_FIELDS)[number]
+
+// 修订版本摘要（列表返回，不含正文）
+export type ArticleRevisionSummary = Omit<ArticleRevision, 'content' | 'markdown'>
+
+// 修订版本差异结果
+export interface ArticleRevisionDiff {
+  from: ArticleRevisionSummary
+  to: ArticleRevisionSummary
+  changes: Partial<Record<RevisionField, DiffLine[]>>
+}
+
+// 修订版本摘要字段
+const revisionSummaryColumns = {
+  id: articleRevisions.id,
+  article_id: articleRevisions.article_id,
+  title: articleRevisions.title,
+  description: articleRevisions.description,
+  changed_fields: articleRevisions.changed_fields,
+  restored_from: articleRevisions.restored_from,
+  user_id: articleRevisions.user_id,
+  site_id: articleRevisions.site_id,
+  created_at: articleRevisions.created_at,
+}
+
+/**
+ * 计算更新数据相对于当前文章变更了哪些快照字段
+ *
+ * @param article - 当前文章
+ * @param data - 更新数据
+ * @returns 变更的字段列表
+ */
+export function getChangedRevisionFields(
+  article: Article,
+  data: Partial<Record<RevisionField, string>>
+): RevisionField[] {
+  return REVISION_FIELDS.filter(
+    (field) => data[field] !== undefined && data[field] !== (article[field] ?? '')
+  )
+}
+
+export class ArticleRevisionService {
+  constructor(private db: DrizzleD1Database) {}
+
+  /**
+   * 保存修订版本
+   *
+   * 保存文章当前内容的快照，然后按站点配置清理超出数量的旧版本。
+   *
+   * @param article - 更新后的文章
+   * @param changedFields - 本次变更的字段
+   * @param userId - 操作用户ID
+   * @param restoredFrom - 恢复来源的修订版本ID（可选）
+   * @returns 创建的修订版本
+   */
+  async record(
+    article: Article,
+    changedFields: RevisionField[],
+    userId: number | null,
+    restoredFrom?: number
+  ): Promise<ArticleRevision> {
+    const result = await this.insertSnapshot(
+      article,
+      changedFields,
+      userId,
+      new Date(),
+      restoredFrom ?? null
+    )
+
+    await this.prune(article.id, article.site_id)
+
+    return result
+  }
+
+  /**
+   * 确保文章存在初始版本
+   *
+   * 修订功能上线前创建的文章没有任何版本记录，
+   * 在第一次更新前以更新前的内容作为初始版本，保证可以回滚。
+   *
+   * @param article - 更新前的文章
+   */
+  async ensureBaseline(article: Article): Promise<void> {
+    const existing = await this.db
+      .select({ id: articleRevisions.id })
+      .from(articleRevisions)
+      .where(
+        and(
+          eq(articleRevisions.article_id, article.id),
+          eq(articleRevisions.site_id, article.site_id)
+        )
+      )
+      .get()
+
+    if (!existing) {
+      await this.insertSnapshot(article, [], article.user_id, article.update_at, null)
+    }
+  }
+
+  /**
+   * 查询文章的修订版本列表
+   *
+   * 按版本ID降序（最新在前），不返回正文。
+   *
+   * @param articleId - 文章ID
+   * @param siteId - 站点ID
+   * @param params - 查询参数（分页、withTotal）
+   * @returns 分页结果
+   */
+  async query(
+    articleId: number,
+    siteId: number,
+    params: QueryParams
+  ): Promise<PaginatedResult<ArticleRevisionSummary>> {
+    return paginatedQuery<ArticleRevisionSummary>(this.db, articleRevisions, params, {
+      siteId,
+      hasStatus: false,
+      columns: revisionSummaryColumns,
+      where: eq(articleRevisions.article_id, articleId),
+    })
+  }
+
+  /**
+   * 获取单个修订版本
+   *
+   * @param articleId - 文章ID
+   * @param revisionId - 修订版本ID
+   * @param siteId - 站点ID
+   * @returns 修订版本详情
+   */
+  async getById(articleId: number, revisionId: number, siteId: number): Promise<ArticleRevision> {
+    const revision = await this.db
+      .select()
+      .from(articleRevisions)
+      .where(
+        and(
+          eq(articleRevisions.id, revisionId),
+          eq(articleRevisions.article_id, articleId),
+          eq(articleRevisions.site_id, siteId)
+        )
+      )
+      .get()
+
+    if (!revision) {
+      throw new NotFoundError('修订版本不存在')
+    }
+
+    return revision as ArticleRevision
+  }
+
+  /**
+   * 比较两个修订版本
+   *
+   * 对每个快照字段做按行差异比较，只返回有变更的字段。
+   *
+   * @param articleId - 文章ID
+   * @param fromId - 旧版本ID
+   * @param toId - 新版本ID
+   * @param siteId - 站点ID
+   * @returns 差异结果
+   */
+  async diff(
+    articleId: number,
+    fromId: number,
+    toId: number,
+    siteId: number
+  ): Promise<ArticleRevisionDiff> {
+    const from = await this.getById(articleId, fromId, siteId)
+    const to = await this.getById(articleId, toId, siteId)
+
+    const changes: ArticleRevisionDiff['changes'] = {}
+    for (const field of REVISION_FIELDS) {
+      const fieldDiff = diffLines(from[field] ?? '', to[field] ?? '')
+      if (hasChanges(fieldDiff)) {
+        changes[field] = fieldDiff
+      }
+    }
+
+    const { content: _fromContent, markdown: _fromMarkdown, ...fromSummary } = from
+    const { content: _toContent, markdown: _toMarkdown, ...toSummary } = to
+
+    return { from: fromSummary, to: toSummary, changes }
+  }
+
+  /**
+   * 插入内容快照
+   */
+  private async insertSnapshot(
+    article: Article,
+    changedFields: RevisionField[],
+    userId: number | null,
+    createdAt: Date,
+    restoredFrom: number | null
+  ): Promise<ArticleRevision> {
+    const [result] = await this.db
+      .insert(articleRevisions)
+      .values({
+        article_id: article.id,
+        title: article.title,
+        description: article.description ?? '',
+        content: article.content ?? '',
+        markdown: article.markdown ?? '',
+        changed_fields: JSON.stringify(changedFields),
+        restored_from: restoredFrom,
+        user_id: userId,
+        site_id: article.site_id,
+        created_at: createdAt,
+      })
+      .returning()
+
+    return result as ArticleRevision
+  }
+
+  /**
+   * 清理超出保留数量的旧版本
+   *
+   * @param articleId - 文章ID
+   * @param siteId - 站点ID
+   */
+  private async prune(articleId: number, siteId: number): Promise<void> {
+    const site = await this.db
+      .select({ maxRevisions: sites.max_revisions })
+      .from(sites)
+      .where(eq(sites.id, siteId))
+      .get()
+
+    const maxRevisions = site?.maxRevisions ?? DEFAULT_MAX_REVISIONS
+
+    const revisions = await this.db
+      .select({ id: articleRevisions.id })
+      .from(articleRevisions)
+      .where(and(eq(articleRevisions.article_id, articleId), eq(articleRevisions.site_id, siteId)))
+      .orderBy(desc(articleRevisions.id))
+      .all()
+
+    const expired = revisions.slice(maxRevisions)
+
+    if (expired.length > 0) {
+      await this.db
+        .delete(articleRevisions)
+        .where(
+          inArray(
+            articleRevisions.id,
+            expired.map(({ id }) => id)
+          )
+        )
+        .run()
+    }
+  }
+}
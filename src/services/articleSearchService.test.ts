@@ -0,0 +1,119 @@
+/**
+ * 文章搜索服务测试（分批重建索引、搜索结果和总数）
+ */
+
+import Database from 'better-sqlite3'
+import { drizzle } from 'drizzle-orm/better-sqlite3'
+import { beforeEach, describe, expect, it } from 'vitest'
+import { articles } from '../db/schema'
+import { StatusEnum } from '../types'
+import { ArticleSearchService } from './articleSearchService'
+
+describe('ArticleSearchService', () => {
+  let db: any
+  let sqlite: Database.Database
+  let searchService: ArticleSearchService
+
+  beforeEach(() => {
+    sqlite = new Database(':memory:')
+    // better-sqlite3 驱动没有 batch，按顺序执行模拟 D1 batch
+    db = drizzle(sqlite) as any
+    db.batch = (queries: any[]) => Promise.all(queries)
+
+    sqlite.exec(`
+      CREATE TABLE articles (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        title TEXT NOT NULL,
+        channel_id INTEGER NOT NULL,
+        tags TEXT DEFAULT '',
+        description TEXT DEFAULT '',
+        content TEXT DEFAULT '',
+        markdown TEXT DEFAULT '',
+        img TEXT DEFAULT '',
+        video TEXT DEFAULT '',
+        author TEXT DEFAULT '',
+        author_id INTEGER,
+        origin TEXT DEFAULT '',
+        origin_id INTEGER,
+        editor_id INTEGER,
+        user_id INTEGER,
+        type TEXT DEFAULT 'NORMAL',
+        status TEXT DEFAULT 'PENDING',
+        reject_reason TEXT DEFAULT '',
+        publish_at INTEGER,
+        unpublish_at INTEGER,
+        is_top INTEGER DEFAULT 0,
+        site_id INTEGER NOT NULL,
+        created_at INTEGER NOT NULL,
+        update_at INTEGER NOT NULL
+      );
+      CREATE VIRTUAL TABLE articles_fts USING fts5(title, description, content, markdown);
+    `)
+
+    searchService = new ArticleSearchService(db)
+  })
+
+  function insertArticles(count: number, values: Partial<typeof articles.$inferInsert> = {}) {
+    const now = new Date()
+    for (let i = 0; i < count; i++) {
+      db.insert(articles)
+        .values({
+          title: `文章 ${i}`,
+          channel_id: 1,
+          content: '<p>全文搜索</p>',
+          status: StatusEnum.NORMAL,
+          site_id: 1,
+          created_at: now,
+          update_at: now,
+          ...values,
+        })
+        .run()
+    }
+  }
+
+  function countIndexed(): number {
+    return (sqlite.prepare('SELECT count(*) AS total FROM articles_fts').get() as any).total
+  }
+
+  describe('rebuild', () => {
+    it('should rebuild the index in resumable batches', async () => {
+      insertArticles(150)
+      insertArticles(2, { status: StatusEnum.DELETE })
+      insertArticles(3, { site_id: 2 })
+
+      const first = await searchService.rebuild(1)
+      expect(first).toEqual({ indexed: 100, nextCursor: 100 })
+      expect(countIndexed()).toBe(100)
+
+      const second = await searchService.rebuild(1, first.nextCursor ?? 0)
+      expect(second).toEqual({ indexed: 50, nextCursor: null })
+      expect(countIndexed()).toBe(150)
+    })
+
+    it('should replace existing index entries', async () => {
+      insertArticles(2)
+
+      await searchService.rebuild(1)
+      await searchService.rebuild(1)
+
+      expect(countIndexed()).toBe(2)
+    })
+  })
+
+  describe('search', () => {
+    it('should return the page with the total of matching articles', async () => {
+      insertArticles(3)
+      insertArticles(1, { site_id: 2 })
+      await searchService.rebuild(1)
+      await searchService.rebuild(2)
+
+      const result = await searchService.search({ q: '搜索', page: 1, pageSize: 2 }, 1)
+
+      expect(result.total).toBe(3)
+      expect(result.totalPages).toBe(2)
+      expect(result.data).toHaveLength(2)
+      expect(result.data[0].highlights.content).toContain('<mark>')
+      expect(result.data[0]).not.toHaveProperty('content')
+    })
+  })
+})
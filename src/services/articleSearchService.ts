@@ -0,0 +1,228 @@
+/**
+ * Article Search Service
+ *
+ * 基于 SQLite FTS5 的文章全文搜索。
+ * 索引表 articles_fts（rowid = articles.id）保存标题、描述、正文（去除 HTML）和 Markdown，
+ * 写入前对中日韩文本做二元分词（见 utils/search），查询按 bm25 相关度排序。
+ * 索引由 ArticleService 在文章创建、更新和恢复修订版本时同步，彻底删除文章时移除；
+ * 站点隔离、软删除和频道/类型过滤通过关联 articles 表实现。
+ *
+ * 索引表由 scripts/create-article-fts.sql 创建（drizzle-kit 不支持虚拟表）。
+ */
+
+import { and, eq, gt, inArray, ne, type SQL, sql } from 'drizzle-orm'
+import type { DrizzleD1Database } from 'drizzle-orm/d1'
+import { articles, StatusEnum } from '../db/schema'
+import { ValidationError } from '../errors'
+import type {
+  Article,
+  ArticleReindexResult,
+  ArticleSearchParams,
+  ArticleSearchResult,
+  PaginatedResult,
+} from '../types'
+import {
+  buildMatchQuery,
+  extractSearchTerms,
+  highlight,
+  stripHtml,
+  tokenizeForIndex,
+} from '../utils/search'
+
+// FTS5 索引表名
+export const ARTICLE_FTS_TABLE = 'articles_fts'
+
+// bm25 列权重（title、description、content、markdown）
+const BM25_WEIGHTS = [10.0, 5.0, 1.0, 1.0]
+
+// 正文高亮摘要长度
+const CONTENT_SNIPPET_LENGTH = 160
+
+// 重建索引时每批处理的文章数
+const REBUILD_BATCH_SIZE = 100
+
+const ftsTable = sql.identifier(ARTICLE_FTS_TABLE)
+
+export class ArticleSearchService {
+  constructor(private db: DrizzleD1Database) {}
+
+  /**
+   * 写入或更新文章索引
+   *
+   * @param article - 文章
+   */
+  async index(article: Article): Promise<void> {
+    await this.db.run(this.buildRemoveStatement([article.id]))
+    await this.db.run(this.buildInsertStatement(article))
+  }
+
+  /**
+   * 从索引中移除文章
+   *
+   * @param articleIds - 文章ID数组
+   */
+  async remove(articleIds: number[]): Promise<void> {
+    if (articleIds.length === 0) {
+      return
+    }
+    await this.db.run(this.buildRemoveStatement(articleIds))
+  }
+
+  /**
+   * 搜索文章
+   *
+   * 按 bm25 相关度排序（score 越大越相关），返回标题、描述和正文的高亮摘要。
+   * 自动过滤 site_id 和软删除记录。
+   *
+   * @param params - 搜索参数
+   * @param siteId - 站点ID
+   * @returns 分页结果
+   * @throws ValidationError 如果搜索关键词为空
+   */
+  async search(
+    params: ArticleSearchParams,
+    siteId: number
+  ): Promise<PaginatedResult<ArticleSearchResult>> {
+    const match = buildMatchQuery(params.q)
+    if (!match) {
+      throw new ValidationError('搜索关键词不能为空')
+    }
+
+    const page = params.page && params.page > 0 ? params.page : 1
+    const pageSize = params.pageSize && params.pageSize > 0 ? params.pageSize : 10
+
+    // 构建过滤条件
+    const conditions: SQL[] = [
+      sql`${ftsTable} MATCH ${match}`,
+      sql`${articles.site_id} = ${siteId}`,
+      sql`${articles.status} != ${StatusEnum.DELETE}`,
+    ]
+    if (params.channel_id !== undefined) {
+      conditions.push(sql`${articles.channel_id} = ${params.channel_id}`)
+    }
+    if (params.type !== undefined) {
+      conditions.push(sql`${articles.type} = ${params.type}`)
+    }
+    if (params.status !== undefined) {
+      conditions.push(sql`${articles.status} = ${params.status}`)
+    }
+    const where = sql.join(conditions, sql` AND `)
+    const from = sql`${ftsTable} JOIN ${articles} ON ${articles.id} = ${ftsTable}.rowid`
+    const rank = sql`bm25(${ftsTable}, ${sql.raw(BM25_WEIGHTS.join(', '))})`
+
+    // 当前页的文章ID和相关度与总数在同一批次中查询
+    const [ranked, [{ total }]] = await this.db.batch([
+      this.db.all<{ id: number; rank: number }>(
+        sql`SELECT ${articles.id} AS id, ${rank} AS rank FROM ${from} WHERE ${where} ORDER BY rank LIMIT ${pageSize} OFFSET ${
+          (page - 1) * pageSize
+        }`
+      ),
+      this.db.all<{ total: number }>(sql`SELECT count(*) AS total FROM ${from} WHERE ${where}`),
+    ])
+
+    // 查询文章详情并按相关度顺序组装结果
+    const ids = ranked.map(({ id }) => id)
+    const rows =
+      ids.length > 0
+        ? ((await this.db
+            .select()
+            .from(articles)
+            .where(inArray(articles.id, ids))
+            .all()) as Article[])
+        : []
+    const rowMap = new Map(rows.map((row) => [row.id, row]))
+    const terms = extractSearchTerms(params.q)
+
+    const data: ArticleSearchResult[] = []
+    for (const { id, rank: rankValue } of ranked) {
+      const article = rowMap.get(id)
+      if (!article) continue
+
+      const { content, markdown, ...summary } = article
+      const body = stripHtml(content ?? '') || (markdown ?? '')
+      data.push({
+        ...summary,
+        score: -rankValue,
+        highlights: {
+          title: highlight(article.title, terms),
+          description: highlight(article.description ?? '', terms, CONTENT_SNIPPET_LENGTH),
+          content: highlight(body, terms, CONTENT_SNIPPET_LENGTH),
+        },
+      })
+    }
+
+    return {
+      data,
+      total,
+      page,
+      pageSize,
+      totalPages: Math.ceil(total / pageSize),
+    }
+  }
+
+  /**
+   * 重建站点的搜索索引（分段执行）
+   *
+   * 每次调用按ID顺序重新写入一批（REBUILD_BATCH_SIZE 篇）未删除的文章，
+   * 同一批的删除和写入语句通过 db.batch 一次提交，避免单次请求超出 D1 查询数限制。
+   * 返回的 nextCursor 不为 null 时，以其作为 cursor 再次调用直到完成。
+   *
+   * @param siteId - 站点ID
+   * @param cursor - 起始游标（上一批最后一篇文章的ID，首次调用为 0）
+   * @returns 本批写入索引的文章数和下一批的游标
+   */
+  async rebuild(siteId: number, cursor = 0): Promise<ArticleReindexResult> {
+    const batch = (await this.db
+      .select()
+      .from(articles)
+      .where(
+        and(
+          eq(articles.site_id, siteId),
+          ne(articles.status, StatusEnum.DELETE),
+          gt(articles.id, cursor)
+        )
+      )
+      .orderBy(articles.id)
+      .limit(REBUILD_BATCH_SIZE)
+      .all()) as Article[]
+
+    if (batch.length > 0) {
+      await this.db.batch([
+        this.db.run(this.buildRemoveStatement(batch.map(({ id }) => id))),
+        ...batch.map((article) => this.db.run(this.buildInsertStatement(article))),
+      ])
+    }
+
+    return {
+      indexed: batch.length,
+      nextCursor: batch.length < REBUILD_BATCH_SIZE ? null : batch[batch.length - 1].id,
+    }
+  }
+
+  /**
+   * 构建删除文章索引的语句
+   *
+   * @param articleIds - 文章ID数组（不能为空）
+   */
+  private buildRemoveStatement(articleIds: number[]): SQL {
+    return sql`DELETE FROM ${ftsTable} WHERE rowid IN (${sql.join(
+      articleIds.map((id) => sql`${id}`),
+      sql`, `
+    )})`
+  }
+
+  /**
+   * 构建写入文章索引的语句（写入前需先删除旧索引）
+   *
+   * @param article - 文章
+   */
+  private buildInsertStatement(article: Article): SQL {
+    return sql`INSERT INTO ${ftsTable} (rowid, title, description, content, markdown) VALUES (${
+      article.id
+    }, ${tokenizeForIndex(article.title)}, ${tokenizeForIndex(
+      article.description ?? ''
+    )}, ${tokenizeForIndex(stripHtml(article.content ?? ''))}, ${tokenizeForIndex(
+      article.markdown ?? ''
+    )})`
+  }
+}
@@ -0,0 +1,206 @@
+/**
+ * 文章服务测试（恢复修订版本和审核操作的版本控制）
+ */
+
+import Database from 'better-sqlite3'
+import { drizzle } from 'drizzle-orm/better-sqlite3'
+import { beforeEach, describe, expect, it } from 'vitest'
+import { articleRevisions, articles } from '../db/schema'
+import { ArticleStatusError, PreconditionFailedError } from '../errors'
+import { StatusEnum } from '../types'
+import { ArticleReviewActionEnum } from '../utils/articleStatus'
+import { getETag } from '../utils/etag'
+import { ArticleService } from './articleService'
+
+describe('ArticleService', () => {
+  let db: any
+  let articleService: ArticleService
+
+  beforeEach(() => {
+    const sqlite = new Database(':memory:')
+    // better-sqlite3 驱动没有 batch，按顺序执行模拟 D1 batch
+    db = drizzle(sqlite) as any
+    db.batch = (queries: any[]) => Promise.all(queries)
+
+    sqlite.exec(`
+      CREATE TABLE sites (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        max_revisions INTEGER DEFAULT 50,
+        status TEXT DEFAULT 'PENDING',
+        created_at INTEGER NOT NULL,
+        update_at INTEGER NOT NULL
+      );
+      CREATE TABLE articles (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        title TEXT NOT NULL,
+        channel_id INTEGER NOT NULL,
+        tags TEXT DEFAULT '',
+        description TEXT DEFAULT '',
+        content TEXT DEFAULT '',
+        markdown TEXT DEFAULT '',
+        img TEXT DEFAULT '',
+        video TEXT DEFAULT '',
+        author TEXT DEFAULT '',
+        author_id INTEGER,
+        origin TEXT DEFAULT '',
+        origin_id INTEGER,
+        editor_id INTEGER,
+        user_id INTEGER,
+        type TEXT DEFAULT 'NORMAL',
+        status TEXT DEFAULT 'PENDING',
+        reject_reason TEXT DEFAULT '',
+        publish_at INTEGER,
+        unpublish_at INTEGER,
+        is_top INTEGER DEFAULT 0,
+        site_id INTEGER NOT NULL,
+        created_at INTEGER NOT NULL,
+        update_at INTEGER NOT NULL
+      );
+      CREATE TABLE article_revisions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        article_id INTEGER NOT NULL,
+        title TEXT NOT NULL,
+        description TEXT DEFAULT '',
+        content TEXT DEFAULT '',
+        markdown TEXT DEFAULT '',
+        changed_fields TEXT DEFAULT '[]',
+        restored_from INTEGER,
+        user_id INTEGER,
+        site_id INTEGER NOT NULL,
+        created_at INTEGER NOT NULL
+      );
+      CREATE VIRTUAL TABLE articles_fts USING fts5(title, description, content, markdown);
+    `)
+
+    articleService = new ArticleService(db)
+  })
+
+  // 插入文章（update_at 为当前秒，模拟同一秒内的连续修改）
+  function insertArticle(values: Partial<typeof articles.$inferInsert> = {}) {
+    const now = new Date(Math.floor(Date.now() / 1000) * 1000)
+    return db
+      .insert(articles)
+      .values({
+        title: '当前标题',
+        channel_id: 1,
+        status: StatusEnum.NORMAL,
+        site_id: 1,
+        created_at: now,
+        update_at: now,
+        ...values,
+      })
+      .returning()
+      .get()
+  }
+
+  function insertRevision(articleId: number) {
+    return db
+      .insert(articleRevisions)
+      .values({ article_id: articleId, title: '旧标题', site_id: 1, created_at: new Date() })
+      .returning()
+      .get()
+  }
+
+  describe('restoreRevision', () => {
+    it('should produce a new ETag within the same second', async () => {
+      const article = insertArticle()
+      const revision = insertRevision(article.id)
+
+      const restored = await articleService.restoreRevision(
+        article.id,
+        revision.id,
+        1,
+        1,
+        getETag(article)
+      )
+
+      expect(restored.title).toBe('旧标题')
+      expect(getETag(restored)).not.toBe(getETag(article))
+    })
+
+    it('should reject a stale If-Match', async () => {
+      const article = insertArticle()
+      const revision = insertRevision(article.id)
+      const etag = getETag(article)
+
+      await articleService.update(article.id, { title: '新标题' }, 1, 1)
+
+      await expect(
+        articleService.restoreRevision(article.id, revision.id, 1, 1, etag)
+      ).rejects.toThrow(PreconditionFailedError)
+    })
+  })
+
+  describe('review', () => {
+    it('should produce a new ETag within the same second', async () => {
+      const article = insertArticle({ status: StatusEnum.PENDING })
+
+      const { article: approved } = await articleService.review(
+        article.id,
+        ArticleReviewActionEnum.APPROVE,
+        1
+      )
+
+      expect(approved.status).toBe(StatusEnum.NORMAL)
+      expect(getETag(approved)).not.toBe(getETag(article))
+    })
+
+    it('should schedule an approved article until its publish time', async () => {
+      const article = insertArticle({
+        status: StatusEnum.PENDING,
+        publish_at: new Date(Date.now() + 60 * 60 * 1000),
+      })
+
+      const { article: approved, to } = await articleService.review(
+        article.id,
+        ArticleReviewActionEnum.APPROVE,
+        1
+      )
+
+      expect(to).toBe(StatusEnum.SCHEDULED)
+      expect(approved.status).toBe(StatusEnum.SCHEDULED)
+    })
+
+    it('should let only one of concurrent reviews succeed', async () => {
+      const article = insertArticle({ status: StatusEnum.PENDING })
+
+      const results = await Promise.allSettled([
+        articleService.review(article.id, ArticleReviewActionEnum.APPROVE, 1),
+        articleService.review(article.id, ArticleReviewActionEnum.REJECT, 1, '内容不完整'),
+      ])
+
+      expect(results.map((result) => result.status).sort()).toEqual(['fulfilled', 'rejected'])
+      const failure = results.find((result) => result.status === 'rejected')
+      expect((failure as PromiseRejectedResult).reason).toBeInstanceOf(ArticleStatusError)
+    })
+  })
+
+  describe('update', () => {
+    it('should not change the status', async () => {
+      const article = insertArticle({ status: StatusEnum.PENDING })
+
+      const updated = await articleService.update(
+        article.id,
+        { title: '新标题', status: StatusEnum.NORMAL } as any,
+        1
+      )
+
+      expect(updated.status).toBe(StatusEnum.PENDING)
+    })
+
+    it('should move published articles with the publish window', async () => {
+      const article = insertArticle()
+
+      const scheduled = await articleService.update(
+        article.id,
+        { publish_at: new Date(Date.now() + 60 * 60 * 1000).toISOString() },
+        1
+      )
+      expect(scheduled.status).toBe(StatusEnum.SCHEDULED)
+
+      const published = await articleService.update(article.id, { publish_at: null }, 1)
+      expect(published.status).toBe(StatusEnum.NORMAL)
+    })
+  })
+})
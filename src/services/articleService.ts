@@ -3,25 +3,95 @@
  *
  * 管理文章的 CRUD 操作和查询功能。
  * 实现频道验证、软删除、完整查询规范（过滤、排序、分页、搜索）。
+ * 实现审核流程（审核通过、驳回、重新提交），状态转换由文章状态机校验。
+ * 更新标题、描述或正文时保存修订版本，支持回滚到历史版本。
+ * 支持定时发布/下线（publish_at、unpublish_at），前台只展示发布窗口内的文章。
+ * 标题、描述或正文变更后同步全文搜索索引（articles_fts）。
+ * 标签通过 article_tags 关联 TAG 字典条目，接受标签ID或名称（名称不存在时自动创建）。
+ * 文章变更后使公开接口的文章缓存失效（缓存键前缀：site:{siteId}:public:article）。
  *
  * **验证需求**: 2.1, 2.2, 2.3, 2.4, 2.5, 2.6, 2.7
  */
 
 import { and, eq } from 'drizzle-orm'
 import type { DrizzleD1Database } from 'drizzle-orm/d1'
+import { articleModel } from '../db/models'
 import { ArticleTypeEnum, articles, channels, StatusEnum } from '../db/schema'
-import { NotFoundError, ValidationError } from '../errors'
+import {
+  ArticleStatusError,
+  NotFoundError,
+  PreconditionFailedError,
+  ValidationError,
+} from '../errors'
 import type {
   Article,
+  ArticleScheduleTime,
+  ArticleStatusTransition,
   CreateArticleInput,
+  FacetRequest,
+  FacetResult,
   PaginatedResult,
   QueryParams,
   UpdateArticleInput,
 } from '../types'
-import { buildQuery } from '../utils/queryBuilder'
+import {
+  ARTICLE_PUBLISH_STATUSES,
+  ARTICLE_REVIEW_TARGETS,
+  ArticleReviewActionEnum,
+  assertArticleTransition,
+  getPublishStatus,
+} from '../utils/articleStatus'
+import { assertIfMatch, nextUpdateAt } from '../utils/etag'
+import { facetQuery } from '../utils/facetQuery'
+import { paginatedQuery } from '../utils/paginatedQuery'
+import { applySoftDeleteFilter } from '../utils/queryBuilder'
+import { ArticleRevisionService, getChangedRevisionFields } from './articleRevisionService'
+import { ArticleSearchService } from './articleSearchService'
+import type { CacheManager } from './cacheManager'
+import { TagService } from './tagService'
+
+/**
+ * 解析定时发布/下线时间
+ *
+ * 数字按 Unix 秒级时间戳处理（与推广的 start_time/end_time 一致），
+ * 字符串按 ISO 8601 解析，null 表示清除。
+ *
+ * @param value - 时间值
+ * @param field - 字段名（用于错误消息）
+ * @returns 解析后的时间
+ * @throws ValidationError 如果时间无效
+ */
+function parseScheduleTime(value: ArticleScheduleTime, field: string): Date | null {
+  if (value === null || value === '') {
+    return null
+  }
+
+  const date = typeof value === 'number' ? new Date(value * 1000) : new Date(value)
+  if (Number.isNaN(date.getTime())) {
+    throw new ValidationError(`无效的 ${field}`)
+  }
+
+  return date
+}
+
+/**
+ * 验证发布窗口
+ *
+ * @param publishAt - 发布时间
+ * @param unpublishAt - 下线时间
+ * @throws ValidationError 如果下线时间不晚于发布时间
+ */
+function validatePublishWindow(publishAt: Date | null, unpublishAt: Date | null): void {
+  if (publishAt && unpublishAt && unpublishAt.getTime() <= publishAt.getTime()) {
+    throw new ValidationError('unpublish_at 必须晚于 publish_at')
+  }
+}
 
 export class ArticleService {
-  constructor(private db: DrizzleD1Database) {}
+  constructor(
+    private db: DrizzleD1Database,
+    private cacheManager?: CacheManager
+  ) {}
 
   /**
    * 创建文章
@@ -29,7 +99,7 @@ export class ArticleService {
    * 验证关联的频道在相同 site_id 下存在且未被删除。
    * 根据用户权限自动设置 status：
    * - USER 权限：默认 PENDING（待审核）
-   * - EDITOR、MANAGE、SUPERMANAGE 权限：默认 NORMAL（正常）
+   * - EDITOR、MANAGE、SUPERMANAGE 权限：按发布窗口为 SCHEDULED、NORMAL 或 EXPIRED
    *
    * @param data - 文章创建数据
    * @param siteId - 站点ID
@@ -62,12 +132,24 @@ export class ArticleService {
       throw new ValidationError('频道不存在或已被删除')
     }
 
+    // 解析定时发布/下线时间
+    const publishAt =
+      data.publish_at !== undefined ? parseScheduleTime(data.publish_at, 'publish_at') : null
+    const unpublishAt =
+      data.unpublish_at !== undefined ? parseScheduleTime(data.unpublish_at, 'unpublish_at') : null
+    validatePublishWindow(publishAt, unpublishAt)
+
+    // 解析标签（不存在的标签名称自动创建）
+    const tagService = new TagService(this.db, this.cacheManager)
+    const tags = data.tags !== undefined ? await tagService.resolve(data.tags, siteId) : []
+
     const now = new Date()
 
     // 根据用户权限设置默认状态
     // USER 权限：默认 PENDING（待审核）
-    // EDITOR、MANAGE、SUPERMANAGE 权限：默认 NORMAL（正常）
-    const defaultStatus = userType === 'USER' ? StatusEnum.PENDING : StatusEnum.NORMAL
+    // EDITOR、MANAGE、SUPERMANAGE 权限：按发布窗口确定（未到发布时间为 SCHEDULED）
+    const defaultStatus =
+      userType === 'USER' ? StatusEnum.PENDING : getPublishStatus(publishAt, unpublishAt, now)
 
     // 插入文章记录
     const [result] = await this.db
@@ -75,7 +157,7 @@ export class ArticleService {
       .values({
         title: data.title,
         channel_id: data.channel_id,
-        tags: data.tags ?? '',
+        tags: JSON.stringify(tags.map((tag) => tag.name)),
         description: data.description ?? '',
         content: data.content ?? '',
         markdown: data.markdown ?? '',
@@ -89,6 +171,8 @@ export class ArticleService {
         user_id: userId,
         type: data.type ?? ArticleTypeEnum.NORMAL,
         status: defaultStatus,
+        publish_at: publishAt,
+        unpublish_at: unpublishAt,
         is_top: data.is_top ?? 0,
         site_id: siteId,
         created_at: now,
@@ -96,6 +180,15 @@ export class ArticleService {
       })
       .returning()
 
+    // 保存标签关联
+    await tagService.setArticleTags(result.id, tags, siteId)
+
+    // 同步搜索索引
+    await this.syncSearchIndex(result as Article)
+
+    // 使公开文章缓存失效
+    await this.invalidatePublicCache(siteId)
+
     return result as Article
   }
 
@@ -103,32 +196,35 @@ export class ArticleService {
    * 更新文章
    *
    * 如果更新 channel_id，验证新频道存在且属于相同站点。
-   * 不更新已删除的文章。
+   * 不更新已删除的文章；待审核和审核未通过的文章也可以编辑。
+   * 不能修改 status，状态只能通过审核操作（review）和删除（delete）变更；
+   * 已审核通过的文章修改发布窗口后，按新的发布窗口转换为 SCHEDULED、NORMAL 或 EXPIRED。
+   * 如果更新 tags，替换文章的全部标签关联。
+   * 如果标题、描述或正文有变更，保存修订版本。
+   * 如果提供 ifMatch，与文章当前版本（ETag）不一致时拒绝更新。
    *
    * @param id - 文章ID
    * @param data - 文章更新数据
    * @param siteId - 站点ID
+   * @param userId - 操作用户ID（记录到修订版本）
+   * @param ifMatch - If-Match 请求头（可选）
    * @returns 更新后的文章
+   * @throws PreconditionFailedError 如果文章已被修改
    *
    * **验证需求**: 2.3
    */
-  async update(id: number, data: UpdateArticleInput, siteId: number): Promise<Article> {
+  async update(
+    id: number,
+    data: UpdateArticleInput,
+    siteId: number,
+    userId: number | null = null,
+    ifMatch?: string
+  ): Promise<Article> {
     // 检查文章是否存在且未被删除
-    const existingArticle = await this.db
-      .select()
-      .from(articles)
-      .where(
-        and(
-          eq(articles.id, id),
-          eq(articles.site_id, siteId),
-          eq(articles.status, StatusEnum.NORMAL)
-        )
-      )
-      .get()
+    const existingArticle = await this.getById(id, siteId)
 
-    if (!existingArticle) {
-      throw new NotFoundError('文章不存在或已被删除')
-    }
+    // 校验文章版本
+    assertIfMatch(ifMatch, existingArticle)
 
     // 如果更新频道ID，验证新频道存在
     if (data.channel_id !== undefined && data.channel_id !== existingArticle.channel_id) {
@@ -151,12 +247,11 @@ export class ArticleService {
 
     // 准备更新数据
     const updateData: any = {
-      update_at: new Date(),
+      update_at: nextUpdateAt(existingArticle.update_at),
     }
 
     if (data.title !== undefined) updateData.title = data.title
     if (data.channel_id !== undefined) updateData.channel_id = data.channel_id
-    if (data.tags !== undefined) updateData.tags = data.tags
     if (data.description !== undefined) updateData.description = data.description
     if (data.content !== undefined) updateData.content = data.content
     if (data.markdown !== undefined) updateData.markdown = data.markdown
@@ -168,16 +263,143 @@ export class ArticleService {
     if (data.origin_id !== undefined) updateData.origin_id = data.origin_id
     if (data.editor_id !== undefined) updateData.editor_id = data.editor_id
     if (data.type !== undefined) updateData.type = data.type
-    if (data.status !== undefined) updateData.status = data.status
     if (data.is_top !== undefined) updateData.is_top = data.is_top
+    if (data.publish_at !== undefined) {
+      updateData.publish_at = parseScheduleTime(data.publish_at, 'publish_at')
+    }
+    if (data.unpublish_at !== undefined) {
+      updateData.unpublish_at = parseScheduleTime(data.unpublish_at, 'unpublish_at')
+    }
 
-    // 更新文章记录
+    // 验证更新后的发布窗口
+    const publishAt =
+      updateData.publish_at !== undefined ? updateData.publish_at : existingArticle.publish_at
+    const unpublishAt =
+      updateData.unpublish_at !== undefined ? updateData.unpublish_at : existingArticle.unpublish_at
+    validatePublishWindow(publishAt, unpublishAt)
+
+    // 已审核通过的文章按新的发布窗口转换状态
+    if (ARTICLE_PUBLISH_STATUSES.includes(existingArticle.status)) {
+      const status = getPublishStatus(publishAt, unpublishAt, new Date())
+      if (status !== existingArticle.status) {
+        assertArticleTransition(existingArticle.status, status)
+        updateData.status = status
+      }
+    }
+
+    // 解析标签（不存在的标签名称自动创建）
+    const tagService = new TagService(this.db, this.cacheManager)
+    const tags = data.tags !== undefined ? await tagService.resolve(data.tags, siteId) : undefined
+    if (tags) {
+      updateData.tags = JSON.stringify(tags.map((tag) => tag.name))
+    }
+
+    // 计算需要记录修订版本的字段
+    const revisionService = new ArticleRevisionService(this.db)
+    const changedFields = getChangedRevisionFields(existingArticle, data)
+    if (changedFields.length > 0) {
+      await revisionService.ensureBaseline(existingArticle)
+    }
+
+    // 更新文章记录（携带 If-Match 时只更新未被其他请求修改的版本）
     const [result] = await this.db
       .update(articles)
       .set(updateData)
-      .where(eq(articles.id, id))
+      .where(
+        ifMatch !== undefined
+          ? and(eq(articles.id, id), eq(articles.update_at, existingArticle.update_at))
+          : eq(articles.id, id)
+      )
       .returning()
 
+    if (!result) {
+      throw new PreconditionFailedError()
+    }
+
+    // 替换标签关联
+    if (tags) {
+      await tagService.setArticleTags(id, tags, siteId)
+    }
+
+    // 保存修订版本并同步搜索索引
+    if (changedFields.length > 0) {
+      await revisionService.record(result as Article, changedFields, userId)
+      await this.syncSearchIndex(result as Article)
+    }
+
+    // 使公开文章缓存失效
+    await this.invalidatePublicCache(siteId)
+
+    return result as Article
+  }
+
+  /**
+   * 恢复修订版本
+   *
+   * 将修订版本的标题、描述和正文恢复为文章当前内容，并保存为新的修订版本。
+   * 修订版本与当前内容相同时不做修改。
+   * 如果提供 ifMatch，与文章当前版本（ETag）不一致时拒绝恢复。
+   *
+   * @param id - 文章ID
+   * @param revisionId - 修订版本ID
+   * @param siteId - 站点ID
+   * @param userId - 操作用户ID
+   * @param ifMatch - If-Match 请求头（可选）
+   * @returns 恢复后的文章
+   * @throws PreconditionFailedError 如果文章已被修改
+   */
+  async restoreRevision(
+    id: number,
+    revisionId: number,
+    siteId: number,
+    userId: number,
+    ifMatch?: string
+  ): Promise<Article> {
+    const existingArticle = await this.getById(id, siteId)
+
+    // 校验文章版本
+    assertIfMatch(ifMatch, existingArticle)
+
+    const revisionService = new ArticleRevisionService(this.db)
+    const revision = await revisionService.getById(id, revisionId, siteId)
+
+    const data = {
+      title: revision.title,
+      description: revision.description,
+      content: revision.content,
+      markdown: revision.markdown,
+    }
+    const changedFields = getChangedRevisionFields(existingArticle, data)
+    if (changedFields.length === 0) {
+      return existingArticle
+    }
+
+    await revisionService.ensureBaseline(existingArticle)
+
+    // 更新文章记录（携带 If-Match 时只更新未被其他请求修改的版本）
+    const [result] = await this.db
+      .update(articles)
+      .set({ ...data, update_at: nextUpdateAt(existingArticle.update_at) })
+      .where(
+        ifMatch !== undefined
+          ? and(eq(articles.id, id), eq(articles.update_at, existingArticle.update_at))
+          : eq(articles.id, id)
+      )
+      .returning()
+
+    if (!result) {
+      throw new PreconditionFailedError()
+    }
+
+    // 保存修订版本（标记恢复来源）
+    await revisionService.record(result as Article, changedFields, userId, revisionId)
+
+    // 同步搜索索引
+    await this.syncSearchIndex(result as Article)
+
+    // 使公开文章缓存失效
+    await this.invalidatePublicCache(siteId)
+
     return result as Article
   }
 
@@ -206,6 +428,9 @@ export class ArticleService {
     if (result.length === 0) {
       throw new NotFoundError('文章不存在')
     }
+
+    // 使公开文章缓存失效
+    await this.invalidatePublicCache(siteId)
   }
 
   /**
@@ -217,54 +442,59 @@ export class ArticleService {
    * - 分页：page 和 pageSize
    * - 搜索：模糊匹配文本字段（search, searchFields）
    * - 比较运算符：gt, lt, gte, lte（comparisons）
+   * - 返回字段和关联展开：fields、expand（channel、author、origin、tags）
    *
    * 自动过滤 site_id 和软删除记录。
    *
    * @param params - 查询参数
    * @param siteId - 站点ID
+   * @param tagId - 标签ID（可选，只返回关联该标签的文章）
    * @returns 分页结果
    *
    * **验证需求**: 2.5, 2.6
    */
-  async query(params: QueryParams, siteId: number): Promise<PaginatedResult<Article>> {
-    // 构建查询条件
-    const { where, orderBy, limit, offset } = buildQuery(params, {
+  async query(
+    params: QueryParams,
+    siteId: number,
+    tagId?: number
+  ): Promise<PaginatedResult<Article>> {
+    return paginatedQuery<Article>(this.db, articles, params, {
       siteId,
-      tableColumns: articles as any,
+      model: articleModel,
+      // 按标签过滤
+      where: tagId ? new TagService(this.db).articleFilter(tagId) : undefined,
     })
+  }
 
-    // 查询数据
-    let query = this.db.select().from(articles).where(where)
-
-    if (orderBy) {
-      query = query.orderBy(orderBy) as any
-    }
-
-    const data = await query.limit(limit!).offset(offset!).all()
-
-    // 查询总数
-    const countResult = await this.db.select().from(articles).where(where).all()
-
-    const total = countResult.length
-
-    // 计算分页信息
-    const page = params.page && params.page > 0 ? params.page : 1
-    const pageSize = params.pageSize && params.pageSize > 0 ? params.pageSize : 10
-    const totalPages = Math.ceil(total / pageSize)
-
-    return {
-      data: data as Article[],
-      total,
-      page,
-      pageSize,
-      totalPages,
-    }
+  /**
+   * 分面统计文章
+   *
+   * 按 channel_id、status、type 等字段分组计数，日期字段按日、月、年分组。
+   * 统计条件与 query 相同，自动过滤 site_id 和软删除记录。
+   *
+   * @param params - 查询参数（过滤、搜索）
+   * @param facets - 统计字段
+   * @param siteId - 站点ID
+   * @param tagId - 标签ID（可选，只统计关联该标签的文章）
+   * @returns 总数和各字段的分组计数
+   */
+  async facets(
+    params: QueryParams,
+    facets: FacetRequest[],
+    siteId: number,
+    tagId?: number
+  ): Promise<FacetResult> {
+    return facetQuery(this.db, articles, params, facets, {
+      siteId,
+      model: articleModel,
+      where: tagId ? new TagService(this.db).articleFilter(tagId) : undefined,
+    })
   }
 
   /**
    * 获取单个文章
    *
-   * 根据 ID 获取文章详情。
+   * 根据 ID 获取文章详情（包括待审核和审核未通过的文章）。
    * 自动过滤 site_id 和软删除记录。
    *
    * @param id - 文章ID
@@ -281,7 +511,7 @@ export class ArticleService {
         and(
           eq(articles.id, id),
           eq(articles.site_id, siteId),
-          eq(articles.status, StatusEnum.NORMAL)
+          applySoftDeleteFilter(articles.status)
         )
       )
       .get()
@@ -292,4 +522,112 @@ export class ArticleService {
 
     return article as Article
   }
+
+  /**
+   * 查询审核队列
+   *
+   * 只返回待审核（PENDING）的文章，未指定排序时按创建时间升序（先提交先审核）。
+   *
+   * @param params - 查询参数
+   * @param siteId - 站点ID
+   * @returns 分页结果
+   */
+  async queryReviewQueue(params: QueryParams, siteId: number): Promise<PaginatedResult<Article>> {
+    return this.query(
+      {
+        ...params,
+        filters: { ...params.filters, status: StatusEnum.PENDING },
+        sort: params.sort ?? 'created_at',
+        sortOrder: params.sort ? params.sortOrder : 'asc',
+      },
+      siteId
+    )
+  }
+
+  /**
+   * 执行审核操作
+   *
+   * 按文章状态机校验状态转换：
+   * - APPROVE：PENDING -> NORMAL（未到发布时间为 SCHEDULED，已到下线时间为 EXPIRED），清空驳回原因
+   * - REJECT：PENDING/SCHEDULED/NORMAL/EXPIRED -> FAILURE，记录驳回原因
+   * - RESUBMIT：FAILURE -> PENDING，清空驳回原因
+   *
+   * 只更新仍处于读取时状态的文章，避免并发审核重复转换。
+   *
+   * @param id - 文章ID
+   * @param action - 审核操作
+   * @param siteId - 站点ID
+   * @param reason - 驳回原因（REJECT 时必填）
+   * @returns 状态转换结果
+   * @throws ArticleStatusError 如果状态转换不允许或文章状态已被其他操作修改
+   */
+  async review(
+    id: number,
+    action: ArticleReviewActionEnum,
+    siteId: number,
+    reason?: string
+  ): Promise<ArticleStatusTransition> {
+    const existingArticle = await this.getById(id, siteId)
+
+    const from = existingArticle.status
+    const to =
+      action === ArticleReviewActionEnum.APPROVE
+        ? getPublishStatus(existingArticle.publish_at, existingArticle.unpublish_at, new Date())
+        : ARTICLE_REVIEW_TARGETS[action]
+    assertArticleTransition(from, to)
+
+    if (to === StatusEnum.FAILURE && !reason?.trim()) {
+      throw new ValidationError('驳回原因不能为空')
+    }
+
+    // 更新文章状态（状态已被其他请求修改时不更新）
+    const [result] = await this.db
+      .update(articles)
+      .set({
+        status: to,
+        reject_reason: to === StatusEnum.FAILURE ? reason?.trim() : '',
+        update_at: nextUpdateAt(existingArticle.update_at),
+      })
+      .where(and(eq(articles.id, id), eq(articles.site_id, siteId), eq(articles.status, from)))
+      .returning()
+
+    if (!result) {
+      throw new ArticleStatusError('文章状态已被其他操作修改，请刷新后重试')
+    }
+
+    // 使公开文章缓存失效
+    await this.invalidatePublicCache(siteId)
+
+    return { article: result as Article, from, to }
+  }
+
+  /**
+   * 同步文章的搜索索引
+   *
+   * 索引写入失败不影响文章保存（记录错误，可通过重建索引修复）。
+   *
+   * @param article - 文章
+   */
+  private async syncSearchIndex(article: Article): Promise<void> {
+    try {
+      await new ArticleSearchService(this.db).index(article)
+    } catch (error) {
+      console.error('搜索索引更新失败:', error)
+    }
+  }
+
+  /**
+   * 使公开文章缓存失效
+   *
+   * 删除公开接口的文章列表和详情缓存。未提供缓存管理器时跳过。
+   *
+   * @param siteId - 站点ID
+   */
+  private async invalidatePublicCache(siteId: number): Promise<void> {
+    if (!this.cacheManager) {
+      return
+    }
+    const prefix = this.cacheManager.generateKey('site', siteId.toString(), 'public', 'article')
+    await this.cacheManager.deleteByPrefix(prefix)
+  }
 }
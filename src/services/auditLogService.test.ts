@@ -10,7 +10,9 @@
 
 import { drizzle } from 'drizzle-orm/d1'
 import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { ValidationError } from '../errors'
 import { type CreateLogInput, LogTypeEnum, ModuleEnum } from '../types'
+import { encodeCursor } from '../utils/cursor'
 import { AuditLogService } from './auditLogService'
 
 // Mock D1 database for testing
@@ -151,6 +153,14 @@ describe('AuditLogService', () => {
   })
 
   describe('query()', () => {
+    beforeEach(() => {
+      // Mock D1 batch: run the page query, then count the rows of the count query mock
+      db.batch = async ([pageQuery, countQuery]: any[]) => [
+        await pageQuery.all(),
+        [{ total: (await countQuery.all()).length }],
+      ]
+    })
+
     it('should query all logs without filters', async () => {
       const mockLogs = [
         {
@@ -418,16 +428,9 @@ describe('AuditLogService', () => {
         },
       ]
 
-      // Mock count query
+      // Mock page query, then count query
       db.select = vi
         .fn()
-        .mockReturnValueOnce({
-          from: () => ({
-            where: () => ({
-              all: vi.fn().mockResolvedValue(Array(25).fill({ count: 1 })),
-            }),
-          }),
-        })
         .mockReturnValueOnce({
           from: () => ({
             where: () => ({
@@ -441,6 +444,13 @@ describe('AuditLogService', () => {
             }),
           }),
         })
+        .mockReturnValueOnce({
+          from: () => ({
+            where: () => ({
+              all: vi.fn().mockResolvedValue(Array(25).fill({ count: 1 })),
+            }),
+          }),
+        })
 
       const result = await service.query({ page: 2, pageSize: 10 })
 
@@ -450,6 +460,106 @@ describe('AuditLogService', () => {
       expect(result.totalPages).toBe(3)
     })
 
+    it('should skip the count query when withTotal is false', async () => {
+      const mockLogs = [3, 2, 1].map((id) => ({
+        id,
+        user_id: 1,
+        username: 'user1',
+        type: LogTypeEnum.POST,
+        module: ModuleEnum.ARTICLE,
+        content: `Log ${id}`,
+        ip: '192.168.1.1',
+        user_agent: 'Mozilla/5.0',
+        site_id: 1,
+        created_at: new Date('2024-06-15'),
+      }))
+      const limit = vi.fn(() => ({
+        offset: () => ({
+          all: vi.fn().mockResolvedValue(mockLogs),
+        }),
+      }))
+
+      db.select = vi.fn(() => ({
+        from: () => ({
+          where: () => ({
+            orderBy: () => ({ limit }),
+          }),
+        }),
+      }))
+      db.batch = vi.fn()
+
+      const result = await service.query({ page: 1, pageSize: 2, withTotal: false })
+
+      // One extra row is fetched to detect the next page
+      expect(limit).toHaveBeenCalledWith(3)
+      expect(db.select).toHaveBeenCalledTimes(1)
+      expect(db.batch).not.toHaveBeenCalled()
+      expect(result.data.map((log) => log.id)).toEqual([3, 2])
+      expect(result.total).toBeNull()
+      expect(result.totalPages).toBeNull()
+      expect(result.hasMore).toBe(true)
+      expect(result.nextCursor).toEqual(expect.any(String))
+    })
+
+    it('should support cursor pagination', async () => {
+      const mockLogs = [5, 4, 3].map((id) => ({
+        id,
+        user_id: 1,
+        username: 'user1',
+        type: LogTypeEnum.POST,
+        module: ModuleEnum.ARTICLE,
+        content: `Log ${id}`,
+        ip: '192.168.1.1',
+        user_agent: 'Mozilla/5.0',
+        site_id: 1,
+        created_at: new Date('2024-06-15'),
+      }))
+
+      db.select = () => ({
+        from: () => ({
+          where: () => ({
+            orderBy: () => ({
+              limit: () => ({
+                all: vi.fn().mockResolvedValue(mockLogs),
+              }),
+            }),
+          }),
+        }),
+      })
+
+      const result = await service.query({
+        pageSize: 2,
+        cursor: encodeCursor({
+          field: 'created_at',
+          order: 'desc',
+          value: new Date('2024-06-15').getTime(),
+          id: 6,
+          direction: 'next',
+        }),
+      })
+
+      expect(result.data.map((log) => log.id)).toEqual([5, 4])
+      expect(result.total).toBeNull()
+      expect(result.page).toBeNull()
+      expect(result.hasMore).toBe(true)
+      expect(result.nextCursor).toEqual(expect.any(String))
+      expect(result.prevCursor).toEqual(expect.any(String))
+    })
+
+    it('should reject a cursor for another sort', async () => {
+      await expect(
+        service.query({
+          cursor: encodeCursor({
+            field: 'id',
+            order: 'asc',
+            value: 1,
+            id: 1,
+            direction: 'next',
+          }),
+        })
+      ).rejects.toThrow(ValidationError)
+    })
+
     it('should combine multiple filters', async () => {
       const mockLogs = [
         {
@@ -7,7 +7,7 @@
  * **Validates Requirements**: 8.1, 8.2, 8.3, 8.4, 8.5
  */
 
-import { and, desc, eq, gte, lte } from 'drizzle-orm'
+import { and, count, eq, gte, lte, type SQL } from 'drizzle-orm'
 import type { DrizzleD1Database } from 'drizzle-orm/d1'
 import { logs } from '../db/schema'
 import {
@@ -18,7 +18,18 @@ import {
   ModuleEnum,
   type PaginatedResult,
 } from '../types'
-import { calculatePagination, DEFAULT_PAGE_SIZE, paginate } from '../utils/pagination'
+import {
+  type CursorSort,
+  cursorFromRow,
+  decodeCursor,
+  keysetCondition,
+  keysetOrderBy,
+  scanOrder,
+} from '../utils/cursor'
+import { calculatePagination, DEFAULT_PAGE_SIZE } from '../utils/pagination'
+
+// Logs are always listed newest first
+const LOG_SORT: CursorSort = { field: 'created_at', order: 'desc' }
 
 export class AuditLogService {
   constructor(private db: DrizzleD1Database) {}
@@ -60,10 +71,14 @@ export class AuditLogService {
    * Query audit logs with filtering and pagination
    *
    * Supports filtering by userId, action type, module, date range, and siteId.
-   * Results are ordered by created_at descending (newest first).
+   * Results are ordered by created_at descending (newest first), with id as tie-breaker.
+   * Passing `cursor` switches to keyset pagination (no total count); both modes
+   * return nextCursor/prevCursor. In offset mode the page and count queries run in
+   * one batch, and `withTotal: false` skips the count (total/totalPages are null).
    *
    * @param params - Query parameters with filters and pagination
    * @returns Paginated audit log results
+   * @throws ValidationError if the cursor is invalid
    *
    * **Validates Requirements**: 8.5
    */
@@ -77,6 +92,7 @@ export class AuditLogService {
       filters = {},
       page = 1,
       pageSize = DEFAULT_PAGE_SIZE,
+      cursor,
     } = params
 
     // Build WHERE conditions
@@ -114,24 +130,100 @@ export class AuditLogService {
     // Build WHERE clause
     const whereClause = conditions.length > 0 ? and(...conditions) : undefined
 
-    // Get total count
-    const countResult = await this.db.select({ count: logs.id }).from(logs).where(whereClause).all()
-
-    const totalCount = countResult.length
+    if (cursor !== undefined) {
+      return queryByCursor(this.db, whereClause, cursor, pageSize)
+    }
 
-    // Calculate pagination
-    const { offset, limit } = calculatePagination(page, pageSize, totalCount)
+    const { offset, limit } = calculatePagination(page, pageSize, 0)
+    const withTotal = params.withTotal !== false
 
-    // Query with pagination
-    const results = await this.db
+    // Without the total, fetch one extra row to detect further pages
+    const pageQuery = this.db
       .select()
       .from(logs)
       .where(whereClause)
-      .orderBy(desc(logs.created_at))
-      .limit(limit)
+      .orderBy(...keysetOrderBy(logs.created_at, logs.id, LOG_SORT.order))
+      .limit(withTotal ? limit : limit + 1)
       .offset(offset)
-      .all()
 
-    return paginate(results, page, pageSize, totalCount)
+    let results: Log[]
+    let totalCount: number | null = null
+    if (withTotal) {
+      // Page and count queries run in a single batch
+      const countQuery = this.db.select({ total: count() }).from(logs).where(whereClause)
+      const [pageRows, [countRow]] = await this.db.batch([pageQuery, countQuery])
+      results = pageRows as Log[]
+      totalCount = countRow.total
+    } else {
+      results = (await pageQuery.all()) as Log[]
+    }
+
+    const hasMore =
+      totalCount !== null ? offset + results.length < totalCount : results.length > limit
+    results = results.slice(0, limit)
+    const first = results[0]
+    const last = results[results.length - 1]
+
+    return {
+      data: results,
+      total: totalCount,
+      page: Math.max(1, page),
+      pageSize: limit,
+      totalPages: totalCount !== null ? Math.ceil(totalCount / limit) : null,
+      hasMore,
+      nextCursor: hasMore && last ? cursorFromRow(last, LOG_SORT, 'next') : null,
+      prevCursor: first && offset > 0 ? cursorFromRow(first, LOG_SORT, 'prev') : null,
+    }
+  }
+}
+
+/**
+ * Query audit logs with keyset pagination
+ *
+ * Fetches one extra row in the scan direction to detect further pages.
+ *
+ * @param db - Database instance
+ * @param whereClause - Filter conditions
+ * @param encodedCursor - Cursor from a previous response
+ * @param pageSize - Page size
+ * @returns Paginated audit log results (total, totalPages and page are null)
+ */
+async function queryByCursor(
+  db: DrizzleD1Database,
+  whereClause: SQL | undefined,
+  encodedCursor: string,
+  pageSize: number
+): Promise<PaginatedResult<Log>> {
+  const cursor = decodeCursor(encodedCursor, LOG_SORT)
+  const limit = pageSize < 1 ? DEFAULT_PAGE_SIZE : pageSize
+
+  const rows = await db
+    .select()
+    .from(logs)
+    .where(and(whereClause, keysetCondition(logs.created_at, logs.id, cursor)))
+    .orderBy(...keysetOrderBy(logs.created_at, logs.id, scanOrder(LOG_SORT, cursor.direction)))
+    .limit(limit + 1)
+    .all()
+
+  const extra = rows.length > limit
+  const data = rows.slice(0, limit)
+  if (cursor.direction === 'prev') {
+    data.reverse()
+  }
+
+  const hasMore = cursor.direction === 'next' ? extra : true
+  const hasPrev = cursor.direction === 'prev' ? extra : true
+  const first = data[0]
+  const last = data[data.length - 1]
+
+  return {
+    data: data as Log[],
+    total: null,
+    page: null,
+    pageSize: limit,
+    totalPages: null,
+    hasMore,
+    nextCursor: hasMore && last ? cursorFromRow(last, LOG_SORT, 'next') : null,
+    prevCursor: hasPrev && first ? cursorFromRow(first, LOG_SORT, 'prev') : null,
   }
 }
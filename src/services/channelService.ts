@@ -10,8 +10,9 @@
 import { and, eq } from 'drizzle-orm'
 import type { DrizzleD1Database } from 'drizzle-orm/d1'
 import { ChannelTypeEnum, channels, StatusEnum } from '../db/schema'
-import { NotFoundError, ValidationError } from '../errors'
+import { NotFoundError, PreconditionFailedError, ValidationError } from '../errors'
 import type { Channel, ChannelTree, CreateChannelInput, UpdateChannelInput } from '../types'
+import { assertIfMatch, nextUpdateAt } from '../utils/etag'
 import type { CacheManager } from './cacheManager'
 
 export class ChannelService {
@@ -68,22 +69,17 @@ export class ChannelService {
   }
 
   /**
-   * 更新频道
+   * 获取单个频道
    *
-   * 如果更新 pid，验证父频道存在。
-   * 不更新已删除的频道。
-   * 更新后使缓存失效。
+   * 只返回当前站点未删除的频道。
    *
    * @param id - 频道ID
-   * @param data - 频道更新数据
    * @param siteId - 站点ID
-   * @returns 更新后的频道
-   *
-   * **验证需求**: 3.2, 3.4
+   * @returns 频道
+   * @throws NotFoundError 如果频道不存在或已被删除
    */
-  async update(id: number, data: UpdateChannelInput, siteId: number): Promise<Channel> {
-    // 检查频道是否存在且未被删除
-    const existingChannel = await this.db
+  async getById(id: number, siteId: number): Promise<Channel> {
+    const channel = await this.db
       .select()
       .from(channels)
       .where(
@@ -95,10 +91,41 @@ export class ChannelService {
       )
       .get()
 
-    if (!existingChannel) {
+    if (!channel) {
       throw new NotFoundError('频道不存在或已被删除')
     }
 
+    return channel as Channel
+  }
+
+  /**
+   * 更新频道
+   *
+   * 如果更新 pid，验证父频道存在。
+   * 不更新已删除的频道。
+   * 更新后使缓存失效。
+   *
+   * @param id - 频道ID
+   * @param data - 频道更新数据
+   * @param siteId - 站点ID
+   * @param ifMatch - If-Match 请求头（可选，与当前版本不一致时拒绝更新）
+   * @returns 更新后的频道
+   * @throws PreconditionFailedError 如果频道已被修改
+   *
+   * **验证需求**: 3.2, 3.4
+   */
+  async update(
+    id: number,
+    data: UpdateChannelInput,
+    siteId: number,
+    ifMatch?: string
+  ): Promise<Channel> {
+    // 检查频道是否存在且未被删除
+    const existingChannel = await this.getById(id, siteId)
+
+    // 校验版本
+    assertIfMatch(ifMatch, existingChannel)
+
     // 如果更新父频道ID，验证父频道存在
     if (data.pid !== undefined && data.pid !== 0 && data.pid !== existingChannel.pid) {
       // 防止将频道设置为自己的子频道
@@ -114,7 +141,7 @@ export class ChannelService {
 
     // 准备更新数据
     const updateData: any = {
-      update_at: new Date(),
+      update_at: nextUpdateAt(existingChannel.update_at),
     }
 
     if (data.name !== undefined) updateData.name = data.name
@@ -130,9 +157,17 @@ export class ChannelService {
     const [result] = await this.db
       .update(channels)
       .set(updateData)
-      .where(eq(channels.id, id))
+      .where(
+        ifMatch !== undefined
+          ? and(eq(channels.id, id), eq(channels.update_at, existingChannel.update_at))
+          : eq(channels.id, id)
+      )
       .returning()
 
+    if (!result) {
+      throw new PreconditionFailedError()
+    }
+
     // 使缓存失效
     await this.invalidateCache(siteId)
 
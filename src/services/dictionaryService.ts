@@ -3,6 +3,7 @@
  *
  * 管理可重用的元数据条目（作者、来源、标签、友情链接）。
  * 实现字典条目的创建、更新、软删除和按类型查询功能。
+ * 字典变更后使公开接口的字典缓存失效（缓存键前缀：site:{siteId}:public:dicts）。
  *
  * **验证需求**: 6.1, 6.2, 6.3, 6.4, 6.5, 6.6
  */
@@ -10,11 +11,16 @@
 import { and, eq } from 'drizzle-orm'
 import type { DrizzleD1Database } from 'drizzle-orm/d1'
 import { type DictTypeEnum, dicts, StatusEnum } from '../db/schema'
-import { NotFoundError } from '../errors'
+import { NotFoundError, PreconditionFailedError } from '../errors'
 import type { CreateDictInput, Dict, UpdateDictInput } from '../types'
+import { assertIfMatch, nextUpdateAt } from '../utils/etag'
+import type { CacheManager } from './cacheManager'
 
 export class DictionaryService {
-  constructor(private db: DrizzleD1Database) {}
+  constructor(
+    private db: DrizzleD1Database,
+    private cacheManager?: CacheManager
+  ) {}
 
   /**
    * 创建字典条目
@@ -45,9 +51,36 @@ export class DictionaryService {
       })
       .returning()
 
+    // 使公开字典缓存失效
+    await this.invalidatePublicCache(siteId)
+
     return result as Dict
   }
 
+  /**
+   * 获取单个字典条目
+   *
+   * 只返回当前站点未删除的字典条目。
+   *
+   * @param id - 字典条目ID
+   * @param siteId - 站点ID
+   * @returns 字典条目
+   * @throws NotFoundError 如果字典条目不存在或已被删除
+   */
+  async getById(id: number, siteId: number): Promise<Dict> {
+    const dict = await this.db
+      .select()
+      .from(dicts)
+      .where(and(eq(dicts.id, id), eq(dicts.site_id, siteId), eq(dicts.status, StatusEnum.NORMAL)))
+      .get()
+
+    if (!dict) {
+      throw new NotFoundError('字典条目不存在或已被删除')
+    }
+
+    return dict as Dict
+  }
+
   /**
    * 更新字典条目
    *
@@ -57,25 +90,22 @@ export class DictionaryService {
    * @param id - 字典条目ID
    * @param data - 字典条目更新数据
    * @param siteId - 站点ID
+   * @param ifMatch - If-Match 请求头（可选，与当前版本不一致时拒绝更新）
    * @returns 更新后的字典条目
+   * @throws PreconditionFailedError 如果字典条目已被修改
    *
    * **验证需求**: 6.3
    */
-  async update(id: number, data: UpdateDictInput, siteId: number): Promise<Dict> {
+  async update(id: number, data: UpdateDictInput, siteId: number, ifMatch?: string): Promise<Dict> {
     // 检查字典条目是否存在且未被删除
-    const existingDict = await this.db
-      .select()
-      .from(dicts)
-      .where(and(eq(dicts.id, id), eq(dicts.site_id, siteId), eq(dicts.status, StatusEnum.NORMAL)))
-      .get()
+    const existingDict = await this.getById(id, siteId)
 
-    if (!existingDict) {
-      throw new NotFoundError('字典条目不存在或已被删除')
-    }
+    // 校验版本
+    assertIfMatch(ifMatch, existingDict)
 
     // 准备更新数据
     const updateData: any = {
-      update_at: new Date(),
+      update_at: nextUpdateAt(existingDict.update_at),
     }
 
     if (data.name !== undefined) updateData.name = data.name
@@ -85,7 +115,22 @@ export class DictionaryService {
     if (data.status !== undefined) updateData.status = data.status
 
     // 更新字典条目记录
-    const [result] = await this.db.update(dicts).set(updateData).where(eq(dicts.id, id)).returning()
+    const [result] = await this.db
+      .update(dicts)
+      .set(updateData)
+      .where(
+        ifMatch !== undefined
+          ? and(eq(dicts.id, id), eq(dicts.update_at, existingDict.update_at))
+          : eq(dicts.id, id)
+      )
+      .returning()
+
+    if (!result) {
+      throw new PreconditionFailedError()
+    }
+
+    // 使公开字典缓存失效
+    await this.invalidatePublicCache(siteId)
 
     return result as Dict
   }
@@ -115,6 +160,9 @@ export class DictionaryService {
     if (result.length === 0) {
       throw new NotFoundError('字典条目不存在')
     }
+
+    // 使公开字典缓存失效
+    await this.invalidatePublicCache(siteId)
   }
 
   /**
@@ -141,4 +189,23 @@ export class DictionaryService {
 
     return results as Dict[]
   }
+
+  /**
+   * 使公开字典缓存失效
+   *
+   * 同时删除公开标签统计缓存（site:{siteId}:public:article:tags）。
+   * 未提供缓存管理器时跳过。
+   *
+   * @param siteId - 站点ID
+   */
+  private async invalidatePublicCache(siteId: number): Promise<void> {
+    if (!this.cacheManager) {
+      return
+    }
+    const prefix = this.cacheManager.generateKey('site', siteId.toString(), 'public', 'dicts')
+    await this.cacheManager.deleteByPrefix(prefix)
+    await this.cacheManager.delete(
+      this.cacheManager.generateKey('site', siteId.toString(), 'public', 'article', 'tags')
+    )
+  }
 }
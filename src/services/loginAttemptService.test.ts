@@ -0,0 +1,290 @@
+/**
+ * 登录尝试服务测试（账户锁定、指数退避、IP 限制、解锁和审计日志）
+ */
+
+import Database from 'better-sqlite3'
+import { eq } from 'drizzle-orm'
+import { drizzle } from 'drizzle-orm/better-sqlite3'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { loginAttempts, logs, sites, users } from '../db/schema'
+import { AccountLockedError, AuthenticationError, NotFoundError, RateLimitError } from '../errors'
+import { type LoginClient, LoginMethodEnum, LogTypeEnum, StatusEnum, UserTypeEnum } from '../types'
+import { hashPassword } from '../utils/password'
+import {
+  getLockoutSeconds,
+  IP_FAILURE_LIMIT,
+  IP_FAILURE_WINDOW,
+  LOCKOUT_BASE_SECONDS,
+  LOCKOUT_MAX_SECONDS,
+  LOCKOUT_THRESHOLD,
+  LoginAttemptService,
+} from './loginAttemptService'
+import { UserService } from './userService'
+
+const SECRET = 'test-secret-key-for-jwt'
+const CLIENT: LoginClient = { ip: '203.0.113.7', user_agent: 'vitest' }
+
+describe('LoginAttemptService', () => {
+  let db: ReturnType<typeof drizzle>
+  let loginAttemptService: LoginAttemptService
+  let userService: UserService
+  let alice: typeof users.$inferSelect
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2024-03-01T08:00:00Z'))
+
+    const sqlite = new Database(':memory:')
+    // better-sqlite3 驱动没有 batch，按顺序执行模拟 D1 batch
+    const local = drizzle(sqlite) as any
+    local.batch = (queries: any[]) => Promise.all(queries)
+    db = local
+
+    sqlite.exec(`
+      CREATE TABLE sites (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        title TEXT DEFAULT '',
+        logo TEXT DEFAULT '',
+        keywords TEXT DEFAULT '',
+        description TEXT DEFAULT '',
+        copyright TEXT DEFAULT '',
+        max_revisions INTEGER DEFAULT 50,
+        mail_sender_name TEXT DEFAULT '',
+        require_2fa INTEGER DEFAULT 0,
+        status TEXT DEFAULT 'PENDING',
+        created_at INTEGER NOT NULL,
+        update_at INTEGER NOT NULL
+      );
+      CREATE TABLE users (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        username TEXT NOT NULL,
+        password TEXT NOT NULL,
+        nickname TEXT NOT NULL,
+        avatar TEXT DEFAULT '',
+        email TEXT DEFAULT '',
+        email_verified_at INTEGER,
+        phone TEXT DEFAULT '',
+        gender TEXT DEFAULT 'UNKNOWN',
+        type TEXT NOT NULL,
+        site_id INTEGER,
+        status TEXT DEFAULT 'PENDING',
+        last_login_time INTEGER,
+        failed_login_count INTEGER DEFAULT 0,
+        locked_until INTEGER,
+        evm_address TEXT DEFAULT '',
+        created_at INTEGER NOT NULL,
+        update_at INTEGER NOT NULL
+      );
+      CREATE TABLE user_totp (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL UNIQUE,
+        secret TEXT NOT NULL,
+        enabled_at INTEGER,
+        last_used_step INTEGER DEFAULT 0,
+        created_at INTEGER NOT NULL,
+        update_at INTEGER NOT NULL
+      );
+      CREATE TABLE refresh_tokens (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        token_hash TEXT NOT NULL UNIQUE,
+        family TEXT NOT NULL,
+        access_jti TEXT NOT NULL,
+        access_expires_at INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL,
+        revoked_at INTEGER,
+        created_at INTEGER NOT NULL
+      );
+      CREATE TABLE login_attempts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER,
+        username TEXT DEFAULT '',
+        method TEXT NOT NULL,
+        success INTEGER NOT NULL,
+        reason TEXT DEFAULT '',
+        ip TEXT DEFAULT '',
+        user_agent TEXT DEFAULT '',
+        site_id INTEGER,
+        created_at INTEGER NOT NULL
+      );
+      CREATE TABLE logs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER,
+        username TEXT DEFAULT '',
+        type TEXT NOT NULL,
+        module TEXT NOT NULL,
+        content TEXT NOT NULL,
+        ip TEXT DEFAULT '',
+        user_agent TEXT DEFAULT '',
+        site_id INTEGER,
+        created_at INTEGER NOT NULL
+      );
+    `)
+
+    const now = new Date()
+    db.insert(sites).values({ name: 'demo', created_at: now, update_at: now }).run()
+    alice = db
+      .insert(users)
+      .values({
+        username: 'alice',
+        password: await hashPassword('alice-hash'),
+        nickname: 'Alice',
+        type: UserTypeEnum.USER,
+        site_id: 1,
+        status: StatusEnum.NORMAL,
+        created_at: now,
+        update_at: now,
+      })
+      .returning()
+      .get()
+
+    loginAttemptService = new LoginAttemptService(db as any)
+    userService = new UserService(db as any, SECRET)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  // 连续输错密码
+  async function failLogins(times: number): Promise<void> {
+    for (let i = 0; i < times; i++) {
+      await expect(userService.login('alice', 'wrong-hash', 1, CLIENT)).rejects.toThrow(
+        AuthenticationError
+      )
+    }
+  }
+
+  function getUser() {
+    return db.select().from(users).where(eq(users.id, alice.id)).get()
+  }
+
+  describe('getLockoutSeconds', () => {
+    it('should back off exponentially up to the maximum', () => {
+      expect(getLockoutSeconds(LOCKOUT_THRESHOLD - 1)).toBe(0)
+      expect(getLockoutSeconds(LOCKOUT_THRESHOLD)).toBe(LOCKOUT_BASE_SECONDS)
+      expect(getLockoutSeconds(LOCKOUT_THRESHOLD + 1)).toBe(LOCKOUT_BASE_SECONDS * 2)
+      expect(getLockoutSeconds(LOCKOUT_THRESHOLD + 2)).toBe(LOCKOUT_BASE_SECONDS * 4)
+      expect(getLockoutSeconds(LOCKOUT_THRESHOLD + 20)).toBe(LOCKOUT_MAX_SECONDS)
+    })
+  })
+
+  describe('account lockout', () => {
+    it('should lock the account after repeated failures', async () => {
+      await failLogins(LOCKOUT_THRESHOLD)
+
+      expect(getUser()?.failed_login_count).toBe(LOCKOUT_THRESHOLD)
+
+      // 锁定期间即使密码正确也拒绝登录
+      const error = await userService.login('alice', 'alice-hash', 1, CLIENT).catch((e) => e)
+      expect(error).toBeInstanceOf(AccountLockedError)
+      expect(error.retryAfter).toBe(LOCKOUT_BASE_SECONDS)
+      // 锁定期间的尝试不增加失败次数
+      expect(getUser()?.failed_login_count).toBe(LOCKOUT_THRESHOLD)
+
+      vi.setSystemTime(Date.now() + (LOCKOUT_BASE_SECONDS + 1) * 1000)
+
+      const result = await userService.login('alice', 'alice-hash', 1, CLIENT)
+      expect(result).toHaveProperty('token')
+      expect(getUser()).toMatchObject({ failed_login_count: 0, locked_until: null })
+    })
+
+    it('should not reveal the lock to a wrong password', async () => {
+      await failLogins(LOCKOUT_THRESHOLD)
+      const lockedUntil = getUser()?.locked_until
+
+      // 密码错误时与用户不存在返回相同的错误，且不延长锁定时间
+      await failLogins(1)
+
+      expect(getUser()).toMatchObject({
+        failed_login_count: LOCKOUT_THRESHOLD,
+        locked_until: lockedUntil,
+      })
+    })
+
+    it('should double the lockout on each failure after the threshold', async () => {
+      await failLogins(LOCKOUT_THRESHOLD)
+      vi.setSystemTime(Date.now() + (LOCKOUT_BASE_SECONDS + 1) * 1000)
+
+      await failLogins(1)
+
+      expect(getUser()?.locked_until?.getTime()).toBe(Date.now() + LOCKOUT_BASE_SECONDS * 2 * 1000)
+    })
+
+    it('should unlock the account', async () => {
+      await failLogins(LOCKOUT_THRESHOLD)
+
+      await expect(loginAttemptService.unlock(alice.id, 2)).rejects.toThrow(NotFoundError)
+      await loginAttemptService.unlock(alice.id, 1)
+
+      expect(getUser()).toMatchObject({ failed_login_count: 0, locked_until: null })
+      expect(await userService.login('alice', 'alice-hash', 1, CLIENT)).toHaveProperty('token')
+    })
+  })
+
+  describe('IP limit', () => {
+    it('should reject an IP after too many failures within the window', async () => {
+      for (let i = 0; i < IP_FAILURE_LIMIT; i++) {
+        await loginAttemptService.recordFailure({
+          username: `guess-${i}`,
+          siteId: 1,
+          method: LoginMethodEnum.PASSWORD,
+          reason: '用户不存在',
+          client: CLIENT,
+        })
+      }
+
+      const error = await userService.login('alice', 'alice-hash', 1, CLIENT).catch((e) => e)
+      expect(error).toBeInstanceOf(RateLimitError)
+      expect(error.retryAfter).toBe(IP_FAILURE_WINDOW)
+
+      // 其他 IP 不受影响，未知用户不计入账户失败次数
+      await expect(
+        userService.login('alice', 'alice-hash', 1, { ip: '198.51.100.1', user_agent: '' })
+      ).resolves.toHaveProperty('token')
+
+      vi.setSystemTime(Date.now() + (IP_FAILURE_WINDOW + 1) * 1000)
+      await expect(loginAttemptService.assertIpAllowed(CLIENT.ip)).resolves.toBeUndefined()
+    })
+  })
+
+  describe('records', () => {
+    it('should record attempts and audit logs for success and failure', async () => {
+      await failLogins(1)
+      await userService.login('alice', 'alice-hash', 1, CLIENT)
+
+      const attempts = db.select().from(loginAttempts).all()
+      expect(attempts).toHaveLength(2)
+      expect(attempts[0]).toMatchObject({
+        user_id: alice.id,
+        method: LoginMethodEnum.PASSWORD,
+        success: 0,
+        reason: '密码错误',
+        ip: CLIENT.ip,
+        user_agent: CLIENT.user_agent,
+      })
+      expect(attempts[1]).toMatchObject({ success: 1, reason: '' })
+
+      const auditLogs = db.select().from(logs).all()
+      expect(auditLogs.map((log) => log.type)).toEqual([
+        LogTypeEnum.LOGIN_FAILED,
+        LogTypeEnum.LOGIN,
+      ])
+      expect(auditLogs[0]).toMatchObject({ user_id: alice.id, site_id: 1, ip: CLIENT.ip })
+      expect(auditLogs[0].content).toContain('密码错误')
+
+      const page = await loginAttemptService.query(alice.id, 1, { page: 1, pageSize: 10 })
+      expect(page.data.map((attempt) => attempt.success)).toEqual([1, 0])
+    })
+
+    it('should purge attempts older than the retention period', async () => {
+      await failLogins(1)
+      vi.setSystemTime(Date.now() + 91 * 24 * 60 * 60 * 1000)
+      await userService.login('alice', 'alice-hash', 1, CLIENT)
+
+      expect(await loginAttemptService.purgeExpired(new Date())).toEqual({ loginAttempts: 1 })
+      expect(db.select().from(loginAttempts).all()).toHaveLength(1)
+    })
+  })
+})
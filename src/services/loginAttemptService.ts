@@ -0,0 +1,350 @@
+/**
+ * Login Attempt Service
+ *
+ * 登录尝试记录和账户锁定：
+ * - 每次登录尝试（成功或失败）写入 login_attempts，同时写入审计日志（LOGIN / LOGIN_FAILED）
+ * - 按用户统计连续失败次数，达到阈值后临时锁定账户，锁定时长按指数退避递增，登录成功或管理员解锁后清零
+ * - 按 IP 统计时间窗口内的失败次数，超过上限时拒绝该 IP 的登录请求
+ *
+ * 审计日志写入失败不影响登录流程。
+ */
+
+import { and, count, eq, gte, lt, min, sql } from 'drizzle-orm'
+import type { DrizzleD1Database } from 'drizzle-orm/d1'
+import { loginAttempts, StatusEnum, users } from '../db/schema'
+import { AccountLockedError, NotFoundError, RateLimitError } from '../errors'
+import {
+  type LoginAttempt,
+  type LoginClient,
+  type LoginMethodEnum,
+  LogTypeEnum,
+  ModuleEnum,
+  type PaginatedResult,
+  type QueryParams,
+  type User,
+} from '../types'
+import { paginatedQuery } from '../utils/paginatedQuery'
+import { AuditLogService } from './auditLogService'
+
+// 连续失败多少次后锁定账户
+export const LOCKOUT_THRESHOLD = 5
+
+// 首次锁定时长（秒），之后每多失败一次翻倍
+export const LOCKOUT_BASE_SECONDS = 60
+
+// 最长锁定时长（秒）
+export const LOCKOUT_MAX_SECONDS = 60 * 60
+
+// 单个 IP 在时间窗口内允许的失败次数
+export const IP_FAILURE_LIMIT = 20
+
+// IP 失败次数统计窗口（秒）
+export const IP_FAILURE_WINDOW = 15 * 60
+
+// 登录尝试记录保留天数（超过后由定时任务清理）
+export const LOGIN_ATTEMPT_RETENTION_DAYS = 90
+
+type UserRecord = typeof users.$inferSelect
+
+// 登录尝试信息
+export interface LoginAttemptInput {
+  user?: User | UserRecord // 已识别的用户（用户不存在时为空）
+  username: string // 提交的用户名（钱包登录为钱包地址）
+  siteId: number | null
+  method: LoginMethodEnum
+  reason: string // 失败原因
+  client: LoginClient
+}
+
+/**
+ * 计算连续失败后的锁定时长
+ *
+ * 达到阈值时锁定 LOCKOUT_BASE_SECONDS，之后每多失败一次翻倍，最长 LOCKOUT_MAX_SECONDS。
+ *
+ * @param failedCount - 连续失败次数
+ * @returns 锁定秒数（未达到阈值时为 0）
+ *
+ * @example
+ * getLockoutSeconds(4) // 0
+ * getLockoutSeconds(5) // 60
+ * getLockoutSeconds(7) // 240
+ */
+export function getLockoutSeconds(failedCount: number): number {
+  if (failedCount < LOCKOUT_THRESHOLD) {
+    return 0
+  }
+  return Math.min(
+    LOCKOUT_BASE_SECONDS * 2 ** (failedCount - LOCKOUT_THRESHOLD),
+    LOCKOUT_MAX_SECONDS
+  )
+}
+
+/**
+ * 计算账户剩余的锁定秒数
+ *
+ * @param user - 用户
+ * @returns 剩余锁定秒数（未锁定时为 0）
+ */
+function getRemainingLockSeconds(user: User | UserRecord): number {
+  const lockedUntil = user.locked_until ? new Date(user.locked_until).getTime() : 0
+  const remaining = lockedUntil - Date.now()
+  return remaining > 0 ? Math.ceil(remaining / 1000) : 0
+}
+
+export class LoginAttemptService {
+  private auditLogService: AuditLogService
+
+  constructor(private db: DrizzleD1Database) {
+    this.auditLogService = new AuditLogService(db)
+  }
+
+  /**
+   * 检查 IP 是否允许继续尝试登录
+   *
+   * @param ip - 客户端 IP（为空时不检查）
+   * @throws RateLimitError 如果时间窗口内失败次数达到上限
+   */
+  async assertIpAllowed(ip: string): Promise<void> {
+    if (!ip) {
+      return
+    }
+
+    const now = Date.now()
+    const windowStart = new Date(now - IP_FAILURE_WINDOW * 1000)
+    const stats = await this.db
+      .select({ total: count(), oldest: min(loginAttempts.created_at) })
+      .from(loginAttempts)
+      .where(
+        and(
+          eq(loginAttempts.ip, ip),
+          eq(loginAttempts.success, 0),
+          gte(loginAttempts.created_at, windowStart)
+        )
+      )
+      .get()
+
+    if (!stats || stats.total < IP_FAILURE_LIMIT) {
+      return
+    }
+
+    // 最早的失败记录移出窗口后才能再次尝试
+    const oldest = stats.oldest ? new Date(stats.oldest).getTime() : now
+    const retryAfter = Math.max(1, Math.ceil((oldest + IP_FAILURE_WINDOW * 1000 - now) / 1000))
+    throw new RateLimitError(`登录失败次数过多，请 ${retryAfter} 秒后重试`, retryAfter)
+  }
+
+  /**
+   * 检查账户是否处于锁定状态
+   *
+   * 只应在身份验证通过（如密码正确）后调用，避免向未通过验证的请求暴露锁定状态。
+   * 锁定期间的尝试会被记录，但不增加失败次数（不延长锁定时间）。
+   *
+   * @param user - 用户
+   * @param method - 登录方式
+   * @param client - 客户端信息
+   * @throws AccountLockedError 如果账户处于锁定状态
+   */
+  async assertNotLocked(
+    user: User | UserRecord,
+    method: LoginMethodEnum,
+    client: LoginClient
+  ): Promise<void> {
+    const retryAfter = getRemainingLockSeconds(user)
+    if (retryAfter === 0) {
+      return
+    }
+
+    await this.recordAttempt(
+      {
+        user,
+        username: user.username,
+        siteId: user.site_id,
+        method,
+        reason: '账户已锁定',
+        client,
+      },
+      false
+    )
+
+    throw new AccountLockedError(
+      `登录失败次数过多，账户已临时锁定，请 ${retryAfter} 秒后重试`,
+      retryAfter
+    )
+  }
+
+  /**
+   * 记录登录成功
+   *
+   * 清零连续失败次数并解除锁定。
+   *
+   * @param user - 用户
+   * @param method - 登录方式
+   * @param client - 客户端信息
+   */
+  async recordSuccess(
+    user: User | UserRecord,
+    method: LoginMethodEnum,
+    client: LoginClient
+  ): Promise<void> {
+    if (user.failed_login_count || user.locked_until) {
+      await this.db
+        .update(users)
+        .set({ failed_login_count: 0, locked_until: null })
+        .where(eq(users.id, user.id))
+        .run()
+    }
+
+    await this.recordAttempt(
+      { user, username: user.username, siteId: user.site_id, method, reason: '', client },
+      true
+    )
+  }
+
+  /**
+   * 记录登录失败
+   *
+   * 已识别用户时增加连续失败次数，达到阈值后按指数退避锁定账户。
+   * 账户处于锁定状态时只记录尝试，不增加失败次数（不延长锁定时间）。
+   *
+   * @param failure - 尝试信息（reason 为失败原因）
+   * @returns 本次失败后的锁定秒数（未锁定时为 0）
+   */
+  async recordFailure(failure: LoginAttemptInput): Promise<number> {
+    const lockedSeconds = failure.user ? getRemainingLockSeconds(failure.user) : 0
+    if (lockedSeconds > 0) {
+      await this.recordAttempt({ ...failure, reason: `${failure.reason}（账户已锁定）` }, false)
+      return lockedSeconds
+    }
+
+    await this.recordAttempt(failure, false)
+
+    if (!failure.user) {
+      return 0
+    }
+
+    const [updated] = await this.db
+      .update(users)
+      .set({ failed_login_count: sql`coalesce(${users.failed_login_count}, 0) + 1` })
+      .where(eq(users.id, failure.user.id))
+      .returning({ failed_login_count: users.failed_login_count })
+
+    const lockSeconds = getLockoutSeconds(updated?.failed_login_count ?? 0)
+    if (lockSeconds > 0) {
+      await this.db
+        .update(users)
+        .set({ locked_until: new Date(Date.now() + lockSeconds * 1000) })
+        .where(eq(users.id, failure.user.id))
+        .run()
+    }
+
+    return lockSeconds
+  }
+
+  /**
+   * 解除账户锁定（清零连续失败次数）
+   *
+   * @param userId - 用户ID
+   * @param siteId - 站点ID
+   * @throws NotFoundError 如果用户不存在
+   */
+  async unlock(userId: number, siteId: number): Promise<void> {
+    const user = await this.db
+      .select({ id: users.id })
+      .from(users)
+      .where(
+        and(eq(users.id, userId), eq(users.site_id, siteId), eq(users.status, StatusEnum.NORMAL))
+      )
+      .get()
+
+    if (!user) {
+      throw new NotFoundError('用户不存在')
+    }
+
+    await this.db
+      .update(users)
+      .set({ failed_login_count: 0, locked_until: null })
+      .where(eq(users.id, userId))
+      .run()
+  }
+
+  /**
+   * 查询用户的登录尝试记录（默认最新的在前）
+   *
+   * @param userId - 用户ID
+   * @param siteId - 站点ID
+   * @param params - 分页参数
+   * @returns 分页的登录尝试记录
+   */
+  async query(
+    userId: number,
+    siteId: number,
+    params: QueryParams
+  ): Promise<PaginatedResult<LoginAttempt>> {
+    return paginatedQuery<LoginAttempt>(this.db, loginAttempts, params, {
+      siteId,
+      hasStatus: false,
+      where: eq(loginAttempts.user_id, userId),
+    })
+  }
+
+  /**
+   * 清理超过保留期的登录尝试记录（由定时任务调用）
+   *
+   * @param now - 当前时间
+   * @param retentionDays - 保留天数
+   * @returns 清理的记录数
+   */
+  async purgeExpired(
+    now: Date,
+    retentionDays: number = LOGIN_ATTEMPT_RETENTION_DAYS
+  ): Promise<{ loginAttempts: number }> {
+    const cutoff = new Date(now.getTime() - retentionDays * 24 * 60 * 60 * 1000)
+    const expired = await this.db
+      .delete(loginAttempts)
+      .where(lt(loginAttempts.created_at, cutoff))
+      .returning({ id: loginAttempts.id })
+
+    return { loginAttempts: expired.length }
+  }
+
+  /**
+   * 写入登录尝试记录和审计日志
+   *
+   * @param attempt - 尝试信息
+   * @param success - 是否成功
+   */
+  private async recordAttempt(attempt: LoginAttemptInput, success: boolean): Promise<void> {
+    const { user, username, siteId, method, reason, client } = attempt
+
+    await this.db
+      .insert(loginAttempts)
+      .values({
+        user_id: user?.id ?? null,
+        username,
+        method,
+        success: success ? 1 : 0,
+        reason,
+        ip: client.ip,
+        user_agent: client.user_agent,
+        site_id: siteId,
+        created_at: new Date(),
+      })
+      .run()
+
+    try {
+      await this.auditLogService.log({
+        user_id: user?.id,
+        username,
+        type: success ? LogTypeEnum.LOGIN : LogTypeEnum.LOGIN_FAILED,
+        module: ModuleEnum.USER,
+        content: success ? `登录成功（${method}）` : `登录失败（${method}）：${reason}`,
+        ip: client.ip,
+        user_agent: client.user_agent,
+        site_id: siteId ?? undefined,
+      })
+    } catch (error) {
+      // 审计日志写入失败不影响登录
+      console.error('登录审计日志记录失败:', error)
+    }
+  }
+}
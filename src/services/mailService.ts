@@ -0,0 +1,184 @@
+/**
+ * Mail Service
+ *
+ * 发送账户邮件（重置密码、验证邮箱）并管理站点的邮件模板。
+ * 站点可以自定义每种邮件的主题和正文，未自定义时使用默认模板；
+ * 发件人名称为站点设置中的 mail_sender_name，为空时使用站点标题或名称。
+ *
+ * 模板正文为纯文本，支持以下占位符：
+ * - {{site}}：发件站点名称
+ * - {{username}}：用户名
+ * - {{token}}：一次性令牌（自定义模板可用于拼接前端链接，如 https://example.com/reset?token={{token}}）
+ * - {{expiresInMinutes}}：令牌有效期（分钟）
+ */
+
+import { and, eq } from 'drizzle-orm'
+import type { DrizzleD1Database } from 'drizzle-orm/d1'
+import { mailTemplates, sites } from '../db/schema'
+import { NotFoundError } from '../errors'
+import { type MailTemplate, type UpdateMailTemplateInput, UserTokenTypeEnum } from '../types'
+import type { MailTransport } from './mailTransport'
+
+// 未配置 MAIL_FROM 时的发件地址
+export const DEFAULT_MAIL_FROM = 'no-reply@localhost'
+
+// 默认邮件模板
+export const DEFAULT_MAIL_TEMPLATES: Record<UserTokenTypeEnum, { subject: string; body: string }> =
+  {
+    [UserTokenTypeEnum.PASSWORD_RESET]: {
+      subject: '【{{site}}】重置密码',
+      body: '{{username}}，你好：\n\n我们收到了重置密码的请求，重置令牌为：\n\n{{token}}\n\n令牌 {{expiresInMinutes}} 分钟内有效，只能使用一次。如果不是你本人操作，请忽略这封邮件。',
+    },
+    [UserTokenTypeEnum.EMAIL_VERIFICATION]: {
+      subject: '【{{site}}】验证邮箱',
+      body: '{{username}}，你好：\n\n请使用以下令牌验证你的邮箱：\n\n{{token}}\n\n令牌 {{expiresInMinutes}} 分钟内有效，只能使用一次。',
+    },
+  }
+
+/**
+ * 渲染模板（替换 {{变量}} 占位符，未提供的变量保持原样）
+ *
+ * @param template - 模板文本
+ * @param variables - 变量
+ * @returns 渲染后的文本
+ */
+export function renderMailTemplate(
+  template: string,
+  variables: Record<string, string | number>
+): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+    name in variables ? String(variables[name]) : placeholder
+  )
+}
+
+/**
+ * 判断是否为有效的邮件类型
+ *
+ * @param type - 邮件类型
+ * @returns 是否有效
+ */
+export function isMailTemplateType(type: string): type is UserTokenTypeEnum {
+  return Object.values(UserTokenTypeEnum).includes(type as UserTokenTypeEnum)
+}
+
+export class MailService {
+  constructor(
+    private db: DrizzleD1Database,
+    private transport: MailTransport,
+    private fromEmail: string = DEFAULT_MAIL_FROM
+  ) {}
+
+  /**
+   * 使用站点模板发送邮件
+   *
+   * @param siteId - 站点ID
+   * @param type - 邮件类型
+   * @param to - 收件人邮箱
+   * @param variables - 模板变量（site 由站点信息自动填充）
+   */
+  async send(
+    siteId: number,
+    type: UserTokenTypeEnum,
+    to: string,
+    variables: Record<string, string | number>
+  ): Promise<void> {
+    const site = await this.db.select().from(sites).where(eq(sites.id, siteId)).get()
+    const siteName = site?.title || site?.name || ''
+    const template = await this.getTemplate(siteId, type)
+    const data = { site: siteName, ...variables }
+
+    await this.transport.send({
+      from: { email: this.fromEmail, name: site?.mail_sender_name || siteName },
+      to,
+      subject: renderMailTemplate(template.subject, data),
+      text: renderMailTemplate(template.body, data),
+    })
+  }
+
+  /**
+   * 获取站点的邮件模板
+   *
+   * @param siteId - 站点ID
+   * @param type - 邮件类型
+   * @returns 自定义模板，未自定义时返回默认模板
+   */
+  async getTemplate(siteId: number, type: UserTokenTypeEnum): Promise<MailTemplate> {
+    const template = await this.db
+      .select()
+      .from(mailTemplates)
+      .where(and(eq(mailTemplates.site_id, siteId), eq(mailTemplates.type, type)))
+      .get()
+
+    if (!template) {
+      return { type, ...DEFAULT_MAIL_TEMPLATES[type], is_default: true }
+    }
+
+    return { type, subject: template.subject, body: template.body, is_default: false }
+  }
+
+  /**
+   * 查询站点的全部邮件模板
+   *
+   * @param siteId - 站点ID
+   * @returns 每种邮件类型的模板
+   */
+  async listTemplates(siteId: number): Promise<MailTemplate[]> {
+    const templates: MailTemplate[] = []
+    for (const type of Object.values(UserTokenTypeEnum)) {
+      templates.push(await this.getTemplate(siteId, type))
+    }
+    return templates
+  }
+
+  /**
+   * 自定义站点的邮件模板
+   *
+   * @param siteId - 站点ID
+   * @param type - 邮件类型
+   * @param data - 主题和正文
+   * @returns 更新后的模板
+   */
+  async updateTemplate(
+    siteId: number,
+    type: UserTokenTypeEnum,
+    data: UpdateMailTemplateInput
+  ): Promise<MailTemplate> {
+    const now = new Date()
+
+    await this.db
+      .insert(mailTemplates)
+      .values({
+        site_id: siteId,
+        type,
+        subject: data.subject,
+        body: data.body,
+        created_at: now,
+        update_at: now,
+      })
+      .onConflictDoUpdate({
+        target: [mailTemplates.site_id, mailTemplates.type],
+        set: { subject: data.subject, body: data.body, update_at: now },
+      })
+      .run()
+
+    return { type, subject: data.subject, body: data.body, is_default: false }
+  }
+
+  /**
+   * 恢复默认邮件模板
+   *
+   * @param siteId - 站点ID
+   * @param type - 邮件类型
+   * @throws NotFoundError 如果站点没有自定义该模板
+   */
+  async resetTemplate(siteId: number, type: UserTokenTypeEnum): Promise<void> {
+    const result = await this.db
+      .delete(mailTemplates)
+      .where(and(eq(mailTemplates.site_id, siteId), eq(mailTemplates.type, type)))
+      .returning()
+
+    if (result.length === 0) {
+      throw new NotFoundError('未自定义该邮件模板')
+    }
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * 邮件发送通道测试
+ */
+
+import { describe, expect, it, vi } from 'vitest'
+import {
+  createMailTransport,
+  formatMailAddress,
+  HttpMailTransport,
+  type MailMessage,
+  MemoryMailTransport,
+  UnconfiguredMailTransport,
+} from './mailTransport'
+
+const message: MailMessage = {
+  from: { email: 'no-reply@example.com', name: '示例站点' },
+  to: 'alice@example.com',
+  subject: '重置密码',
+  text: '令牌：abc',
+}
+
+describe('formatMailAddress', () => {
+  it('should include the sender name when present', () => {
+    expect(formatMailAddress({ email: 'a@example.com' })).toBe('a@example.com')
+    expect(formatMailAddress({ email: 'a@example.com', name: '站点' })).toBe('站点 <a@example.com>')
+    expect(formatMailAddress({ email: 'a@example.com', name: '"<站点>"' })).toBe(
+      '站点 <a@example.com>'
+    )
+  })
+})
+
+describe('HttpMailTransport', () => {
+  it('should post the message to the provider API', async () => {
+    const fetcher = vi.fn(async () => new Response('{"id":"1"}', { status: 200 }))
+    const transport = new HttpMailTransport('https://mail.example.com/emails', 'key', fetcher)
+
+    await transport.send(message)
+
+    expect(fetcher).toHaveBeenCalledTimes(1)
+    const [url, init] = fetcher.mock.calls[0] as unknown as [string, RequestInit]
+    expect(url).toBe('https://mail.example.com/emails')
+    expect(init.method).toBe('POST')
+    expect((init.headers as Record<string, string>).Authorization).toBe('Bearer key')
+    expect(JSON.parse(init.body as string)).toEqual({
+      from: '示例站点 <no-reply@example.com>',
+      to: ['alice@example.com'],
+      subject: '重置密码',
+      text: '令牌：abc',
+    })
+  })
+
+  it('should throw when the provider rejects the message', async () => {
+    const fetcher = vi.fn(async () => new Response('invalid from', { status: 422 }))
+    const transport = new HttpMailTransport('https://mail.example.com/emails', 'key', fetcher)
+
+    await expect(transport.send(message)).rejects.toThrow('邮件发送失败: 422 invalid from')
+  })
+})
+
+describe('createMailTransport', () => {
+  it('should use the HTTP transport only when the API is configured', async () => {
+    expect(
+      createMailTransport({ MAIL_API_URL: 'https://mail.example.com', MAIL_API_KEY: 'key' })
+    ).toBeInstanceOf(HttpMailTransport)
+    expect(createMailTransport({ MAIL_API_URL: 'https://mail.example.com' })).toBeInstanceOf(
+      UnconfiguredMailTransport
+    )
+    await expect(createMailTransport({}).send(message)).rejects.toThrow('邮件服务未配置')
+  })
+
+  it('should only use the memory transport when explicitly enabled', async () => {
+    expect(createMailTransport({ MAIL_TRANSPORT: 'memory' })).toBeInstanceOf(MemoryMailTransport)
+
+    const transport = new MemoryMailTransport(false)
+    await transport.send(message)
+    expect(transport.messages).toEqual([message])
+  })
+})
@@ -0,0 +1,145 @@
+/**
+ * Mail Transport
+ *
+ * 邮件发送通道：
+ * - HttpMailTransport：通过 HTTP 邮件服务商 API 发送（请求体为 Resend 兼容格式，可通过 MAIL_API_URL 切换服务商）
+ * - MemoryMailTransport：只保存在内存并输出日志（包含令牌），只用于本地开发和测试
+ * - UnconfiguredMailTransport：未配置邮件服务时使用，发送时抛出错误
+ *
+ * 配置了 MAIL_API_URL 和 MAIL_API_KEY 时使用 HTTP 通道；
+ * 内存通道需要显式设置 MAIL_TRANSPORT=memory 启用，避免生产环境把令牌写入日志。
+ */
+
+// 邮件地址（名称可选）
+export interface MailAddress {
+  email: string
+  name?: string
+}
+
+// 邮件内容
+export interface MailMessage {
+  from: MailAddress
+  to: string
+  subject: string
+  text: string
+}
+
+// 邮件发送通道
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>
+}
+
+// 邮件相关环境变量
+export interface MailEnv {
+  MAIL_TRANSPORT?: string
+  MAIL_API_URL?: string
+  MAIL_API_KEY?: string
+}
+
+/**
+ * 格式化发件人（如 "站点名称 <no-reply@example.com>"）
+ *
+ * @param address - 邮件地址
+ * @returns 发件人字符串
+ */
+export function formatMailAddress(address: MailAddress): string {
+  if (!address.name) {
+    return address.email
+  }
+  // 名称中的引号和尖括号会破坏地址格式
+  const name = address.name.replace(/["<>]/g, '')
+  return `${name} <${address.email}>`
+}
+
+/**
+ * HTTP 邮件通道
+ *
+ * 以 POST JSON（from、to、subject、text）调用服务商 API，使用 Bearer 认证。
+ */
+export class HttpMailTransport implements MailTransport {
+  constructor(
+    private apiUrl: string,
+    private apiKey: string,
+    // Workers 中 fetch 不能脱离全局对象调用
+    private fetcher: typeof fetch = (input, init) => fetch(input, init)
+  ) {}
+
+  /**
+   * 发送邮件
+   *
+   * @param message - 邮件内容
+   * @throws Error 如果服务商返回非 2xx 状态
+   */
+  async send(message: MailMessage): Promise<void> {
+    const response = await this.fetcher(this.apiUrl, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        from: formatMailAddress(message.from),
+        to: [message.to],
+        subject: message.subject,
+        text: message.text,
+      }),
+    })
+
+    if (!response.ok) {
+      throw new Error(`邮件发送失败: ${response.status} ${await response.text()}`)
+    }
+  }
+}
+
+/**
+ * 内存邮件通道
+ *
+ * 发送的邮件保存在 messages 中，并输出到日志（开发环境可从日志中获取令牌）。
+ */
+export class MemoryMailTransport implements MailTransport {
+  readonly messages: MailMessage[] = []
+
+  constructor(private log = true) {}
+
+  async send(message: MailMessage): Promise<void> {
+    this.messages.push(message)
+    if (this.log) {
+      console.log(
+        `[mail] ${formatMailAddress(message.from)} -> ${message.to}: ${message.subject}\n${message.text}`
+      )
+    }
+  }
+}
+
+/**
+ * 未配置的邮件通道
+ *
+ * 发送时抛出错误，未配置邮件服务时不发送也不记录邮件内容。
+ */
+export class UnconfiguredMailTransport implements MailTransport {
+  /**
+   * @throws Error 始终抛出（邮件服务未配置）
+   */
+  async send(): Promise<void> {
+    throw new Error('邮件服务未配置（需要设置 MAIL_API_URL 和 MAIL_API_KEY）')
+  }
+}
+
+/**
+ * 按环境变量创建邮件通道
+ *
+ * MAIL_TRANSPORT=memory 时使用内存通道；否则配置了 MAIL_API_URL 和 MAIL_API_KEY 时
+ * 使用 HTTP 通道，都未配置时使用未配置通道（发送失败）。
+ *
+ * @param env - 环境变量
+ * @returns 邮件通道
+ */
+export function createMailTransport(env: MailEnv): MailTransport {
+  if (env.MAIL_TRANSPORT === 'memory') {
+    return new MemoryMailTransport()
+  }
+  if (env.MAIL_API_URL && env.MAIL_API_KEY) {
+    return new HttpMailTransport(env.MAIL_API_URL, env.MAIL_API_KEY)
+  }
+  return new UnconfiguredMailTransport()
+}
@@ -10,8 +10,9 @@
 import { and, eq, gte, lte } from 'drizzle-orm'
 import type { DrizzleD1Database } from 'drizzle-orm/d1'
 import { promos, StatusEnum } from '../db/schema'
-import { NotFoundError } from '../errors'
+import { NotFoundError, PreconditionFailedError } from '../errors'
 import type { CreatePromoInput, Promo, UpdatePromoInput } from '../types'
+import { assertIfMatch, nextUpdateAt } from '../utils/etag'
 import type { CacheManager } from './cacheManager'
 
 export class PromoService {
@@ -73,6 +74,32 @@ export class PromoService {
     return result as Promo
   }
 
+  /**
+   * 获取单个推广
+   *
+   * 只返回当前站点未删除的推广。
+   *
+   * @param id - 推广ID
+   * @param siteId - 站点ID
+   * @returns 推广
+   * @throws NotFoundError 如果推广不存在或已被删除
+   */
+  async getById(id: number, siteId: number): Promise<Promo> {
+    const promo = await this.db
+      .select()
+      .from(promos)
+      .where(
+        and(eq(promos.id, id), eq(promos.site_id, siteId), eq(promos.status, StatusEnum.NORMAL))
+      )
+      .get()
+
+    if (!promo) {
+      throw new NotFoundError('推广不存在或已被删除')
+    }
+
+    return promo as Promo
+  }
+
   /**
    * 更新推广
    *
@@ -83,27 +110,27 @@ export class PromoService {
    * @param id - 推广ID
    * @param data - 推广更新数据
    * @param siteId - 站点ID
+   * @param ifMatch - If-Match 请求头（可选，与当前版本不一致时拒绝更新）
    * @returns 更新后的推广
+   * @throws PreconditionFailedError 如果推广已被修改
    *
    * **验证需求**: 7.2
    */
-  async update(id: number, data: UpdatePromoInput, siteId: number): Promise<Promo> {
+  async update(
+    id: number,
+    data: UpdatePromoInput,
+    siteId: number,
+    ifMatch?: string
+  ): Promise<Promo> {
     // 检查推广是否存在且未被删除
-    const existingPromo = await this.db
-      .select()
-      .from(promos)
-      .where(
-        and(eq(promos.id, id), eq(promos.site_id, siteId), eq(promos.status, StatusEnum.NORMAL))
-      )
-      .get()
+    const existingPromo = await this.getById(id, siteId)
 
-    if (!existingPromo) {
-      throw new NotFoundError('推广不存在或已被删除')
-    }
+    // 校验版本
+    assertIfMatch(ifMatch, existingPromo)
 
     // 准备更新数据
     const updateData: any = {
-      update_at: new Date(),
+      update_at: nextUpdateAt(existingPromo.update_at),
     }
 
     if (data.title !== undefined) updateData.title = data.title
@@ -126,9 +153,17 @@ export class PromoService {
     const [result] = await this.db
       .update(promos)
       .set(updateData)
-      .where(eq(promos.id, id))
+      .where(
+        ifMatch !== undefined
+          ? and(eq(promos.id, id), eq(promos.update_at, existingPromo.update_at))
+          : eq(promos.id, id)
+      )
       .returning()
 
+    if (!result) {
+      throw new PreconditionFailedError()
+    }
+
     // 使缓存失效
     await this.invalidateCache(siteId)
 
@@ -220,11 +255,13 @@ export class PromoService {
    *
    * @param id - 推广ID
    * @param siteId - 站点ID
+   * @param ifMatch - If-Match 请求头（可选，与当前版本不一致时拒绝更新）
    * @returns 更新后的推广
+   * @throws PreconditionFailedError 如果推广已被修改
    *
    * **验证需求**: 7.6
    */
-  async toggleStatus(id: number, siteId: number): Promise<Promo> {
+  async toggleStatus(id: number, siteId: number, ifMatch?: string): Promise<Promo> {
     // 获取当前推广
     const existingPromo = await this.db
       .select()
@@ -241,6 +278,9 @@ export class PromoService {
       throw new NotFoundError('推广已被删除')
     }
 
+    // 校验版本
+    assertIfMatch(ifMatch, existingPromo)
+
     // 切换状态：NORMAL <-> PENDING
     const newStatus =
       existingPromo.status === StatusEnum.NORMAL ? StatusEnum.PENDING : StatusEnum.NORMAL
@@ -250,11 +290,19 @@ export class PromoService {
       .update(promos)
       .set({
         status: newStatus,
-        update_at: new Date(),
+        update_at: nextUpdateAt(existingPromo.update_at),
       })
-      .where(eq(promos.id, id))
+      .where(
+        ifMatch !== undefined
+          ? and(eq(promos.id, id), eq(promos.update_at, existingPromo.update_at))
+          : eq(promos.id, id)
+      )
       .returning()
 
+    if (!result) {
+      throw new PreconditionFailedError()
+    }
+
     // 使缓存失效
     await this.invalidateCache(siteId)
 
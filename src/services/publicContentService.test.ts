@@ -0,0 +1,170 @@
+/**
+ * 公开内容服务测试（发布状态和发布窗口过滤、敏感字段去除、公开站点字段）
+ */
+
+import Database from 'better-sqlite3'
+import { drizzle } from 'drizzle-orm/better-sqlite3'
+import { beforeEach, describe, expect, it } from 'vitest'
+import { articles, sites } from '../db/schema'
+import { NotFoundError } from '../errors'
+import { StatusEnum } from '../types'
+import { CacheManager } from './cacheManager'
+import { PublicContentService } from './publicContentService'
+
+const HOUR = 60 * 60 * 1000
+
+describe('PublicContentService', () => {
+  let db: any
+  let publicContentService: PublicContentService
+
+  beforeEach(() => {
+    const sqlite = new Database(':memory:')
+    // better-sqlite3 驱动没有 batch，按顺序执行模拟 D1 batch
+    db = drizzle(sqlite) as any
+    db.batch = (queries: any[]) => Promise.all(queries)
+
+    sqlite.exec(`
+      CREATE TABLE sites (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        title TEXT DEFAULT '',
+        logo TEXT DEFAULT '',
+        keywords TEXT DEFAULT '',
+        description TEXT DEFAULT '',
+        copyright TEXT DEFAULT '',
+        max_revisions INTEGER DEFAULT 50,
+        mail_sender_name TEXT DEFAULT '',
+        require_2fa INTEGER DEFAULT 0,
+        status TEXT DEFAULT 'PENDING',
+        created_at INTEGER NOT NULL,
+        update_at INTEGER NOT NULL
+      );
+      CREATE TABLE articles (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        title TEXT NOT NULL,
+        channel_id INTEGER NOT NULL,
+        tags TEXT DEFAULT '',
+        description TEXT DEFAULT '',
+        content TEXT DEFAULT '',
+        markdown TEXT DEFAULT '',
+        img TEXT DEFAULT '',
+        video TEXT DEFAULT '',
+        author TEXT DEFAULT '',
+        author_id INTEGER,
+        origin TEXT DEFAULT '',
+        origin_id INTEGER,
+        editor_id INTEGER,
+        user_id INTEGER,
+        type TEXT DEFAULT 'NORMAL',
+        status TEXT DEFAULT 'PENDING',
+        reject_reason TEXT DEFAULT '',
+        publish_at INTEGER,
+        unpublish_at INTEGER,
+        is_top INTEGER DEFAULT 0,
+        site_id INTEGER NOT NULL,
+        created_at INTEGER NOT NULL,
+        update_at INTEGER NOT NULL
+      );
+    `)
+
+    // 未绑定 KV 时不缓存
+    publicContentService = new PublicContentService(
+      db,
+      new CacheManager(undefined as unknown as KVNamespace)
+    )
+  })
+
+  // 插入文章（默认已发布）
+  function insertArticle(values: Partial<typeof articles.$inferInsert>) {
+    const now = new Date()
+    return db
+      .insert(articles)
+      .values({
+        title: 'article',
+        channel_id: 1,
+        content: '正文',
+        user_id: 7,
+        editor_id: 8,
+        status: StatusEnum.NORMAL,
+        site_id: 1,
+        created_at: now,
+        update_at: now,
+        ...values,
+      })
+      .returning()
+      .get()
+  }
+
+  describe('articles', () => {
+    it('should only list published articles inside the publish window', async () => {
+      const now = Date.now()
+      insertArticle({ title: 'live' })
+      insertArticle({ title: 'pending', status: StatusEnum.PENDING })
+      insertArticle({ title: 'scheduled', publish_at: new Date(now + HOUR) })
+      insertArticle({ title: 'expired', unpublish_at: new Date(now - HOUR) })
+      insertArticle({
+        title: 'windowed',
+        publish_at: new Date(now - HOUR),
+        unpublish_at: new Date(now + HOUR),
+      })
+      insertArticle({ title: 'other site', site_id: 2 })
+
+      const result = await publicContentService.queryArticles({ page: 1, pageSize: 10 }, 1)
+
+      expect(result.data.map((article) => article.title).sort()).toEqual(['live', 'windowed'])
+      expect(result.total).toBe(2)
+    })
+
+    it('should strip internal fields', async () => {
+      const article = insertArticle({ title: 'live', reject_reason: '旧原因' })
+
+      const [summary] = (await publicContentService.queryArticles({ page: 1, pageSize: 10 }, 1))
+        .data
+      const detail = await publicContentService.getArticle(article.id, 1)
+
+      for (const field of ['user_id', 'editor_id', 'reject_reason']) {
+        expect(summary).not.toHaveProperty(field)
+        expect(detail).not.toHaveProperty(field)
+      }
+      expect(summary).not.toHaveProperty('content')
+      expect(detail.content).toBe('正文')
+    })
+
+    it('should hide unpublished articles from the detail endpoint', async () => {
+      const pending = insertArticle({ status: StatusEnum.PENDING })
+      const scheduled = insertArticle({ publish_at: new Date(Date.now() + HOUR) })
+      const live = insertArticle({})
+
+      await expect(publicContentService.getArticle(pending.id, 1)).rejects.toThrow(NotFoundError)
+      await expect(publicContentService.getArticle(scheduled.id, 1)).rejects.toThrow(NotFoundError)
+      await expect(publicContentService.getArticle(live.id, 2)).rejects.toThrow(NotFoundError)
+    })
+  })
+
+  describe('getSite', () => {
+    it('should only return display fields', async () => {
+      const now = new Date()
+      db.insert(sites)
+        .values({
+          name: 'demo',
+          title: '示例站点',
+          copyright: '© demo',
+          mail_sender_name: '通知',
+          require_2fa: 1,
+          status: StatusEnum.NORMAL,
+          created_at: now,
+          update_at: now,
+        })
+        .run()
+
+      expect(await publicContentService.getSite(1)).toEqual({
+        name: 'demo',
+        title: '示例站点',
+        logo: '',
+        keywords: '',
+        description: '',
+        copyright: '© demo',
+      })
+    })
+  })
+})
@@ -0,0 +1,287 @@
+/**
+ * Public Content Service
+ *
+ * 为前台网站提供无需认证的只读内容。
+ * 只返回已发布（NORMAL / SCHEDULED）且处于发布窗口内（publish_at、unpublish_at）的内容，
+ * 去除敏感字段（user_id、editor_id，站点只返回展示字段），并将查询结果缓存在 KV 中。
+ */
+
+import { and, eq, getTableColumns, gt, inArray, isNull, lte, or, type SQL } from 'drizzle-orm'
+import type { DrizzleD1Database } from 'drizzle-orm/d1'
+import { publicArticleModel } from '../db/models'
+import { articles, DictTypeEnum, StatusEnum } from '../db/schema'
+import { NotFoundError, ValidationError } from '../errors'
+import type {
+  ChannelTree,
+  Dict,
+  PaginatedResult,
+  Promo,
+  PublicArticle,
+  PublicArticleSummary,
+  PublicSite,
+  QueryParams,
+  TagWithCount,
+} from '../types'
+import { paginatedQuery } from '../utils/paginatedQuery'
+import type { CacheManager } from './cacheManager'
+import { ChannelService } from './channelService'
+import { DictionaryService } from './dictionaryService'
+import { PromoService } from './promoService'
+import { SiteService } from './siteService'
+import { TagService } from './tagService'
+
+// 公开内容缓存时间（秒）
+export const PUBLIC_CACHE_TTL = 300
+
+// 允许公开访问的字典类型
+export const PUBLIC_DICT_TYPES: DictTypeEnum[] = [DictTypeEnum.TAG, DictTypeEnum.FRIENDLINK]
+
+// 公开文章详情字段（排除 user_id、editor_id、reject_reason）
+const {
+  user_id: _userId,
+  editor_id: _editorId,
+  reject_reason: _rejectReason,
+  ...publicArticleColumns
+} = getTableColumns(articles)
+
+// 公开文章列表字段（在详情字段基础上排除正文）
+const {
+  content: _content,
+  markdown: _markdown,
+  ...publicArticleSummaryColumns
+} = publicArticleColumns
+
+/**
+ * 构建已发布文章条件
+ *
+ * 状态为 NORMAL 或 SCHEDULED，且发布时间为空或已到达、下线时间为空或未到达。
+ * 定时任务按分钟转换状态，按发布窗口过滤使发布和下线准时生效，不依赖定时任务的执行时间。
+ *
+ * @param now - 当前时间
+ * @returns SQL 条件
+ */
+function publishedCondition(now: Date): SQL | undefined {
+  return and(
+    inArray(articles.status, [StatusEnum.NORMAL, StatusEnum.SCHEDULED]),
+    or(isNull(articles.publish_at), lte(articles.publish_at, now)),
+    or(isNull(articles.unpublish_at), gt(articles.unpublish_at, now))
+  )
+}
+
+export class PublicContentService {
+  constructor(
+    private db: DrizzleD1Database,
+    private cacheManager: CacheManager
+  ) {}
+
+  /**
+   * 查询已发布文章列表
+   *
+   * 只返回已发布且处于发布窗口内的文章，列表不包含正文（content、markdown）。
+   * 使用缓存（缓存键：site:{siteId}:public:articles:{查询参数}）。
+   *
+   * @param params - 查询参数（过滤、排序、分页、搜索）
+   * @param siteId - 站点ID
+   * @param tagId - 标签ID（可选，只返回关联该标签的文章）
+   * @returns 分页结果
+   */
+  async queryArticles(
+    params: QueryParams,
+    siteId: number,
+    tagId?: number
+  ): Promise<PaginatedResult<PublicArticleSummary>> {
+    // 生成缓存键
+    const cacheKey = this.cacheManager.generateKey(
+      'site',
+      siteId.toString(),
+      'public',
+      'articles',
+      JSON.stringify(tagId ? { ...params, tagId } : params)
+    )
+
+    // 尝试从缓存获取
+    const cachedResult =
+      await this.cacheManager.get<PaginatedResult<PublicArticleSummary>>(cacheKey)
+    if (cachedResult) {
+      return cachedResult
+    }
+
+    // 强制只查询发布窗口内的已发布文章
+    const result = await paginatedQuery<PublicArticleSummary>(this.db, articles, params, {
+      siteId,
+      model: publicArticleModel,
+      columns: publicArticleSummaryColumns,
+      where: and(
+        publishedCondition(new Date()),
+        tagId ? new TagService(this.db).articleFilter(tagId) : undefined
+      ),
+    })
+
+    // 缓存结果
+    await this.cacheManager.set(cacheKey, result, PUBLIC_CACHE_TTL)
+
+    return result
+  }
+
+  /**
+   * 获取已发布文章详情
+   *
+   * 未到发布时间或已下线的文章视为不存在。
+   * 使用缓存（缓存键：site:{siteId}:public:article:{id}）。
+   *
+   * @param id - 文章ID
+   * @param siteId - 站点ID
+   * @returns 文章详情（不含敏感字段）
+   */
+  async getArticle(id: number, siteId: number): Promise<PublicArticle> {
+    // 生成缓存键
+    const cacheKey = this.cacheManager.generateKey(
+      'site',
+      siteId.toString(),
+      'public',
+      'article',
+      id.toString()
+    )
+
+    // 尝试从缓存获取
+    const cachedArticle = await this.cacheManager.get<PublicArticle>(cacheKey)
+    if (cachedArticle) {
+      return cachedArticle
+    }
+
+    const article = await this.db
+      .select(publicArticleColumns)
+      .from(articles)
+      .where(and(eq(articles.id, id), eq(articles.site_id, siteId), publishedCondition(new Date())))
+      .get()
+
+    if (!article) {
+      throw new NotFoundError('文章不存在')
+    }
+
+    // 缓存结果
+    await this.cacheManager.set(cacheKey, article, PUBLIC_CACHE_TTL)
+
+    return article as PublicArticle
+  }
+
+  /**
+   * 获取频道树
+   *
+   * 复用 ChannelService 的频道树缓存。
+   *
+   * @param siteId - 站点ID
+   * @returns 频道树数组
+   */
+  async getChannelTree(siteId: number): Promise<ChannelTree[]> {
+    const channelService = new ChannelService(this.db, this.cacheManager)
+    return channelService.getTree(siteId)
+  }
+
+  /**
+   * 获取公开字典条目（标签、友情链接）
+   *
+   * 使用缓存（缓存键：site:{siteId}:public:dicts:{type}）。
+   *
+   * @param type - 字典类型（仅限 TAG、FRIENDLINK）
+   * @param siteId - 站点ID
+   * @returns 字典条目数组
+   */
+  async getDicts(type: DictTypeEnum, siteId: number): Promise<Dict[]> {
+    if (!PUBLIC_DICT_TYPES.includes(type)) {
+      throw new ValidationError('该字典类型不允许公开访问')
+    }
+
+    // 生成缓存键
+    const cacheKey = this.cacheManager.generateKey(
+      'site',
+      siteId.toString(),
+      'public',
+      'dicts',
+      type
+    )
+
+    // 尝试从缓存获取
+    const cachedDicts = await this.cacheManager.get<Dict[]>(cacheKey)
+    if (cachedDicts) {
+      return cachedDicts
+    }
+
+    const dictionaryService = new DictionaryService(this.db)
+    const results = await dictionaryService.queryByType(type, siteId)
+
+    // 缓存结果
+    await this.cacheManager.set(cacheKey, results, PUBLIC_CACHE_TTL)
+
+    return results
+  }
+
+  /**
+   * 获取标签及已发布文章数
+   *
+   * 只统计已发布且处于发布窗口内的文章。
+   * 使用缓存（缓存键：site:{siteId}:public:article:tags），文章或字典变更后失效。
+   *
+   * @param siteId - 站点ID
+   * @returns 标签及使用次数数组
+   */
+  async getTags(siteId: number): Promise<TagWithCount[]> {
+    // 生成缓存键
+    const cacheKey = this.cacheManager.generateKey(
+      'site',
+      siteId.toString(),
+      'public',
+      'article',
+      'tags'
+    )
+
+    // 尝试从缓存获取
+    const cachedTags = await this.cacheManager.get<TagWithCount[]>(cacheKey)
+    if (cachedTags) {
+      return cachedTags
+    }
+
+    const tagService = new TagService(this.db)
+    const results = await tagService.queryWithCounts(siteId, publishedCondition(new Date()))
+
+    // 缓存结果
+    await this.cacheManager.set(cacheKey, results, PUBLIC_CACHE_TTL)
+
+    return results
+  }
+
+  /**
+   * 获取当前活动的推广
+   *
+   * 复用 PromoService 的活动推广缓存。
+   *
+   * @param siteId - 站点ID
+   * @returns 活动推广数组
+   */
+  async getActivePromos(siteId: number): Promise<Promo[]> {
+    const promoService = new PromoService(this.db, this.cacheManager)
+    return promoService.getActive(siteId)
+  }
+
+  /**
+   * 获取站点信息
+   *
+   * 复用 SiteService 的站点缓存，只返回展示字段（不含状态、修订版本、邮件和两步验证等内部设置）。
+   *
+   * @param siteId - 站点ID
+   * @returns 公开站点信息
+   */
+  async getSite(siteId: number): Promise<PublicSite> {
+    const siteService = new SiteService(this.db, this.cacheManager)
+    const site = await siteService.getById(siteId)
+
+    return {
+      name: site.name,
+      title: site.title,
+      logo: site.logo,
+      keywords: site.keywords,
+      description: site.description,
+      copyright: site.copyright,
+    }
+  }
+}
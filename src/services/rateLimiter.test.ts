@@ -0,0 +1,115 @@
+/**
+ * 限流服务测试
+ */
+
+import { describe, expect, it } from 'vitest'
+import type { RateLimitPolicy } from '../types'
+import { CacheManager } from './cacheManager'
+import { RateLimiter } from './rateLimiter'
+
+// 模拟 KV（只实现限流用到的读写）
+function createKV() {
+  const store = new Map<string, string>()
+  const kv = {
+    get: async (key: string) => store.get(key) ?? null,
+    put: async (key: string, value: string) => {
+      store.set(key, value)
+    },
+  }
+  return { store, kv: kv as unknown as KVNamespace }
+}
+
+// 窗口起点（60 秒窗口的整数倍）
+const WINDOW_START = 1_709_251_200_000
+
+describe('RateLimiter', () => {
+  describe('fixed window', () => {
+    const policy: RateLimitPolicy = { name: 'login', limit: 3, window: 60 }
+
+    it('should allow requests up to the limit and count them per window', async () => {
+      const { store, kv } = createKV()
+      const limiter = new RateLimiter(new CacheManager(kv))
+
+      const results = []
+      for (let i = 0; i < 4; i++) {
+        results.push(await limiter.consume(policy, 'ip:1.2.3.4', WINDOW_START + i * 1000))
+      }
+
+      expect(results.map((result) => result.allowed)).toEqual([true, true, true, false])
+      expect(results.map((result) => result.remaining)).toEqual([2, 1, 0, 0])
+      expect(results[0].reset).toBe(WINDOW_START / 1000 + 60)
+      expect(results[3].retryAfter).toBe(57)
+      expect(store.get(`ratelimit:login:ip:1.2.3.4:${WINDOW_START / 60000}`)).toBe('3')
+    })
+
+    it('should reset the count in the next window and keep identifiers separate', async () => {
+      const { kv } = createKV()
+      const limiter = new RateLimiter(new CacheManager(kv))
+
+      for (let i = 0; i < 3; i++) {
+        await limiter.consume(policy, 'ip:1.2.3.4', WINDOW_START)
+      }
+
+      expect((await limiter.consume(policy, 'ip:1.2.3.4', WINDOW_START)).allowed).toBe(false)
+      expect((await limiter.consume(policy, 'ip:5.6.7.8', WINDOW_START)).allowed).toBe(true)
+      expect((await limiter.consume(policy, 'ip:1.2.3.4', WINDOW_START + 60_000)).allowed).toBe(
+        true
+      )
+    })
+  })
+
+  describe('sliding window', () => {
+    const policy: RateLimitPolicy = { name: 'login', limit: 4, window: 60, algorithm: 'sliding' }
+
+    it('should weight the previous window by its remaining overlap', async () => {
+      const { kv } = createKV()
+      const limiter = new RateLimiter(new CacheManager(kv))
+
+      for (let i = 0; i < 4; i++) {
+        await limiter.consume(policy, 'ip:1.2.3.4', WINDOW_START + 50_000)
+      }
+
+      // 下一窗口开始 15 秒：上一窗口计数 4 × 0.75 = 3，只剩 1 次
+      const next = WINDOW_START + 75_000
+      const first = await limiter.consume(policy, 'ip:1.2.3.4', next)
+      expect(first).toMatchObject({ allowed: true, remaining: 0 })
+
+      // 4 × 0.75 + 1 = 4 达到限制，上一窗口的权重降到 0.75 以下后（1 秒后）才能再请求
+      const second = await limiter.consume(policy, 'ip:1.2.3.4', next)
+      expect(second).toMatchObject({ allowed: false, retryAfter: 1 })
+
+      // 窗口开始 30 秒：4 × 0.5 + 2 = 4 再次达到限制，45 秒时 4 × 0.25 + 2 = 3 又可以请求
+      expect((await limiter.consume(policy, 'ip:1.2.3.4', next + 1_000)).allowed).toBe(true)
+      const third = await limiter.consume(policy, 'ip:1.2.3.4', next + 15_000)
+      expect(third).toMatchObject({ allowed: false, retryAfter: 1 })
+      expect((await limiter.consume(policy, 'ip:1.2.3.4', next + 30_000)).allowed).toBe(true)
+    })
+
+    it('should wait into the next window when the current window is full', async () => {
+      const { kv } = createKV()
+      const limiter = new RateLimiter(new CacheManager(kv))
+
+      for (let i = 0; i < 4; i++) {
+        await limiter.consume(policy, 'ip:1.2.3.4', WINDOW_START)
+      }
+
+      // 当前窗口计数 4：下一窗口中权重需要低于 1，即窗口结束后立即可以请求
+      const result = await limiter.consume(policy, 'ip:1.2.3.4', WINDOW_START + 10_000)
+      expect(result).toMatchObject({ allowed: false, retryAfter: 50 })
+    })
+  })
+
+  it('should allow requests when the store fails', async () => {
+    const kv = {
+      get: async () => null,
+      put: async () => {
+        throw new Error('KV unavailable')
+      },
+    } as unknown as KVNamespace
+    const limiter = new RateLimiter(new CacheManager(kv))
+
+    const result = await limiter.consume({ name: 'login', limit: 1, window: 60 }, 'ip:1.2.3.4')
+
+    expect(result.allowed).toBe(true)
+  })
+})
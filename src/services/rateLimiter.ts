@@ -0,0 +1,120 @@
+/**
+ * Rate Limiter Service
+ *
+ * 基于 KV 的请求限流：按策略和标识（IP、用户或站点）在时间窗口内计数。
+ * - fixed：固定窗口，窗口开始时计数清零
+ * - sliding：滑动窗口，上一窗口的计数按其在滑动窗口中剩余的比例计入，避免窗口边界处的突发请求
+ *
+ * KV 是最终一致的，同一标识的并发请求可能略微超过限制；计数读写失败时放行请求，
+ * 限流存储故障不影响正常业务。
+ */
+
+import type { RateLimitPolicy, RateLimitResult } from '../types'
+import type { CacheManager } from './cacheManager'
+
+// KV 允许的最小过期时间（秒）
+const MIN_KV_TTL = 60
+
+export class RateLimiter {
+  constructor(private cacheManager: CacheManager) {}
+
+  /**
+   * 记录一次请求并判断是否超过限制
+   *
+   * 被拒绝的请求不计数。
+   *
+   * @param policy - 限流策略
+   * @param identifier - 计数标识（如 ip:1.2.3.4、user:1）
+   * @param now - 当前时间（毫秒时间戳）
+   * @returns 限流结果
+   */
+  async consume(
+    policy: RateLimitPolicy,
+    identifier: string,
+    now: number = Date.now()
+  ): Promise<RateLimitResult> {
+    const windowMs = policy.window * 1000
+    const windowIndex = Math.floor(now / windowMs)
+    const windowEnd = (windowIndex + 1) * windowMs
+    const reset = Math.ceil(windowEnd / 1000)
+    const key = this.getKey(policy, identifier, windowIndex)
+
+    try {
+      const current = (await this.cacheManager.get<number>(key)) ?? 0
+      const previous =
+        policy.algorithm === 'sliding'
+          ? ((await this.cacheManager.get<number>(
+              this.getKey(policy, identifier, windowIndex - 1)
+            )) ?? 0)
+          : 0
+
+      // 上一窗口在滑动窗口中剩余的比例
+      const weight = (windowEnd - now) / windowMs
+      const count = previous * weight + current
+
+      if (count >= policy.limit) {
+        return {
+          allowed: false,
+          limit: policy.limit,
+          remaining: 0,
+          reset,
+          retryAfter: this.getRetryAfter(policy, current, previous, windowEnd - now),
+        }
+      }
+
+      // 保留到下一窗口结束（滑动窗口需要读取上一窗口的计数）
+      await this.cacheManager.set(key, current + 1, Math.max(MIN_KV_TTL, policy.window * 2))
+
+      return {
+        allowed: true,
+        limit: policy.limit,
+        remaining: Math.max(0, Math.floor(policy.limit - count - 1)),
+        reset,
+        retryAfter: 0,
+      }
+    } catch (error) {
+      console.error(`Rate limit error for key ${key}:`, error)
+      return { allowed: true, limit: policy.limit, remaining: policy.limit, reset, retryAfter: 0 }
+    }
+  }
+
+  /**
+   * 计算被拒绝的请求需要等待的秒数
+   *
+   * 固定窗口等待到窗口结束；滑动窗口等待到加权计数低于限制
+   * （当前窗口已达到限制时，需要等到下一窗口中当前窗口的计数衰减到限制以下）。
+   *
+   * @param policy - 限流策略
+   * @param current - 当前窗口的计数
+   * @param previous - 上一窗口的计数
+   * @param untilWindowEnd - 距离当前窗口结束的毫秒数
+   * @returns 等待秒数（至少 1 秒）
+   */
+  private getRetryAfter(
+    policy: RateLimitPolicy,
+    current: number,
+    previous: number,
+    untilWindowEnd: number
+  ): number {
+    const windowMs = policy.window * 1000
+    let wait = untilWindowEnd
+
+    if (policy.algorithm === 'sliding') {
+      wait =
+        current < policy.limit
+          ? untilWindowEnd - ((policy.limit - current) / previous) * windowMs
+          : untilWindowEnd + (1 - policy.limit / current) * windowMs
+    }
+
+    return Math.max(1, Math.ceil(wait / 1000))
+  }
+
+  /**
+   * 生成计数键
+   *
+   * 格式：ratelimit:{策略名称}:{标识}:{窗口序号}
+   */
+  private getKey(policy: RateLimitPolicy, identifier: string, windowIndex: number): string {
+    return this.cacheManager.generateKey('ratelimit', policy.name, identifier, String(windowIndex))
+  }
+}
@@ -0,0 +1,226 @@
+/**
+ * 定时任务服务测试（定时发布/下线的状态转换和推广开始/结束的缓存失效）
+ */
+
+import Database from 'better-sqlite3'
+import { drizzle } from 'drizzle-orm/better-sqlite3'
+import { beforeEach, describe, expect, it } from 'vitest'
+import { articles, logs, promos } from '../db/schema'
+import { StatusEnum } from '../types'
+import { CacheManager } from './cacheManager'
+import { SchedulerService } from './schedulerService'
+
+const MINUTE = 60 * 1000
+
+// 基于 Map 的 KV 模拟（不处理过期）
+class MockKVNamespace {
+  store = new Map<string, string>()
+
+  async get(key: string): Promise<string | null> {
+    return this.store.get(key) ?? null
+  }
+
+  async put(key: string, value: string): Promise<void> {
+    this.store.set(key, value)
+  }
+
+  async delete(key: string): Promise<void> {
+    this.store.delete(key)
+  }
+
+  async list(options: { prefix?: string }): Promise<{ keys: { name: string }[] }> {
+    const keys = [...this.store.keys()]
+      .filter((name) => !options.prefix || name.startsWith(options.prefix))
+      .map((name) => ({ name }))
+    return { keys }
+  }
+}
+
+describe('SchedulerService', () => {
+  let db: any
+  let kv: MockKVNamespace
+  let schedulerService: SchedulerService
+  const now = new Date('2024-03-01T08:00:00Z')
+
+  beforeEach(() => {
+    const sqlite = new Database(':memory:')
+    db = drizzle(sqlite)
+
+    sqlite.exec(`
+      CREATE TABLE articles (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        title TEXT NOT NULL,
+        channel_id INTEGER NOT NULL,
+        tags TEXT DEFAULT '',
+        description TEXT DEFAULT '',
+        content TEXT DEFAULT '',
+        markdown TEXT DEFAULT '',
+        img TEXT DEFAULT '',
+        video TEXT DEFAULT '',
+        author TEXT DEFAULT '',
+        author_id INTEGER,
+        origin TEXT DEFAULT '',
+        origin_id INTEGER,
+        editor_id INTEGER,
+        user_id INTEGER,
+        type TEXT DEFAULT 'NORMAL',
+        status TEXT DEFAULT 'PENDING',
+        reject_reason TEXT DEFAULT '',
+        publish_at INTEGER,
+        unpublish_at INTEGER,
+        is_top INTEGER DEFAULT 0,
+        site_id INTEGER NOT NULL,
+        created_at INTEGER NOT NULL,
+        update_at INTEGER NOT NULL
+      );
+      CREATE TABLE promos (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        title TEXT NOT NULL,
+        img TEXT DEFAULT '',
+        url TEXT DEFAULT '',
+        position TEXT DEFAULT '',
+        content TEXT DEFAULT '',
+        start_time INTEGER,
+        end_time INTEGER,
+        sort INTEGER DEFAULT 0,
+        site_id INTEGER NOT NULL,
+        status TEXT DEFAULT 'NORMAL',
+        created_at INTEGER NOT NULL,
+        update_at INTEGER NOT NULL
+      );
+      CREATE TABLE logs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER,
+        username TEXT DEFAULT '',
+        type TEXT NOT NULL,
+        module TEXT NOT NULL,
+        content TEXT NOT NULL,
+        ip TEXT DEFAULT '',
+        user_agent TEXT DEFAULT '',
+        site_id INTEGER,
+        created_at INTEGER NOT NULL
+      );
+    `)
+
+    kv = new MockKVNamespace()
+    schedulerService = new SchedulerService(db, new CacheManager(kv as unknown as KVNamespace))
+  })
+
+  function insertArticle(values: Partial<typeof articles.$inferInsert>) {
+    return db
+      .insert(articles)
+      .values({
+        title: 'article',
+        channel_id: 1,
+        status: StatusEnum.NORMAL,
+        site_id: 1,
+        created_at: now,
+        update_at: now,
+        ...values,
+      })
+      .returning()
+      .get()
+  }
+
+  function getStatuses(): string[] {
+    return db
+      .select({ status: articles.status })
+      .from(articles)
+      .orderBy(articles.id)
+      .all()
+      .map(({ status }: { status: string }) => status)
+  }
+
+  function insertPromo(values: Partial<typeof promos.$inferInsert>) {
+    db.insert(promos)
+      .values({ title: 'promo', site_id: 1, created_at: now, update_at: now, ...values })
+      .run()
+  }
+
+  it('should publish and expire due articles and invalidate their sites', async () => {
+    insertArticle({
+      site_id: 1,
+      status: StatusEnum.SCHEDULED,
+      publish_at: new Date(now.getTime() - 5 * MINUTE),
+    })
+    insertArticle({ site_id: 1, unpublish_at: new Date(now.getTime() - 10 * MINUTE) })
+    // 未到时间或未审核通过的文章不处理
+    insertArticle({
+      site_id: 2,
+      status: StatusEnum.SCHEDULED,
+      publish_at: new Date(now.getTime() + 5 * MINUTE),
+    })
+    insertArticle({
+      site_id: 2,
+      status: StatusEnum.PENDING,
+      publish_at: new Date(now.getTime() - 5 * MINUTE),
+    })
+
+    kv.store.set('site:1:public:article:1', '{}')
+    kv.store.set('site:1:public:articles:{}', '{}')
+    kv.store.set('site:2:public:articles:{}', '{}')
+
+    const result = await schedulerService.run(now)
+
+    expect(result).toMatchObject({ publishedArticles: 1, expiredArticles: 1, promoSites: [] })
+    expect(getStatuses()).toEqual([
+      StatusEnum.NORMAL,
+      StatusEnum.EXPIRED,
+      StatusEnum.SCHEDULED,
+      StatusEnum.PENDING,
+    ])
+    expect([...kv.store.keys()].filter((key) => key.startsWith('site:'))).toEqual([
+      'site:2:public:articles:{}',
+    ])
+  })
+
+  it('should record each transition in the audit log', async () => {
+    const article = insertArticle({
+      status: StatusEnum.SCHEDULED,
+      publish_at: new Date(now.getTime() - 2 * MINUTE),
+      unpublish_at: new Date(now.getTime() - MINUTE),
+    })
+
+    await schedulerService.run(now)
+
+    expect(getStatuses()).toEqual([StatusEnum.EXPIRED])
+    const entries = db.select().from(logs).all()
+    expect(entries).toHaveLength(1)
+    expect(entries[0]).toMatchObject({
+      module: 'ARTICLE',
+      content: `EXPIRE ARTICLE #${article.id}: SCHEDULED -> EXPIRED`,
+      site_id: 1,
+    })
+  })
+
+  it('should invalidate active promo caches when a window opens or closes', async () => {
+    insertPromo({ site_id: 1, start_time: new Date(now.getTime() - MINUTE) })
+    insertPromo({ site_id: 2, end_time: new Date(now.getTime() - MINUTE) })
+    insertPromo({ site_id: 3, start_time: new Date(now.getTime() + MINUTE) })
+
+    kv.store.set('site:1:promos:active', '[]')
+    kv.store.set('site:3:promos:active', '[]')
+
+    const result = await schedulerService.run(now)
+
+    expect(result.promoSites.sort()).toEqual([1, 2])
+    expect(kv.store.has('site:1:promos:active')).toBe(false)
+    expect(kv.store.has('site:3:promos:active')).toBe(true)
+  })
+
+  it('should catch up on articles that became due before the last run', async () => {
+    await schedulerService.run(now)
+
+    // 上次执行之前已到期但未转换的文章（如执行失败）在下次执行时补做
+    insertArticle({
+      status: StatusEnum.SCHEDULED,
+      publish_at: new Date(now.getTime() - 60 * MINUTE),
+    })
+
+    const result = await schedulerService.run(new Date(now.getTime() + MINUTE))
+
+    expect(result.from).toEqual(now)
+    expect(result).toMatchObject({ publishedArticles: 1, expiredArticles: 0 })
+    expect(getStatuses()).toEqual([StatusEnum.NORMAL])
+  })
+})
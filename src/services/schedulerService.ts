@@ -0,0 +1,182 @@
+/**
+ * Scheduler Service
+ *
+ * 由 Worker 定时触发器（cron）调用，处理与时间相关的状态转换和缓存失效：
+ * - 到达发布时间（publish_at）的 SCHEDULED 文章转换为 NORMAL，到达下线时间（unpublish_at）的
+ *   NORMAL / SCHEDULED 文章转换为 EXPIRED（按文章状态机校验，写入审计日志），并使该站点的公开文章缓存失效
+ * - 推广到达开始时间（start_time）或结束时间（end_time）时，使该站点的活动推广缓存失效
+ *
+ * 文章按状态查询到期记录，执行中断或延迟后下次执行会补做。推广处理上次执行时间
+ * （缓存键：scheduler:lastRun）到当前时间之间跨越的时间点，不会遗漏两次执行之间发生的变化。
+ */
+
+import { and, eq, gt, inArray, lte, or } from 'drizzle-orm'
+import type { DrizzleD1Database } from 'drizzle-orm/d1'
+import { articles, promos, StatusEnum } from '../db/schema'
+import { LogTypeEnum, ModuleEnum } from '../types'
+import { canTransitionArticle, getPublishStatus } from '../utils/articleStatus'
+import { nextUpdateAt } from '../utils/etag'
+import { AuditLogService } from './auditLogService'
+import type { CacheManager } from './cacheManager'
+
+// 首次执行（没有上次执行时间）时向前回溯的时长（毫秒）
+const INITIAL_LOOKBACK_MS = 60 * 60 * 1000
+
+// 上次执行时间的缓存时间（秒），远大于 cron 间隔
+const LAST_RUN_TTL = 7 * 24 * 60 * 60
+
+// 定时任务执行结果
+export interface ScheduledRunResult {
+  from: Date
+  to: Date
+  publishedArticles: number
+  expiredArticles: number
+  promoSites: number[]
+}
+
+export class SchedulerService {
+  private auditLogService: AuditLogService
+
+  constructor(
+    private db: DrizzleD1Database,
+    private cacheManager: CacheManager
+  ) {
+    this.auditLogService = new AuditLogService(db)
+  }
+
+  /**
+   * 执行定时任务
+   *
+   * @param now - 本次执行时间（cron 的 scheduledTime）
+   * @returns 执行结果
+   */
+  async run(now: Date): Promise<ScheduledRunResult> {
+    const lastRunKey = this.cacheManager.generateKey('scheduler', 'lastRun')
+    const lastRun = await this.cacheManager.get<number>(lastRunKey)
+    const from = new Date(lastRun ?? now.getTime() - INITIAL_LOOKBACK_MS)
+
+    const { published, expired } = await this.processArticles(now)
+    const promoSites = await this.processPromos(from, now)
+
+    await this.cacheManager.set(lastRunKey, now.getTime(), LAST_RUN_TTL)
+
+    return {
+      from,
+      to: now,
+      publishedArticles: published,
+      expiredArticles: expired,
+      promoSites,
+    }
+  }
+
+  /**
+   * 处理到达发布或下线时间的文章
+   *
+   * 按发布窗口转换文章状态（只更新仍处于查询时状态的文章），每次转换写入审计日志，
+   * 并使涉及站点的公开文章列表和详情缓存失效。
+   *
+   * @param now - 本次执行时间
+   * @returns 发布和下线的文章数量
+   */
+  private async processArticles(now: Date): Promise<{ published: number; expired: number }> {
+    const dueArticles = await this.db
+      .select({
+        id: articles.id,
+        status: articles.status,
+        site_id: articles.site_id,
+        publish_at: articles.publish_at,
+        unpublish_at: articles.unpublish_at,
+        update_at: articles.update_at,
+      })
+      .from(articles)
+      .where(
+        or(
+          and(eq(articles.status, StatusEnum.SCHEDULED), lte(articles.publish_at, now)),
+          and(
+            inArray(articles.status, [StatusEnum.SCHEDULED, StatusEnum.NORMAL]),
+            lte(articles.unpublish_at, now)
+          )
+        )
+      )
+      .all()
+
+    let published = 0
+    let expired = 0
+    const siteIds = new Set<number>()
+
+    for (const article of dueArticles) {
+      const from = article.status as StatusEnum
+      const to = getPublishStatus(article.publish_at, article.unpublish_at, now)
+      if (!canTransitionArticle(from, to)) {
+        continue
+      }
+
+      const [result] = await this.db
+        .update(articles)
+        .set({ status: to, update_at: nextUpdateAt(article.update_at) })
+        .where(and(eq(articles.id, article.id), eq(articles.status, from)))
+        .returning({ id: articles.id })
+
+      // 已被其他操作修改（如审核或删除）
+      if (!result) {
+        continue
+      }
+
+      const action = to === StatusEnum.EXPIRED ? 'EXPIRE' : 'PUBLISH'
+      if (to === StatusEnum.EXPIRED) {
+        expired++
+      } else {
+        published++
+      }
+      siteIds.add(article.site_id)
+
+      await this.auditLogService.log({
+        type: LogTypeEnum.PUT,
+        module: ModuleEnum.ARTICLE,
+        content: `${action} ARTICLE #${article.id}: ${from} -> ${to}`,
+        site_id: article.site_id,
+      })
+    }
+
+    for (const siteId of siteIds) {
+      const prefix = this.cacheManager.generateKey('site', siteId.toString(), 'public', 'article')
+      await this.cacheManager.deleteByPrefix(prefix)
+    }
+
+    return { published, expired }
+  }
+
+  /**
+   * 处理开始或结束的推广
+   *
+   * 使涉及站点的活动推广缓存失效（缓存键：site:{siteId}:promos:active）。
+   *
+   * @param from - 时间段开始（不含）
+   * @param to - 时间段结束（含）
+   * @returns 涉及的站点ID
+   */
+  private async processPromos(from: Date, to: Date): Promise<number[]> {
+    const changedPromos = await this.db
+      .select({ site_id: promos.site_id })
+      .from(promos)
+      .where(
+        and(
+          eq(promos.status, StatusEnum.NORMAL),
+          or(
+            and(gt(promos.start_time, from), lte(promos.start_time, to)),
+            and(gt(promos.end_time, from), lte(promos.end_time, to))
+          )
+        )
+      )
+      .all()
+
+    const siteIds = [...new Set(changedPromos.map(({ site_id }) => site_id))]
+
+    for (const siteId of siteIds) {
+      const cacheKey = this.cacheManager.generateKey('site', siteId.toString(), 'promos', 'active')
+      await this.cacheManager.delete(cacheKey)
+    }
+
+    return siteIds
+  }
+}
@@ -0,0 +1,184 @@
+/**
+ * 站点服务测试（CRUD、版本校验、域名规范化和按主机名解析站点）
+ */
+
+import Database from 'better-sqlite3'
+import { drizzle } from 'drizzle-orm/better-sqlite3'
+import { beforeEach, describe, expect, it } from 'vitest'
+import { ConflictError, NotFoundError, PreconditionFailedError, ValidationError } from '../errors'
+import { StatusEnum } from '../types'
+import { getETag } from '../utils/etag'
+import { CacheManager } from './cacheManager'
+import { DEFAULT_MAX_REVISIONS, normalizeDomain, SiteService } from './siteService'
+
+// 基于 Map 的 KV 模拟（不处理过期）
+class MockKVNamespace {
+  store = new Map<string, string>()
+
+  async get(key: string): Promise<string | null> {
+    return this.store.get(key) ?? null
+  }
+
+  async put(key: string, value: string): Promise<void> {
+    this.store.set(key, value)
+  }
+
+  async delete(key: string): Promise<void> {
+    this.store.delete(key)
+  }
+}
+
+describe('SiteService', () => {
+  let kv: MockKVNamespace
+  let siteService: SiteService
+
+  beforeEach(() => {
+    const sqlite = new Database(':memory:')
+    // better-sqlite3 驱动没有 batch，按顺序执行模拟 D1 batch
+    const db = drizzle(sqlite) as any
+    db.batch = (queries: any[]) => Promise.all(queries)
+
+    sqlite.exec(`
+      CREATE TABLE sites (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        title TEXT DEFAULT '',
+        logo TEXT DEFAULT '',
+        keywords TEXT DEFAULT '',
+        description TEXT DEFAULT '',
+        copyright TEXT DEFAULT '',
+        max_revisions INTEGER DEFAULT 50,
+        mail_sender_name TEXT DEFAULT '',
+        require_2fa INTEGER DEFAULT 0,
+        status TEXT DEFAULT 'PENDING',
+        created_at INTEGER NOT NULL,
+        update_at INTEGER NOT NULL
+      );
+      CREATE TABLE site_domains (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        site_id INTEGER NOT NULL,
+        domain TEXT NOT NULL UNIQUE,
+        is_primary INTEGER DEFAULT 0,
+        created_at INTEGER NOT NULL,
+        update_at INTEGER NOT NULL
+      );
+    `)
+
+    kv = new MockKVNamespace()
+    siteService = new SiteService(db, new CacheManager(kv as unknown as KVNamespace))
+  })
+
+  describe('normalizeDomain', () => {
+    it('should lowercase and strip port, whitespace and trailing dot', () => {
+      expect(normalizeDomain(' Blog.Example.COM:8080 ')).toBe('blog.example.com')
+      expect(normalizeDomain('example.com.')).toBe('example.com')
+    })
+  })
+
+  describe('CRUD', () => {
+    it('should create a NORMAL site with defaults', async () => {
+      const site = await siteService.create({ name: 'demo' })
+
+      expect(site).toMatchObject({
+        name: 'demo',
+        title: '',
+        max_revisions: DEFAULT_MAX_REVISIONS,
+        require_2fa: 0,
+        status: StatusEnum.NORMAL,
+      })
+      await expect(siteService.create({ name: 'bad', max_revisions: 0 })).rejects.toThrow(
+        ValidationError
+      )
+    })
+
+    it('should update with If-Match and reject stale versions', async () => {
+      const site = await siteService.create({ name: 'demo' })
+      const etag = getETag(site)
+
+      const updated = await siteService.update(site.id, { title: '示例站点' }, etag)
+
+      expect(updated.title).toBe('示例站点')
+      expect(getETag(updated)).not.toBe(etag)
+      await expect(siteService.update(site.id, { title: '旧版本' }, etag)).rejects.toThrow(
+        PreconditionFailedError
+      )
+    })
+
+    it('should not change the name or status through settings', async () => {
+      const site = await siteService.create({ name: 'demo' })
+
+      const updated = await siteService.updateSettings(site.id, {
+        title: '新标题',
+        name: 'renamed',
+        status: StatusEnum.DELETE,
+      } as any)
+
+      expect(updated).toMatchObject({ name: 'demo', title: '新标题', status: StatusEnum.NORMAL })
+    })
+
+    it('should soft delete and invalidate the cached site', async () => {
+      const site = await siteService.create({ name: 'demo' })
+      await siteService.getById(site.id)
+      expect(kv.store.size).toBe(1)
+
+      await siteService.delete(site.id)
+
+      expect(kv.store.size).toBe(0)
+      await expect(siteService.getById(site.id)).rejects.toThrow(NotFoundError)
+      await expect(siteService.delete(999)).rejects.toThrow(NotFoundError)
+      expect((await siteService.query({ page: 1, pageSize: 10 })).data).toHaveLength(0)
+    })
+  })
+
+  describe('domains', () => {
+    it('should normalise, validate and deduplicate domains', async () => {
+      const site = await siteService.create({ name: 'demo' })
+
+      const domain = await siteService.addDomain(site.id, { domain: 'WWW.Example.com:443' })
+      expect(domain).toMatchObject({ domain: 'www.example.com', is_primary: 0 })
+
+      await expect(siteService.addDomain(site.id, { domain: 'www.example.com' })).rejects.toThrow(
+        ConflictError
+      )
+      await expect(siteService.addDomain(site.id, { domain: 'bad_domain!' })).rejects.toThrow(
+        ValidationError
+      )
+    })
+
+    it('should keep a single primary domain listed first', async () => {
+      const site = await siteService.create({ name: 'demo' })
+      await siteService.addDomain(site.id, { domain: 'a.example.com', is_primary: 1 })
+      await siteService.addDomain(site.id, { domain: 'b.example.com', is_primary: 1 })
+
+      const domains = await siteService.listDomains(site.id)
+
+      expect(domains.map((d) => [d.domain, d.is_primary])).toEqual([
+        ['b.example.com', 1],
+        ['a.example.com', 0],
+      ])
+    })
+
+    it('should resolve hostnames and refresh the cache when mappings change', async () => {
+      const site = await siteService.create({ name: 'demo' })
+
+      // 未匹配的结果也会缓存，添加域名后需要失效
+      expect(await siteService.resolveSiteIdByDomain('blog.example.com')).toBeNull()
+      const domain = await siteService.addDomain(site.id, { domain: 'blog.example.com' })
+      expect(await siteService.resolveSiteIdByDomain('Blog.Example.com:8443')).toBe(site.id)
+
+      await siteService.removeDomain(site.id, domain.id)
+      expect(await siteService.resolveSiteIdByDomain('blog.example.com')).toBeNull()
+      await expect(siteService.removeDomain(site.id, domain.id)).rejects.toThrow(NotFoundError)
+    })
+
+    it('should not resolve domains of deleted sites', async () => {
+      const site = await siteService.create({ name: 'demo' })
+      await siteService.addDomain(site.id, { domain: 'blog.example.com' })
+      expect(await siteService.resolveSiteIdByDomain('blog.example.com')).toBe(site.id)
+
+      await siteService.delete(site.id)
+
+      expect(await siteService.resolveSiteIdByDomain('blog.example.com')).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,453 @@
+/**
+ * Site Service
+ *
+ * 管理站点（租户）的 CRUD 操作和站点设置。
+ * 实现软删除、完整查询规范和站点元数据缓存（缓存键：site:{id}）。
+ * 管理站点域名映射，并按主机名解析站点（缓存键：domain:{hostname}）。
+ */
+
+import { and, asc, desc, eq } from 'drizzle-orm'
+import type { DrizzleD1Database } from 'drizzle-orm/d1'
+import { siteModel } from '../db/models'
+import { StatusEnum, siteDomains, sites } from '../db/schema'
+import { ConflictError, NotFoundError, PreconditionFailedError, ValidationError } from '../errors'
+import type {
+  CreateSiteDomainInput,
+  CreateSiteInput,
+  PaginatedResult,
+  QueryParams,
+  Site,
+  SiteDomain,
+  UpdateSiteInput,
+  UpdateSiteSettingsInput,
+} from '../types'
+import { assertIfMatch, nextUpdateAt } from '../utils/etag'
+import { paginatedQuery } from '../utils/paginatedQuery'
+import { applySoftDeleteFilter } from '../utils/queryBuilder'
+import type { CacheManager } from './cacheManager'
+
+// 域名格式：小写字母、数字和连字符组成的标签，以点分隔
+const DOMAIN_PATTERN =
+  /^(?=.{1,253}$)([a-z0-9]([a-z0-9-]*[a-z0-9])?\.)*[a-z0-9]([a-z0-9-]*[a-z0-9])?$/
+
+// 每篇文章默认保留的修订版本数
+export const DEFAULT_MAX_REVISIONS = 50
+
+/**
+ * 验证修订版本保留数量
+ *
+ * @param maxRevisions - 修订版本保留数量
+ * @throws ValidationError 如果不是正整数
+ */
+function validateMaxRevisions(maxRevisions: number | undefined): void {
+  if (maxRevisions !== undefined && (!Number.isInteger(maxRevisions) || maxRevisions < 1)) {
+    throw new ValidationError('max_revisions 必须是正整数')
+  }
+}
+
+/**
+ * 规范化域名
+ *
+ * 去除首尾空白、端口号和末尾的点，并转换为小写。
+ *
+ * @param domain - 原始域名或 Host 头
+ * @returns 规范化后的主机名
+ */
+export function normalizeDomain(domain: string): string {
+  return domain.trim().toLowerCase().replace(/:\d+$/, '').replace(/\.$/, '')
+}
+
+export class SiteService {
+  constructor(
+    private db: DrizzleD1Database,
+    private cacheManager: CacheManager
+  ) {}
+
+  /**
+   * 创建站点
+   *
+   * 新站点默认状态为 NORMAL，可直接使用。
+   *
+   * @param data - 站点创建数据
+   * @returns 创建的站点
+   */
+  async create(data: CreateSiteInput): Promise<Site> {
+    validateMaxRevisions(data.max_revisions)
+
+    const now = new Date()
+
+    // 插入站点记录
+    const [result] = await this.db
+      .insert(sites)
+      .values({
+        name: data.name,
+        title: data.title ?? '',
+        logo: data.logo ?? '',
+        keywords: data.keywords ?? '',
+        description: data.description ?? '',
+        copyright: data.copyright ?? '',
+        max_revisions: data.max_revisions ?? DEFAULT_MAX_REVISIONS,
+        mail_sender_name: data.mail_sender_name ?? '',
+        require_2fa: data.require_2fa ?? 0,
+        status: StatusEnum.NORMAL,
+        created_at: now,
+        update_at: now,
+      })
+      .returning()
+
+    return result as Site
+  }
+
+  /**
+   * 更新站点
+   *
+   * 不更新已删除的站点。
+   * 更新后使站点缓存失效。
+   *
+   * @param id - 站点ID
+   * @param data - 站点更新数据
+   * @param ifMatch - If-Match 请求头（可选，与当前版本不一致时拒绝更新）
+   * @returns 更新后的站点
+   * @throws PreconditionFailedError 如果站点已被修改
+   */
+  async update(id: number, data: UpdateSiteInput, ifMatch?: string): Promise<Site> {
+    // 检查站点是否存在且未被删除
+    const existingSite = await this.getExisting(id)
+
+    // 校验版本
+    assertIfMatch(ifMatch, existingSite)
+
+    validateMaxRevisions(data.max_revisions)
+
+    // 准备更新数据
+    const updateData: any = {
+      update_at: nextUpdateAt(existingSite.update_at),
+    }
+
+    if (data.name !== undefined) updateData.name = data.name
+    if (data.title !== undefined) updateData.title = data.title
+    if (data.logo !== undefined) updateData.logo = data.logo
+    if (data.keywords !== undefined) updateData.keywords = data.keywords
+    if (data.description !== undefined) updateData.description = data.description
+    if (data.copyright !== undefined) updateData.copyright = data.copyright
+    if (data.max_revisions !== undefined) updateData.max_revisions = data.max_revisions
+    if (data.mail_sender_name !== undefined) updateData.mail_sender_name = data.mail_sender_name
+    if (data.require_2fa !== undefined) updateData.require_2fa = data.require_2fa
+    if (data.status !== undefined) updateData.status = data.status
+
+    // 更新站点记录
+    const [result] = await this.db
+      .update(sites)
+      .set(updateData)
+      .where(
+        ifMatch !== undefined
+          ? and(eq(sites.id, id), eq(sites.update_at, existingSite.update_at))
+          : eq(sites.id, id)
+      )
+      .returning()
+
+    if (!result) {
+      throw new PreconditionFailedError()
+    }
+
+    // 使缓存失效
+    await this.invalidateCache(id)
+
+    return result as Site
+  }
+
+  /**
+   * 更新站点设置
+   *
+   * 供站点管理员修改本站点的展示信息（标题、LOGO、关键词、描述、版权）、
+   * 文章修订版本保留数量、邮件发件人名称和两步验证策略（仅 SUPERMANAGE），不允许修改站点名称和状态。
+   *
+   * @param id - 站点ID
+   * @param data - 站点设置数据
+   * @param ifMatch - If-Match 请求头（可选，与当前版本不一致时拒绝更新）
+   * @returns 更新后的站点
+   * @throws PreconditionFailedError 如果站点已被修改
+   */
+  async updateSettings(id: number, data: UpdateSiteSettingsInput, ifMatch?: string): Promise<Site> {
+    return this.update(
+      id,
+      {
+        title: data.title,
+        logo: data.logo,
+        keywords: data.keywords,
+        description: data.description,
+        copyright: data.copyright,
+        max_revisions: data.max_revisions,
+        mail_sender_name: data.mail_sender_name,
+        require_2fa: data.require_2fa,
+      },
+      ifMatch
+    )
+  }
+
+  /**
+   * 软删除站点
+   *
+   * 将 status 设置为 StatusEnum.DELETE，更新 update_at。
+   * 删除后使站点缓存失效。
+   *
+   * @param id - 站点ID
+   */
+  async delete(id: number): Promise<void> {
+    const now = new Date()
+
+    const result = await this.db
+      .update(sites)
+      .set({
+        status: StatusEnum.DELETE,
+        update_at: now,
+      })
+      .where(eq(sites.id, id))
+      .returning()
+
+    if (result.length === 0) {
+      throw new NotFoundError('站点不存在')
+    }
+
+    // 使缓存失效（包括该站点所有域名的解析缓存）
+    await this.invalidateCache(id)
+
+    const domains = await this.db
+      .select()
+      .from(siteDomains)
+      .where(eq(siteDomains.site_id, id))
+      .all()
+    for (const { domain } of domains) {
+      await this.invalidateDomainCache(domain)
+    }
+  }
+
+  /**
+   * 查询站点列表
+   *
+   * 支持完整查询规范（过滤、排序、分页、搜索、比较运算符）。
+   * 站点表本身没有 site_id，只自动过滤软删除记录。
+   *
+   * @param params - 查询参数
+   * @returns 分页结果
+   */
+  async query(params: QueryParams): Promise<PaginatedResult<Site>> {
+    return paginatedQuery<Site>(this.db, sites, params, {
+      siteId: 0,
+      model: siteModel,
+      hasSiteId: false,
+    })
+  }
+
+  /**
+   * 获取单个站点
+   *
+   * 使用缓存（缓存键：site:{id}，TTL 5 分钟）。
+   * 已删除的站点视为不存在。
+   *
+   * @param id - 站点ID
+   * @returns 站点详情
+   */
+  async getById(id: number): Promise<Site> {
+    // 生成缓存键
+    const cacheKey = this.cacheManager.generateKey('site', id.toString())
+
+    // 尝试从缓存获取
+    const cachedSite = await this.cacheManager.get<Site>(cacheKey)
+    if (cachedSite) {
+      return cachedSite
+    }
+
+    const site = await this.getExisting(id)
+
+    // 缓存站点信息（TTL: 5分钟 = 300秒）
+    await this.cacheManager.set(cacheKey, site, 300)
+
+    return site
+  }
+
+  /**
+   * 查询站点的域名列表
+   *
+   * 主域名排在最前。
+   *
+   * @param siteId - 站点ID
+   * @returns 域名数组
+   */
+  async listDomains(siteId: number): Promise<SiteDomain[]> {
+    // 检查站点是否存在且未被删除
+    await this.getExisting(siteId)
+
+    const results = await this.db
+      .select()
+      .from(siteDomains)
+      .where(eq(siteDomains.site_id, siteId))
+      .orderBy(desc(siteDomains.is_primary), asc(siteDomains.id))
+      .all()
+
+    return results as SiteDomain[]
+  }
+
+  /**
+   * 为站点添加域名
+   *
+   * 域名全局唯一。设置为主域名时，站点原有的主域名自动降级为别名域名。
+   * 添加后使该域名的解析缓存失效。
+   *
+   * @param siteId - 站点ID
+   * @param data - 域名创建数据
+   * @returns 创建的域名映射
+   */
+  async addDomain(siteId: number, data: CreateSiteDomainInput): Promise<SiteDomain> {
+    // 检查站点是否存在且未被删除
+    await this.getExisting(siteId)
+
+    const domain = normalizeDomain(data.domain)
+    if (!DOMAIN_PATTERN.test(domain)) {
+      throw new ValidationError(`无效的域名: ${data.domain}`)
+    }
+
+    // 验证域名唯一性
+    const existingDomain = await this.db
+      .select()
+      .from(siteDomains)
+      .where(eq(siteDomains.domain, domain))
+      .get()
+
+    if (existingDomain) {
+      throw new ConflictError(`域名 "${domain}" 已被绑定`)
+    }
+
+    const now = new Date()
+    const isPrimary = data.is_primary ? 1 : 0
+
+    // 同一站点只能有一个主域名
+    if (isPrimary) {
+      await this.db
+        .update(siteDomains)
+        .set({ is_primary: 0, update_at: now })
+        .where(eq(siteDomains.site_id, siteId))
+        .run()
+    }
+
+    // 插入域名记录
+    const [result] = await this.db
+      .insert(siteDomains)
+      .values({
+        site_id: siteId,
+        domain,
+        is_primary: isPrimary,
+        created_at: now,
+        update_at: now,
+      })
+      .returning()
+
+    // 使域名解析缓存失效（可能缓存了"未找到"）
+    await this.invalidateDomainCache(domain)
+
+    return result as SiteDomain
+  }
+
+  /**
+   * 移除站点域名
+   *
+   * 域名映射没有业务数据，直接物理删除。
+   * 删除后使该域名的解析缓存失效。
+   *
+   * @param siteId - 站点ID
+   * @param domainId - 域名映射ID
+   */
+  async removeDomain(siteId: number, domainId: number): Promise<void> {
+    const result = await this.db
+      .delete(siteDomains)
+      .where(and(eq(siteDomains.id, domainId), eq(siteDomains.site_id, siteId)))
+      .returning()
+
+    if (result.length === 0) {
+      throw new NotFoundError('域名不存在')
+    }
+
+    await this.invalidateDomainCache(result[0].domain)
+  }
+
+  /**
+   * 根据主机名解析站点ID
+   *
+   * 只匹配未删除站点绑定的域名。
+   * 使用缓存（缓存键：domain:{hostname}），未匹配的主机名以 0 缓存，
+   * 避免每个请求都查询数据库。
+   *
+   * @param hostname - 请求主机名
+   * @returns 站点ID，未匹配时返回 null
+   */
+  async resolveSiteIdByDomain(hostname: string): Promise<number | null> {
+    const domain = normalizeDomain(hostname)
+    if (!domain) {
+      return null
+    }
+
+    // 生成缓存键
+    const cacheKey = this.cacheManager.generateKey('domain', domain)
+
+    // 尝试从缓存获取
+    const cachedSiteId = await this.cacheManager.get<number>(cacheKey)
+    if (cachedSiteId !== null) {
+      return cachedSiteId > 0 ? cachedSiteId : null
+    }
+
+    const mapping = await this.db
+      .select({ siteId: siteDomains.site_id })
+      .from(siteDomains)
+      .innerJoin(sites, eq(sites.id, siteDomains.site_id))
+      .where(and(eq(siteDomains.domain, domain), applySoftDeleteFilter(sites.status)))
+      .get()
+
+    const siteId = mapping?.siteId ?? null
+
+    // 缓存解析结果（命中 TTL: 1小时，未命中 TTL: 1分钟）
+    await this.cacheManager.set(cacheKey, siteId ?? 0, siteId ? 3600 : 60)
+
+    return siteId
+  }
+
+  /**
+   * 从数据库读取未删除的站点
+   *
+   * @param id - 站点ID
+   * @returns 站点记录
+   * @throws NotFoundError 如果站点不存在或已删除
+   */
+  private async getExisting(id: number): Promise<Site> {
+    const site = await this.db
+      .select()
+      .from(sites)
+      .where(and(eq(sites.id, id), applySoftDeleteFilter(sites.status)))
+      .get()
+
+    if (!site) {
+      throw new NotFoundError('站点不存在或已被删除')
+    }
+
+    return site as Site
+  }
+
+  /**
+   * 使站点缓存失效
+   *
+   * @param id - 站点ID
+   */
+  private async invalidateCache(id: number): Promise<void> {
+    const cacheKey = this.cacheManager.generateKey('site', id.toString())
+    await this.cacheManager.delete(cacheKey)
+  }
+
+  /**
+   * 使域名解析缓存失效
+   *
+   * @param domain - 规范化后的域名
+   */
+  private async invalidateDomainCache(domain: string): Promise<void> {
+    const cacheKey = this.cacheManager.generateKey('domain', domain)
+    await this.cacheManager.delete(cacheKey)
+  }
+}
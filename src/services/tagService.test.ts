@@ -0,0 +1,56 @@
+/**
+ * 标签输入解析单元测试
+ */
+
+import { describe, expect, it } from 'vitest'
+import { ValidationError } from '../errors'
+import { MAX_ARTICLE_TAGS, parseTagInput } from './tagService'
+
+describe('parseTagInput', () => {
+  it('should accept an array of tag IDs and names', () => {
+    expect(parseTagInput([1, 'TypeScript', 2])).toEqual([1, 'TypeScript', 2])
+  })
+
+  it('should parse a JSON array string', () => {
+    expect(parseTagInput('["Hono", "D1", 3]')).toEqual(['Hono', 'D1', 3])
+  })
+
+  it('should parse a legacy comma-separated string', () => {
+    expect(parseTagInput('Hono, D1,,Workers ')).toEqual(['Hono', 'D1', 'Workers'])
+  })
+
+  it('should return an empty array for empty input', () => {
+    expect(parseTagInput('')).toEqual([])
+    expect(parseTagInput([])).toEqual([])
+  })
+
+  it('should trim names and remove duplicates', () => {
+    expect(parseTagInput([' Hono ', 'Hono', 1, 1])).toEqual(['Hono', 1])
+  })
+
+  it('should keep an ID and a name with the same text apart', () => {
+    expect(parseTagInput([1, '1'])).toEqual([1, '1'])
+  })
+
+  it('should reject invalid JSON', () => {
+    expect(() => parseTagInput('[1,')).toThrow(ValidationError)
+  })
+
+  it('should reject invalid tag IDs', () => {
+    expect(() => parseTagInput([0])).toThrow(ValidationError)
+    expect(() => parseTagInput([1.5])).toThrow(ValidationError)
+  })
+
+  it('should reject values that are neither IDs nor names', () => {
+    expect(() => parseTagInput('[{"name":"Hono"}]')).toThrow(ValidationError)
+  })
+
+  it('should reject names longer than 50 characters', () => {
+    expect(() => parseTagInput(['a'.repeat(51)])).toThrow(ValidationError)
+  })
+
+  it('should reject more than the maximum number of tags', () => {
+    const tags = Array.from({ length: MAX_ARTICLE_TAGS + 1 }, (_, i) => `tag${i}`)
+    expect(() => parseTagInput(tags)).toThrow(ValidationError)
+  })
+})
@@ -0,0 +1,339 @@
+/**
+ * Tag Service
+ *
+ * 管理文章与标签（DictTypeEnum.TAG 字典条目）的关联（article_tags 表）。
+ * 创建/更新文章时接受标签ID或标签名称，名称不存在时自动创建标签字典条目。
+ * 提供按标签查询文章的条件和标签使用次数统计。
+ *
+ * articles.tags 字段保留为标签名称的 JSON 数组，由关联关系同步生成，兼容旧客户端。
+ */
+
+import { and, asc, count, eq, inArray, ne, or, type SQL } from 'drizzle-orm'
+import type { DrizzleD1Database } from 'drizzle-orm/d1'
+import { articles, articleTags, DictTypeEnum, dicts, StatusEnum } from '../db/schema'
+import { NotFoundError, ValidationError } from '../errors'
+import type { ArticleTagInput, Dict, TagWithCount } from '../types'
+import type { CacheManager } from './cacheManager'
+
+// 单篇文章最多关联的标签数
+export const MAX_ARTICLE_TAGS = 20
+
+// 标签名称最大长度（与 dicts.name 一致）
+const MAX_TAG_NAME_LENGTH = 50
+
+/**
+ * 解析标签输入
+ *
+ * 支持数组（标签ID或名称）、JSON 数组字符串和逗号分隔的字符串（旧格式）。
+ * 去除空白和重复项。
+ *
+ * @param input - 标签输入
+ * @returns 标签ID或名称数组
+ * @throws ValidationError 如果标签格式无效
+ */
+export function parseTagInput(input: ArticleTagInput[] | string): ArticleTagInput[] {
+  let items: unknown[]
+
+  if (Array.isArray(input)) {
+    items = input
+  } else if (input.trim().startsWith('[')) {
+    try {
+      items = JSON.parse(input)
+    } catch {
+      throw new ValidationError('无效的 tags 格式')
+    }
+    if (!Array.isArray(items)) {
+      throw new ValidationError('无效的 tags 格式')
+    }
+  } else {
+    items = input.split(',')
+  }
+
+  const result: ArticleTagInput[] = []
+  const seen = new Set<string>()
+
+  for (const item of items) {
+    let tag: ArticleTagInput
+    if (typeof item === 'number') {
+      if (!Number.isInteger(item) || item <= 0) {
+        throw new ValidationError('无效的标签ID')
+      }
+      tag = item
+    } else if (typeof item === 'string') {
+      tag = item.trim()
+      if (tag === '') {
+        continue
+      }
+      if (tag.length > MAX_TAG_NAME_LENGTH) {
+        throw new ValidationError(`标签名称不能超过 ${MAX_TAG_NAME_LENGTH} 个字符`)
+      }
+    } else {
+      throw new ValidationError('标签必须是标签ID或名称')
+    }
+
+    const key = `${typeof tag}:${tag}`
+    if (!seen.has(key)) {
+      seen.add(key)
+      result.push(tag)
+    }
+  }
+
+  if (result.length > MAX_ARTICLE_TAGS) {
+    throw new ValidationError(`每篇文章最多 ${MAX_ARTICLE_TAGS} 个标签`)
+  }
+
+  return result
+}
+
+export class TagService {
+  constructor(
+    private db: DrizzleD1Database,
+    private cacheManager?: CacheManager
+  ) {}
+
+  /**
+   * 解析标签ID和名称为标签字典条目
+   *
+   * - 标签ID：必须是当前站点未删除的 TAG 字典条目
+   * - 标签名称：匹配当前站点已有的 TAG 字典条目，不存在时自动创建
+   *
+   * @param input - 标签输入
+   * @param siteId - 站点ID
+   * @returns 标签字典条目（按输入顺序，已去重）
+   * @throws ValidationError 如果标签ID不存在
+   */
+  async resolve(input: ArticleTagInput[] | string, siteId: number): Promise<Dict[]> {
+    const items = parseTagInput(input)
+    if (items.length === 0) {
+      return []
+    }
+
+    const ids = items.filter((item): item is number => typeof item === 'number')
+    const names = items.filter((item): item is string => typeof item === 'string')
+
+    const conditions: SQL[] = []
+    if (ids.length > 0) conditions.push(inArray(dicts.id, ids))
+    if (names.length > 0) conditions.push(inArray(dicts.name, names))
+
+    const existing = (await this.db
+      .select()
+      .from(dicts)
+      .where(
+        and(
+          eq(dicts.site_id, siteId),
+          eq(dicts.type, DictTypeEnum.TAG),
+          eq(dicts.status, StatusEnum.NORMAL),
+          or(...conditions)
+        )
+      )
+      .all()) as Dict[]
+
+    const byId = new Map(existing.map((tag) => [tag.id, tag]))
+    const byName = new Map(existing.map((tag) => [tag.name, tag]))
+
+    const missingIds = ids.filter((id) => !byId.has(id))
+    if (missingIds.length > 0) {
+      throw new ValidationError(`标签不存在或已被删除：${missingIds.join(', ')}`)
+    }
+
+    // 自动创建不存在的标签
+    const now = new Date()
+    let created = false
+    for (const name of names) {
+      if (byName.has(name)) {
+        continue
+      }
+      const [tag] = await this.db
+        .insert(dicts)
+        .values({
+          name,
+          type: DictTypeEnum.TAG,
+          value: '',
+          sort: 0,
+          site_id: siteId,
+          status: StatusEnum.NORMAL,
+          created_at: now,
+          update_at: now,
+        })
+        .returning()
+      byName.set(name, tag as Dict)
+      created = true
+    }
+
+    if (created) {
+      await this.invalidatePublicCache(siteId)
+    }
+
+    // 按输入顺序返回，ID 和名称指向同一标签时只保留一次
+    const result: Dict[] = []
+    const seen = new Set<number>()
+    for (const item of items) {
+      const tag = typeof item === 'number' ? byId.get(item) : byName.get(item)
+      if (tag && !seen.has(tag.id)) {
+        seen.add(tag.id)
+        result.push(tag)
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * 设置文章的标签
+   *
+   * 替换文章现有的全部标签关联。
+   *
+   * @param articleId - 文章ID
+   * @param tags - 标签字典条目
+   * @param siteId - 站点ID
+   */
+  async setArticleTags(articleId: number, tags: Dict[], siteId: number): Promise<void> {
+    await this.db.delete(articleTags).where(eq(articleTags.article_id, articleId)).run()
+
+    if (tags.length === 0) {
+      return
+    }
+
+    const now = new Date()
+    await this.db
+      .insert(articleTags)
+      .values(
+        tags.map((tag) => ({
+          article_id: articleId,
+          tag_id: tag.id,
+          site_id: siteId,
+          created_at: now,
+        }))
+      )
+      .run()
+  }
+
+  /**
+   * 获取文章的标签
+   *
+   * 只返回未删除的标签。
+   *
+   * @param articleId - 文章ID
+   * @param siteId - 站点ID
+   * @returns 标签字典条目数组
+   */
+  async getArticleTags(articleId: number, siteId: number): Promise<Dict[]> {
+    const results = await this.db
+      .select({ tag: dicts })
+      .from(articleTags)
+      .innerJoin(dicts, eq(dicts.id, articleTags.tag_id))
+      .where(
+        and(
+          eq(articleTags.article_id, articleId),
+          eq(articleTags.site_id, siteId),
+          eq(dicts.status, StatusEnum.NORMAL)
+        )
+      )
+      .orderBy(asc(articleTags.id))
+      .all()
+
+    return results.map(({ tag }) => tag as Dict)
+  }
+
+  /**
+   * 获取标签
+   *
+   * @param id - 标签ID
+   * @param siteId - 站点ID
+   * @returns 标签字典条目
+   * @throws NotFoundError 如果标签不存在或已被删除
+   */
+  async getById(id: number, siteId: number): Promise<Dict> {
+    const tag = await this.db
+      .select()
+      .from(dicts)
+      .where(
+        and(
+          eq(dicts.id, id),
+          eq(dicts.site_id, siteId),
+          eq(dicts.type, DictTypeEnum.TAG),
+          eq(dicts.status, StatusEnum.NORMAL)
+        )
+      )
+      .get()
+
+    if (!tag) {
+      throw new NotFoundError('标签不存在或已被删除')
+    }
+
+    return tag as Dict
+  }
+
+  /**
+   * 查询标签及其使用次数
+   *
+   * 按 sort 升序排列。默认统计未删除的文章，可通过 articleCondition 限定统计范围
+   * （如前台只统计已发布文章）。
+   *
+   * @param siteId - 站点ID
+   * @param articleCondition - 文章统计条件（可选）
+   * @returns 标签及使用次数数组
+   */
+  async queryWithCounts(siteId: number, articleCondition?: SQL): Promise<TagWithCount[]> {
+    const tags = (await this.db
+      .select()
+      .from(dicts)
+      .where(
+        and(
+          eq(dicts.site_id, siteId),
+          eq(dicts.type, DictTypeEnum.TAG),
+          eq(dicts.status, StatusEnum.NORMAL)
+        )
+      )
+      .orderBy(asc(dicts.sort), asc(dicts.id))
+      .all()) as Dict[]
+
+    const counts = await this.db
+      .select({ tag_id: articleTags.tag_id, article_count: count() })
+      .from(articleTags)
+      .innerJoin(articles, eq(articles.id, articleTags.article_id))
+      .where(
+        and(
+          eq(articleTags.site_id, siteId),
+          articleCondition ?? ne(articles.status, StatusEnum.DELETE)
+        )
+      )
+      .groupBy(articleTags.tag_id)
+      .all()
+
+    const countMap = new Map(counts.map(({ tag_id, article_count }) => [tag_id, article_count]))
+
+    return tags.map((tag) => ({ ...tag, article_count: countMap.get(tag.id) ?? 0 }))
+  }
+
+  /**
+   * 构建按标签过滤文章的条件
+   *
+   * @param tagId - 标签ID
+   * @returns SQL 条件（articles.id IN 关联文章）
+   */
+  articleFilter(tagId: number): SQL {
+    return inArray(
+      articles.id,
+      this.db
+        .select({ id: articleTags.article_id })
+        .from(articleTags)
+        .where(eq(articleTags.tag_id, tagId))
+    )
+  }
+
+  /**
+   * 使公开字典缓存失效
+   *
+   * 未提供缓存管理器时跳过。
+   *
+   * @param siteId - 站点ID
+   */
+  private async invalidatePublicCache(siteId: number): Promise<void> {
+    if (!this.cacheManager) {
+      return
+    }
+    const prefix = this.cacheManager.generateKey('site', siteId.toString(), 'public', 'dicts')
+    await this.cacheManager.deleteByPrefix(prefix)
+  }
+}
@@ -0,0 +1,304 @@
+/**
+ * 令牌服务测试
+ */
+
+import Database from 'better-sqlite3'
+import { eq } from 'drizzle-orm'
+import { drizzle } from 'drizzle-orm/better-sqlite3'
+import { decodeJwt } from 'jose'
+import { beforeEach, describe, expect, it } from 'vitest'
+import { refreshTokens, revokedTokens, users } from '../db/schema'
+import { AuthenticationError, ValidationError } from '../errors'
+import { StatusEnum, UserTypeEnum } from '../types'
+import { hashPassword, verifyPassword } from '../utils/password'
+import { CacheManager } from './cacheManager'
+import { TokenService } from './tokenService'
+import { UserService } from './userService'
+
+const SECRET = 'test-secret-key-for-jwt'
+
+// 模拟 KV（只实现令牌撤销用到的读写）
+function createKV() {
+  const store = new Map<string, string>()
+  const kv = {
+    get: async (key: string) => store.get(key) ?? null,
+    put: async (key: string, value: string) => {
+      store.set(key, value)
+    },
+  }
+  return { store, kv: kv as unknown as KVNamespace }
+}
+
+describe('TokenService', () => {
+  let sqlite: Database.Database
+  let db: ReturnType<typeof drizzle>
+  let store: Map<string, string>
+  let tokenService: TokenService
+  let user: typeof users.$inferSelect
+
+  beforeEach(() => {
+    sqlite = new Database(':memory:')
+    db = drizzle(sqlite)
+
+    sqlite.exec(`
+      CREATE TABLE users (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        username TEXT NOT NULL,
+        password TEXT NOT NULL,
+        nickname TEXT NOT NULL,
+        avatar TEXT DEFAULT '',
+        email TEXT DEFAULT '',
+        email_verified_at INTEGER,
+        phone TEXT DEFAULT '',
+        gender TEXT DEFAULT 'UNKNOWN',
+        type TEXT NOT NULL,
+        site_id INTEGER NOT NULL,
+        status TEXT DEFAULT 'PENDING',
+        last_login_time INTEGER,
+        failed_login_count INTEGER DEFAULT 0,
+        locked_until INTEGER,
+        evm_address TEXT DEFAULT '',
+        created_at INTEGER NOT NULL,
+        update_at INTEGER NOT NULL
+      );
+      CREATE TABLE refresh_tokens (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        token_hash TEXT NOT NULL UNIQUE,
+        family TEXT NOT NULL,
+        access_jti TEXT NOT NULL,
+        access_expires_at INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL,
+        revoked_at INTEGER,
+        created_at INTEGER NOT NULL
+      );
+      CREATE TABLE revoked_tokens (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        jti TEXT NOT NULL UNIQUE,
+        user_id INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL,
+        created_at INTEGER NOT NULL
+      );
+    `)
+
+    const now = new Date()
+    user = db
+      .insert(users)
+      .values({
+        username: 'alice',
+        password: 'hashed',
+        nickname: 'Alice',
+        type: UserTypeEnum.EDITOR,
+        site_id: 1,
+        status: StatusEnum.NORMAL,
+        created_at: now,
+        update_at: now,
+      })
+      .returning()
+      .get()
+
+    const cache = createKV()
+    store = cache.store
+    tokenService = new TokenService(db as any, SECRET, '15m', new CacheManager(cache.kv))
+  })
+
+  it('should issue an access token with jti and store only the refresh token hash', async () => {
+    const pair = await tokenService.issue(user)
+
+    const payload = decodeJwt(pair.token)
+    expect(payload.jti).toBeDefined()
+    expect(pair.expiresIn).toBe(15 * 60)
+
+    const record = db.select().from(refreshTokens).get()
+    expect(record?.access_jti).toBe(payload.jti)
+    expect(record?.token_hash).toHaveLength(64)
+    expect(record?.token_hash).not.toBe(pair.refreshToken)
+    expect(record?.revoked_at).toBeNull()
+  })
+
+  it('should rotate the refresh token and keep the family', async () => {
+    const first = await tokenService.issue(user)
+    const second = await tokenService.refresh(first.refreshToken)
+
+    expect(second.refreshToken).not.toBe(first.refreshToken)
+    expect(second.user).toMatchObject({ id: user.id, username: 'alice' })
+    expect(second.user).not.toHaveProperty('password')
+
+    const records = db.select().from(refreshTokens).all()
+    expect(records).toHaveLength(2)
+    expect(records[0].revoked_at).not.toBeNull()
+    expect(records[1].revoked_at).toBeNull()
+    expect(records[1].family).toBe(records[0].family)
+
+    // 轮换不撤销仍在有效期内的旧访问令牌
+    expect(await tokenService.isRevoked(decodeJwt(first.token).jti as string)).toBe(false)
+  })
+
+  it('should revoke the whole family when a rotated refresh token is reused', async () => {
+    const first = await tokenService.issue(user)
+    const second = await tokenService.refresh(first.refreshToken)
+
+    await expect(tokenService.refresh(first.refreshToken)).rejects.toThrow(AuthenticationError)
+    await expect(tokenService.refresh(second.refreshToken)).rejects.toThrow('刷新令牌已失效')
+    expect(await tokenService.isRevoked(decodeJwt(second.token).jti as string)).toBe(true)
+  })
+
+  it('should reject unknown and expired refresh tokens', async () => {
+    await expect(tokenService.refresh('unknown')).rejects.toThrow('刷新令牌无效')
+
+    const pair = await tokenService.issue(user)
+    db.update(refreshTokens)
+      .set({ expires_at: new Date(Date.now() - 1000) })
+      .run()
+
+    await expect(tokenService.refresh(pair.refreshToken)).rejects.toThrow('刷新令牌已过期')
+  })
+
+  it('should reject refresh for deleted users', async () => {
+    const pair = await tokenService.issue(user)
+    db.update(users).set({ status: StatusEnum.DELETE }).where(eq(users.id, user.id)).run()
+
+    await expect(tokenService.refresh(pair.refreshToken)).rejects.toThrow('用户不存在或已停用')
+    expect(db.select().from(refreshTokens).get()?.revoked_at).not.toBeNull()
+  })
+
+  it('should revoke the current family on logout', async () => {
+    const pair = await tokenService.issue(user)
+    const other = await tokenService.issue(user)
+    const { jti, exp } = decodeJwt(pair.token)
+
+    await tokenService.logout(jti as string, exp as number, user.id)
+
+    expect(await tokenService.isRevoked(jti as string)).toBe(true)
+    expect(store.get(`token:revoked:${jti}`)).toBe('true')
+    await expect(tokenService.refresh(pair.refreshToken)).rejects.toThrow(AuthenticationError)
+
+    // 其他登录不受影响
+    expect(await tokenService.isRevoked(decodeJwt(other.token).jti as string)).toBe(false)
+    await expect(tokenService.refresh(other.refreshToken)).resolves.toHaveProperty('token')
+  })
+
+  it('should cache revocation checks in KV', async () => {
+    const pair = await tokenService.issue(user)
+    const jti = decodeJwt(pair.token).jti as string
+
+    expect(await tokenService.isRevoked(jti)).toBe(false)
+    expect(store.get(`token:revoked:${jti}`)).toBe('false')
+
+    await tokenService.revokeUserTokens(user.id)
+    db.delete(revokedTokens).run()
+
+    // D1 记录已删除，KV 中的撤销状态仍然有效
+    expect(await tokenService.isRevoked(jti)).toBe(true)
+  })
+
+  it('should list active sessions and mark the current one', async () => {
+    const first = await tokenService.issue(user)
+    const rotated = await tokenService.refresh(first.refreshToken)
+    const second = await tokenService.issue(user)
+    const loggedOut = await tokenService.issue(user)
+    const { jti, exp } = decodeJwt(loggedOut.token)
+    await tokenService.logout(jti as string, exp as number, user.id)
+
+    const sessions = await tokenService.listSessions(
+      user.id,
+      decodeJwt(rotated.token).jti as string
+    )
+    const families = db.select().from(refreshTokens).all()
+
+    expect(sessions).toHaveLength(2)
+    const current = sessions.find((session) => session.current)
+    expect(current?.id).toBe(families[0].family)
+    expect(current?.created_at).toEqual(families[0].created_at)
+    expect(current?.last_active_at).toEqual(families[1].created_at)
+    expect(sessions.find((session) => !session.current)?.id).toBe(
+      families.find((record) => record.access_jti === decodeJwt(second.token).jti)?.family
+    )
+  })
+
+  it('should keep the current session when revoking the other sessions', async () => {
+    const current = await tokenService.issue(user)
+    const other = await tokenService.issue(user)
+
+    await tokenService.revokeUserTokens(user.id, decodeJwt(current.token).jti as string)
+
+    expect(await tokenService.isRevoked(decodeJwt(current.token).jti as string)).toBe(false)
+    expect(await tokenService.isRevoked(decodeJwt(other.token).jti as string)).toBe(true)
+    await expect(tokenService.refresh(current.refreshToken)).resolves.toHaveProperty('token')
+  })
+
+  it('should purge expired refresh tokens and revocations', async () => {
+    await tokenService.issue(user)
+    const pair = await tokenService.issue(user)
+    await tokenService.revokeUserTokens(user.id)
+
+    const later = new Date(Date.now() + 60 * 60 * 1000)
+    expect(await tokenService.purgeExpired(later)).toEqual({ refreshTokens: 0, revokedTokens: 2 })
+    expect(await tokenService.isRevoked(decodeJwt(pair.token).jti as string)).toBe(true)
+
+    const muchLater = new Date(Date.now() + 31 * 24 * 60 * 60 * 1000)
+    expect(await tokenService.purgeExpired(muchLater)).toEqual({
+      refreshTokens: 2,
+      revokedTokens: 0,
+    })
+  })
+
+  describe('UserService integration', () => {
+    it('should revoke tokens when the user type or status changes', async () => {
+      const userService = new UserService(db as any, SECRET, '15m')
+      const pair = await tokenService.issue(user)
+      const jti = decodeJwt(pair.token).jti as string
+
+      await userService.update(user.id, { nickname: 'Alice B' }, 1)
+      expect(await tokenService.isRevoked(jti)).toBe(false)
+
+      await userService.update(user.id, { type: UserTypeEnum.EDITOR }, 1)
+      expect(await tokenService.isRevoked(jti)).toBe(false)
+
+      await userService.update(user.id, { type: UserTypeEnum.USER }, 1)
+      await expect(tokenService.refresh(pair.refreshToken)).rejects.toThrow(AuthenticationError)
+      expect(db.select().from(revokedTokens).get()?.jti).toBe(jti)
+    })
+
+    it('should revoke tokens when the password is reset', async () => {
+      const userService = new UserService(db as any, SECRET, '15m')
+      const pair = await tokenService.issue(user)
+
+      await userService.update(user.id, { password: 'reset-hash' }, 1)
+
+      expect(await tokenService.isRevoked(decodeJwt(pair.token).jti as string)).toBe(true)
+      await expect(tokenService.refresh(pair.refreshToken)).rejects.toThrow(AuthenticationError)
+    })
+
+    it('should change the password only with the current password', async () => {
+      const userService = new UserService(db as any, SECRET, '15m')
+      db.update(users)
+        .set({ password: await hashPassword('old-hash') })
+        .where(eq(users.id, user.id))
+        .run()
+      const current = await tokenService.issue(user)
+      const other = await tokenService.issue(user)
+      const currentJti = decodeJwt(current.token).jti as string
+
+      await expect(
+        userService.changePassword(user.id, 'wrong-hash', 'new-hash', 1, currentJti)
+      ).rejects.toThrow(ValidationError)
+
+      await userService.changePassword(user.id, 'old-hash', 'new-hash', 1, currentJti)
+
+      const updated = db.select().from(users).where(eq(users.id, user.id)).get()
+      expect(await verifyPassword('new-hash', updated?.password as string)).toBe(true)
+      expect(await tokenService.isRevoked(decodeJwt(other.token).jti as string)).toBe(true)
+      expect(await tokenService.isRevoked(currentJti)).toBe(false)
+    })
+
+    it('should revoke tokens when the user is deleted', async () => {
+      const userService = new UserService(db as any, SECRET, '15m')
+      const pair = await tokenService.issue(user)
+
+      await userService.delete(user.id, 1)
+
+      expect(db.select().from(revokedTokens).get()?.jti).toBe(decodeJwt(pair.token).jti)
+    })
+  })
+})
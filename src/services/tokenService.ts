@@ -0,0 +1,370 @@
+/**
+ * Token Service
+ *
+ * 签发和轮换登录令牌，维护访问令牌撤销列表。
+ * - 访问令牌（JWT）短期有效，携带 jti 用于撤销
+ * - 刷新令牌为随机字符串，D1 中只保存其 SHA-256 哈希；每次刷新都会作废旧令牌并签发新令牌，
+ *   已作废的刷新令牌被再次使用时视为泄露，撤销整个令牌族
+ * - 撤销的 jti 记录在 D1 中，并缓存到 KV 供认证中间件快速查询
+ * - 站点要求启用两步验证而用户尚未绑定时拒绝刷新，用户需要重新登录完成绑定
+ */
+
+import { and, eq, inArray, isNull, lt } from 'drizzle-orm'
+import type { DrizzleD1Database } from 'drizzle-orm/d1'
+import { decodeJwt } from 'jose'
+import { refreshTokens, revokedTokens, StatusEnum, type UserTypeEnum, users } from '../db/schema'
+import { AuthenticationError } from '../errors'
+import type { SessionInfo, TokenPair, User, UserWithoutPassword } from '../types'
+import { DEFAULT_ACCESS_TOKEN_EXPIRATION, generateToken } from '../utils/jwt'
+import { generateSecureToken, sha256Hex } from '../utils/secureToken'
+import type { CacheManager } from './cacheManager'
+import { TwoFactorService } from './twoFactorService'
+
+// 刷新令牌有效期（秒）
+export const REFRESH_TOKEN_TTL = 30 * 24 * 60 * 60
+
+// KV 允许的最小过期时间（秒）
+const MIN_KV_TTL = 60
+
+type RefreshTokenRecord = typeof refreshTokens.$inferSelect
+
+export class TokenService {
+  private twoFactorService: TwoFactorService
+
+  constructor(
+    private db: DrizzleD1Database,
+    private jwtSecret: string,
+    private accessExpiration: string = DEFAULT_ACCESS_TOKEN_EXPIRATION,
+    private cacheManager?: CacheManager
+  ) {
+    this.twoFactorService = new TwoFactorService(db, jwtSecret)
+  }
+
+  /**
+   * 签发访问令牌和刷新令牌
+   *
+   * @param user - 用户（只用到 id、username、type、site_id）
+   * @param family - 令牌族（刷新时沿用，登录时新建）
+   * @returns 令牌对
+   */
+  async issue(
+    user: Pick<User, 'id' | 'username' | 'site_id'> & { type: string | null },
+    family?: string
+  ): Promise<TokenPair> {
+    const jti = crypto.randomUUID()
+    const token = await generateToken(
+      {
+        userId: user.id,
+        username: user.username,
+        type: user.type as UserTypeEnum,
+        siteId: user.site_id,
+        jti,
+      },
+      this.jwtSecret,
+      this.accessExpiration
+    )
+
+    const accessExpiresAt = decodeJwt(token).exp as number
+    const now = new Date()
+    const refreshToken = generateSecureToken()
+
+    await this.db
+      .insert(refreshTokens)
+      .values({
+        user_id: user.id,
+        token_hash: await sha256Hex(refreshToken),
+        family: family ?? crypto.randomUUID(),
+        access_jti: jti,
+        access_expires_at: new Date(accessExpiresAt * 1000),
+        expires_at: new Date(now.getTime() + REFRESH_TOKEN_TTL * 1000),
+        revoked_at: null,
+        created_at: now,
+      })
+      .run()
+
+    return {
+      token,
+      refreshToken,
+      expiresIn: accessExpiresAt - Math.floor(now.getTime() / 1000),
+    }
+  }
+
+  /**
+   * 使用刷新令牌换取新的令牌对
+   *
+   * 旧刷新令牌随即作废，新令牌属于同一令牌族。
+   *
+   * @param refreshToken - 刷新令牌
+   * @returns 新的令牌对和用户信息（不含密码）
+   * @throws AuthenticationError 如果令牌无效、已过期、已被使用、用户已停用或站点要求的两步验证尚未绑定
+   */
+  async refresh(refreshToken: string): Promise<TokenPair & { user: UserWithoutPassword }> {
+    const record = await this.db
+      .select()
+      .from(refreshTokens)
+      .where(eq(refreshTokens.token_hash, await sha256Hex(refreshToken)))
+      .get()
+
+    if (!record) {
+      throw new AuthenticationError('刷新令牌无效')
+    }
+
+    // 已作废的令牌被再次使用，可能已经泄露
+    if (record.revoked_at) {
+      await this.revokeFamily(record.family)
+      throw new AuthenticationError('刷新令牌已失效')
+    }
+
+    const now = new Date()
+    if (record.expires_at.getTime() <= now.getTime()) {
+      throw new AuthenticationError('刷新令牌已过期')
+    }
+
+    const user = await this.db.select().from(users).where(eq(users.id, record.user_id)).get()
+
+    if (!user || user.status !== StatusEnum.NORMAL) {
+      await this.revokeFamily(record.family)
+      throw new AuthenticationError('用户不存在或已停用')
+    }
+
+    // 站点在登录后开启了两步验证要求，未绑定的用户需要重新登录完成绑定
+    if (
+      (await this.twoFactorService.isRequired(user)) &&
+      !(await this.twoFactorService.isEnabled(user.id))
+    ) {
+      await this.revokeFamily(record.family)
+      throw new AuthenticationError('站点要求启用两步验证，请重新登录')
+    }
+
+    // 作废旧令牌（条件更新，避免并发刷新重复使用同一令牌）
+    const rotated = await this.db
+      .update(refreshTokens)
+      .set({ revoked_at: now })
+      .where(and(eq(refreshTokens.id, record.id), isNull(refreshTokens.revoked_at)))
+      .returning()
+
+    if (rotated.length === 0) {
+      await this.revokeFamily(record.family)
+      throw new AuthenticationError('刷新令牌已失效')
+    }
+
+    const { password, ...userWithoutPassword } = user
+    const pair = await this.issue(user, record.family)
+
+    return { ...pair, user: userWithoutPassword as UserWithoutPassword }
+  }
+
+  /**
+   * 退出登录
+   *
+   * 撤销当前访问令牌所在的整个令牌族；找不到对应的刷新令牌时只撤销访问令牌本身。
+   *
+   * @param jti - 访问令牌 ID
+   * @param exp - 访问令牌过期时间（秒级时间戳）
+   * @param userId - 用户ID
+   */
+  async logout(jti: string, exp: number, userId: number): Promise<void> {
+    const record = await this.db
+      .select()
+      .from(refreshTokens)
+      .where(eq(refreshTokens.access_jti, jti))
+      .get()
+
+    if (record) {
+      await this.revokeFamily(record.family)
+    }
+
+    await this.revokeAccessTokens([{ jti, user_id: userId, expires_at: new Date(exp * 1000) }])
+  }
+
+  /**
+   * 撤销用户的全部令牌
+   *
+   * 用户类型、状态变化、被删除或修改密码时调用，已签发的访问令牌立即失效。
+   *
+   * @param userId - 用户ID
+   * @param exceptJti - 保留该访问令牌所在的登录（可选，修改密码时保留当前登录）
+   */
+  async revokeUserTokens(userId: number, exceptJti?: string): Promise<void> {
+    const records = await this.db
+      .select()
+      .from(refreshTokens)
+      .where(eq(refreshTokens.user_id, userId))
+      .all()
+
+    const keepFamily = exceptJti
+      ? records.find((record) => record.access_jti === exceptJti)?.family
+      : undefined
+
+    await this.revokeRecords(records.filter((record) => record.family !== keepFamily))
+  }
+
+  /**
+   * 查询用户的有效登录会话
+   *
+   * 每个令牌族对应一次登录，只返回当前刷新令牌未作废且未过期的会话，按最近活动时间降序。
+   *
+   * @param userId - 用户ID
+   * @param currentJti - 当前请求的访问令牌 ID（用于标记当前会话）
+   * @returns 会话列表
+   */
+  async listSessions(userId: number, currentJti?: string): Promise<SessionInfo[]> {
+    const records = await this.db
+      .select()
+      .from(refreshTokens)
+      .where(eq(refreshTokens.user_id, userId))
+      .all()
+
+    const now = Date.now()
+
+    // 每个有效会话只有一个未作废的刷新令牌；登录时间取令牌族中最早的记录
+    return records
+      .filter((record) => !record.revoked_at && record.expires_at.getTime() > now)
+      .map((active) => {
+        const family = records.filter((record) => record.family === active.family)
+        return {
+          id: active.family,
+          created_at: new Date(Math.min(...family.map((record) => record.created_at.getTime()))),
+          last_active_at: active.created_at,
+          expires_at: active.expires_at,
+          current: !!currentJti && family.some((record) => record.access_jti === currentJti),
+        }
+      })
+      .sort((a, b) => b.last_active_at.getTime() - a.last_active_at.getTime())
+  }
+
+  /**
+   * 检查访问令牌是否已被撤销
+   *
+   * 先查 KV 缓存，未命中时查询 D1 并缓存结果到令牌过期。
+   *
+   * @param jti - 访问令牌 ID
+   * @param exp - 访问令牌过期时间（秒级时间戳）
+   * @returns 是否已撤销
+   */
+  async isRevoked(jti: string, exp?: number): Promise<boolean> {
+    const cacheKey = this.getCacheKey(jti)
+    const cached = this.cacheManager ? await this.cacheManager.get<boolean>(cacheKey) : null
+    if (cached !== null) {
+      return cached
+    }
+
+    const revoked = await this.db
+      .select({ id: revokedTokens.id })
+      .from(revokedTokens)
+      .where(eq(revokedTokens.jti, jti))
+      .get()
+
+    await this.cacheRevocation(jti, !!revoked, exp)
+
+    return !!revoked
+  }
+
+  /**
+   * 清理已过期的刷新令牌和撤销记录（由定时任务调用）
+   *
+   * @param now - 当前时间
+   * @returns 清理的记录数
+   */
+  async purgeExpired(now: Date): Promise<{ refreshTokens: number; revokedTokens: number }> {
+    const expiredRefresh = await this.db
+      .delete(refreshTokens)
+      .where(lt(refreshTokens.expires_at, now))
+      .returning({ id: refreshTokens.id })
+    const expiredRevoked = await this.db
+      .delete(revokedTokens)
+      .where(lt(revokedTokens.expires_at, now))
+      .returning({ id: revokedTokens.id })
+
+    return { refreshTokens: expiredRefresh.length, revokedTokens: expiredRevoked.length }
+  }
+
+  /**
+   * 撤销令牌族（同一次登录轮换出的所有令牌）
+   *
+   * @param family - 令牌族
+   */
+  private async revokeFamily(family: string): Promise<void> {
+    const records = await this.db
+      .select()
+      .from(refreshTokens)
+      .where(eq(refreshTokens.family, family))
+      .all()
+
+    await this.revokeRecords(records)
+  }
+
+  /**
+   * 作废刷新令牌，并撤销与其同时签发且尚未过期的访问令牌
+   *
+   * @param records - 刷新令牌记录
+   */
+  private async revokeRecords(records: RefreshTokenRecord[]): Promise<void> {
+    if (records.length === 0) {
+      return
+    }
+
+    const now = new Date()
+    const ids = records.map(({ id }) => id)
+    await this.db
+      .update(refreshTokens)
+      .set({ revoked_at: now })
+      .where(and(inArray(refreshTokens.id, ids), isNull(refreshTokens.revoked_at)))
+      .run()
+
+    await this.revokeAccessTokens(
+      records
+        .filter((record) => record.access_expires_at.getTime() > now.getTime())
+        .map((record) => ({
+          jti: record.access_jti,
+          user_id: record.user_id,
+          expires_at: record.access_expires_at,
+        }))
+    )
+  }
+
+  /**
+   * 将访问令牌加入撤销列表
+   *
+   * @param tokens - 访问令牌（jti、用户ID、过期时间）
+   */
+  private async revokeAccessTokens(
+    tokens: { jti: string; user_id: number; expires_at: Date }[]
+  ): Promise<void> {
+    const now = new Date()
+
+    for (const token of tokens) {
+      await this.db
+        .insert(revokedTokens)
+        .values({ ...token, created_at: now })
+        .onConflictDoNothing()
+        .run()
+
+      await this.cacheRevocation(token.jti, true, Math.floor(token.expires_at.getTime() / 1000))
+    }
+  }
+
+  /**
+   * 缓存撤销状态到令牌过期（KV 不可用时忽略）
+   *
+   * @param jti - 访问令牌 ID
+   * @param revoked - 是否已撤销
+   * @param exp - 访问令牌过期时间（秒级时间戳）
+   */
+  private async cacheRevocation(jti: string, revoked: boolean, exp?: number): Promise<void> {
+    if (!this.cacheManager) {
+      return
+    }
+
+    const remaining = exp ? exp - Math.floor(Date.now() / 1000) : 0
+    try {
+      await this.cacheManager.set(this.getCacheKey(jti), revoked, Math.max(MIN_KV_TTL, remaining))
+    } catch {
+      // 缓存失败时下次直接查询 D1
+    }
+  }
+
+  private getCacheKey(jti: string): string {
+    return `token:revoked:${jti}`
+  }
+}
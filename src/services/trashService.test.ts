@@ -0,0 +1,462 @@
+/**
+ * 回收站服务测试（恢复、依赖检查、彻底删除和按保留期清理）
+ */
+
+import Database from 'better-sqlite3'
+import { eq } from 'drizzle-orm'
+import { drizzle } from 'drizzle-orm/better-sqlite3'
+import { beforeEach, describe, expect, it } from 'vitest'
+import {
+  articleRevisions,
+  articles,
+  articleTags,
+  channels,
+  loginAttempts,
+  refreshTokens,
+  revokedTokens,
+  userRecoveryCodes,
+  users,
+  userTokens,
+  userTotp,
+} from '../db/schema'
+import { ConflictError, NotFoundError, ValidationError } from '../errors'
+import { StatusEnum } from '../types'
+import { CacheManager } from './cacheManager'
+import { TrashModuleEnum, TrashService } from './trashService'
+
+const DAY = 24 * 60 * 60 * 1000
+
+describe('TrashService', () => {
+  let db: any
+  let sqlite: Database.Database
+  let trashService: TrashService
+
+  beforeEach(() => {
+    sqlite = new Database(':memory:')
+    // better-sqlite3 驱动没有 batch，按顺序执行模拟 D1 batch
+    db = drizzle(sqlite) as any
+    db.batch = (queries: any[]) => Promise.all(queries)
+
+    sqlite.exec(`
+      CREATE TABLE articles (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        title TEXT NOT NULL,
+        channel_id INTEGER NOT NULL,
+        tags TEXT DEFAULT '',
+        description TEXT DEFAULT '',
+        content TEXT DEFAULT '',
+        markdown TEXT DEFAULT '',
+        img TEXT DEFAULT '',
+        video TEXT DEFAULT '',
+        author TEXT DEFAULT '',
+        author_id INTEGER,
+        origin TEXT DEFAULT '',
+        origin_id INTEGER,
+        editor_id INTEGER,
+        user_id INTEGER,
+        type TEXT DEFAULT 'NORMAL',
+        status TEXT DEFAULT 'PENDING',
+        reject_reason TEXT DEFAULT '',
+        publish_at INTEGER,
+        unpublish_at INTEGER,
+        is_top INTEGER DEFAULT 0,
+        site_id INTEGER NOT NULL,
+        created_at INTEGER NOT NULL,
+        update_at INTEGER NOT NULL
+      );
+      CREATE TABLE article_revisions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        article_id INTEGER NOT NULL,
+        title TEXT NOT NULL,
+        description TEXT DEFAULT '',
+        content TEXT DEFAULT '',
+        markdown TEXT DEFAULT '',
+        changed_fields TEXT DEFAULT '[]',
+        restored_from INTEGER,
+        user_id INTEGER,
+        site_id INTEGER NOT NULL,
+        created_at INTEGER NOT NULL
+      );
+      CREATE TABLE article_tags (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        article_id INTEGER NOT NULL,
+        tag_id INTEGER NOT NULL,
+        site_id INTEGER NOT NULL,
+        created_at INTEGER NOT NULL
+      );
+      CREATE TABLE channels (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        pid INTEGER DEFAULT 0,
+        sort INTEGER DEFAULT 0,
+        keywords TEXT DEFAULT '',
+        description TEXT DEFAULT '',
+        type TEXT DEFAULT 'ARTICLE',
+        status TEXT DEFAULT 'PENDING',
+        img TEXT DEFAULT '',
+        site_id INTEGER NOT NULL,
+        created_at INTEGER NOT NULL,
+        update_at INTEGER NOT NULL
+      );
+      CREATE TABLE dicts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        type TEXT NOT NULL,
+        value TEXT DEFAULT '',
+        sort INTEGER DEFAULT 0,
+        site_id INTEGER NOT NULL,
+        status TEXT DEFAULT 'NORMAL',
+        created_at INTEGER NOT NULL,
+        update_at INTEGER NOT NULL
+      );
+      CREATE TABLE promos (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        title TEXT NOT NULL,
+        img TEXT DEFAULT '',
+        url TEXT DEFAULT '',
+        position TEXT DEFAULT '',
+        content TEXT DEFAULT '',
+        start_time INTEGER,
+        end_time INTEGER,
+        sort INTEGER DEFAULT 0,
+        site_id INTEGER NOT NULL,
+        status TEXT DEFAULT 'NORMAL',
+        created_at INTEGER NOT NULL,
+        update_at INTEGER NOT NULL
+      );
+      CREATE TABLE users (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        username TEXT NOT NULL,
+        password TEXT NOT NULL,
+        nickname TEXT DEFAULT '',
+        avatar TEXT DEFAULT '',
+        email TEXT DEFAULT '',
+        email_verified_at INTEGER,
+        phone TEXT DEFAULT '',
+        gender TEXT DEFAULT 'UNKNOWN',
+        type TEXT DEFAULT 'USER',
+        site_id INTEGER,
+        status TEXT DEFAULT 'NORMAL',
+        last_login_time INTEGER,
+        failed_login_count INTEGER DEFAULT 0,
+        locked_until INTEGER,
+        evm_address TEXT,
+        created_at INTEGER NOT NULL,
+        update_at INTEGER NOT NULL
+      );
+      CREATE TABLE refresh_tokens (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        token_hash TEXT NOT NULL UNIQUE,
+        family TEXT NOT NULL,
+        access_jti TEXT NOT NULL,
+        access_expires_at INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL,
+        revoked_at INTEGER,
+        created_at INTEGER NOT NULL
+      );
+      CREATE TABLE revoked_tokens (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        jti TEXT NOT NULL UNIQUE,
+        user_id INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL,
+        created_at INTEGER NOT NULL
+      );
+      CREATE TABLE user_tokens (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        type TEXT NOT NULL,
+        token_hash TEXT NOT NULL UNIQUE,
+        email TEXT NOT NULL,
+        expires_at INTEGER NOT NULL,
+        used_at INTEGER,
+        created_at INTEGER NOT NULL
+      );
+      CREATE TABLE user_totp (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL UNIQUE,
+        secret TEXT NOT NULL,
+        enabled_at INTEGER,
+        last_used_step INTEGER DEFAULT 0,
+        created_at INTEGER NOT NULL,
+        update_at INTEGER NOT NULL
+      );
+      CREATE TABLE user_recovery_codes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        code_hash TEXT NOT NULL,
+        used_at INTEGER,
+        created_at INTEGER NOT NULL
+      );
+      CREATE TABLE login_attempts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER,
+        username TEXT DEFAULT '',
+        method TEXT NOT NULL,
+        success INTEGER NOT NULL,
+        reason TEXT DEFAULT '',
+        ip TEXT DEFAULT '',
+        user_agent TEXT DEFAULT '',
+        site_id INTEGER,
+        created_at INTEGER NOT NULL
+      );
+      CREATE VIRTUAL TABLE articles_fts USING fts5(title, description, content, markdown);
+    `)
+
+    // 未绑定 KV 时不缓存
+    trashService = new TrashService(db, new CacheManager(undefined as unknown as KVNamespace))
+  })
+
+  function insertChannel(values: Partial<typeof channels.$inferInsert> = {}) {
+    const now = new Date()
+    return db
+      .insert(channels)
+      .values({
+        name: 'channel',
+        status: StatusEnum.NORMAL,
+        site_id: 1,
+        created_at: now,
+        update_at: now,
+        ...values,
+      })
+      .returning()
+      .get()
+  }
+
+  function insertArticle(values: Partial<typeof articles.$inferInsert>) {
+    const now = new Date()
+    return db
+      .insert(articles)
+      .values({
+        title: 'article',
+        channel_id: 1,
+        status: StatusEnum.DELETE,
+        site_id: 1,
+        created_at: now,
+        update_at: now,
+        ...values,
+      })
+      .returning()
+      .get()
+  }
+
+  function insertUser(values: Partial<typeof users.$inferInsert>) {
+    const now = new Date()
+    return db
+      .insert(users)
+      .values({
+        username: 'alice',
+        password: 'hash',
+        site_id: 1,
+        created_at: now,
+        update_at: now,
+        ...values,
+      })
+      .returning()
+      .get()
+  }
+
+  // 插入用户的令牌、两步验证和登录尝试记录
+  function insertUserRecords(userId: number, revokedExpiresAt: Date) {
+    const now = new Date()
+    db.insert(refreshTokens)
+      .values({
+        user_id: userId,
+        token_hash: `refresh-${userId}`,
+        family: `family-${userId}`,
+        access_jti: `access-${userId}`,
+        access_expires_at: now,
+        expires_at: now,
+        created_at: now,
+      })
+      .run()
+    db.insert(revokedTokens)
+      .values({
+        jti: `revoked-${userId}`,
+        user_id: userId,
+        expires_at: revokedExpiresAt,
+        created_at: now,
+      })
+      .run()
+    db.insert(userTokens)
+      .values({
+        user_id: userId,
+        type: 'PASSWORD_RESET',
+        token_hash: `token-${userId}`,
+        email: 'alice@example.com',
+        expires_at: now,
+        created_at: now,
+      })
+      .run()
+    db.insert(userTotp)
+      .values({ user_id: userId, secret: 'SECRET', created_at: now, update_at: now })
+      .run()
+    db.insert(userRecoveryCodes)
+      .values({ user_id: userId, code_hash: `code-${userId}`, created_at: now })
+      .run()
+    db.insert(loginAttempts)
+      .values({ user_id: userId, method: 'PASSWORD', success: 0, created_at: now })
+      .run()
+  }
+
+  function countUserRecords(userId: number): number[] {
+    return [
+      refreshTokens,
+      revokedTokens,
+      userTokens,
+      userTotp,
+      userRecoveryCodes,
+      loginAttempts,
+    ].map((table) => db.select().from(table).where(eq(table.user_id, userId)).all().length)
+  }
+
+  function getArticle(id: number) {
+    return db.select().from(articles).where(eq(articles.id, id)).get()
+  }
+
+  describe('restore', () => {
+    it('should restore articles as PENDING so they are reviewed again', async () => {
+      const channel = insertChannel()
+      const article = insertArticle({ channel_id: channel.id })
+
+      const restored = await trashService.restore(TrashModuleEnum.ARTICLE, article.id, 1)
+
+      expect(restored.status).toBe(StatusEnum.PENDING)
+      expect(getArticle(article.id).status).toBe(StatusEnum.PENDING)
+      expect(restored.update_at.getTime()).toBeGreaterThan(article.update_at.getTime())
+    })
+
+    it('should restore other modules as NORMAL without the user password', async () => {
+      const channel = insertChannel({ status: StatusEnum.DELETE })
+      const user = insertUser({ status: StatusEnum.DELETE })
+
+      expect((await trashService.restore(TrashModuleEnum.CHANNEL, channel.id, 1)).status).toBe(
+        StatusEnum.NORMAL
+      )
+      const restoredUser = await trashService.restore(TrashModuleEnum.USER, user.id, 1)
+      expect(restoredUser.status).toBe(StatusEnum.NORMAL)
+      expect(restoredUser).not.toHaveProperty('password')
+    })
+
+    it('should only restore deleted records of the site', async () => {
+      const channel = insertChannel()
+      const live = insertArticle({ channel_id: channel.id, status: StatusEnum.NORMAL })
+      const otherSite = insertArticle({ channel_id: channel.id, site_id: 2 })
+
+      await expect(trashService.restore(TrashModuleEnum.ARTICLE, live.id, 1)).rejects.toThrow(
+        NotFoundError
+      )
+      await expect(trashService.restore(TrashModuleEnum.ARTICLE, otherSite.id, 1)).rejects.toThrow(
+        NotFoundError
+      )
+    })
+
+    it('should require the channel and parent channel to exist', async () => {
+      const deletedChannel = insertChannel({ status: StatusEnum.DELETE })
+      const article = insertArticle({ channel_id: deletedChannel.id })
+      const child = insertChannel({ pid: deletedChannel.id, status: StatusEnum.DELETE })
+
+      await expect(trashService.restore(TrashModuleEnum.ARTICLE, article.id, 1)).rejects.toThrow(
+        ValidationError
+      )
+      await expect(trashService.restore(TrashModuleEnum.CHANNEL, child.id, 1)).rejects.toThrow(
+        ValidationError
+      )
+      expect(getArticle(article.id).status).toBe(StatusEnum.DELETE)
+    })
+
+    it('should reject users conflicting with existing users', async () => {
+      insertUser({ username: 'bob', email: 'alice@example.com' })
+      const user = insertUser({ email: 'alice@example.com', status: StatusEnum.DELETE })
+
+      await expect(trashService.restore(TrashModuleEnum.USER, user.id, 1)).rejects.toThrow(
+        ConflictError
+      )
+    })
+  })
+
+  describe('purge', () => {
+    it('should delete articles with their revisions, tags and search index', async () => {
+      const article = insertArticle({})
+      const now = new Date()
+      db.insert(articleRevisions)
+        .values({ article_id: article.id, title: 'v1', site_id: 1, created_at: now })
+        .run()
+      db.insert(articleTags)
+        .values({ article_id: article.id, tag_id: 9, site_id: 1, created_at: now })
+        .run()
+      sqlite.prepare('INSERT INTO articles_fts (rowid, title) VALUES (?, ?)').run(article.id, 't')
+
+      await trashService.purge(TrashModuleEnum.ARTICLE, article.id, 1)
+
+      expect(getArticle(article.id)).toBeUndefined()
+      expect(db.select().from(articleRevisions).all()).toHaveLength(0)
+      expect(db.select().from(articleTags).all()).toHaveLength(0)
+      expect(sqlite.prepare('SELECT rowid FROM articles_fts').all()).toHaveLength(0)
+    })
+
+    it('should delete the tokens, 2FA data and login attempts of users', async () => {
+      const user = insertUser({ status: StatusEnum.DELETE })
+      const other = insertUser({ username: 'bob' })
+      insertUserRecords(user.id, new Date(Date.now() - DAY))
+      insertUserRecords(other.id, new Date(Date.now() - DAY))
+
+      await trashService.purge(TrashModuleEnum.USER, user.id, 1)
+
+      expect(countUserRecords(user.id)).toEqual([0, 0, 0, 0, 0, 0])
+      expect(countUserRecords(other.id)).toEqual([1, 1, 1, 1, 1, 1])
+    })
+
+    it('should keep revocations of access tokens that have not expired', async () => {
+      const user = insertUser({ status: StatusEnum.DELETE })
+      insertUserRecords(user.id, new Date(Date.now() + DAY))
+
+      await trashService.purge(TrashModuleEnum.USER, user.id, 1)
+
+      expect(countUserRecords(user.id)).toEqual([0, 1, 0, 0, 0, 0])
+    })
+
+    it('should not purge channels still referenced by trashed articles', async () => {
+      const channel = insertChannel({ status: StatusEnum.DELETE })
+      insertArticle({ channel_id: channel.id })
+
+      await expect(trashService.purge(TrashModuleEnum.CHANNEL, channel.id, 1)).rejects.toThrow(
+        ConflictError
+      )
+      await expect(trashService.purge(TrashModuleEnum.CHANNEL, 999, 1)).rejects.toThrow(
+        NotFoundError
+      )
+    })
+  })
+
+  describe('purgeExpired', () => {
+    it('should purge records deleted before the retention period', async () => {
+      const now = new Date()
+      const old = new Date(now.getTime() - 31 * DAY)
+      const referenced = insertChannel({ status: StatusEnum.DELETE, update_at: old })
+      insertChannel({ status: StatusEnum.DELETE, update_at: old })
+      insertArticle({ channel_id: referenced.id })
+      insertArticle({ channel_id: referenced.id, update_at: old })
+
+      const result = await trashService.purgeExpired(30, now)
+
+      expect(result).toEqual({ article: 1, channel: 1, dict: 0, promo: 0, user: 0 })
+      expect(db.select().from(articles).all()).toHaveLength(1)
+      expect(db.select({ id: channels.id }).from(channels).all()).toEqual([{ id: referenced.id }])
+    })
+
+    it('should delete the related records of expired users', async () => {
+      const now = new Date()
+      const user = insertUser({
+        status: StatusEnum.DELETE,
+        update_at: new Date(now.getTime() - 31 * DAY),
+      })
+      insertUserRecords(user.id, new Date(now.getTime() - DAY))
+
+      const result = await trashService.purgeExpired(30, now)
+
+      expect(result.user).toBe(1)
+      expect(countUserRecords(user.id)).toEqual([0, 0, 0, 0, 0, 0])
+    })
+  })
+})
@@ -0,0 +1,455 @@
+/**
+ * Trash Service
+ *
+ * 回收站：查看、恢复和彻底删除已软删除（StatusEnum.DELETE）的记录。
+ * 支持文章、频道、字典、推广和用户模块。
+ * 恢复前重新验证依赖关系（如文章所属频道、频道的父频道、用户名唯一性），
+ * 文章恢复为待审核状态，需重新审核后才会发布；
+ * 彻底删除前检查是否仍被其他记录引用。
+ * 支持按保留天数自动清理（由定时任务调用）。
+ */
+
+import { and, eq, inArray, lt, lte, ne, or } from 'drizzle-orm'
+import type { DrizzleD1Database } from 'drizzle-orm/d1'
+import {
+  articleRevisions,
+  articles,
+  articleTags,
+  channels,
+  dicts,
+  loginAttempts,
+  promos,
+  refreshTokens,
+  revokedTokens,
+  StatusEnum,
+  userRecoveryCodes,
+  users,
+  userTokens,
+  userTotp,
+} from '../db/schema'
+import { ConflictError, NotFoundError, ValidationError } from '../errors'
+import { ModuleEnum, type PaginatedResult, type QueryParams } from '../types'
+import { nextUpdateAt } from '../utils/etag'
+import { paginatedQuery } from '../utils/paginatedQuery'
+import { ArticleSearchService } from './articleSearchService'
+import type { CacheManager } from './cacheManager'
+
+// 回收站模块（与路由路径中的模块名一致）
+export enum TrashModuleEnum {
+  ARTICLE = 'article',
+  CHANNEL = 'channel',
+  DICT = 'dict',
+  PROMO = 'promo',
+  USER = 'user',
+}
+
+// 回收站模块对应的审计日志模块
+export const TRASH_AUDIT_MODULES: Record<TrashModuleEnum, ModuleEnum> = {
+  [TrashModuleEnum.ARTICLE]: ModuleEnum.ARTICLE,
+  [TrashModuleEnum.CHANNEL]: ModuleEnum.CHANNEL,
+  [TrashModuleEnum.DICT]: ModuleEnum.DICTS,
+  [TrashModuleEnum.PROMO]: ModuleEnum.PROMO,
+  [TrashModuleEnum.USER]: ModuleEnum.USER,
+}
+
+// 默认保留天数
+export const DEFAULT_TRASH_RETENTION_DAYS = 30
+
+// 回收站模块对应的数据表
+const TRASH_TABLES = {
+  [TrashModuleEnum.ARTICLE]: articles,
+  [TrashModuleEnum.CHANNEL]: channels,
+  [TrashModuleEnum.DICT]: dicts,
+  [TrashModuleEnum.PROMO]: promos,
+  [TrashModuleEnum.USER]: users,
+}
+
+// 回收站数据表中的记录
+type TrashRow = (typeof TRASH_TABLES)[TrashModuleEnum]['$inferSelect']
+
+// 已删除的记录及其模块（按模块区分记录类型）
+type TrashEntry = {
+  [M in TrashModuleEnum]: { module: M; record: (typeof TRASH_TABLES)[M]['$inferSelect'] }
+}[TrashModuleEnum]
+
+// 回收站返回的记录（用户不含密码）
+export type TrashRecord =
+  | Exclude<TrashRow, typeof users.$inferSelect>
+  | Omit<typeof users.$inferSelect, 'password'>
+
+/**
+ * 判断是否为有效的回收站模块
+ *
+ * @param module - 模块名
+ * @returns 是否有效
+ */
+export function isTrashModule(module: string): module is TrashModuleEnum {
+  return Object.values(TrashModuleEnum).includes(module as TrashModuleEnum)
+}
+
+export class TrashService {
+  constructor(
+    private db: DrizzleD1Database,
+    private cacheManager: CacheManager
+  ) {}
+
+  /**
+   * 查询回收站记录
+   *
+   * 按删除时间（update_at）降序，用户记录不包含密码。
+   *
+   * @param module - 模块
+   * @param siteId - 站点ID
+   * @param params - 查询参数（分页、withTotal）
+   * @returns 分页结果
+   */
+  async query(
+    module: TrashModuleEnum,
+    siteId: number,
+    params: QueryParams
+  ): Promise<PaginatedResult<TrashRecord>> {
+    const table = TRASH_TABLES[module]
+
+    const result = await paginatedQuery<TrashRow>(this.db, table, params, {
+      siteId,
+      hasStatus: false,
+      where: eq(table.status, StatusEnum.DELETE),
+      defaultSort: { field: 'update_at', order: 'desc' },
+    })
+
+    return {
+      ...result,
+      data: result.data.map((record) => this.sanitize(record)),
+    }
+  }
+
+  /**
+   * 恢复回收站记录
+   *
+   * 恢复前验证依赖关系，并使相关缓存失效。
+   * 文章恢复为 PENDING（删除时不保留原状态，避免未审核的文章直接发布），其他记录恢复为 NORMAL。
+   *
+   * @param module - 模块
+   * @param id - 记录ID
+   * @param siteId - 站点ID
+   * @returns 恢复后的记录
+   */
+  async restore(module: TrashModuleEnum, id: number, siteId: number): Promise<TrashRecord> {
+    const entry = await this.getDeleted(module, id, siteId)
+
+    // 验证依赖关系
+    await this.validateRestore(entry, siteId)
+
+    const table = TRASH_TABLES[module]
+    const [result] = await this.db
+      .update(table)
+      .set({
+        status: module === TrashModuleEnum.ARTICLE ? StatusEnum.PENDING : StatusEnum.NORMAL,
+        update_at: nextUpdateAt(entry.record.update_at),
+      })
+      .where(eq(table.id, id))
+      .returning()
+
+    // 使相关缓存失效
+    await this.invalidateCache(module, siteId)
+
+    return this.sanitize(result)
+  }
+
+  /**
+   * 彻底删除回收站记录
+   *
+   * 只能删除已软删除的记录；仍被引用的频道不能删除。
+   * 删除文章时同时删除其修订版本、标签关联和搜索索引，删除标签时同时删除其文章关联，
+   * 删除用户时同时删除其令牌、两步验证和登录尝试记录。
+   *
+   * @param module - 模块
+   * @param id - 记录ID
+   * @param siteId - 站点ID
+   */
+  async purge(module: TrashModuleEnum, id: number, siteId: number): Promise<void> {
+    await this.getDeleted(module, id, siteId)
+
+    if (module === TrashModuleEnum.CHANNEL) {
+      const reference = await this.findChannelReference(id, siteId)
+      if (reference) {
+        throw new ConflictError('频道下仍有文章或子频道（包括回收站中的记录），无法彻底删除')
+      }
+    }
+
+    if (module === TrashModuleEnum.ARTICLE) {
+      await this.db.delete(articleRevisions).where(eq(articleRevisions.article_id, id)).run()
+      await this.db.delete(articleTags).where(eq(articleTags.article_id, id)).run()
+      await this.removeSearchIndex([id])
+    }
+
+    if (module === TrashModuleEnum.DICT) {
+      await this.db.delete(articleTags).where(eq(articleTags.tag_id, id)).run()
+    }
+
+    if (module === TrashModuleEnum.USER) {
+      await this.deleteUserRecords([id], new Date())
+    }
+
+    const table = TRASH_TABLES[module]
+    await this.db.delete(table).where(eq(table.id, id)).run()
+  }
+
+  /**
+   * 清理超过保留期的回收站记录
+   *
+   * 删除所有站点中删除时间（update_at）早于保留期的记录。
+   * 仍被引用的频道会被跳过。
+   *
+   * @param retentionDays - 保留天数
+   * @param now - 当前时间
+   * @returns 每个模块清理的记录数
+   */
+  async purgeExpired(retentionDays: number, now: Date): Promise<Record<TrashModuleEnum, number>> {
+    const cutoff = new Date(now.getTime() - retentionDays * 24 * 60 * 60 * 1000)
+
+    const result = {} as Record<TrashModuleEnum, number>
+
+    for (const module of Object.values(TrashModuleEnum)) {
+      const table = TRASH_TABLES[module]
+      const expired = await this.db
+        .select({ id: table.id, site_id: table.site_id })
+        .from(table)
+        .where(and(eq(table.status, StatusEnum.DELETE), lt(table.update_at, cutoff)))
+        .all()
+
+      let ids = expired.map(({ id }) => id)
+
+      // 跳过仍被引用的频道
+      if (module === TrashModuleEnum.CHANNEL) {
+        const purgeable: number[] = []
+        for (const { id, site_id } of expired) {
+          // 频道的 site_id 不为空（用户的 site_id 可为空）
+          if (site_id !== null && !(await this.findChannelReference(id, site_id))) {
+            purgeable.push(id)
+          }
+        }
+        ids = purgeable
+      }
+
+      if (ids.length > 0) {
+        if (module === TrashModuleEnum.ARTICLE) {
+          await this.db
+            .delete(articleRevisions)
+            .where(inArray(articleRevisions.article_id, ids))
+            .run()
+          await this.db.delete(articleTags).where(inArray(articleTags.article_id, ids)).run()
+          await this.removeSearchIndex(ids)
+        }
+        if (module === TrashModuleEnum.DICT) {
+          await this.db.delete(articleTags).where(inArray(articleTags.tag_id, ids)).run()
+        }
+        if (module === TrashModuleEnum.USER) {
+          await this.deleteUserRecords(ids, now)
+        }
+        await this.db.delete(table).where(inArray(table.id, ids)).run()
+      }
+
+      result[module] = ids.length
+    }
+
+    return result
+  }
+
+  /**
+   * 获取已软删除的记录
+   *
+   * @throws NotFoundError 如果记录不存在或未被删除
+   */
+  private async getDeleted(
+    module: TrashModuleEnum,
+    id: number,
+    siteId: number
+  ): Promise<TrashEntry> {
+    const table = TRASH_TABLES[module]
+    const record = await this.db
+      .select()
+      .from(table)
+      .where(and(eq(table.id, id), eq(table.site_id, siteId), eq(table.status, StatusEnum.DELETE)))
+      .get()
+
+    if (!record) {
+      throw new NotFoundError('回收站中不存在该记录')
+    }
+
+    return { module, record } as TrashEntry
+  }
+
+  /**
+   * 验证恢复前的依赖关系
+   *
+   * - 文章：所属频道必须存在且未被删除
+   * - 频道：父频道（如有）必须存在且未被删除
+   * - 用户：用户名、邮箱、EVM 地址不能与站点内现有用户冲突
+   */
+  private async validateRestore(entry: TrashEntry, siteId: number): Promise<void> {
+    switch (entry.module) {
+      case TrashModuleEnum.ARTICLE: {
+        const { record } = entry
+        const channel = await this.findNormalChannel(record.channel_id, siteId)
+        if (!channel) {
+          throw new ValidationError('文章所属频道不存在或已被删除，请先恢复频道')
+        }
+        break
+      }
+      case TrashModuleEnum.CHANNEL: {
+        const { record } = entry
+        if (record.pid && record.pid > 0) {
+          const parent = await this.findNormalChannel(record.pid, siteId)
+          if (!parent) {
+            throw new ValidationError('父频道不存在或已被删除，请先恢复父频道')
+          }
+        }
+        break
+      }
+      case TrashModuleEnum.USER: {
+        const { record } = entry
+        const conditions = [eq(users.username, record.username)]
+        if (record.email) conditions.push(eq(users.email, record.email))
+        if (record.evm_address) conditions.push(eq(users.evm_address, record.evm_address))
+
+        const conflict = await this.db
+          .select({ id: users.id })
+          .from(users)
+          .where(
+            and(
+              eq(users.site_id, siteId),
+              eq(users.status, StatusEnum.NORMAL),
+              ne(users.id, record.id),
+              or(...conditions)
+            )
+          )
+          .get()
+
+        if (conflict) {
+          throw new ConflictError('用户名、邮箱或 EVM 地址已被其他用户使用，无法恢复')
+        }
+        break
+      }
+    }
+  }
+
+  /**
+   * 查询未删除的频道
+   */
+  private async findNormalChannel(id: number, siteId: number) {
+    return this.db
+      .select({ id: channels.id })
+      .from(channels)
+      .where(
+        and(
+          eq(channels.id, id),
+          eq(channels.site_id, siteId),
+          eq(channels.status, StatusEnum.NORMAL)
+        )
+      )
+      .get()
+  }
+
+  /**
+   * 查询频道是否仍被文章或子频道引用
+   *
+   * 回收站中的文章和子频道同样计入，避免彻底删除频道后它们无法恢复。
+   */
+  private async findChannelReference(id: number, siteId: number): Promise<boolean> {
+    const article = await this.db
+      .select({ id: articles.id })
+      .from(articles)
+      .where(and(eq(articles.channel_id, id), eq(articles.site_id, siteId)))
+      .get()
+
+    if (article) {
+      return true
+    }
+
+    const child = await this.db
+      .select({ id: channels.id })
+      .from(channels)
+      .where(and(eq(channels.pid, id), eq(channels.site_id, siteId)))
+      .get()
+
+    return Boolean(child)
+  }
+
+  /**
+   * 删除用户关联的记录
+   *
+   * 删除刷新令牌、一次性令牌、两步验证密钥和恢复码、登录尝试记录。
+   * 访问令牌撤销记录只删除已过期的：未过期的记录仍用于拒绝已签发的访问令牌，
+   * 过期后由令牌清理定时任务删除。审计日志保留。
+   *
+   * @param userIds - 用户ID数组
+   * @param now - 当前时间
+   */
+  private async deleteUserRecords(userIds: number[], now: Date): Promise<void> {
+    await this.db.delete(refreshTokens).where(inArray(refreshTokens.user_id, userIds)).run()
+    await this.db
+      .delete(revokedTokens)
+      .where(and(inArray(revokedTokens.user_id, userIds), lte(revokedTokens.expires_at, now)))
+      .run()
+    await this.db.delete(userTokens).where(inArray(userTokens.user_id, userIds)).run()
+    await this.db.delete(userTotp).where(inArray(userTotp.user_id, userIds)).run()
+    await this.db.delete(userRecoveryCodes).where(inArray(userRecoveryCodes.user_id, userIds)).run()
+    await this.db.delete(loginAttempts).where(inArray(loginAttempts.user_id, userIds)).run()
+  }
+
+  /**
+   * 从搜索索引中移除文章
+   *
+   * 索引移除失败不影响删除（搜索时会关联 articles 表，已删除的文章不会出现在结果中）。
+   */
+  private async removeSearchIndex(articleIds: number[]): Promise<void> {
+    try {
+      await new ArticleSearchService(this.db).remove(articleIds)
+    } catch (error) {
+      console.error('搜索索引移除失败:', error)
+    }
+  }
+
+  /**
+   * 去除敏感字段（用户密码）
+   */
+  private sanitize(record: TrashRow): TrashRecord {
+    if ('password' in record) {
+      const { password: _password, ...rest } = record
+      return rest
+    }
+    return record
+  }
+
+  /**
+   * 使恢复记录相关的缓存失效
+   */
+  private async invalidateCache(module: TrashModuleEnum, siteId: number): Promise<void> {
+    switch (module) {
+      case TrashModuleEnum.ARTICLE:
+        await this.cacheManager.deleteByPrefix(
+          this.cacheManager.generateKey('site', siteId.toString(), 'public', 'article')
+        )
+        break
+      case TrashModuleEnum.CHANNEL:
+        await this.cacheManager.delete(
+          this.cacheManager.generateKey('site', siteId.toString(), 'channels', 'tree')
+        )
+        break
+      case TrashModuleEnum.DICT:
+        await this.cacheManager.deleteByPrefix(
+          this.cacheManager.generateKey('site', siteId.toString(), 'public', 'dicts')
+        )
+        await this.cacheManager.delete(
+          this.cacheManager.generateKey('site', siteId.toString(), 'public', 'article', 'tags')
+        )
+        break
+      case TrashModuleEnum.PROMO:
+        await this.cacheManager.delete(
+          this.cacheManager.generateKey('site', siteId.toString(), 'promos', 'active')
+        )
+        break
+    }
+  }
+}
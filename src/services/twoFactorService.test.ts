@@ -0,0 +1,401 @@
+/**
+ * 两步验证服务测试（绑定、验证码、恢复码、站点策略和两步登录）
+ */
+
+import Database from 'better-sqlite3'
+import { eq } from 'drizzle-orm'
+import { drizzle } from 'drizzle-orm/better-sqlite3'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { loginAttempts, refreshTokens, sites, userRecoveryCodes, users } from '../db/schema'
+import { AuthenticationError, RateLimitError, ValidationError } from '../errors'
+import { type LoginResult, StatusEnum, type TwoFactorChallenge, UserTypeEnum } from '../types'
+import { verifyToken } from '../utils/jwt'
+import { hashPassword } from '../utils/password'
+import { sha256Hex } from '../utils/secureToken'
+import { generateTotp, getTotpStep } from '../utils/totp'
+import { IP_FAILURE_LIMIT } from './loginAttemptService'
+import { TokenService } from './tokenService'
+import { RECOVERY_CODE_COUNT, TwoFactorService } from './twoFactorService'
+import { UserService } from './userService'
+
+const SECRET = 'test-secret-key-for-jwt'
+
+// 生成当前（或相邻）时间步的验证码
+function currentCode(secret: string, offset = 0): Promise<string> {
+  return generateTotp(secret, getTotpStep() + offset)
+}
+
+describe('TwoFactorService', () => {
+  let db: ReturnType<typeof drizzle>
+  let twoFactorService: TwoFactorService
+  let userService: UserService
+  let admin: typeof users.$inferSelect
+
+  beforeEach(async () => {
+    // 固定时间，避免测试跨越时间步
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2024-03-01T08:00:10Z'))
+
+    const sqlite = new Database(':memory:')
+    db = drizzle(sqlite)
+
+    sqlite.exec(`
+      CREATE TABLE sites (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        title TEXT DEFAULT '',
+        logo TEXT DEFAULT '',
+        keywords TEXT DEFAULT '',
+        description TEXT DEFAULT '',
+        copyright TEXT DEFAULT '',
+        max_revisions INTEGER DEFAULT 50,
+        mail_sender_name TEXT DEFAULT '',
+        require_2fa INTEGER DEFAULT 0,
+        status TEXT DEFAULT 'PENDING',
+        created_at INTEGER NOT NULL,
+        update_at INTEGER NOT NULL
+      );
+      CREATE TABLE users (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        username TEXT NOT NULL,
+        password TEXT NOT NULL,
+        nickname TEXT NOT NULL,
+        avatar TEXT DEFAULT '',
+        email TEXT DEFAULT '',
+        email_verified_at INTEGER,
+        phone TEXT DEFAULT '',
+        gender TEXT DEFAULT 'UNKNOWN',
+        type TEXT NOT NULL,
+        site_id INTEGER,
+        status TEXT DEFAULT 'PENDING',
+        last_login_time INTEGER,
+        failed_login_count INTEGER DEFAULT 0,
+        locked_until INTEGER,
+        evm_address TEXT DEFAULT '',
+        created_at INTEGER NOT NULL,
+        update_at INTEGER NOT NULL
+      );
+      CREATE TABLE user_totp (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL UNIQUE,
+        secret TEXT NOT NULL,
+        enabled_at INTEGER,
+        last_used_step INTEGER DEFAULT 0,
+        created_at INTEGER NOT NULL,
+        update_at INTEGER NOT NULL
+      );
+      CREATE TABLE user_recovery_codes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        code_hash TEXT NOT NULL,
+        used_at INTEGER,
+        created_at INTEGER NOT NULL
+      );
+      CREATE TABLE refresh_tokens (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        token_hash TEXT NOT NULL UNIQUE,
+        family TEXT NOT NULL,
+        access_jti TEXT NOT NULL,
+        access_expires_at INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL,
+        revoked_at INTEGER,
+        created_at INTEGER NOT NULL
+      );
+      CREATE TABLE revoked_tokens (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        jti TEXT NOT NULL UNIQUE,
+        user_id INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL,
+        created_at INTEGER NOT NULL
+      );
+      CREATE TABLE login_attempts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER,
+        username TEXT DEFAULT '',
+        method TEXT NOT NULL,
+        success INTEGER NOT NULL,
+        reason TEXT DEFAULT '',
+        ip TEXT DEFAULT '',
+        user_agent TEXT DEFAULT '',
+        site_id INTEGER,
+        created_at INTEGER NOT NULL
+      );
+      CREATE TABLE logs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER,
+        username TEXT DEFAULT '',
+        type TEXT NOT NULL,
+        module TEXT NOT NULL,
+        content TEXT NOT NULL,
+        ip TEXT DEFAULT '',
+        user_agent TEXT DEFAULT '',
+        site_id INTEGER,
+        created_at INTEGER NOT NULL
+      );
+    `)
+
+    const now = new Date()
+    db.insert(sites)
+      .values({ name: 'demo', title: '示例站点', created_at: now, update_at: now })
+      .run()
+    admin = db
+      .insert(users)
+      .values({
+        username: 'admin',
+        password: await hashPassword('admin-hash'),
+        nickname: 'Admin',
+        type: UserTypeEnum.MANAGE,
+        site_id: 1,
+        status: StatusEnum.NORMAL,
+        created_at: now,
+        update_at: now,
+      })
+      .returning()
+      .get()
+
+    twoFactorService = new TwoFactorService(db as any, SECRET)
+    userService = new UserService(db as any, SECRET)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  // 完成绑定，返回密钥和恢复码
+  async function enroll(): Promise<{ secret: string; recoveryCodes: string[] }> {
+    const { secret } = await twoFactorService.setup(admin.id)
+    const recoveryCodes = await twoFactorService.enable(admin.id, await currentCode(secret))
+    return { secret, recoveryCodes }
+  }
+
+  describe('enrolment', () => {
+    it('should return a secret and otpauth URI and enable with a valid code', async () => {
+      const setup = await twoFactorService.setup(admin.id)
+
+      expect(setup.secret).toMatch(/^[A-Z2-7]{32}$/)
+      expect(setup.otpauthUri).toContain(`secret=${setup.secret}`)
+      expect(setup.otpauthUri).toContain(encodeURIComponent('示例站点:admin'))
+      expect(await twoFactorService.isEnabled(admin.id)).toBe(false)
+
+      await expect(twoFactorService.enable(admin.id, '000000')).rejects.toThrow('验证码错误')
+
+      const recoveryCodes = await twoFactorService.enable(admin.id, await currentCode(setup.secret))
+
+      expect(recoveryCodes).toHaveLength(RECOVERY_CODE_COUNT)
+      expect(recoveryCodes[0]).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/)
+      expect(await twoFactorService.getStatus(admin.id)).toMatchObject({
+        enabled: true,
+        recovery_codes_remaining: RECOVERY_CODE_COUNT,
+        required: false,
+      })
+      await expect(twoFactorService.setup(admin.id)).rejects.toThrow('已启用两步验证')
+    })
+
+    it('should require a secret before enabling', async () => {
+      await expect(twoFactorService.enable(admin.id, '123456')).rejects.toThrow(ValidationError)
+    })
+  })
+
+  describe('verifyCode', () => {
+    it('should not accept the same time step twice', async () => {
+      const { secret } = await enroll()
+
+      // 绑定时已使用当前时间步
+      expect(await twoFactorService.verifyCode(admin.id, await currentCode(secret))).toBe(false)
+
+      const next = await currentCode(secret, 1)
+      expect(await twoFactorService.verifyCode(admin.id, next)).toBe(true)
+      expect(await twoFactorService.verifyCode(admin.id, next)).toBe(false)
+    })
+
+    it('should accept each recovery code once', async () => {
+      const { recoveryCodes } = await enroll()
+
+      expect(await twoFactorService.verifyCode(admin.id, recoveryCodes[0].toUpperCase())).toBe(true)
+      expect(await twoFactorService.verifyCode(admin.id, recoveryCodes[0])).toBe(false)
+      expect(await twoFactorService.verifyCode(admin.id, 'aaaaa-bbbbb')).toBe(false)
+      expect((await twoFactorService.getStatus(admin.id)).recovery_codes_remaining).toBe(
+        RECOVERY_CODE_COUNT - 1
+      )
+
+      const regenerated = await twoFactorService.regenerateRecoveryCodes(admin.id, recoveryCodes[1])
+      expect(await twoFactorService.verifyCode(admin.id, recoveryCodes[2])).toBe(false)
+      expect(await twoFactorService.verifyCode(admin.id, regenerated[0])).toBe(true)
+    })
+
+    it('should accept all-digit recovery codes entered without the dash', async () => {
+      await enroll()
+      const [code] = db.select().from(userRecoveryCodes).all()
+      db.update(userRecoveryCodes)
+        .set({ code_hash: await sha256Hex('1234567890') })
+        .where(eq(userRecoveryCodes.id, code.id))
+        .run()
+
+      expect(await twoFactorService.verifyCode(admin.id, '1234567890')).toBe(true)
+    })
+  })
+
+  describe('site policy', () => {
+    it('should require MANAGE and above only when the site enables it', async () => {
+      expect(await twoFactorService.isRequired(admin)).toBe(false)
+
+      db.update(sites).set({ require_2fa: 1 }).run()
+
+      expect(await twoFactorService.isRequired(admin)).toBe(true)
+      expect(await twoFactorService.isRequired({ ...admin, type: UserTypeEnum.EDITOR })).toBe(false)
+      expect(await twoFactorService.isRequired({ ...admin, site_id: null })).toBe(false)
+    })
+
+    it('should not allow disabling when required', async () => {
+      const { recoveryCodes } = await enroll()
+      db.update(sites).set({ require_2fa: 1 }).run()
+
+      await expect(twoFactorService.disable(admin.id, recoveryCodes[0])).rejects.toThrow(
+        ValidationError
+      )
+
+      db.update(sites).set({ require_2fa: 0 }).run()
+      await twoFactorService.disable(admin.id, recoveryCodes[0])
+
+      expect(await twoFactorService.getStatus(admin.id)).toMatchObject({
+        enabled: false,
+        recovery_codes_remaining: 0,
+      })
+    })
+
+    it('should reject refresh until enrolled once the site requires it', async () => {
+      const tokenService = new TokenService(db as any, SECRET)
+      const { refreshToken } = (await userService.login('admin', 'admin-hash', 1)) as LoginResult
+      db.update(sites).set({ require_2fa: 1 }).run()
+
+      await expect(tokenService.refresh(refreshToken)).rejects.toThrow(
+        '站点要求启用两步验证，请重新登录'
+      )
+      // 令牌族已被撤销
+      expect(
+        db
+          .select()
+          .from(refreshTokens)
+          .all()
+          .every((token) => token.revoked_at !== null)
+      ).toBe(true)
+
+      const { secret } = await enroll()
+      const challenge = (await userService.login('admin', 'admin-hash', 1)) as TwoFactorChallenge
+      const result = await userService.loginWithTwoFactor(
+        challenge.challengeToken,
+        await currentCode(secret, 1)
+      )
+      await expect(tokenService.refresh(result.refreshToken)).resolves.toHaveProperty('token')
+    })
+  })
+
+  describe('login', () => {
+    it('should issue tokens directly without 2FA', async () => {
+      const result = (await userService.login('admin', 'admin-hash', 1)) as LoginResult
+
+      expect(result.token).toBeDefined()
+      expect(result.refreshToken).toBeDefined()
+    })
+
+    it('should require the second step once enabled', async () => {
+      const { secret, recoveryCodes } = await enroll()
+
+      const challenge = (await userService.login('admin', 'admin-hash', 1)) as TwoFactorChallenge
+
+      expect(challenge).toMatchObject({ twoFactorRequired: true, setupRequired: false })
+      expect((challenge as unknown as LoginResult).token).toBeUndefined()
+      // 挑战令牌不能作为访问令牌使用
+      await expect(verifyToken(challenge.challengeToken, SECRET)).rejects.toThrow()
+
+      await expect(
+        userService.loginWithTwoFactor(challenge.challengeToken, '000000')
+      ).rejects.toThrow(AuthenticationError)
+
+      const result = await userService.loginWithTwoFactor(
+        challenge.challengeToken,
+        await currentCode(secret, 1)
+      )
+      expect(result.user.username).toBe('admin')
+      expect(result.recoveryCodes).toBeUndefined()
+
+      const byRecoveryCode = await userService.loginWithTwoFactor(
+        challenge.challengeToken,
+        recoveryCodes[0]
+      )
+      expect(byRecoveryCode.token).toBeDefined()
+    })
+
+    it('should enrol during login when the site requires 2FA', async () => {
+      db.update(sites).set({ require_2fa: 1 }).run()
+
+      const challenge = (await userService.login('admin', 'admin-hash', 1)) as TwoFactorChallenge
+      expect(challenge.setupRequired).toBe(true)
+
+      const { secret } = await twoFactorService.setupWithChallenge(challenge.challengeToken)
+      const result = await userService.loginWithTwoFactor(
+        challenge.challengeToken,
+        await currentCode(secret)
+      )
+
+      expect(result.token).toBeDefined()
+      expect(result.recoveryCodes).toHaveLength(RECOVERY_CODE_COUNT)
+      expect(await twoFactorService.isEnabled(admin.id)).toBe(true)
+      await expect(twoFactorService.setupWithChallenge(challenge.challengeToken)).rejects.toThrow(
+        '已启用两步验证'
+      )
+    })
+
+    it('should count wrong codes during enrolment as failed logins', async () => {
+      db.update(sites).set({ require_2fa: 1 }).run()
+      const challenge = (await userService.login('admin', 'admin-hash', 1)) as TwoFactorChallenge
+      await twoFactorService.setupWithChallenge(challenge.challengeToken)
+
+      await expect(
+        userService.loginWithTwoFactor(challenge.challengeToken, '000000')
+      ).rejects.toThrow('验证码错误')
+
+      expect(db.select().from(users).where(eq(users.id, admin.id)).get()?.failed_login_count).toBe(
+        1
+      )
+      const attempts = db.select().from(loginAttempts).all()
+      expect(attempts[attempts.length - 1]).toMatchObject({
+        success: 0,
+        reason: '验证码错误',
+      })
+    })
+
+    it('should reject IPs with too many failed logins', async () => {
+      const client = { ip: '203.0.113.7', user_agent: 'vitest' }
+      const { secret } = await enroll()
+      const challenge = (await userService.login('admin', 'admin-hash', 1)) as TwoFactorChallenge
+      for (let i = 0; i < IP_FAILURE_LIMIT; i++) {
+        db.insert(loginAttempts)
+          .values({ method: 'PASSWORD', success: 0, ip: client.ip, created_at: new Date() })
+          .run()
+      }
+
+      await expect(
+        userService.loginWithTwoFactor(
+          challenge.challengeToken,
+          await currentCode(secret, 1),
+          client
+        )
+      ).rejects.toThrow(RateLimitError)
+    })
+
+    it('should reject invalid challenge tokens', async () => {
+      await expect(userService.loginWithTwoFactor('invalid', '123456')).rejects.toThrow(
+        '两步验证已过期，请重新登录'
+      )
+
+      const challenge = await twoFactorService.createChallenge(admin.id, false)
+      db.update(users).set({ status: StatusEnum.DELETE }).where(eq(users.id, admin.id)).run()
+
+      await expect(
+        userService.loginWithTwoFactor(challenge.challengeToken, '123456')
+      ).rejects.toThrow('用户不存在或已停用')
+    })
+  })
+})
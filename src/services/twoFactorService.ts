@@ -0,0 +1,455 @@
+/**
+ * Two-Factor Service
+ *
+ * 基于 TOTP（RFC 6238）的两步验证：
+ * - 绑定：生成密钥和 otpauth URI，用户在验证器应用中添加后提交验证码完成绑定，同时生成恢复码
+ * - 登录：密码或钱包验证通过后签发短期挑战令牌，提交验证码（或恢复码）后才签发登录令牌
+ * - 恢复码：每个只能使用一次，数据库只保存其 SHA-256 哈希
+ * - 站点策略：站点开启 require_2fa 后，MANAGE 及以上用户必须绑定两步验证才能登录
+ *
+ * 每个时间步的验证码只能使用一次（记录最近使用的时间步）。
+ */
+
+import { and, count, eq, isNull, lt } from 'drizzle-orm'
+import type { DrizzleD1Database } from 'drizzle-orm/d1'
+import { jwtVerify, SignJWT } from 'jose'
+import { sites, StatusEnum, users, userRecoveryCodes, userTotp } from '../db/schema'
+import { AuthenticationError, NotFoundError, ValidationError } from '../errors'
+import {
+  LoginMethodEnum,
+  type TwoFactorChallenge,
+  type TwoFactorSetup,
+  type TwoFactorStatus,
+  type User,
+  UserTypeEnum,
+} from '../types'
+import { checkPermission } from '../utils/authorization'
+import { generateSecureToken, sha256Hex } from '../utils/secureToken'
+import { buildOtpauthUri, generateTotpSecret, TOTP_DIGITS, verifyTotp } from '../utils/totp'
+
+// 挑战令牌有效期（秒）
+export const TWO_FACTOR_CHALLENGE_TTL = 5 * 60
+
+// 每次生成的恢复码数量
+export const RECOVERY_CODE_COUNT = 10
+
+// TOTP 验证码格式
+const TOTP_CODE_PATTERN = new RegExp(`^\\d{${TOTP_DIGITS}}$`)
+
+type UserRecord = typeof users.$inferSelect
+type TotpRecord = typeof userTotp.$inferSelect
+
+export class TwoFactorService {
+  constructor(
+    private db: DrizzleD1Database,
+    private jwtSecret: string
+  ) {}
+
+  /**
+   * 查询用户的两步验证状态
+   *
+   * @param userId - 用户ID
+   * @returns 两步验证状态
+   * @throws NotFoundError 如果用户不存在或已被删除
+   */
+  async getStatus(userId: number): Promise<TwoFactorStatus> {
+    const user = await this.getUser(userId)
+    const record = await this.getRecord(userId)
+
+    const [{ remaining }] = await this.db
+      .select({ remaining: count() })
+      .from(userRecoveryCodes)
+      .where(and(eq(userRecoveryCodes.user_id, userId), isNull(userRecoveryCodes.used_at)))
+
+    return {
+      enabled: !!record?.enabled_at,
+      enabled_at: record?.enabled_at ?? null,
+      recovery_codes_remaining: record?.enabled_at ? remaining : 0,
+      required: await this.isRequired(user),
+    }
+  }
+
+  /**
+   * 判断站点是否要求该用户启用两步验证
+   *
+   * @param user - 用户（只用到 type、site_id）
+   * @returns 站点开启 require_2fa 且用户为 MANAGE 及以上时返回 true
+   */
+  async isRequired(user: Pick<User, 'site_id'> & { type: string | null }): Promise<boolean> {
+    if (!user.site_id || !checkPermission(user.type as UserTypeEnum, UserTypeEnum.MANAGE)) {
+      return false
+    }
+
+    const site = await this.db
+      .select({ require_2fa: sites.require_2fa })
+      .from(sites)
+      .where(eq(sites.id, user.site_id))
+      .get()
+
+    return site?.require_2fa === 1
+  }
+
+  /**
+   * 判断用户是否已启用两步验证
+   *
+   * @param userId - 用户ID
+   * @returns 是否已启用
+   */
+  async isEnabled(userId: number): Promise<boolean> {
+    const record = await this.getRecord(userId)
+    return !!record?.enabled_at
+  }
+
+  /**
+   * 生成两步验证密钥
+   *
+   * 重复调用会生成新的密钥，之前未完成绑定的密钥失效。
+   *
+   * @param userId - 用户ID
+   * @returns 密钥和 otpauth URI
+   * @throws NotFoundError 如果用户不存在或已被删除
+   * @throws ValidationError 如果已启用两步验证
+   */
+  async setup(userId: number): Promise<TwoFactorSetup> {
+    const user = await this.getUser(userId)
+
+    if (await this.isEnabled(userId)) {
+      throw new ValidationError('已启用两步验证')
+    }
+
+    const secret = generateTotpSecret()
+    const now = new Date()
+
+    await this.db
+      .insert(userTotp)
+      .values({
+        user_id: userId,
+        secret,
+        enabled_at: null,
+        last_used_step: 0,
+        created_at: now,
+        update_at: now,
+      })
+      .onConflictDoUpdate({
+        target: userTotp.user_id,
+        set: { secret, enabled_at: null, last_used_step: 0, update_at: now },
+      })
+      .run()
+
+    const site = user.site_id
+      ? await this.db.select().from(sites).where(eq(sites.id, user.site_id)).get()
+      : undefined
+
+    return {
+      secret,
+      otpauthUri: buildOtpauthUri(secret, user.username, site?.title || site?.name || ''),
+    }
+  }
+
+  /**
+   * 提交验证码完成绑定
+   *
+   * @param userId - 用户ID
+   * @param code - 验证器应用显示的验证码
+   * @returns 恢复码（只返回一次）
+   * @throws ValidationError 如果未生成密钥、已启用或验证码错误
+   */
+  async enable(userId: number, code: string): Promise<string[]> {
+    const record = await this.getRecord(userId)
+
+    if (!record) {
+      throw new ValidationError('请先获取两步验证密钥')
+    }
+    if (record.enabled_at) {
+      throw new ValidationError('已启用两步验证')
+    }
+
+    const step = await verifyTotp(record.secret, code)
+    if (step === null) {
+      throw new ValidationError('验证码错误')
+    }
+
+    const now = new Date()
+    await this.db
+      .update(userTotp)
+      .set({ enabled_at: now, last_used_step: step, update_at: now })
+      .where(eq(userTotp.id, record.id))
+      .run()
+
+    return this.generateRecoveryCodes(userId)
+  }
+
+  /**
+   * 关闭两步验证
+   *
+   * @param userId - 用户ID
+   * @param code - 验证码或恢复码
+   * @throws ValidationError 如果站点要求启用、未启用或验证码错误
+   */
+  async disable(userId: number, code: string): Promise<void> {
+    const user = await this.getUser(userId)
+
+    if (await this.isRequired(user)) {
+      throw new ValidationError('站点要求管理员启用两步验证，不能关闭')
+    }
+
+    await this.assertCode(userId, code)
+
+    await this.db.delete(userTotp).where(eq(userTotp.user_id, userId)).run()
+    await this.db.delete(userRecoveryCodes).where(eq(userRecoveryCodes.user_id, userId)).run()
+  }
+
+  /**
+   * 重新生成恢复码（旧恢复码全部失效）
+   *
+   * @param userId - 用户ID
+   * @param code - 验证码或恢复码
+   * @returns 新的恢复码（只返回一次）
+   * @throws ValidationError 如果未启用或验证码错误
+   */
+  async regenerateRecoveryCodes(userId: number, code: string): Promise<string[]> {
+    await this.assertCode(userId, code)
+    return this.generateRecoveryCodes(userId)
+  }
+
+  /**
+   * 校验验证码或恢复码
+   *
+   * 恰好 6 位（TOTP_DIGITS）的数字按 TOTP 验证码校验，其他按恢复码校验；
+   * 校验通过后验证码（时间步）或恢复码即被使用。
+   *
+   * @param userId - 用户ID
+   * @param code - 验证码或恢复码
+   * @returns 是否通过（未启用两步验证时返回 false）
+   */
+  async verifyCode(userId: number, code: string): Promise<boolean> {
+    const record = await this.getRecord(userId)
+
+    if (!record?.enabled_at) {
+      return false
+    }
+
+    // 恢复码去掉连字符后也可能全为数字，只按长度区分
+    if (TOTP_CODE_PATTERN.test(code)) {
+      return this.useTotpCode(record, code)
+    }
+
+    return this.useRecoveryCode(userId, code)
+  }
+
+  /**
+   * 签发两步验证挑战令牌
+   *
+   * 挑战令牌使用独立的签名密钥，不能作为访问令牌使用。
+   *
+   * @param userId - 用户ID
+   * @param setupRequired - 是否需要先完成绑定
+   * @param method - 第一步使用的登录方式（完成登录时记录到登录尝试）
+   * @returns 挑战信息
+   */
+  async createChallenge(
+    userId: number,
+    setupRequired: boolean,
+    method: LoginMethodEnum = LoginMethodEnum.PASSWORD
+  ): Promise<TwoFactorChallenge> {
+    const challengeToken = await new SignJWT({ userId, setupRequired, method })
+      .setProtectedHeader({ alg: 'HS256' })
+      .setIssuedAt()
+      .setExpirationTime(`${TWO_FACTOR_CHALLENGE_TTL}s`)
+      .sign(this.getChallengeKey())
+
+    return {
+      twoFactorRequired: true,
+      setupRequired,
+      challengeToken,
+      expiresIn: TWO_FACTOR_CHALLENGE_TTL,
+    }
+  }
+
+  /**
+   * 校验挑战令牌
+   *
+   * @param challengeToken - 挑战令牌
+   * @returns 用户ID、是否需要先完成绑定和第一步使用的登录方式
+   * @throws AuthenticationError 如果令牌无效或已过期
+   */
+  async verifyChallenge(
+    challengeToken: string
+  ): Promise<{ userId: number; setupRequired: boolean; method: LoginMethodEnum }> {
+    try {
+      const { payload } = await jwtVerify(challengeToken, this.getChallengeKey())
+      return {
+        userId: payload.userId as number,
+        setupRequired: payload.setupRequired === true,
+        method:
+          payload.method === LoginMethodEnum.EVM ? LoginMethodEnum.EVM : LoginMethodEnum.PASSWORD,
+      }
+    } catch {
+      throw new AuthenticationError('两步验证已过期，请重新登录')
+    }
+  }
+
+  /**
+   * 使用挑战令牌生成密钥（站点要求启用但用户尚未绑定时，在登录过程中完成绑定）
+   *
+   * @param challengeToken - 挑战令牌
+   * @returns 密钥和 otpauth URI
+   * @throws AuthenticationError 如果令牌无效或已过期
+   * @throws ValidationError 如果用户已启用两步验证
+   */
+  async setupWithChallenge(challengeToken: string): Promise<TwoFactorSetup> {
+    const { userId, setupRequired } = await this.verifyChallenge(challengeToken)
+
+    if (!setupRequired) {
+      throw new ValidationError('已启用两步验证')
+    }
+
+    return this.setup(userId)
+  }
+
+  /**
+   * 校验验证码，失败时抛出错误
+   *
+   * @param userId - 用户ID
+   * @param code - 验证码或恢复码
+   * @throws ValidationError 如果未启用或验证码错误
+   */
+  private async assertCode(userId: number, code: string): Promise<void> {
+    if (!(await this.isEnabled(userId))) {
+      throw new ValidationError('未启用两步验证')
+    }
+    if (!(await this.verifyCode(userId, code))) {
+      throw new ValidationError('验证码错误')
+    }
+  }
+
+  /**
+   * 使用 TOTP 验证码（同一时间步及更早的验证码不能再次使用）
+   *
+   * @param record - 两步验证记录
+   * @param code - 验证码
+   * @returns 是否通过
+   */
+  private async useTotpCode(record: TotpRecord, code: string): Promise<boolean> {
+    const step = await verifyTotp(record.secret, code)
+
+    if (step === null || step <= (record.last_used_step ?? 0)) {
+      return false
+    }
+
+    // 条件更新，避免并发请求重复使用同一验证码
+    const updated = await this.db
+      .update(userTotp)
+      .set({ last_used_step: step, update_at: new Date() })
+      .where(and(eq(userTotp.id, record.id), lt(userTotp.last_used_step, step)))
+      .returning()
+
+    return updated.length > 0
+  }
+
+  /**
+   * 使用恢复码
+   *
+   * @param userId - 用户ID
+   * @param code - 恢复码（忽略大小写和分隔符）
+   * @returns 是否通过
+   */
+  private async useRecoveryCode(userId: number, code: string): Promise<boolean> {
+    const codeHash = await sha256Hex(normalizeRecoveryCode(code))
+
+    const used = await this.db
+      .update(userRecoveryCodes)
+      .set({ used_at: new Date() })
+      .where(
+        and(
+          eq(userRecoveryCodes.user_id, userId),
+          eq(userRecoveryCodes.code_hash, codeHash),
+          isNull(userRecoveryCodes.used_at)
+        )
+      )
+      .returning()
+
+    return used.length > 0
+  }
+
+  /**
+   * 生成恢复码并替换旧恢复码
+   *
+   * @param userId - 用户ID
+   * @returns 恢复码（格式 xxxxx-xxxxx）
+   */
+  private async generateRecoveryCodes(userId: number): Promise<string[]> {
+    const now = new Date()
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const value = generateSecureToken(5)
+      return `${value.slice(0, 5)}-${value.slice(5)}`
+    })
+
+    await this.db.delete(userRecoveryCodes).where(eq(userRecoveryCodes.user_id, userId)).run()
+    await this.db
+      .insert(userRecoveryCodes)
+      .values(
+        await Promise.all(
+          codes.map(async (code) => ({
+            user_id: userId,
+            code_hash: await sha256Hex(normalizeRecoveryCode(code)),
+            used_at: null,
+            created_at: now,
+          }))
+        )
+      )
+      .run()
+
+    return codes
+  }
+
+  /**
+   * 查询用户（未删除）
+   *
+   * @param userId - 用户ID
+   * @returns 用户
+   * @throws NotFoundError 如果用户不存在或已被删除
+   */
+  private async getUser(userId: number): Promise<UserRecord> {
+    const user = await this.db
+      .select()
+      .from(users)
+      .where(and(eq(users.id, userId), eq(users.status, StatusEnum.NORMAL)))
+      .get()
+
+    if (!user) {
+      throw new NotFoundError('用户不存在或已被删除')
+    }
+
+    return user
+  }
+
+  /**
+   * 查询用户的两步验证记录
+   *
+   * @param userId - 用户ID
+   * @returns 两步验证记录，不存在时返回 undefined
+   */
+  private async getRecord(userId: number): Promise<TotpRecord | undefined> {
+    return this.db.select().from(userTotp).where(eq(userTotp.user_id, userId)).get()
+  }
+
+  /**
+   * 获取挑战令牌的签名密钥（与访问令牌的密钥区分）
+   *
+   * @returns 签名密钥
+   */
+  private getChallengeKey(): Uint8Array {
+    return new TextEncoder().encode(`${this.jwtSecret}:2fa`)
+  }
+}
+
+/**
+ * 规范化恢复码（转小写，去掉分隔符和空白）
+ *
+ * @param code - 恢复码
+ * @returns 规范化后的恢复码
+ */
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[^0-9a-z]/g, '')
+}
@@ -32,12 +32,15 @@ describe('用户服务属性测试', () => {
         nickname TEXT NOT NULL,
         avatar TEXT DEFAULT '',
         email TEXT DEFAULT '',
+        email_verified_at INTEGER,
         phone TEXT DEFAULT '',
         gender TEXT DEFAULT 'UNKNOWN',
         type TEXT NOT NULL,
         site_id INTEGER NOT NULL,
         status TEXT DEFAULT 'PENDING',
         last_login_time INTEGER,
+        failed_login_count INTEGER DEFAULT 0,
+        locked_until INTEGER,
         evm_address TEXT DEFAULT '',
         created_at INTEGER NOT NULL,
         update_at INTEGER NOT NULL
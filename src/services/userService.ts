@@ -10,29 +10,57 @@
 import { and, eq } from 'drizzle-orm'
 import type { DrizzleD1Database } from 'drizzle-orm/d1'
 import { StatusEnum, UserTypeEnum, users } from '../db/schema'
-import { AuthenticationError, ConflictError, NotFoundError } from '../errors'
-import type {
-  CreateUserInput,
-  LoginResult,
-  UpdateUserInput,
-  User,
-  UserWithoutPassword,
+import {
+  AuthenticationError,
+  ConflictError,
+  NotFoundError,
+  PreconditionFailedError,
+  ValidationError,
+} from '../errors'
+import {
+  type CreateUserInput,
+  type LoginClient,
+  LoginMethodEnum,
+  type LoginResult,
+  type TwoFactorChallenge,
+  type UpdateUserInput,
+  type User,
+  type UserWithoutPassword,
 } from '../types'
+import { assertIfMatch, nextUpdateAt } from '../utils/etag'
 import {
   generateWalletLoginMessage,
   normalizeEvmAddress,
   validateEvmAddressFormat,
   verifySignatureAndRecoverAddress,
 } from '../utils/evmSignature'
-import { generateToken } from '../utils/jwt'
+import { DEFAULT_ACCESS_TOKEN_EXPIRATION } from '../utils/jwt'
 import { hashPassword, verifyPassword } from '../utils/password'
+import type { CacheManager } from './cacheManager'
+import { LoginAttemptService } from './loginAttemptService'
+import { TokenService } from './tokenService'
+import { TwoFactorService } from './twoFactorService'
+
+type UserRecord = typeof users.$inferSelect
+
+// 未提供客户端信息时使用（不按 IP 统计失败次数）
+const UNKNOWN_CLIENT: LoginClient = { ip: '', user_agent: '' }
 
 export class UserService {
+  private tokenService: TokenService
+  private twoFactorService: TwoFactorService
+  private loginAttemptService: LoginAttemptService
+
   constructor(
     private db: DrizzleD1Database,
-    private jwtSecret: string,
-    private jwtExpiration: string = '7d'
-  ) {}
+    jwtSecret: string,
+    jwtExpiration: string = DEFAULT_ACCESS_TOKEN_EXPIRATION,
+    cacheManager?: CacheManager
+  ) {
+    this.tokenService = new TokenService(db, jwtSecret, jwtExpiration, cacheManager)
+    this.twoFactorService = new TwoFactorService(db, jwtSecret)
+    this.loginAttemptService = new LoginAttemptService(db)
+  }
 
   /**
    * 创建用户
@@ -111,32 +139,59 @@ export class UserService {
     return this.excludePassword(result)
   }
 
+  /**
+   * 获取单个用户
+   *
+   * 只返回当前站点未删除的用户，不包含密码哈希。
+   *
+   * @param id - 用户ID
+   * @param siteId - 站点ID
+   * @returns 用户（不含密码）
+   * @throws NotFoundError 如果用户不存在或已被删除
+   */
+  async getById(id: number, siteId: number): Promise<UserWithoutPassword> {
+    const user = await this.db
+      .select()
+      .from(users)
+      .where(and(eq(users.id, id), eq(users.site_id, siteId), eq(users.status, StatusEnum.NORMAL)))
+      .get()
+
+    if (!user) {
+      throw new NotFoundError('用户不存在或已被删除')
+    }
+
+    return this.excludePassword(user)
+  }
+
   /**
    * 更新用户
    *
    * 如果提供新密码，自动哈希。
    * 如果提供 EVM 地址，验证格式和唯一性。
+   * 密码、类型或状态变化后撤销该用户已签发的全部令牌。
    * 不更新已删除的用户。
    * 响应中不包含密码哈希。
    *
    * @param id - 用户ID
    * @param data - 用户更新数据
    * @param siteId - 站点ID
+   * @param ifMatch - If-Match 请求头（可选，与当前版本不一致时拒绝更新）
    * @returns 更新后的用户（不含密码）
+   * @throws PreconditionFailedError 如果用户已被修改
    *
    * **验证需求**: 5.3, 5.4, 5.8, 5.9, 10.4
    */
-  async update(id: number, data: UpdateUserInput, siteId: number): Promise<UserWithoutPassword> {
+  async update(
+    id: number,
+    data: UpdateUserInput,
+    siteId: number,
+    ifMatch?: string
+  ): Promise<UserWithoutPassword> {
     // 检查用户是否存在且未被删除
-    const existingUser = await this.db
-      .select()
-      .from(users)
-      .where(and(eq(users.id, id), eq(users.site_id, siteId), eq(users.status, StatusEnum.NORMAL)))
-      .get()
+    const existingUser = await this.getById(id, siteId)
 
-    if (!existingUser) {
-      throw new NotFoundError('用户不存在或已被删除')
-    }
+    // 校验版本
+    assertIfMatch(ifMatch, existingUser)
 
     // 如果更新用户名，验证唯一性
     if (data.username && data.username !== existingUser.username) {
@@ -181,13 +236,17 @@ export class UserService {
 
     // 准备更新数据
     const updateData: any = {
-      update_at: new Date(),
+      update_at: nextUpdateAt(existingUser.update_at),
     }
 
     if (data.username !== undefined) updateData.username = data.username
     if (data.nickname !== undefined) updateData.nickname = data.nickname
     if (data.avatar !== undefined) updateData.avatar = data.avatar
     if (data.email !== undefined) updateData.email = data.email
+    // 邮箱变化后需要重新验证
+    if (data.email !== undefined && data.email !== existingUser.email) {
+      updateData.email_verified_at = null
+    }
     if (data.phone !== undefined) updateData.phone = data.phone
     if (data.gender !== undefined) updateData.gender = data.gender
     if (data.type !== undefined) updateData.type = data.type
@@ -200,7 +259,28 @@ export class UserService {
     }
 
     // 更新用户记录
-    const [result] = await this.db.update(users).set(updateData).where(eq(users.id, id)).returning()
+    const [result] = await this.db
+      .update(users)
+      .set(updateData)
+      .where(
+        ifMatch !== undefined
+          ? and(eq(users.id, id), eq(users.update_at, existingUser.update_at))
+          : eq(users.id, id)
+      )
+      .returning()
+
+    if (!result) {
+      throw new PreconditionFailedError()
+    }
+
+    // 密码、类型或状态变化后撤销已签发的令牌，用户需要重新登录
+    if (
+      data.password ||
+      (data.type !== undefined && data.type !== existingUser.type) ||
+      (data.status !== undefined && data.status !== existingUser.status)
+    ) {
+      await this.tokenService.revokeUserTokens(id)
+    }
 
     // 返回用户对象（不含密码）
     return this.excludePassword(result)
@@ -231,22 +311,86 @@ export class UserService {
     if (result.length === 0) {
       throw new NotFoundError('用户不存在')
     }
+
+    // 撤销已签发的令牌
+    await this.tokenService.revokeUserTokens(id)
+  }
+
+  /**
+   * 修改密码
+   *
+   * 验证当前密码后更新为新密码（均为前端 SHA256 哈希值），并撤销该用户其他登录签发的令牌。
+   *
+   * @param id - 用户ID
+   * @param currentPassword - 当前密码的 SHA256 哈希
+   * @param newPassword - 新密码的 SHA256 哈希
+   * @param siteId - 站点ID
+   * @param currentJti - 当前访问令牌 ID（可选，保留当前登录）
+   * @throws NotFoundError 如果用户不存在或已被删除
+   * @throws ValidationError 如果当前密码错误
+   */
+  async changePassword(
+    id: number,
+    currentPassword: string,
+    newPassword: string,
+    siteId: number,
+    currentJti?: string
+  ): Promise<void> {
+    const user = await this.db
+      .select()
+      .from(users)
+      .where(and(eq(users.id, id), eq(users.site_id, siteId), eq(users.status, StatusEnum.NORMAL)))
+      .get()
+
+    if (!user) {
+      throw new NotFoundError('用户不存在或已被删除')
+    }
+
+    const isPasswordValid = await verifyPassword(currentPassword, user.password)
+    if (!isPasswordValid) {
+      throw new ValidationError('当前密码错误')
+    }
+
+    await this.db
+      .update(users)
+      .set({
+        password: await hashPassword(newPassword),
+        update_at: nextUpdateAt(user.update_at),
+      })
+      .where(eq(users.id, id))
+      .run()
+
+    await this.tokenService.revokeUserTokens(id, currentJti)
   }
 
   /**
    * 用户登录
    *
-   * 接收前端传来的 SHA256 哈希密码，验证用户名和密码，生成 JWT token。
+   * 接收前端传来的 SHA256 哈希密码，验证用户名和密码，签发访问令牌和刷新令牌。
    * 更新最后登录时间。
+   * 用户已启用两步验证（或站点要求启用）时返回两步验证挑战，提交验证码后才签发令牌。
+   * 每次尝试都会记录，连续失败达到阈值后账户临时锁定，同一 IP 失败过多时拒绝登录。
    *
    * @param username - 用户名
    * @param passwordHash - SHA256 哈希后的密码
    * @param siteId - 站点ID
-   * @returns JWT token 和用户信息（不含密码）
+   * @param client - 客户端信息（IP、User-Agent）
+   * @returns 访问令牌、刷新令牌和用户信息（不含密码），或两步验证挑战
+   * @throws AuthenticationError 如果用户名或密码错误
+   * @throws AccountLockedError 如果密码正确但账户处于锁定状态（密码错误时不暴露锁定状态）
+   * @throws RateLimitError 如果该 IP 失败次数过多
    *
    * **验证需求**: 10.2, 10.5
    */
-  async login(username: string, passwordHash: string, siteId: number): Promise<LoginResult> {
+  async login(
+    username: string,
+    passwordHash: string,
+    siteId: number,
+    client: LoginClient = UNKNOWN_CLIENT
+  ): Promise<LoginResult | TwoFactorChallenge> {
+    const method = LoginMethodEnum.PASSWORD
+    await this.loginAttemptService.assertIpAllowed(client.ip)
+
     // 查找用户
     const user = await this.db
       .select()
@@ -261,42 +405,108 @@ export class UserService {
       .get()
 
     if (!user) {
+      await this.loginAttemptService.recordFailure({
+        username,
+        siteId,
+        method,
+        reason: '用户不存在',
+        client,
+      })
       throw new AuthenticationError('用户名或密码错误')
     }
 
     // 验证密码（passwordHash 是前端传来的 SHA256 哈希）
+    // 密码错误时无论是否锁定都返回相同的错误，避免泄露用户是否存在和锁定状态
     const isPasswordValid = await verifyPassword(passwordHash, user.password)
     if (!isPasswordValid) {
+      await this.loginAttemptService.recordFailure({
+        user,
+        username,
+        siteId,
+        method,
+        reason: '密码错误',
+        client,
+      })
       throw new AuthenticationError('用户名或密码错误')
     }
 
-    // 更新最后登录时间
-    const now = new Date()
-    await this.db
-      .update(users)
-      .set({
-        last_login_time: now,
-        update_at: now,
-      })
-      .where(eq(users.id, user.id))
-      .run()
+    await this.loginAttemptService.assertNotLocked(user, method, client)
+
+    return this.completeLogin(user, method, client)
+  }
+
+  /**
+   * 两步验证登录
+   *
+   * 使用登录返回的挑战令牌和验证码（或恢复码）完成登录。
+   * 站点要求启用但用户尚未绑定时，先通过挑战令牌获取密钥，提交的验证码同时完成绑定并返回恢复码。
+   *
+   * 与密码登录相同，先检查 IP 是否允许登录；验证码错误（包括绑定时）计入连续失败次数。
+   *
+   * @param challengeToken - 挑战令牌
+   * @param code - 验证码或恢复码
+   * @param client - 客户端信息（IP、User-Agent）
+   * @returns 访问令牌、刷新令牌和用户信息（不含密码），完成绑定时包含恢复码
+   * @throws AuthenticationError 如果挑战令牌无效、用户已停用或验证码错误
+   * @throws AccountLockedError 如果账户处于锁定状态
+   * @throws RateLimitError 如果该 IP 登录失败次数过多
+   * @throws ValidationError 如果绑定时验证码错误
+   */
+  async loginWithTwoFactor(
+    challengeToken: string,
+    code: string,
+    client: LoginClient = UNKNOWN_CLIENT
+  ): Promise<LoginResult> {
+    await this.loginAttemptService.assertIpAllowed(client.ip)
+
+    const { userId, setupRequired, method } =
+      await this.twoFactorService.verifyChallenge(challengeToken)
+
+    const user = await this.db
+      .select()
+      .from(users)
+      .where(and(eq(users.id, userId), eq(users.status, StatusEnum.NORMAL)))
+      .get()
 
-    // 生成 JWT token
-    const token = await generateToken(
-      {
-        userId: user.id,
+    if (!user) {
+      throw new AuthenticationError('用户不存在或已停用')
+    }
+
+    await this.loginAttemptService.assertNotLocked(user, method, client)
+
+    if (setupRequired) {
+      let recoveryCodes: string[]
+      try {
+        recoveryCodes = await this.twoFactorService.enable(user.id, code)
+      } catch (error) {
+        if (error instanceof ValidationError) {
+          await this.loginAttemptService.recordFailure({
+            user,
+            username: user.username,
+            siteId: user.site_id,
+            method,
+            reason: error.message,
+            client,
+          })
+        }
+        throw error
+      }
+      return { ...(await this.issueLogin(user, method, client)), recoveryCodes }
+    }
+
+    if (!(await this.twoFactorService.verifyCode(user.id, code))) {
+      await this.loginAttemptService.recordFailure({
+        user,
         username: user.username,
-        type: user.type as UserTypeEnum,
         siteId: user.site_id,
-      },
-      this.jwtSecret,
-      this.jwtExpiration
-    )
-
-    return {
-      token,
-      user: this.excludePassword(user),
+        method,
+        reason: '验证码错误',
+        client,
+      })
+      throw new AuthenticationError('验证码错误')
     }
+
+    return this.issueLogin(user, method, client)
   }
 
   /**
@@ -454,22 +664,38 @@ export class UserService {
   /**
    * EVM 钱包登录
    *
-   * 验证签名，恢复签名者地址，查找对应用户并生成 JWT token。
-   * 更新最后登录时间。
+   * 验证签名，恢复签名者地址，查找对应用户并签发访问令牌和刷新令牌。
+   * 更新最后登录时间。与用户名密码登录相同，需要两步验证时返回挑战。
    *
    * @param signature - 签名字符串
    * @param message - 被签名的消息
    * @param siteId - 站点ID
-   * @returns JWT token 和用户信息（不含密码）
+   * @param client - 客户端信息（IP、User-Agent）
+   * @returns 访问令牌、刷新令牌和用户信息（不含密码），或两步验证挑战
    *
    * **验证需求**: 21.3, 21.4, 21.5, 21.6, 21.8
    */
-  async loginWithWallet(signature: string, message: string, siteId: number): Promise<LoginResult> {
+  async loginWithWallet(
+    signature: string,
+    message: string,
+    siteId: number,
+    client: LoginClient = UNKNOWN_CLIENT
+  ): Promise<LoginResult | TwoFactorChallenge> {
+    const method = LoginMethodEnum.EVM
+    await this.loginAttemptService.assertIpAllowed(client.ip)
+
     // 验证签名并恢复地址
     let recoveredAddress: string
     try {
       recoveredAddress = await verifySignatureAndRecoverAddress(message, signature as `0x${string}`)
     } catch (error) {
+      await this.loginAttemptService.recordFailure({
+        username: '',
+        siteId,
+        method,
+        reason: '签名验证失败',
+        client,
+      })
       throw new AuthenticationError('签名验证失败')
     }
 
@@ -480,36 +706,19 @@ export class UserService {
     const user = await this.findByEvmAddress(normalizedAddress, siteId)
 
     if (!user) {
+      await this.loginAttemptService.recordFailure({
+        username: normalizedAddress,
+        siteId,
+        method,
+        reason: '钱包地址未关联用户',
+        client,
+      })
       throw new AuthenticationError('未找到关联的用户账户')
     }
 
-    // 更新最后登录时间
-    const now = new Date()
-    await this.db
-      .update(users)
-      .set({
-        last_login_time: now,
-        update_at: now,
-      })
-      .where(eq(users.id, user.id))
-      .run()
-
-    // 生成 JWT token
-    const token = await generateToken(
-      {
-        userId: user.id,
-        username: user.username,
-        type: user.type as UserTypeEnum,
-        siteId: user.site_id,
-      },
-      this.jwtSecret,
-      this.jwtExpiration
-    )
+    await this.loginAttemptService.assertNotLocked(user, method, client)
 
-    return {
-      token,
-      user: this.excludePassword(user),
-    }
+    return this.completeLogin(user, method, client)
   }
 
   /**
@@ -525,6 +734,66 @@ export class UserService {
     return generateWalletLoginMessage()
   }
 
+  /**
+   * 第一步验证通过后完成登录
+   *
+   * 已启用两步验证时返回验证挑战；站点要求启用但尚未绑定时返回绑定挑战；否则直接签发令牌。
+   *
+   * @param user - 已通过密码或签名验证的用户
+   * @param method - 登录方式
+   * @param client - 客户端信息
+   * @returns 登录结果或两步验证挑战
+   */
+  private async completeLogin(
+    user: User | UserRecord,
+    method: LoginMethodEnum,
+    client: LoginClient
+  ): Promise<LoginResult | TwoFactorChallenge> {
+    if (await this.twoFactorService.isEnabled(user.id)) {
+      return this.twoFactorService.createChallenge(user.id, false, method)
+    }
+    if (await this.twoFactorService.isRequired(user)) {
+      return this.twoFactorService.createChallenge(user.id, true, method)
+    }
+
+    return this.issueLogin(user, method, client)
+  }
+
+  /**
+   * 更新最后登录时间，记录登录成功（清零连续失败次数），签发访问令牌和刷新令牌
+   *
+   * @param user - 用户
+   * @param method - 登录方式
+   * @param client - 客户端信息
+   * @returns 访问令牌、刷新令牌和用户信息（不含密码）
+   */
+  private async issueLogin(
+    user: User | UserRecord,
+    method: LoginMethodEnum,
+    client: LoginClient
+  ): Promise<LoginResult> {
+    // 更新最后登录时间
+    const now = new Date()
+    await this.db
+      .update(users)
+      .set({
+        last_login_time: now,
+        update_at: now,
+      })
+      .where(eq(users.id, user.id))
+      .run()
+
+    await this.loginAttemptService.recordSuccess(user, method, client)
+
+    // 签发访问令牌和刷新令牌
+    const tokens = await this.tokenService.issue(user)
+
+    return {
+      ...tokens,
+      user: this.excludePassword({ ...user, failed_login_count: 0, locked_until: null }),
+    }
+  }
+
   /**
    * 从用户对象中排除密码字段
    *
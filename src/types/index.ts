@@ -1,3 +1,47 @@
+import type { z } from 'zod'
+import type {
+  articleFacetQuerySchema,
+  changePasswordSchema,
+  articleListQuerySchema,
+  articleReindexQuerySchema,
+  articleSearchQuerySchema,
+  createArticleSchema,
+  createChannelSchema,
+  createDictSchema,
+  createPromoSchema,
+  createSiteDomainSchema,
+  createSiteSchema,
+  createUserSchema,
+  dictQuerySchema,
+  forgotPasswordSchema,
+  listQuerySchema,
+  loginSchema,
+  paginationQuerySchema,
+  publicArticleQuerySchema,
+  publicTagArticleQuerySchema,
+  refreshTokenSchema,
+  registerSchema,
+  rejectArticleSchema,
+  resetPasswordSchema,
+  revisionDiffQuerySchema,
+  statusListQuerySchema,
+  twoFactorChallengeSchema,
+  twoFactorCodeSchema,
+  twoFactorLoginSchema,
+  updateArticleSchema,
+  updateChannelSchema,
+  updateDictSchema,
+  updateMailTemplateSchema,
+  updateProfileSchema,
+  updatePromoSchema,
+  updateSiteSchema,
+  updateSiteSettingsSchema,
+  updateUserSchema,
+  userListQuerySchema,
+  verifyEmailSchema,
+  walletLoginSchema,
+} from './schemas'
+
 // ============================================================================
 // 枚举类型（Enums）
 // ============================================================================
@@ -7,6 +51,8 @@ export enum StatusEnum {
   PENDING = 'PENDING', // 待审核
   NORMAL = 'NORMAL', // 审核通过
   FAILURE = 'FAILURE', // 审核未通过
+  SCHEDULED = 'SCHEDULED', // 审核通过，等待定时发布（仅文章）
+  EXPIRED = 'EXPIRED', // 审核通过，已到定时下线时间（仅文章）
   DELETE = 'DELETE', // 已删除（软删除）
 }
 
@@ -56,6 +102,20 @@ export enum LogTypeEnum {
   POST = 'POST', // 新增操作
   PUT = 'PUT', // 修改操作
   DELETE = 'DELETE', // 删除操作
+  LOGIN = 'LOGIN', // 登录成功
+  LOGIN_FAILED = 'LOGIN_FAILED', // 登录失败
+}
+
+// 登录方式枚举
+export enum LoginMethodEnum {
+  PASSWORD = 'PASSWORD', // 用户名密码登录
+  EVM = 'EVM', // EVM 钱包签名登录
+}
+
+// 用户一次性令牌类型枚举（每种类型对应一封账户邮件）
+export enum UserTokenTypeEnum {
+  PASSWORD_RESET = 'PASSWORD_RESET', // 重置密码
+  EMAIL_VERIFICATION = 'EMAIL_VERIFICATION', // 验证邮箱
 }
 
 // 业务状态码枚举（前后端同步）
@@ -102,11 +162,24 @@ export interface Site {
   keywords: string
   description: string
   copyright: string
+  max_revisions: number
+  mail_sender_name: string
+  require_2fa: number
   status: StatusEnum
   created_at: Date
   update_at: Date
 }
 
+// 站点域名接口
+export interface SiteDomain {
+  id: number
+  site_id: number
+  domain: string
+  is_primary: number
+  created_at: Date
+  update_at: Date
+}
+
 // 文章接口
 export interface Article {
   id: number
@@ -126,12 +199,64 @@ export interface Article {
   user_id: number | null
   type: ArticleTypeEnum
   status: StatusEnum
+  reject_reason: string
+  publish_at: Date | null
+  unpublish_at: Date | null
   is_top: number
   site_id: number
   created_at: Date
   update_at: Date
 }
 
+// 公开文章接口（前台接口返回，排除敏感字段）
+export type PublicArticle = Omit<Article, 'user_id' | 'editor_id' | 'reject_reason'>
+
+// 公开文章摘要接口（前台列表返回，不含正文）
+export type PublicArticleSummary = Omit<PublicArticle, 'content' | 'markdown'>
+
+// 公开站点信息（前台接口返回，只包含展示字段，不含状态和内部设置）
+export type PublicSite = Pick<
+  Site,
+  'name' | 'title' | 'logo' | 'keywords' | 'description' | 'copyright'
+>
+
+// 文章全文搜索参数（q 必填，page/pageSize 默认 1/10）
+export type ArticleSearchParams = z.infer<typeof articleSearchQuerySchema>
+
+// 文章全文搜索结果（不含正文，附带相关度和高亮摘要）
+export type ArticleSearchResult = Omit<Article, 'content' | 'markdown'> & {
+  score: number
+  highlights: {
+    title: string
+    description: string
+    content: string
+  }
+}
+
+// 文章搜索索引重建查询参数
+export type ArticleReindexQuery = z.infer<typeof articleReindexQuerySchema>
+
+// 文章搜索索引重建结果（nextCursor 为 null 表示已完成）
+export interface ArticleReindexResult {
+  indexed: number
+  nextCursor: number | null
+}
+
+// 文章修订版本接口
+export interface ArticleRevision {
+  id: number
+  article_id: number
+  title: string
+  description: string
+  content: string
+  markdown: string
+  changed_fields: string // JSON数组
+  restored_from: number | null
+  user_id: number | null
+  site_id: number
+  created_at: Date
+}
+
 // 栏目接口
 export interface Channel {
   id: number
@@ -161,12 +286,15 @@ export interface User {
   nickname: string
   avatar: string
   email: string
+  email_verified_at: Date | null // 邮箱验证时间
   phone: string
   gender: GenderEnum
   type: UserTypeEnum
   site_id: number | null
   status: StatusEnum
   last_login_time: Date | null
+  failed_login_count: number // 连续登录失败次数
+  locked_until: Date | null // 账户锁定截止时间
   evm_address: string | null // EVM 钱包地址（可选）
   created_at: Date
   update_at: Date
@@ -185,6 +313,11 @@ export interface Dict {
   update_at: Date
 }
 
+// 标签及使用次数
+export interface TagWithCount extends Dict {
+  article_count: number
+}
+
 // 推广接口
 export interface Promo {
   id: number
@@ -216,6 +349,20 @@ export interface Log {
   created_at: Date
 }
 
+// 登录尝试记录
+export interface LoginAttempt {
+  id: number
+  user_id: number | null
+  username: string
+  method: LoginMethodEnum
+  success: number // 1 为成功，0 为失败
+  reason: string // 失败原因
+  ip: string
+  user_agent: string
+  site_id: number | null
+  created_at: Date
+}
+
 // ============================================================================
 // 请求/响应类型（Request/Response Types）
 // ============================================================================
@@ -237,23 +384,128 @@ export interface QueryParams {
   search?: string
   searchFields?: string[]
 
+  // 游标分页参数（指定后忽略 page，使用键集分页）
+  cursor?: string
+
+  // 是否统计总数（默认 true，false 时跳过 count 查询）
+  withTotal?: boolean
+
   // 比较运算符
-  comparisons?: {
-    field: string
-    operator: 'gt' | 'lt' | 'gte' | 'lte'
-    value: any
-  }[]
+  comparisons?: FilterCondition[]
+
+  // 过滤条件组（支持嵌套 AND/OR，由 parseFilterQuery 从 filter[...] 参数解析）
+  filterGroup?: FilterGroup
+  // 返回字段（稀疏字段集，未指定时返回全部字段）
+  fields?: string[]
+
+  // 展开的关联（如 channel、author、origin、tags）
+  expand?: string[]
+}
+
+// 列表查询字符串参数（由 listQuerySchema 校验和转换，可直接展开为 QueryParams）
+export type ListQuery = z.infer<typeof listQuerySchema>
+
+// 分页查询字符串参数
+export type PaginationQuery = z.infer<typeof paginationQuerySchema>
+
+// 文章列表查询字符串参数（tag_id 为标签过滤）
+export type ArticleListQuery = z.infer<typeof articleListQuerySchema>
+
+// 文章分面统计查询字符串参数
+export type ArticleFacetQuery = z.infer<typeof articleFacetQuerySchema>
+
+// 文章修订版本对比查询字符串参数
+export type RevisionDiffQuery = z.infer<typeof revisionDiffQuerySchema>
+
+// 公开文章列表查询字符串参数
+export type PublicArticleQuery = z.infer<typeof publicArticleQuerySchema>
+
+// 按标签查询公开文章的查询字符串参数
+export type PublicTagArticleQuery = z.infer<typeof publicTagArticleQuerySchema>
+
+// 字典查询字符串参数
+export type DictQuery = z.infer<typeof dictQuerySchema>
+
+// 带状态过滤的列表查询字符串参数（站点、标签）
+export type StatusListQuery = z.infer<typeof statusListQuerySchema>
+
+// 用户列表查询字符串参数
+export type UserListQuery = z.infer<typeof userListQuerySchema>
+
+// 过滤运算符
+export type FilterOperator =
+  | 'eq'
+  | 'ne'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'in'
+  | 'nin'
+  | 'between'
+  | 'isNull'
+  | 'notNull'
+  | 'startsWith'
+
+// 过滤条件
+export interface FilterCondition {
+  field: string
+  operator: FilterOperator
+  value?: any // in/nin/between 为数组，isNull/notNull 不需要
+}
+
+// 过滤条件组
+export interface FilterGroup {
+  logic: 'and' | 'or'
+  conditions: (FilterCondition | FilterGroup)[]
 }
 
 // 分页结果接口
 export interface PaginatedResult<T> {
   data: T[]
-  total: number
-  page: number
+  total: number | null // withTotal=false 时为 null
+  page: number | null // 游标分页时为 null
   pageSize: number
-  totalPages: number
+  totalPages: number | null // withTotal=false 时为 null
+  hasMore?: boolean // 是否有下一页
+  nextCursor?: string | null // 下一页游标（没有下一页时为 null）
+  prevCursor?: string | null // 上一页游标（没有上一页时为 null）
+}
+
+// 分面统计的日期分组粒度
+export type FacetInterval = 'day' | 'month' | 'year'
+
+// 分面统计字段
+export interface FacetRequest {
+  field: string
+  interval?: FacetInterval // 日期分组粒度（日期字段必填）
+}
+
+// 分面统计分组
+export interface FacetBucket {
+  value: string | number | null // 字段值（日期字段为 2024-01-31、2024-01 或 2024 格式）
+  count: number
+}
+
+// 分面统计结果
+export interface FacetResult {
+  total: number // 满足条件的记录总数
+  facets: Record<string, FacetBucket[]> // 键为字段名（日期字段为 字段名:粒度，如 created_at:month）
 }
 
+// JSON Patch 操作（RFC 6902）
+export interface JsonPatchOperation {
+  op: 'add' | 'remove' | 'replace' | 'move' | 'copy' | 'test'
+  path: string // JSON Pointer（如 /title、/tags/0）
+  from?: string // move、copy 的源路径
+  value?: unknown // add、replace、test 的值
+}
+
+// PATCH 请求体
+export type PatchRequest =
+  | { type: 'merge'; patch: Record<string, unknown> } // application/merge-patch+json（RFC 7396）
+  | { type: 'json'; operations: JsonPatchOperation[] } // application/json-patch+json（RFC 6902）
+
 // 成功响应接口
 export interface SuccessResponse<T = any> {
   success: true
@@ -267,6 +519,8 @@ export interface ErrorResponse {
     code: string
     message: string
     details?: Record<string, string[]>
+    etag?: string // 资源当前版本（412 版本冲突时返回）
+    retryAfter?: number // 距离可以再次请求的秒数（429 限流、423 账户锁定时返回）
   }
 }
 
@@ -283,6 +537,8 @@ export interface AuthContext {
   username: string
   type: UserTypeEnum
   siteId: number | null
+  jti?: string // 访问令牌 ID（注销时撤销）
+  exp?: number // 访问令牌过期时间（Unix 秒级时间戳）
 }
 
 // 站点上下文接口
@@ -300,124 +556,66 @@ export interface RequestContext {
 
 // ============================================================================
 // 创建/更新输入类型（Create/Update Input Types）
+// 由 types/schemas.ts 中的校验模式推导，与请求校验规则保持一致
 // ============================================================================
 
 // 站点创建输入
-export interface CreateSiteInput {
-  name: string
-  title?: string
-  logo?: string
-  keywords?: string
-  description?: string
-  copyright?: string
-}
+export type CreateSiteInput = z.infer<typeof createSiteSchema>
 
 // 站点更新输入
-export interface UpdateSiteInput {
-  name?: string
-  title?: string
-  logo?: string
-  keywords?: string
-  description?: string
-  copyright?: string
-  status?: StatusEnum
-}
+export type UpdateSiteInput = z.infer<typeof updateSiteSchema>
+
+// 站点设置更新输入（站点管理员可修改的展示信息）
+export type UpdateSiteSettingsInput = z.infer<typeof updateSiteSettingsSchema>
+
+// 站点域名创建输入
+export type CreateSiteDomainInput = z.infer<typeof createSiteDomainSchema>
 
 // 文章创建输入
-export interface CreateArticleInput {
-  title: string
-  channel_id: number
-  tags?: string
-  description?: string
-  content?: string
-  markdown?: string
-  img?: string
-  video?: string
-  author?: string
-  author_id?: number
-  origin?: string
-  origin_id?: number
-  editor_id?: number
-  type?: ArticleTypeEnum
-  is_top?: number
-}
+export type CreateArticleInput = z.infer<typeof createArticleSchema>
+
+// 文章标签输入（标签ID或标签名称，名称不存在时自动创建 TAG 字典条目）
+export type ArticleTagInput = number | string
+
+// 文章定时发布/下线时间（Date、ISO 字符串或 Unix 秒级时间戳，null 表示清除）
+export type ArticleScheduleTime = Date | string | number | null
 
 // 文章更新输入
-export interface UpdateArticleInput {
-  title?: string
-  channel_id?: number
-  tags?: string
-  description?: string
-  content?: string
-  markdown?: string
-  img?: string
-  video?: string
-  author?: string
-  author_id?: number
-  origin?: string
-  origin_id?: number
-  editor_id?: number
-  type?: ArticleTypeEnum
-  status?: StatusEnum
-  is_top?: number
+export type UpdateArticleInput = z.infer<typeof updateArticleSchema>
+
+// 文章驳回输入
+export type RejectArticleInput = z.infer<typeof rejectArticleSchema>
+
+// 文章状态转换结果
+export interface ArticleStatusTransition {
+  article: Article
+  from: StatusEnum
+  to: StatusEnum
 }
 
 // 栏目创建输入
-export interface CreateChannelInput {
-  name: string
-  pid?: number
-  sort?: number
-  keywords?: string
-  description?: string
-  type?: ChannelTypeEnum
-  img?: string
-}
+export type CreateChannelInput = z.infer<typeof createChannelSchema>
 
 // 栏目更新输入
-export interface UpdateChannelInput {
-  name?: string
-  pid?: number
-  sort?: number
-  keywords?: string
-  description?: string
-  type?: ChannelTypeEnum
-  status?: StatusEnum
-  img?: string
-}
+export type UpdateChannelInput = z.infer<typeof updateChannelSchema>
 
 // 用户创建输入
-export interface CreateUserInput {
-  username: string
-  password: string
-  nickname?: string
-  avatar?: string
-  email?: string
-  phone?: string
-  gender?: GenderEnum
-  type?: UserTypeEnum
-  evm_address?: string // EVM 钱包地址（可选）
-}
+export type CreateUserInput = z.infer<typeof createUserSchema>
 
 // 用户更新输入
-export interface UpdateUserInput {
-  username?: string
-  password?: string
-  nickname?: string
-  avatar?: string
-  email?: string
-  phone?: string
-  gender?: GenderEnum
-  type?: UserTypeEnum
-  status?: StatusEnum
-  evm_address?: string // EVM 钱包地址（可选）
-}
+export type UpdateUserInput = z.infer<typeof updateUserSchema>
+
+// 用户注册输入（昵称必填，不能指定用户类型）
+export type RegisterInput = z.infer<typeof registerSchema>
+
+// 用户资料更新输入（当前用户修改自己的资料）
+export type UpdateProfileInput = z.infer<typeof updateProfileSchema>
+
+// 修改密码请求（密码均为 SHA256 哈希值）
+export type ChangePasswordRequest = z.infer<typeof changePasswordSchema>
 
 // EVM 钱包登录请求
-export interface WalletLoginRequest {
-  evmAddress: string // EVM 钱包地址
-  signature: string // 签名
-  message: string // 被签名的消息（nonce）
-}
+export type WalletLoginRequest = z.infer<typeof walletLoginSchema>
 
 // 钱包登录 nonce 响应
 export interface WalletNonceResponse {
@@ -426,46 +624,16 @@ export interface WalletNonceResponse {
 }
 
 // 字典创建输入
-export interface CreateDictInput {
-  name: string
-  type: DictTypeEnum
-  value?: string
-  sort?: number
-}
+export type CreateDictInput = z.infer<typeof createDictSchema>
 
 // 字典更新输入
-export interface UpdateDictInput {
-  name?: string
-  type?: DictTypeEnum
-  value?: string
-  sort?: number
-  status?: StatusEnum
-}
+export type UpdateDictInput = z.infer<typeof updateDictSchema>
 
 // 推广创建输入
-export interface CreatePromoInput {
-  title: string
-  img?: string
-  url?: string
-  position?: string
-  content?: string
-  start_time?: Date
-  end_time?: Date
-  sort?: number
-}
+export type CreatePromoInput = z.infer<typeof createPromoSchema>
 
 // 推广更新输入
-export interface UpdatePromoInput {
-  title?: string
-  img?: string
-  url?: string
-  position?: string
-  content?: string
-  start_time?: Date
-  end_time?: Date
-  sort?: number
-  status?: StatusEnum
-}
+export type UpdatePromoInput = z.infer<typeof updatePromoSchema>
 
 // 日志创建输入
 export interface CreateLogInput {
@@ -492,6 +660,9 @@ export interface LogQueryParams extends QueryParams {
 // 认证相关类型（Authentication Types）
 // ============================================================================
 
+// 登录请求体
+export type LoginRequest = z.infer<typeof loginSchema>
+
 // 登录输入
 export interface LoginInput {
   username: string
@@ -499,10 +670,86 @@ export interface LoginInput {
   siteId: number
 }
 
+// 登录客户端信息（用于登录失败统计和审计日志）
+export interface LoginClient {
+  ip: string
+  user_agent: string
+}
+
+// 令牌对（访问令牌 + 刷新令牌）
+export interface TokenPair {
+  token: string // 访问令牌（JWT）
+  refreshToken: string // 刷新令牌（只能使用一次，刷新后轮换）
+  expiresIn: number // 访问令牌有效期（秒）
+}
+
 // 登录结果
-export interface LoginResult {
-  token: string
+export interface LoginResult extends TokenPair {
   user: Omit<User, 'password'>
+  recoveryCodes?: string[] // 登录时完成两步验证绑定才返回（只显示一次）
+}
+
+// 两步验证挑战（密码或钱包验证通过后，需要提交验证码才能完成登录）
+export interface TwoFactorChallenge {
+  twoFactorRequired: true
+  setupRequired: boolean // 站点要求启用两步验证但用户尚未绑定
+  challengeToken: string // 挑战令牌（短期有效）
+  expiresIn: number // 挑战令牌有效期（秒）
+}
+
+// 两步验证密钥（用于在验证器应用中添加账户）
+export interface TwoFactorSetup {
+  secret: string // Base32 编码的密钥（手动输入）
+  otpauthUri: string // otpauth:// URI（渲染为二维码扫描）
+}
+
+// 两步验证状态
+export interface TwoFactorStatus {
+  enabled: boolean
+  enabled_at: Date | null
+  recovery_codes_remaining: number // 未使用的恢复码数量
+  required: boolean // 站点是否要求该用户启用
+}
+
+// 两步验证码请求（TOTP 验证码或恢复码）
+export type TwoFactorCodeRequest = z.infer<typeof twoFactorCodeSchema>
+
+// 两步验证挑战请求
+export type TwoFactorChallengeRequest = z.infer<typeof twoFactorChallengeSchema>
+
+// 两步验证登录请求
+export type TwoFactorLoginRequest = z.infer<typeof twoFactorLoginSchema>
+
+// 刷新令牌请求体
+export type RefreshTokenRequest = z.infer<typeof refreshTokenSchema>
+
+// 忘记密码请求
+export type ForgotPasswordRequest = z.infer<typeof forgotPasswordSchema>
+
+// 重置密码请求（新密码为 SHA256 哈希值）
+export type ResetPasswordRequest = z.infer<typeof resetPasswordSchema>
+
+// 验证邮箱请求
+export type VerifyEmailRequest = z.infer<typeof verifyEmailSchema>
+
+// 邮件模板更新输入
+export type UpdateMailTemplateInput = z.infer<typeof updateMailTemplateSchema>
+
+// 邮件模板（站点未自定义时为默认模板）
+export interface MailTemplate {
+  type: UserTokenTypeEnum
+  subject: string
+  body: string
+  is_default: boolean // 是否为默认模板
+}
+
+// 登录会话（同一次登录轮换出的刷新令牌）
+export interface SessionInfo {
+  id: string // 令牌族
+  created_at: Date // 登录时间
+  last_active_at: Date // 最近一次签发或刷新令牌的时间
+  expires_at: Date // 当前刷新令牌的过期时间
+  current: boolean // 是否为当前请求所用的登录
 }
 
 // JWT 载荷
@@ -511,6 +758,7 @@ export interface JWTPayload {
   username: string
   type: UserTypeEnum
   siteId: number | null
+  jti?: string // 令牌 ID（用于撤销）
   iat?: number
   exp?: number
 }
@@ -525,6 +773,34 @@ export interface ImageUploadResult {
   filename: string
 }
 
+// ============================================================================
+// 限流类型（Rate Limit Types）
+// ============================================================================
+
+// 限流算法（fixed：固定窗口，sliding：滑动窗口，按上一窗口计数加权估算）
+export type RateLimitAlgorithm = 'fixed' | 'sliding'
+
+// 限流维度（按 IP、用户或站点计数，也可以自定义）
+export type RateLimitKey = 'ip' | 'user' | 'site'
+
+// 限流策略
+export interface RateLimitPolicy {
+  name: string // 策略名称（计数键的一部分，不同策略分别计数）
+  limit: number // 窗口内允许的请求数
+  window: number // 窗口长度（秒）
+  algorithm?: RateLimitAlgorithm // 默认 fixed
+  keyBy?: RateLimitKey // 默认 ip；user、site 在缺少认证或站点上下文时按 IP 计数
+}
+
+// 限流结果
+export interface RateLimitResult {
+  allowed: boolean // 是否允许本次请求
+  limit: number // 窗口内允许的请求数
+  remaining: number // 窗口内剩余的请求数
+  reset: number // 当前窗口重置时间（Unix 秒级时间戳）
+  retryAfter: number // 被拒绝时距离可以再次请求的秒数（允许时为 0）
+}
+
 // ============================================================================
 // 工具类型（Utility Types）
 // ============================================================================
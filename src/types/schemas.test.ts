@@ -0,0 +1,114 @@
+/**
+ * 请求校验模式单元测试
+ */
+
+import { describe, expect, it } from 'vitest'
+import {
+  articleSearchQuerySchema,
+  createArticleSchema,
+  createPromoSchema,
+  createUserSchema,
+  registerSchema,
+  updateArticleSchema,
+  updatePromoSchema,
+  walletLoginSchema,
+} from './schemas'
+
+describe('article schemas', () => {
+  it('should enforce column lengths and enum values', () => {
+    const result = createArticleSchema.safeParse({
+      title: 'a'.repeat(201),
+      channel_id: 1,
+      img: 'a'.repeat(256),
+      type: 'VIDEO',
+    })
+    expect(result.success).toBe(false)
+    expect(result.error?.issues.map((issue) => issue.path.join('.')).sort()).toEqual([
+      'img',
+      'title',
+      'type',
+    ])
+  })
+
+  it('should require title and channel_id on create only', () => {
+    expect(createArticleSchema.safeParse({ title: '  ', channel_id: 1 }).success).toBe(false)
+    expect(createArticleSchema.safeParse({ title: '标题' }).success).toBe(false)
+    expect(updateArticleSchema.safeParse({ status: 'NORMAL', author_id: null }).success).toBe(true)
+  })
+
+  it('should accept tag ids, names and comma-separated tags', () => {
+    expect(
+      createArticleSchema.parse({ title: 'a', channel_id: 1, tags: [1, '新标签'] }).tags
+    ).toEqual([1, '新标签'])
+    expect(createArticleSchema.safeParse({ title: 'a', channel_id: 1, tags: 'a,b' }).success).toBe(
+      true
+    )
+    expect(createArticleSchema.safeParse({ title: 'a', channel_id: 1, tags: [0] }).success).toBe(
+      false
+    )
+  })
+})
+
+describe('promo schemas', () => {
+  it('should convert timestamps and ISO strings to dates', () => {
+    const promo = createPromoSchema.parse({
+      title: '活动',
+      start_time: 1709251200,
+      end_time: '2024-03-02T00:00:00Z',
+    })
+    expect(promo.start_time).toEqual(new Date('2024-03-01T00:00:00Z'))
+    expect(promo.end_time).toEqual(new Date('2024-03-02T00:00:00Z'))
+    expect(updatePromoSchema.parse({ end_time: null }).end_time).toBeNull()
+    expect(createPromoSchema.safeParse({ title: '活动', end_time: 'tomorrow' }).success).toBe(false)
+  })
+})
+
+describe('user schemas', () => {
+  it('should validate email, phone and enums', () => {
+    expect(createUserSchema.safeParse({ username: 'u', password: 'p', email: '' }).success).toBe(
+      true
+    )
+    const result = createUserSchema.safeParse({
+      username: 'u',
+      password: 'p',
+      email: 'not-an-email',
+      phone: '1'.repeat(21),
+      type: 'ROOT',
+    })
+    expect(result.error?.issues.map((issue) => issue.path.join('.')).sort()).toEqual([
+      'email',
+      'phone',
+      'type',
+    ])
+  })
+
+  it('should require nickname and ignore type on register', () => {
+    expect(registerSchema.safeParse({ username: 'u', password: 'p' }).success).toBe(false)
+    expect(
+      registerSchema.parse({ username: 'u', password: 'p', nickname: 'n', type: 'SUPERMANAGE' })
+    ).not.toHaveProperty('type')
+  })
+
+  it('should check the wallet signature format', () => {
+    const signature = `0x${'a'.repeat(130)}`
+    expect(walletLoginSchema.safeParse({ signature, message: 'm' }).success).toBe(true)
+    expect(
+      walletLoginSchema.safeParse({ signature: `0x${'g'.repeat(130)}`, message: 'm' }).success
+    ).toBe(false)
+  })
+})
+
+describe('query schemas', () => {
+  it('should coerce search query values', () => {
+    expect(
+      articleSearchQuerySchema.parse({
+        q: ' 关键词 ',
+        page: '2',
+        channel_id: '3',
+        status: 'NORMAL',
+      })
+    ).toEqual({ q: '关键词', page: 2, pageSize: 10, channel_id: 3, status: 'NORMAL' })
+    expect(articleSearchQuerySchema.safeParse({ q: ' ' }).success).toBe(false)
+    expect(articleSearchQuerySchema.safeParse({ q: 'a', channel_id: 'x' }).success).toBe(false)
+  })
+})
@@ -0,0 +1,356 @@
+// ============================================================================
+// 请求校验模式（Request Validation Schemas）
+//
+// 所有路由请求体和查询参数的声明式校验规则，由 validateJson / validateQuery
+// 中间件执行。字符串长度上限与 db/schema.ts 中的列定义保持一致，
+// Create*/Update* 输入类型由这些模式推导（见 types/index.ts）。
+// ============================================================================
+
+import { z } from 'zod'
+import {
+  ArticleTypeEnum,
+  ChannelTypeEnum,
+  DictTypeEnum,
+  GenderEnum,
+  StatusEnum,
+  UserTypeEnum,
+} from './index'
+
+// 使用中文错误信息
+z.config(z.locales.zhCN())
+
+// ============================================================================
+// 通用字段
+// ============================================================================
+
+// 必填文本（去除首尾空白后不能为空）
+const requiredText = (max: number) => z.string().trim().min(1, '不能为空').max(max)
+
+// 关联记录ID
+const idSchema = z.number().int().positive()
+
+// 排序值
+const sortSchema = z.number().int()
+
+// 0/1 标记（如 is_top、is_primary）
+const flagSchema = z.union([z.literal(0), z.literal(1)])
+
+// 时间（Unix 秒级时间戳或 ISO 字符串，转换为 Date）
+const timestampSchema = z
+  .union([z.number(), z.string()])
+  .transform((value) => (typeof value === 'number' ? new Date(value * 1000) : new Date(value)))
+  .refine((date) => !Number.isNaN(date.getTime()), '无效的时间')
+
+// 文章定时发布/下线时间（由文章服务解析，空字符串或 null 表示清除）
+const scheduleTimeSchema = z.union([z.number(), z.string()]).nullable()
+
+// 文章标签（标签ID或标签名称数组，也可以是逗号分隔的字符串）
+const tagsSchema = z.union([z.array(z.union([idSchema, z.string().max(50)])), z.string()])
+
+// 邮箱（空字符串表示未设置）
+const emailSchema = z.union([z.email().max(100), z.literal('')])
+
+// ============================================================================
+// 站点
+// ============================================================================
+
+export const createSiteSchema = z.object({
+  name: requiredText(50),
+  title: z.string().max(100).optional(),
+  logo: z.string().max(255).optional(),
+  keywords: z.string().optional(),
+  description: z.string().optional(),
+  copyright: z.string().optional(),
+  max_revisions: z.number().int().positive().optional(),
+  mail_sender_name: z.string().max(50).optional(),
+  require_2fa: flagSchema.optional(),
+})
+
+export const updateSiteSchema = createSiteSchema.partial().extend({
+  status: z.enum(StatusEnum).optional(),
+})
+
+export const updateSiteSettingsSchema = createSiteSchema.omit({ name: true })
+
+export const createSiteDomainSchema = z.object({
+  domain: requiredText(255),
+  is_primary: flagSchema.optional(),
+})
+
+// ============================================================================
+// 文章
+// ============================================================================
+
+export const createArticleSchema = z.object({
+  title: requiredText(200),
+  channel_id: idSchema,
+  tags: tagsSchema.optional(),
+  description: z.string().optional(),
+  content: z.string().optional(),
+  markdown: z.string().optional(),
+  img: z.string().max(255).optional(),
+  video: z.string().max(255).optional(),
+  author: z.string().max(50).optional(),
+  author_id: idSchema.optional(),
+  origin: z.string().max(50).optional(),
+  origin_id: idSchema.optional(),
+  editor_id: idSchema.optional(),
+  type: z.enum(ArticleTypeEnum).optional(),
+  is_top: flagSchema.optional(),
+  publish_at: scheduleTimeSchema.optional(),
+  unpublish_at: scheduleTimeSchema.optional(),
+})
+
+export const updateArticleSchema = createArticleSchema.partial().extend({
+  // null 表示清除
+  author_id: idSchema.nullable().optional(),
+  origin_id: idSchema.nullable().optional(),
+  editor_id: idSchema.nullable().optional(),
+})
+
+export const rejectArticleSchema = z.object({
+  reason: requiredText(500),
+})
+
+// ============================================================================
+// 栏目
+// ============================================================================
+
+export const createChannelSchema = z.object({
+  name: requiredText(50),
+  pid: z.number().int().min(0).optional(),
+  sort: sortSchema.optional(),
+  keywords: z.string().max(200).optional(),
+  description: z.string().optional(),
+  type: z.enum(ChannelTypeEnum).optional(),
+  img: z.string().max(255).optional(),
+})
+
+export const updateChannelSchema = createChannelSchema.partial().extend({
+  status: z.enum(StatusEnum).optional(),
+})
+
+// ============================================================================
+// 用户
+// ============================================================================
+
+export const createUserSchema = z.object({
+  username: requiredText(50),
+  password: z.string().min(1, '不能为空').max(255),
+  nickname: z.string().max(50).optional(),
+  avatar: z.string().max(255).optional(),
+  email: emailSchema.optional(),
+  phone: z.string().max(20).optional(),
+  gender: z.enum(GenderEnum).optional(),
+  type: z.enum(UserTypeEnum).optional(),
+  evm_address: z.string().max(42).optional(),
+})
+
+export const updateUserSchema = createUserSchema.partial().extend({
+  status: z.enum(StatusEnum).optional(),
+  // null 或空字符串表示清除
+  evm_address: z.string().max(42).nullable().optional(),
+})
+
+export const registerSchema = createUserSchema.omit({ type: true }).extend({
+  nickname: requiredText(50),
+})
+
+// 用户修改自己的资料（不能修改用户名、角色、状态和钱包地址）
+export const updateProfileSchema = createUserSchema.pick({
+  nickname: true,
+  avatar: true,
+  email: true,
+  phone: true,
+  gender: true,
+})
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, '不能为空'),
+  newPassword: z.string().min(1, '不能为空').max(255),
+})
+
+export const loginSchema = z.object({
+  username: z.string().min(1, '不能为空'),
+  password: z.string().min(1, '不能为空'),
+})
+
+export const walletLoginSchema = z.object({
+  signature: z.string().regex(/^0x[0-9a-fA-F]{130}$/, '无效的签名格式'),
+  message: z.string().min(1, '不能为空'),
+})
+
+export const refreshTokenSchema = z.object({
+  refreshToken: z.string().min(1, '不能为空'),
+})
+
+export const forgotPasswordSchema = z.object({
+  email: z.email().max(100),
+})
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, '不能为空'),
+  newPassword: z.string().min(1, '不能为空').max(255),
+})
+
+export const verifyEmailSchema = z.object({
+  token: z.string().min(1, '不能为空'),
+})
+
+// 两步验证码（6 位 TOTP 验证码或恢复码）
+const twoFactorCodeField = z.string().trim().min(1, '不能为空').max(20)
+
+export const twoFactorCodeSchema = z.object({
+  code: twoFactorCodeField,
+})
+
+export const twoFactorChallengeSchema = z.object({
+  challengeToken: z.string().min(1, '不能为空'),
+})
+
+export const twoFactorLoginSchema = twoFactorChallengeSchema.extend({
+  code: twoFactorCodeField,
+})
+
+// 邮件模板（正文支持 {{变量}} 占位符，必须包含 {{token}}）
+export const updateMailTemplateSchema = z.object({
+  subject: requiredText(255),
+  body: z
+    .string()
+    .trim()
+    .min(1, '不能为空')
+    .includes('{{token}}', { message: '必须包含 {{token}}' }),
+})
+
+// ============================================================================
+// 字典
+// ============================================================================
+
+export const createDictSchema = z.object({
+  name: requiredText(50),
+  type: z.enum(DictTypeEnum),
+  value: z.string().max(100).optional(),
+  sort: sortSchema.optional(),
+})
+
+export const updateDictSchema = createDictSchema.partial().extend({
+  status: z.enum(StatusEnum).optional(),
+})
+
+// ============================================================================
+// 推广
+// ============================================================================
+
+export const createPromoSchema = z.object({
+  title: requiredText(100),
+  img: z.string().max(255).optional(),
+  url: z.string().max(255).optional(),
+  position: z.string().max(50).optional(),
+  content: z.string().optional(),
+  start_time: timestampSchema.optional(),
+  end_time: timestampSchema.optional(),
+  sort: sortSchema.optional(),
+})
+
+export const updatePromoSchema = createPromoSchema.partial().extend({
+  // null 表示清除
+  start_time: timestampSchema.nullable().optional(),
+  end_time: timestampSchema.nullable().optional(),
+  status: z.enum(StatusEnum).optional(),
+})
+
+// ============================================================================
+// 查询参数（查询字符串中的值都是字符串，数字需要转换）
+// ============================================================================
+
+// 查询参数中的正整数（如 channel_id、tag_id）
+const queryIdSchema = z.coerce.number().int().positive()
+
+// 逗号分隔的列表（如 fields=id,title）
+const queryListSchema = z.string().transform((value) => value.split(','))
+
+// 分页参数
+export const paginationQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(10),
+  // 是否统计总数（只有 false 时跳过 count 查询）
+  withTotal: z
+    .string()
+    .optional()
+    .transform((value) => value !== 'false'),
+})
+
+// 列表查询参数（分页、排序、搜索、游标、稀疏字段集和关联展开）
+export const listQuerySchema = paginationQuerySchema.extend({
+  sort: z.string().optional(),
+  sortOrder: z.enum(['asc', 'desc']).optional(),
+  search: z.string().max(100).optional(),
+  searchFields: queryListSchema.optional(),
+  cursor: z.string().optional(),
+  fields: queryListSchema.optional(),
+  expand: queryListSchema.optional(),
+})
+
+// 文章列表查询参数
+export const articleListQuerySchema = listQuerySchema.extend({
+  tag_id: queryIdSchema.optional(),
+})
+
+// 文章分面统计查询参数（facets 由 parseFacets 解析）
+export const articleFacetQuerySchema = articleListQuerySchema
+  .pick({ search: true, searchFields: true, tag_id: true })
+  .extend({
+    facets: z.string().optional(),
+  })
+
+// 文章全文搜索查询参数
+export const articleSearchQuerySchema = z.object({
+  q: z.string().trim().min(1, '搜索关键词不能为空').max(100),
+  page: paginationQuerySchema.shape.page,
+  pageSize: paginationQuerySchema.shape.pageSize,
+  channel_id: queryIdSchema.optional(),
+  type: z.enum(ArticleTypeEnum).optional(),
+  status: z.enum(StatusEnum).optional(),
+})
+
+// 文章搜索索引重建查询参数（cursor 为上一批返回的 nextCursor）
+export const articleReindexQuerySchema = z.object({
+  cursor: z.coerce.number().int().min(0).default(0),
+})
+
+// 文章修订版本对比查询参数
+export const revisionDiffQuerySchema = z.object({
+  from: queryIdSchema,
+  to: queryIdSchema,
+})
+
+// 公开文章列表查询参数（只允许按公开字段过滤）
+export const publicArticleQuerySchema = listQuerySchema.omit({ searchFields: true }).extend({
+  channel_id: queryIdSchema.optional(),
+  type: z.enum(ArticleTypeEnum).optional(),
+  is_top: z.coerce.number().int().min(0).max(1).optional(),
+})
+
+// 按标签查询公开文章的查询参数（不支持搜索）
+export const publicTagArticleQuerySchema = listQuerySchema.omit({
+  search: true,
+  searchFields: true,
+})
+
+// 字典查询参数
+export const dictQuerySchema = z.object({
+  type: z.enum(DictTypeEnum).optional(),
+})
+
+// 带状态过滤的列表查询参数（站点、标签）
+export const statusListQuerySchema = listQuerySchema.extend({
+  status: z.enum(StatusEnum).optional(),
+})
+
+// 用户列表查询参数
+export const userListQuerySchema = paginationQuerySchema.extend({
+  username: z.string().max(50).optional(),
+  type: z.enum(UserTypeEnum).optional(),
+  status: z.enum(StatusEnum).optional(),
+  fields: queryListSchema.optional(),
+})
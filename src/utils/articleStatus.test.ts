@@ -0,0 +1,85 @@
+/**
+ * 文章状态机单元测试
+ */
+
+import { describe, expect, it } from 'vitest'
+import { ArticleStatusError } from '../errors'
+import { StatusEnum } from '../types'
+import {
+  ARTICLE_REVIEW_TARGETS,
+  ArticleReviewActionEnum,
+  assertArticleTransition,
+  canTransitionArticle,
+  getPublishStatus,
+} from './articleStatus'
+
+describe('canTransitionArticle', () => {
+  it('should allow PENDING to be approved or rejected', () => {
+    expect(canTransitionArticle(StatusEnum.PENDING, StatusEnum.NORMAL)).toBe(true)
+    expect(canTransitionArticle(StatusEnum.PENDING, StatusEnum.FAILURE)).toBe(true)
+  })
+
+  it('should allow FAILURE to be resubmitted only', () => {
+    expect(canTransitionArticle(StatusEnum.FAILURE, StatusEnum.PENDING)).toBe(true)
+    expect(canTransitionArticle(StatusEnum.FAILURE, StatusEnum.NORMAL)).toBe(false)
+  })
+
+  it('should allow every non-deleted status to be deleted', () => {
+    expect(canTransitionArticle(StatusEnum.PENDING, StatusEnum.DELETE)).toBe(true)
+    expect(canTransitionArticle(StatusEnum.NORMAL, StatusEnum.DELETE)).toBe(true)
+    expect(canTransitionArticle(StatusEnum.FAILURE, StatusEnum.DELETE)).toBe(true)
+  })
+
+  it('should treat DELETE as a terminal status', () => {
+    for (const status of Object.values(StatusEnum)) {
+      expect(canTransitionArticle(StatusEnum.DELETE, status)).toBe(false)
+    }
+  })
+
+  it('should not allow transition to the same status', () => {
+    for (const status of Object.values(StatusEnum)) {
+      expect(canTransitionArticle(status, status)).toBe(false)
+    }
+  })
+})
+
+describe('assertArticleTransition', () => {
+  it('should not throw for allowed transitions', () => {
+    expect(() => assertArticleTransition(StatusEnum.PENDING, StatusEnum.NORMAL)).not.toThrow()
+  })
+
+  it('should throw ArticleStatusError for disallowed transitions', () => {
+    expect(() => assertArticleTransition(StatusEnum.NORMAL, StatusEnum.NORMAL)).toThrow(
+      ArticleStatusError
+    )
+    expect(() => assertArticleTransition(StatusEnum.FAILURE, StatusEnum.NORMAL)).toThrow(
+      '文章状态不能从 FAILURE 变更为 NORMAL'
+    )
+  })
+
+  it('should map review actions to allowed target statuses', () => {
+    expect(ARTICLE_REVIEW_TARGETS[ArticleReviewActionEnum.APPROVE]).toBe(StatusEnum.NORMAL)
+    expect(ARTICLE_REVIEW_TARGETS[ArticleReviewActionEnum.REJECT]).toBe(StatusEnum.FAILURE)
+    expect(ARTICLE_REVIEW_TARGETS[ArticleReviewActionEnum.RESUBMIT]).toBe(StatusEnum.PENDING)
+  })
+})
+
+describe('getPublishStatus', () => {
+  const now = new Date('2024-03-01T08:00:00Z')
+  const before = new Date('2024-03-01T07:00:00Z')
+  const after = new Date('2024-03-01T09:00:00Z')
+
+  it('should follow the publish window', () => {
+    expect(getPublishStatus(null, null, now)).toBe(StatusEnum.NORMAL)
+    expect(getPublishStatus(after, null, now)).toBe(StatusEnum.SCHEDULED)
+    expect(getPublishStatus(before, after, now)).toBe(StatusEnum.NORMAL)
+    expect(getPublishStatus(before, now, now)).toBe(StatusEnum.EXPIRED)
+  })
+
+  it('should only produce statuses reachable from review', () => {
+    for (const status of [StatusEnum.SCHEDULED, StatusEnum.NORMAL, StatusEnum.EXPIRED]) {
+      expect(canTransitionArticle(StatusEnum.PENDING, status)).toBe(true)
+      expect(canTransitionArticle(StatusEnum.FAILURE, status)).toBe(false)
+    }
+  })
+})
@@ -0,0 +1,121 @@
+/**
+ * 文章状态机模块
+ * 定义文章审核流程中允许的状态转换
+ */
+
+import { ArticleStatusError } from '../errors'
+import { StatusEnum } from '../types'
+
+/**
+ * 文章审核操作
+ */
+export enum ArticleReviewActionEnum {
+  APPROVE = 'APPROVE', // 审核通过
+  REJECT = 'REJECT', // 驳回
+  RESUBMIT = 'RESUBMIT', // 重新提交审核
+}
+
+/**
+ * 允许的状态转换（当前状态 -> 可转换到的状态）
+ *
+ * - PENDING：可审核通过（按发布窗口进入 SCHEDULED、NORMAL 或 EXPIRED）、驳回或删除
+ * - SCHEDULED / NORMAL / EXPIRED：审核通过后的发布状态，随发布窗口相互转换（定时任务或修改发布时间），
+ *   也可撤回待审核、驳回下线或删除
+ * - FAILURE：可重新提交审核或删除
+ * - DELETE：终态（恢复由回收站处理）
+ */
+export const ARTICLE_STATUS_TRANSITIONS: Record<StatusEnum, StatusEnum[]> = {
+  [StatusEnum.PENDING]: [
+    StatusEnum.SCHEDULED,
+    StatusEnum.NORMAL,
+    StatusEnum.EXPIRED,
+    StatusEnum.FAILURE,
+    StatusEnum.DELETE,
+  ],
+  [StatusEnum.SCHEDULED]: [
+    StatusEnum.NORMAL,
+    StatusEnum.EXPIRED,
+    StatusEnum.PENDING,
+    StatusEnum.FAILURE,
+    StatusEnum.DELETE,
+  ],
+  [StatusEnum.NORMAL]: [
+    StatusEnum.SCHEDULED,
+    StatusEnum.EXPIRED,
+    StatusEnum.PENDING,
+    StatusEnum.FAILURE,
+    StatusEnum.DELETE,
+  ],
+  [StatusEnum.EXPIRED]: [
+    StatusEnum.SCHEDULED,
+    StatusEnum.NORMAL,
+    StatusEnum.PENDING,
+    StatusEnum.FAILURE,
+    StatusEnum.DELETE,
+  ],
+  [StatusEnum.FAILURE]: [StatusEnum.PENDING, StatusEnum.DELETE],
+  [StatusEnum.DELETE]: [],
+}
+
+/**
+ * 审核通过后的发布状态（由发布窗口决定）
+ */
+export const ARTICLE_PUBLISH_STATUSES: StatusEnum[] = [
+  StatusEnum.SCHEDULED,
+  StatusEnum.NORMAL,
+  StatusEnum.EXPIRED,
+]
+
+/**
+ * 审核操作对应的目标状态
+ *
+ * APPROVE 的实际目标状态按发布窗口确定（见 getPublishStatus）。
+ */
+export const ARTICLE_REVIEW_TARGETS: Record<ArticleReviewActionEnum, StatusEnum> = {
+  [ArticleReviewActionEnum.APPROVE]: StatusEnum.NORMAL,
+  [ArticleReviewActionEnum.REJECT]: StatusEnum.FAILURE,
+  [ArticleReviewActionEnum.RESUBMIT]: StatusEnum.PENDING,
+}
+
+/**
+ * 检查状态转换是否允许
+ * @param from 当前状态
+ * @param to 目标状态
+ * @returns 是否允许转换
+ */
+export function canTransitionArticle(from: StatusEnum, to: StatusEnum): boolean {
+  return ARTICLE_STATUS_TRANSITIONS[from]?.includes(to) ?? false
+}
+
+/**
+ * 断言状态转换允许，否则抛出 ArticleStatusError
+ * @param from 当前状态
+ * @param to 目标状态
+ * @throws ArticleStatusError 如果不允许转换
+ */
+export function assertArticleTransition(from: StatusEnum, to: StatusEnum): void {
+  if (!canTransitionArticle(from, to)) {
+    throw new ArticleStatusError(`文章状态不能从 ${from} 变更为 ${to}`)
+  }
+}
+
+/**
+ * 按发布窗口确定审核通过的文章应处的状态
+ * @param publishAt 定时发布时间（为空表示立即发布）
+ * @param unpublishAt 定时下线时间（为空表示不下线）
+ * @param now 当前时间
+ * @returns 未到发布时间为 SCHEDULED，已到下线时间为 EXPIRED，否则为 NORMAL
+ */
+export function getPublishStatus(
+  publishAt: Date | null,
+  unpublishAt: Date | null,
+  now: Date
+): StatusEnum {
+  if (publishAt && publishAt.getTime() > now.getTime()) {
+    return StatusEnum.SCHEDULED
+  }
+  if (unpublishAt && unpublishAt.getTime() <= now.getTime()) {
+    return StatusEnum.EXPIRED
+  }
+  return StatusEnum.NORMAL
+}
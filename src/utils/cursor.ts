@@ -0,0 +1,183 @@
+/**
+ * 游标分页模块
+ * 基于排序字段 + id 的键集分页（keyset pagination）
+ *
+ * 游标是不透明的 base64url 字符串，编码了排序字段、排序方向、当前记录的排序值和 id，
+ * 以及翻页方向（next 向后、prev 向前）。查询时用 (排序值, id) 比较代替 OFFSET，
+ * 深翻页不会变慢，浏览过程中插入新记录也不会出现重复。
+ */
+
+import { decodeBase64Url, encodeBase64Url } from 'hono/utils/encode'
+import { and, asc, desc, eq, gt, isNotNull, isNull, lt, or, type SQL } from 'drizzle-orm'
+import type { SQLiteColumn } from 'drizzle-orm/sqlite-core'
+import { ValidationError } from '../errors'
+
+/**
+ * 排序方式
+ */
+export interface CursorSort {
+  field: string // 排序字段
+  order: 'asc' | 'desc' // 排序方向
+}
+
+/**
+ * 翻页方向
+ */
+export type CursorDirection = 'next' | 'prev'
+
+/**
+ * 游标内容
+ */
+export interface Cursor extends CursorSort {
+  value: string | number | boolean | null // 排序字段值（日期为毫秒时间戳）
+  id: number // 记录ID
+  direction: CursorDirection // 翻页方向
+}
+
+/**
+ * 编码游标
+ *
+ * @param cursor - 游标内容
+ * @returns base64url 字符串
+ */
+export function encodeCursor(cursor: Cursor): string {
+  const payload = JSON.stringify([
+    cursor.field,
+    cursor.order,
+    cursor.value,
+    cursor.id,
+    cursor.direction,
+  ])
+  return encodeBase64Url(new TextEncoder().encode(payload).buffer).replace(/=+$/, '')
+}
+
+/**
+ * 解码游标并校验与当前排序方式一致
+ *
+ * @param encoded - base64url 字符串
+ * @param sort - 当前排序方式
+ * @returns 游标内容
+ * @throws ValidationError 如果游标格式无效或与排序参数不匹配
+ */
+export function decodeCursor(encoded: string, sort: CursorSort): Cursor {
+  let payload: unknown
+  try {
+    payload = JSON.parse(new TextDecoder().decode(decodeBase64Url(encoded)))
+  } catch {
+    throw new ValidationError('无效的游标')
+  }
+
+  if (!Array.isArray(payload) || payload.length !== 5) {
+    throw new ValidationError('无效的游标')
+  }
+
+  const [field, order, value, id, direction] = payload
+  if (!['string', 'number', 'boolean'].includes(typeof value) && value !== null) {
+    throw new ValidationError('无效的游标')
+  }
+  if (!Number.isInteger(id) || (direction !== 'next' && direction !== 'prev')) {
+    throw new ValidationError('无效的游标')
+  }
+  if (field !== sort.field || order !== sort.order) {
+    throw new ValidationError('游标与排序参数不匹配')
+  }
+
+  return { field, order, value, id, direction }
+}
+
+/**
+ * 根据记录生成游标
+ *
+ * @param row - 记录（必须包含排序字段和 id）
+ * @param sort - 排序方式
+ * @param direction - 翻页方向
+ * @returns base64url 字符串，记录不包含排序字段时返回 null
+ */
+export function cursorFromRow(
+  row: Record<string, any>,
+  sort: CursorSort,
+  direction: CursorDirection
+): string | null {
+  if (!(sort.field in row) || typeof row.id !== 'number') {
+    return null
+  }
+
+  const raw = row[sort.field]
+  const value = raw instanceof Date ? raw.getTime() : (raw ?? null)
+
+  return encodeCursor({ ...sort, value, id: row.id, direction })
+}
+
+/**
+ * 获取实际扫描方向（向前翻页时反向扫描）
+ *
+ * @param sort - 排序方式
+ * @param direction - 翻页方向
+ * @returns 扫描方向
+ */
+export function scanOrder(sort: CursorSort, direction: CursorDirection): 'asc' | 'desc' {
+  if (direction === 'next') {
+    return sort.order
+  }
+  return sort.order === 'asc' ? 'desc' : 'asc'
+}
+
+/**
+ * 构建键集排序（排序字段 + id）
+ *
+ * @param column - 排序字段列
+ * @param idColumn - id 列
+ * @param order - 扫描方向
+ * @returns ORDER BY 表达式数组
+ */
+export function keysetOrderBy(
+  column: SQLiteColumn,
+  idColumn: SQLiteColumn,
+  order: 'asc' | 'desc'
+): SQL[] {
+  const direction = order === 'asc' ? asc : desc
+  return column === idColumn ? [direction(idColumn)] : [direction(column), direction(idColumn)]
+}
+
+/**
+ * 构建键集条件（扫描方向上位于游标之后的记录）
+ *
+ * SQLite 升序时 NULL 在前、降序时 NULL 在后，条件与该顺序保持一致。
+ *
+ * @param column - 排序字段列
+ * @param idColumn - id 列
+ * @param cursor - 游标
+ * @returns WHERE 条件
+ */
+export function keysetCondition(
+  column: SQLiteColumn,
+  idColumn: SQLiteColumn,
+  cursor: Cursor
+): SQL | undefined {
+  const order = scanOrder(cursor, cursor.direction)
+  const after = order === 'asc' ? gt : lt
+  const idAfter = after(idColumn, cursor.id)
+
+  if (column === idColumn) {
+    return idAfter
+  }
+
+  if (cursor.value === null) {
+    return order === 'asc'
+      ? or(and(isNull(column), idAfter), isNotNull(column))
+      : and(isNull(column), idAfter)
+  }
+
+  // 日期字段的游标值为毫秒时间戳
+  const value =
+    column.dataType === 'date' && typeof cursor.value === 'number'
+      ? new Date(cursor.value)
+      : cursor.value
+
+  return or(
+    after(column, value),
+    and(eq(column, value), idAfter),
+    // 降序时 NULL 排在最后
+    order === 'desc' ? isNull(column) : undefined
+  )
+}
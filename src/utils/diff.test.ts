@@ -0,0 +1,92 @@
+/**
+ * 文本差异工具单元测试
+ */
+
+import { describe, expect, it } from 'vitest'
+import { diffLines, hasChanges, splitLines } from './diff'
+
+describe('splitLines', () => {
+  it('should return empty array for empty text', () => {
+    expect(splitLines('')).toEqual([])
+  })
+
+  it('should split on both LF and CRLF', () => {
+    expect(splitLines('a\nb\r\nc')).toEqual(['a', 'b', 'c'])
+  })
+})
+
+describe('diffLines', () => {
+  it('should mark all lines equal for identical text', () => {
+    const diff = diffLines('a\nb', 'a\nb')
+
+    expect(diff).toEqual([
+      { type: 'equal', line: 'a', oldLine: 1, newLine: 1 },
+      { type: 'equal', line: 'b', oldLine: 2, newLine: 2 },
+    ])
+    expect(hasChanges(diff)).toBe(false)
+  })
+
+  it('should detect an added line', () => {
+    const diff = diffLines('a\nc', 'a\nb\nc')
+
+    expect(diff).toEqual([
+      { type: 'equal', line: 'a', oldLine: 1, newLine: 1 },
+      { type: 'add', line: 'b', oldLine: null, newLine: 2 },
+      { type: 'equal', line: 'c', oldLine: 2, newLine: 3 },
+    ])
+  })
+
+  it('should detect a removed line', () => {
+    const diff = diffLines('a\nb\nc', 'a\nc')
+
+    expect(diff).toEqual([
+      { type: 'equal', line: 'a', oldLine: 1, newLine: 1 },
+      { type: 'remove', line: 'b', oldLine: 2, newLine: null },
+      { type: 'equal', line: 'c', oldLine: 3, newLine: 2 },
+    ])
+  })
+
+  it('should represent a changed line as remove followed by add', () => {
+    const diff = diffLines('a\nb\nc', 'a\nB\nc')
+
+    expect(diff.map((line) => [line.type, line.line])).toEqual([
+      ['equal', 'a'],
+      ['remove', 'b'],
+      ['add', 'B'],
+      ['equal', 'c'],
+    ])
+  })
+
+  it('should handle empty old or new text', () => {
+    expect(diffLines('', 'a\nb').map((line) => line.type)).toEqual(['add', 'add'])
+    expect(diffLines('a\nb', '').map((line) => line.type)).toEqual(['remove', 'remove'])
+    expect(diffLines('', '')).toEqual([])
+  })
+
+  it('should keep common lines between scattered changes', () => {
+    const diff = diffLines('x\na\ny\nb\nz', 'a\nq\nb')
+
+    expect(diff.filter((line) => line.type === 'equal').map((line) => line.line)).toEqual([
+      'a',
+      'b',
+    ])
+    expect(diff.filter((line) => line.type === 'remove').map((line) => line.line)).toEqual([
+      'x',
+      'y',
+      'z',
+    ])
+    expect(diff.filter((line) => line.type === 'add').map((line) => line.line)).toEqual(['q'])
+  })
+
+  it('should reconstruct both texts from the diff', () => {
+    const oldText = 'one\ntwo\nthree\nfour\nfive'
+    const newText = 'zero\none\nthree\nfour!\nfive\nsix'
+    const diff = diffLines(oldText, newText)
+
+    const rebuiltOld = diff.filter((line) => line.type !== 'add').map((line) => line.line)
+    const rebuiltNew = diff.filter((line) => line.type !== 'remove').map((line) => line.line)
+
+    expect(rebuiltOld.join('\n')).toBe(oldText)
+    expect(rebuiltNew.join('\n')).toBe(newText)
+  })
+})
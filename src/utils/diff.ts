@@ -0,0 +1,117 @@
+/**
+ * 文本差异工具模块
+ * 提供基于最长公共子序列（LCS）的按行差异比较
+ */
+
+/**
+ * 差异行类型
+ */
+export type DiffOperation = 'equal' | 'add' | 'remove'
+
+/**
+ * 差异行接口
+ */
+export interface DiffLine {
+  type: DiffOperation
+  line: string
+  oldLine: number | null // 在旧文本中的行号（从 1 开始），新增行为 null
+  newLine: number | null // 在新文本中的行号（从 1 开始），删除行为 null
+}
+
+/**
+ * 按行拆分文本
+ * 兼容 \n 和 \r\n 换行符，空文本返回空数组
+ * @param text 文本
+ * @returns 行数组
+ */
+export function splitLines(text: string): string[] {
+  if (text === '') {
+    return []
+  }
+  return text.split(/\r?\n/)
+}
+
+/**
+ * 按行比较两段文本
+ * 先去除公共前缀和后缀，再对中间部分计算 LCS
+ * @param oldText 旧文本
+ * @param newText 新文本
+ * @returns 差异行数组（按文本顺序，删除行在新增行之前）
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = splitLines(oldText)
+  const b = splitLines(newText)
+
+  // 公共前缀
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++
+  }
+
+  // 公共后缀
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--
+    endB--
+  }
+
+  const result: DiffLine[] = []
+
+  for (let i = 0; i < start; i++) {
+    result.push({ type: 'equal', line: a[i], oldLine: i + 1, newLine: i + 1 })
+  }
+
+  // 中间部分的 LCS 长度表：lcs[i][j] 为 a[i..endA) 与 b[j..endB) 的 LCS 长度
+  const rows = endA - start
+  const cols = endB - start
+  const lcs: Uint32Array[] = []
+  for (let i = 0; i <= rows; i++) {
+    lcs.push(new Uint32Array(cols + 1))
+  }
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[start + i] === b[start + j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  // 回溯生成差异
+  let i = 0
+  let j = 0
+  while (i < rows || j < cols) {
+    if (i < rows && j < cols && a[start + i] === b[start + j]) {
+      result.push({
+        type: 'equal',
+        line: a[start + i],
+        oldLine: start + i + 1,
+        newLine: start + j + 1,
+      })
+      i++
+      j++
+    } else if (j >= cols || (i < rows && lcs[i + 1][j] >= lcs[i][j + 1])) {
+      result.push({ type: 'remove', line: a[start + i], oldLine: start + i + 1, newLine: null })
+      i++
+    } else {
+      result.push({ type: 'add', line: b[start + j], oldLine: null, newLine: start + j + 1 })
+      j++
+    }
+  }
+
+  for (let k = 0; k < a.length - endA; k++) {
+    result.push({ type: 'equal', line: a[endA + k], oldLine: endA + k + 1, newLine: endB + k + 1 })
+  }
+
+  return result
+}
+
+/**
+ * 判断差异结果是否包含变更
+ * @param diff 差异行数组
+ * @returns 是否有新增或删除的行
+ */
+export function hasChanges(diff: DiffLine[]): boolean {
+  return diff.some((line) => line.type !== 'equal')
+}
@@ -0,0 +1,246 @@
+/**
+ * 交互式 API 文档页面
+ *
+ * 单文件 HTML（内联样式和脚本，不依赖 CDN），加载 OpenAPI 文档后按分组列出接口，
+ * 展示参数、请求体和响应结构，并可以填写令牌、Site-Id 和参数直接发送请求。
+ */
+
+/**
+ * 生成文档页面
+ *
+ * @param specUrl - OpenAPI 文档地址
+ * @param title - 页面标题
+ * @returns HTML
+ */
+export function renderDocsPage(specUrl: string, title: string): string {
+  return `<!doctype html>
+<html lang="zh-CN">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { margin: 0; font: 14px/1.5 -apple-system, BlinkMacSystemFont, 'Segoe UI', 'PingFang SC', sans-serif; color: #1f2328; background: #f6f8fa; }
+  header { position: sticky; top: 0; z-index: 1; display: flex; flex-wrap: wrap; gap: 8px; align-items: center; padding: 12px 24px; background: #fff; border-bottom: 1px solid #d0d7de; }
+  header h1 { margin: 0 16px 0 0; font-size: 18px; }
+  input, select, textarea { font: inherit; padding: 4px 8px; border: 1px solid #d0d7de; border-radius: 6px; }
+  textarea { width: 100%; box-sizing: border-box; min-height: 120px; font-family: ui-monospace, monospace; }
+  button { font: inherit; padding: 4px 12px; border: 1px solid #1f883d; border-radius: 6px; background: #1f883d; color: #fff; cursor: pointer; }
+  main { max-width: 1080px; margin: 0 auto; padding: 16px 24px 48px; }
+  h2 { margin: 24px 0 8px; font-size: 16px; }
+  details { margin: 6px 0; background: #fff; border: 1px solid #d0d7de; border-radius: 6px; }
+  summary { display: flex; gap: 12px; align-items: center; padding: 8px 12px; cursor: pointer; }
+  .method { min-width: 56px; padding: 2px 6px; border-radius: 4px; color: #fff; font-weight: 600; font-size: 12px; text-align: center; }
+  .GET { background: #0969da; } .POST { background: #1f883d; } .PUT { background: #9a6700; } .PATCH { background: #8250df; } .DELETE { background: #cf222e; }
+  .path { font-family: ui-monospace, monospace; }
+  .lock { color: #9a6700; }
+  .body { padding: 0 12px 12px; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { padding: 4px 8px; border-bottom: 1px solid #eaeef2; text-align: left; vertical-align: top; }
+  pre { margin: 0; padding: 8px; overflow: auto; max-height: 360px; background: #f6f8fa; border-radius: 6px; font-size: 12px; }
+  .muted { color: #656d76; }
+</style>
+</head>
+<body>
+<header>
+  <h1>${escapeHtml(title)}</h1>
+  <input id="token" placeholder="Bearer 令牌" size="32">
+  <input id="site" placeholder="Site-Id" size="8">
+  <input id="filter" placeholder="筛选接口" size="20">
+</header>
+<main id="app"><p class="muted">正在加载 ${escapeHtml(specUrl)} ...</p></main>
+<script>
+(function () {
+  var specUrl = ${JSON.stringify(specUrl)};
+  var app = document.getElementById('app');
+  var spec;
+
+  // 令牌和 Site-Id 保存在本地，刷新页面后保留
+  ['token', 'site'].forEach(function (id) {
+    var input = document.getElementById(id);
+    input.value = localStorage.getItem('docs.' + id) || '';
+    input.addEventListener('change', function () { localStorage.setItem('docs.' + id, input.value); });
+  });
+
+  function el(tag, attrs, children) {
+    var node = document.createElement(tag);
+    Object.keys(attrs || {}).forEach(function (key) { node.setAttribute(key, attrs[key]); });
+    (children || []).forEach(function (child) {
+      node.appendChild(typeof child === 'string' ? document.createTextNode(child) : child);
+    });
+    return node;
+  }
+
+  // 展开 $ref（限制深度，避免循环引用）
+  function deref(value, depth) {
+    if (Array.isArray(value)) return value.map(function (item) { return deref(item, depth); });
+    if (!value || typeof value !== 'object') return value;
+    if (value.$ref && depth < 4) {
+      var target = value.$ref.replace('#/', '').split('/').reduce(function (node, key) { return node && node[key]; }, spec);
+      return deref(target, depth + 1);
+    }
+    var result = {};
+    Object.keys(value).forEach(function (key) { result[key] = deref(value[key], depth); });
+    return result;
+  }
+
+  function schemaType(schema) {
+    schema = deref(schema || {}, 0);
+    if (schema.enum) return schema.enum.join(' | ');
+    if (schema.anyOf) return schema.anyOf.map(schemaType).join(' | ');
+    var type = Array.isArray(schema.type) ? schema.type.join(' | ') : schema.type || 'any';
+    return type === 'array' ? schemaType(schema.items) + '[]' : type;
+  }
+
+  // 按结构生成请求体示例（只包含必填字段）
+  function sample(schema) {
+    schema = deref(schema || {}, 0);
+    if (schema.default !== undefined) return schema.default;
+    if (schema.enum) return schema.enum[0];
+    if (schema.anyOf) return sample(schema.anyOf[0]);
+    var type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+    if (type === 'object') {
+      var result = {};
+      (schema.required || []).forEach(function (key) { result[key] = sample(schema.properties[key]); });
+      return result;
+    }
+    if (type === 'array') return [];
+    if (type === 'integer' || type === 'number') return schema.exclusiveMinimum !== undefined ? 1 : 0;
+    if (type === 'boolean') return false;
+    return '';
+  }
+
+  function renderOperation(method, path, operation) {
+    var parameters = (operation.parameters || []).map(function (p) { return deref(p, 0); });
+    var inputs = {};
+    var body = el('div', { class: 'body' });
+
+    if (operation.description) body.appendChild(el('p', {}, [operation.description]));
+
+    if (parameters.length) {
+      var rows = parameters.map(function (p) {
+        var input = el('input', { placeholder: p.required ? '必填' : '' });
+        if (p.in !== 'header') inputs[p.name] = { input: input, in: p.in };
+        return el('tr', {}, [
+          el('td', { class: 'path' }, [p.name]),
+          el('td', { class: 'muted' }, [p.in + (p.required ? ' · 必填' : '')]),
+          el('td', {}, [schemaType(p.schema)]),
+          el('td', {}, p.in === 'header' ? [el('span', { class: 'muted' }, ['使用页面顶部的 Site-Id'])] : [input]),
+        ]);
+      });
+      body.appendChild(el('h4', {}, ['参数']));
+      body.appendChild(el('table', {}, rows));
+    }
+
+    var bodyInput;
+    var contentType = el('select');
+    if (operation.requestBody) {
+      var content = operation.requestBody.content;
+      Object.keys(content).forEach(function (type) { contentType.appendChild(el('option', {}, [type])); });
+      var first = content[Object.keys(content)[0]];
+      body.appendChild(el('h4', {}, ['请求体 ', contentType]));
+      body.appendChild(el('pre', {}, [JSON.stringify(deref(first.schema, 0), null, 2)]));
+      bodyInput = el('textarea');
+      bodyInput.value = JSON.stringify(sample(first.schema), null, 2);
+      if (Object.keys(content)[0] !== 'multipart/form-data') body.appendChild(bodyInput);
+    }
+
+    body.appendChild(el('h4', {}, ['响应']));
+    body.appendChild(el('table', {}, Object.keys(operation.responses).map(function (code) {
+      var response = deref(operation.responses[code], 0);
+      return el('tr', {}, [el('td', { class: 'path' }, [code]), el('td', {}, [response.description || ''])]);
+    })));
+    var success = Object.keys(operation.responses)[0];
+    var successContent = deref(operation.responses[success], 0).content;
+    if (successContent) {
+      body.appendChild(el('pre', {}, [JSON.stringify(deref(successContent['application/json'].schema, 0), null, 2)]));
+    }
+
+    var output = el('pre', { class: 'muted' }, ['']);
+    var send = el('button', {}, ['发送请求']);
+    send.addEventListener('click', function () {
+      var url = path;
+      var query = new URLSearchParams();
+      Object.keys(inputs).forEach(function (name) {
+        var value = inputs[name].input.value;
+        if (inputs[name].in === 'path') url = url.replace('{' + name + '}', encodeURIComponent(value));
+        else if (value !== '') query.append(name, value);
+      });
+      var headers = {};
+      var token = document.getElementById('token').value;
+      var site = document.getElementById('site').value;
+      if (token) headers.Authorization = 'Bearer ' + token.replace(/^Bearer\\s+/i, '');
+      if (site) headers['Site-Id'] = site;
+      var init = { method: method, headers: headers };
+      if (bodyInput && contentType.value !== 'multipart/form-data') {
+        headers['Content-Type'] = contentType.value;
+        init.body = bodyInput.value;
+      }
+      output.textContent = '请求中...';
+      fetch(url + (query.toString() ? '?' + query : ''), init).then(function (res) {
+        return res.text().then(function (text) {
+          try { text = JSON.stringify(JSON.parse(text), null, 2); } catch (e) {}
+          output.textContent = res.status + ' ' + res.statusText + '\\n\\n' + text;
+        });
+      }).catch(function (error) { output.textContent = String(error); });
+    });
+    body.appendChild(el('h4', {}, ['调试 ', send]));
+    body.appendChild(output);
+
+    var details = el('details', { 'data-search': (method + ' ' + path + ' ' + (operation.summary || '')).toLowerCase() }, [
+      el('summary', {}, [
+        el('span', { class: 'method ' + method }, [method]),
+        el('span', { class: 'path' }, [path]),
+        el('span', {}, [operation.summary || '']),
+        el('span', { class: 'lock', title: '需要认证' }, [operation.security ? '🔒' : '']),
+      ]),
+      body,
+    ]);
+    return details;
+  }
+
+  function render() {
+    var groups = {};
+    Object.keys(spec.paths).forEach(function (path) {
+      Object.keys(spec.paths[path]).forEach(function (method) {
+        var operation = spec.paths[path][method];
+        var tag = (operation.tags || ['api'])[0];
+        (groups[tag] = groups[tag] || []).push(renderOperation(method.toUpperCase(), path, operation));
+      });
+    });
+    app.textContent = '';
+    if (spec.info.description) app.appendChild(el('p', { class: 'muted' }, [spec.info.description]));
+    app.appendChild(el('p', { class: 'muted' }, ['OpenAPI ' + spec.openapi + ' · ', el('a', { href: specUrl }, [specUrl])]));
+    Object.keys(groups).forEach(function (tag) {
+      app.appendChild(el('section', {}, [el('h2', {}, [tag])].concat(groups[tag])));
+    });
+  }
+
+  document.getElementById('filter').addEventListener('input', function (event) {
+    var keyword = event.target.value.toLowerCase();
+    document.querySelectorAll('details').forEach(function (node) {
+      node.style.display = node.getAttribute('data-search').indexOf(keyword) >= 0 ? '' : 'none';
+    });
+  });
+
+  fetch(specUrl).then(function (res) { return res.json(); }).then(function (json) {
+    spec = json;
+    render();
+  }).catch(function (error) { app.textContent = '加载文档失败：' + error; });
+})();
+</script>
+</body>
+</html>
+`
+}
+
+/**
+ * 转义 HTML 特殊字符
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
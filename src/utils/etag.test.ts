@@ -0,0 +1,93 @@
+/**
+ * ETag 工具单元测试
+ */
+
+import { Hono } from 'hono'
+import { describe, expect, it } from 'vitest'
+import { PreconditionFailedError } from '../errors'
+import { assertIfMatch, getETag, jsonWithETag, matchesETag, nextUpdateAt } from './etag'
+
+describe('getETag', () => {
+  it('should derive the same ETag from dates and serialized dates', () => {
+    const updateAt = new Date('2024-02-16T08:00:00Z')
+    expect(getETag({ update_at: updateAt })).toBe('"1708070400000"')
+    expect(getETag({ update_at: updateAt.toISOString() })).toBe('"1708070400000"')
+  })
+})
+
+describe('matchesETag', () => {
+  const etag = '"1708070400000"'
+
+  it('should match lists and wildcards', () => {
+    expect(matchesETag(etag, etag)).toBe(true)
+    expect(matchesETag(`"1", ${etag}`, etag)).toBe(true)
+    expect(matchesETag('*', etag)).toBe(true)
+    expect(matchesETag('"1"', etag)).toBe(false)
+    expect(matchesETag(undefined, etag)).toBe(false)
+  })
+
+  it('should only match weak ETags with weak comparison', () => {
+    expect(matchesETag(`W/${etag}`, etag)).toBe(false)
+    expect(matchesETag(`W/${etag}`, etag, true)).toBe(true)
+  })
+})
+
+describe('assertIfMatch', () => {
+  const resource = { update_at: new Date(1708070400000) }
+
+  it('should skip the check without If-Match', () => {
+    expect(() => assertIfMatch(undefined, resource)).not.toThrow()
+    expect(() => assertIfMatch('"1708070400000"', resource)).not.toThrow()
+  })
+
+  it('should reject stale versions with the current ETag', () => {
+    try {
+      assertIfMatch('"1708070399000"', resource)
+      expect.unreachable()
+    } catch (error) {
+      expect(error).toBeInstanceOf(PreconditionFailedError)
+      expect((error as PreconditionFailedError).statusCode).toBe(412)
+      expect((error as PreconditionFailedError).etag).toBe('"1708070400000"')
+    }
+  })
+})
+
+describe('nextUpdateAt', () => {
+  it('should use the current time when it is later than the previous version', () => {
+    const previous = new Date(Date.now() - 60_000)
+    const next = nextUpdateAt(previous)
+    expect(next.getTime()).toBeGreaterThan(previous.getTime())
+    expect(Date.now() - next.getTime()).toBeLessThan(1000)
+  })
+
+  it('should move to the next second when updated within the same second', () => {
+    const previous = new Date(Math.floor(Date.now() / 1000) * 1000)
+    expect(nextUpdateAt(previous).getTime()).toBe(previous.getTime() + 1000)
+
+    const future = new Date(Math.floor(Date.now() / 1000) * 1000 + 5000)
+    expect(nextUpdateAt(future).getTime()).toBe(future.getTime() + 1000)
+  })
+})
+
+describe('jsonWithETag', () => {
+  const app = new Hono()
+  app.get('/item', (c) => jsonWithETag(c, { id: 1, update_at: new Date(1708070400000) }))
+
+  it('should return the resource with its ETag', async () => {
+    const res = await app.request('/item')
+    expect(res.status).toBe(200)
+    expect(res.headers.get('ETag')).toBe('"1708070400000"')
+    const body = (await res.json()) as { data: { id: number } }
+    expect(body.data.id).toBe(1)
+  })
+
+  it('should return 304 when If-None-Match matches', async () => {
+    const res = await app.request('/item', { headers: { 'If-None-Match': 'W/"1708070400000"' } })
+    expect(res.status).toBe(304)
+    expect(res.headers.get('ETag')).toBe('"1708070400000"')
+    expect(await res.text()).toBe('')
+
+    const stale = await app.request('/item', { headers: { 'If-None-Match': '"1"' } })
+    expect(stale.status).toBe(200)
+  })
+})
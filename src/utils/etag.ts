@@ -0,0 +1,120 @@
+/**
+ * ETag 工具模块
+ * 基于 update_at 生成资源版本，实现条件请求和乐观并发控制
+ *
+ * - 单个资源的 GET 响应返回 ETag，If-None-Match 与当前版本一致时返回 304
+ * - PUT 请求携带 If-Match 时，与当前版本不一致返回 412（PreconditionFailedError）
+ *
+ * ETag 为 update_at 的毫秒时间戳（如 "1708070400000"），客户端也可以用列表中记录的
+ * update_at 构造 If-Match。update_at 按秒存储，更新时使用 nextUpdateAt 保证版本一定变化。
+ */
+
+import type { Context } from 'hono'
+import { PreconditionFailedError } from '../errors'
+import { successResponse } from './response'
+
+/**
+ * 有版本的资源（update_at 可能是缓存反序列化后的字符串）
+ */
+export interface VersionedResource {
+  update_at: Date | string | number
+}
+
+/**
+ * 生成资源的 ETag
+ *
+ * @param resource - 资源
+ * @returns ETag（带双引号）
+ *
+ * @example
+ * getETag({ update_at: new Date(1708070400000) }) // '"1708070400000"'
+ */
+export function getETag(resource: VersionedResource): string {
+  return `"${new Date(resource.update_at).getTime()}"`
+}
+
+/**
+ * 判断条件请求头是否匹配 ETag
+ *
+ * 支持逗号分隔的多个 ETag 和 *。If-Match 使用强比较（W/ 开头的弱 ETag 不匹配），
+ * If-None-Match 使用弱比较（忽略 W/ 前缀）。
+ *
+ * @param header - If-Match 或 If-None-Match 请求头
+ * @param etag - 资源当前 ETag
+ * @param weak - 是否使用弱比较（默认 false）
+ * @returns 是否匹配
+ */
+export function matchesETag(header: string | undefined, etag: string, weak = false): boolean {
+  if (!header) {
+    return false
+  }
+
+  return header.split(',').some((item) => {
+    const tag = item.trim()
+    if (tag === '*') {
+      return true
+    }
+    if (tag.startsWith('W/')) {
+      return weak && tag.slice(2) === etag
+    }
+    return tag === etag
+  })
+}
+
+/**
+ * 校验 If-Match 请求头
+ *
+ * 未提供 If-Match 时不校验（保持无条件更新的兼容行为）。
+ *
+ * @param ifMatch - If-Match 请求头
+ * @param resource - 资源当前记录
+ * @throws PreconditionFailedError 如果与资源当前版本不一致（携带当前 ETag）
+ */
+export function assertIfMatch(ifMatch: string | undefined, resource: VersionedResource): void {
+  if (ifMatch === undefined) {
+    return
+  }
+
+  const etag = getETag(resource)
+  if (!matchesETag(ifMatch, etag)) {
+    throw new PreconditionFailedError(undefined, etag)
+  }
+}
+
+/**
+ * 计算更新后的 update_at
+ *
+ * update_at 按秒存储，同一秒内的两次更新会得到相同的版本。
+ * 当前时间不晚于原版本时顺延一秒，保证每次更新后 ETag 都会变化。
+ *
+ * @param previous - 原 update_at
+ * @returns 新的 update_at
+ */
+export function nextUpdateAt(previous: Date | string | number): Date {
+  const now = new Date()
+  const previousTime = new Date(previous).getTime()
+  if (Math.floor(now.getTime() / 1000) * 1000 > previousTime) {
+    return now
+  }
+  return new Date(Math.floor(previousTime / 1000) * 1000 + 1000)
+}
+
+/**
+ * 返回带 ETag 的单个资源响应
+ *
+ * If-None-Match 与当前版本一致时返回 304（无响应体）。
+ *
+ * @param c - Hono 上下文
+ * @param resource - 资源
+ * @returns 响应
+ */
+export function jsonWithETag<T extends VersionedResource>(c: Context, resource: T): Response {
+  const etag = getETag(resource)
+  c.header('ETag', etag)
+
+  if (matchesETag(c.req.header('If-None-Match'), etag, true)) {
+    return c.body(null, 304)
+  }
+
+  return c.json(successResponse(resource))
+}
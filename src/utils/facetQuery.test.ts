@@ -0,0 +1,142 @@
+/**
+ * 分面统计单元测试
+ */
+
+import Database from 'better-sqlite3'
+import { drizzle } from 'drizzle-orm/better-sqlite3'
+import type { DrizzleD1Database } from 'drizzle-orm/d1'
+import { integer, sqliteTable, text } from 'drizzle-orm/sqlite-core'
+import { beforeEach, describe, expect, it } from 'vitest'
+import type { ModelDefinition } from '../db/models'
+import { ValidationError } from '../errors'
+import { facetQuery, parseFacets } from './facetQuery'
+import { parseFilterQuery } from './filterQuery'
+
+const items = sqliteTable('items', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  name: text('name').notNull(),
+  channel_id: integer('channel_id').notNull(),
+  status: text('status').notNull(),
+  site_id: integer('site_id').notNull(),
+  created_at: integer('created_at', { mode: 'timestamp' }).notNull(),
+})
+
+const itemModel: ModelDefinition = {
+  name: 'item',
+  table: items,
+  filterable: ['channel_id', 'status'],
+  sortable: ['id'],
+  searchable: ['name'],
+  selectable: ['id', 'name', 'channel_id', 'status', 'created_at'],
+  facetable: ['channel_id', 'status', 'created_at'],
+  writable: [],
+  nullable: [],
+  expandable: {},
+}
+
+describe('parseFacets', () => {
+  it('should parse fields and date intervals', () => {
+    expect(parseFacets('channel_id, created_at:month')).toEqual([
+      { field: 'channel_id' },
+      { field: 'created_at', interval: 'month' },
+    ])
+  })
+
+  it('should reject empty, malformed and unknown intervals', () => {
+    expect(() => parseFacets(undefined)).toThrow('facets 参数不能为空')
+    expect(() => parseFacets('created_at:week')).toThrow(ValidationError)
+    expect(() => parseFacets('created_at:constructor')).toThrow(ValidationError)
+    expect(() => parseFacets('a:month:x')).toThrow(ValidationError)
+    expect(() => parseFacets('Status;')).toThrow(ValidationError)
+  })
+})
+
+describe('facetQuery', () => {
+  let db: DrizzleD1Database
+
+  beforeEach(() => {
+    const sqlite = new Database(':memory:')
+    sqlite.exec(
+      'CREATE TABLE items (id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT NOT NULL, channel_id INTEGER NOT NULL, status TEXT NOT NULL, site_id INTEGER NOT NULL, created_at INTEGER NOT NULL)'
+    )
+    const insert = sqlite.prepare(
+      'INSERT INTO items (name, channel_id, status, site_id, created_at) VALUES (?, ?, ?, ?, ?)'
+    )
+    const seconds = (date: string) => Date.parse(date) / 1000
+    insert.run('a', 1, 'NORMAL', 1, seconds('2024-01-05T00:00:00Z'))
+    insert.run('b', 1, 'PENDING', 1, seconds('2024-01-31T23:59:59Z'))
+    insert.run('c', 2, 'NORMAL', 1, seconds('2024-02-01T00:00:00Z'))
+    insert.run('d', 1, 'NORMAL', 1, seconds('2024-03-10T00:00:00Z'))
+    insert.run('e', 2, 'DELETE', 1, seconds('2024-03-11T00:00:00Z'))
+    insert.run('f', 1, 'NORMAL', 2, seconds('2024-03-12T00:00:00Z'))
+
+    // better-sqlite3 驱动没有 batch，按顺序执行模拟 D1 batch
+    const local = drizzle(sqlite) as any
+    local.batch = (queries: any[]) => Promise.all(queries)
+    db = local as DrizzleD1Database
+  })
+
+  it('should count groups within the site excluding deleted rows', async () => {
+    const result = await facetQuery(db, items, {}, parseFacets('channel_id,status'), {
+      siteId: 1,
+      model: itemModel,
+    })
+
+    expect(result.total).toBe(4)
+    expect(result.facets.channel_id).toEqual([
+      { value: 1, count: 3 },
+      { value: 2, count: 1 },
+    ])
+    expect(result.facets.status).toEqual([
+      { value: 'NORMAL', count: 3 },
+      { value: 'PENDING', count: 1 },
+    ])
+  })
+
+  it('should bucket dates in ascending order', async () => {
+    const result = await facetQuery(
+      db,
+      items,
+      {},
+      parseFacets('created_at:month,created_at:year'),
+      {
+        siteId: 1,
+        model: itemModel,
+      }
+    )
+
+    expect(result.facets['created_at:month']).toEqual([
+      { value: '2024-01', count: 2 },
+      { value: '2024-02', count: 1 },
+      { value: '2024-03', count: 1 },
+    ])
+    expect(result.facets['created_at:year']).toEqual([{ value: '2024', count: 4 }])
+  })
+
+  it('should apply the same filters as the list query', async () => {
+    const filterGroup = parseFilterQuery(new URLSearchParams('filter[channel_id]=1'))
+    const result = await facetQuery(db, items, { filterGroup }, parseFacets('status'), {
+      siteId: 1,
+      model: itemModel,
+    })
+
+    expect(result.total).toBe(3)
+    expect(result.facets.status).toEqual([
+      { value: 'NORMAL', count: 2 },
+      { value: 'PENDING', count: 1 },
+    ])
+  })
+
+  it('should reject fields and intervals the model does not allow', async () => {
+    const options = { siteId: 1, model: itemModel }
+    await expect(facetQuery(db, items, {}, parseFacets('name'), options)).rejects.toThrow(
+      '不支持按 name 统计，允许的字段: channel_id, status, created_at'
+    )
+    await expect(facetQuery(db, items, {}, parseFacets('created_at'), options)).rejects.toThrow(
+      ValidationError
+    )
+    await expect(facetQuery(db, items, {}, parseFacets('status:month'), options)).rejects.toThrow(
+      ValidationError
+    )
+  })
+})
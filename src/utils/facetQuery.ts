@@ -0,0 +1,173 @@
+/**
+ * 分面统计模块
+ * 基于 buildQuery 的查询条件按字段分组计数，用于列表页的筛选侧栏和后台统计
+ *
+ * 总数和各字段的分组计数通过一次 D1 batch 执行，只返回计数结果，不读取记录。
+ * 可统计的字段由模型定义的 facetable 声明，日期字段按日、月、年（UTC）分组：
+ * - facets=channel_id,status              按字段值分组
+ * - facets=created_at:month               按月分组（值如 2024-01）
+ */
+
+import { and, asc, count, desc, getTableColumns, type SQL, sql } from 'drizzle-orm'
+import type { DrizzleD1Database } from 'drizzle-orm/d1'
+import type { SQLiteColumn, SQLiteTable } from 'drizzle-orm/sqlite-core'
+import type { ModelDefinition } from '../db/models'
+import { ValidationError } from '../errors'
+import type { FacetBucket, FacetInterval, FacetRequest, FacetResult, QueryParams } from '../types'
+import { type BuildQueryOptions, buildQuery } from './queryBuilder'
+
+// 日期分组格式（strftime）
+const INTERVAL_FORMATS: Record<FacetInterval, string> = {
+  day: '%Y-%m-%d',
+  month: '%Y-%m',
+  year: '%Y',
+}
+
+// 单次请求最多统计的字段数
+const MAX_FACETS = 10
+
+// 每个字段最多返回的分组数
+const MAX_FACET_BUCKETS = 100
+
+/**
+ * 分面统计选项
+ */
+export interface FacetQueryOptions extends Omit<BuildQueryOptions, 'tableColumns' | 'model'> {
+  model: ModelDefinition // 模型定义（按 facetable 校验统计字段）
+  where?: SQL // 额外的查询条件（与 buildQuery 的条件 AND 组合）
+}
+
+/**
+ * 解析 facets 参数
+ *
+ * @param value - 逗号分隔的统计字段（日期字段用 字段名:粒度 指定分组粒度）
+ * @returns 统计字段数组
+ * @throws ValidationError 如果参数为空、格式无效或字段过多
+ *
+ * @example
+ * parseFacets('channel_id,created_at:month')
+ * // [{ field: 'channel_id' }, { field: 'created_at', interval: 'month' }]
+ */
+export function parseFacets(value: string | undefined): FacetRequest[] {
+  const items = (value ?? '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => item !== '')
+  if (items.length === 0) {
+    throw new ValidationError('facets 参数不能为空')
+  }
+  if (items.length > MAX_FACETS) {
+    throw new ValidationError(`facets 不能超过 ${MAX_FACETS} 个`)
+  }
+
+  return items.map((item) => {
+    const [field, interval, ...rest] = item.split(':')
+    if (rest.length > 0 || !/^[a-z][a-z0-9_]*$/.test(field)) {
+      throw new ValidationError(`无效的 facets 参数: ${item}`)
+    }
+    if (interval === undefined) {
+      return { field }
+    }
+    if (!Object.keys(INTERVAL_FORMATS).includes(interval)) {
+      throw new ValidationError(`无效的日期分组粒度: ${interval}，允许的粒度: day, month, year`)
+    }
+    return { field, interval: interval as FacetInterval }
+  })
+}
+
+/**
+ * 获取分面统计结果的键
+ */
+function facetKey(facet: FacetRequest): string {
+  return facet.interval ? `${facet.field}:${facet.interval}` : facet.field
+}
+
+/**
+ * 构建分组表达式
+ *
+ * @throws ValidationError 如果字段不可统计，或日期字段未指定粒度、非日期字段指定了粒度
+ */
+function facetExpression(
+  facet: FacetRequest,
+  tableColumns: Record<string, SQLiteColumn>,
+  model: ModelDefinition
+): SQLiteColumn | SQL {
+  if (!model.facetable.includes(facet.field)) {
+    throw new ValidationError(
+      `不支持按 ${facet.field} 统计，允许的字段: ${model.facetable.join(', ')}`
+    )
+  }
+
+  const column = tableColumns[facet.field]
+  if (column.dataType !== 'date') {
+    if (facet.interval) {
+      throw new ValidationError(`${facet.field} 不是日期字段，不能指定分组粒度`)
+    }
+    return column
+  }
+
+  if (!facet.interval) {
+    throw new ValidationError(
+      `${facet.field} 是日期字段，需要指定分组粒度（如 ${facet.field}:month）`
+    )
+  }
+  // timestamp 字段存储秒级时间戳
+  return sql<string>`strftime(${INTERVAL_FORMATS[facet.interval]}, ${column}, 'unixepoch')`
+}
+
+/**
+ * 执行分面统计
+ *
+ * 统计条件与列表查询相同（过滤、搜索、site_id 隔离、软删除过滤），分页和排序参数被忽略。
+ * 日期分组按时间升序返回，其他字段按数量降序返回，每个字段最多返回 100 个分组。
+ *
+ * @param db - 数据库实例
+ * @param table - 数据表
+ * @param params - 查询参数（过滤、搜索）
+ * @param facets - 统计字段
+ * @param options - 分面统计选项
+ * @returns 总数和各字段的分组计数
+ * @throws ValidationError 如果统计字段或查询参数无效
+ *
+ * @example
+ * await facetQuery(db, articles, { filterGroup }, parseFacets('status,created_at:month'), { siteId, model: articleModel })
+ * // { total: 42, facets: { status: [{ value: 'NORMAL', count: 30 }, ...], 'created_at:month': [{ value: '2024-01', count: 12 }, ...] } }
+ */
+export async function facetQuery(
+  db: DrizzleD1Database,
+  table: SQLiteTable,
+  params: QueryParams,
+  facets: FacetRequest[],
+  options: FacetQueryOptions
+): Promise<FacetResult> {
+  const { where: extraWhere, ...buildOptions } = options
+  const tableColumns = getTableColumns(table) as Record<string, SQLiteColumn>
+
+  // 构建查询条件（与列表查询相同）
+  const built = buildQuery(params, { ...buildOptions, tableColumns })
+  const where = extraWhere ? and(built.where, extraWhere) : built.where
+
+  // 每个字段一条分组计数查询
+  const facetQueries = facets.map((facet) => {
+    const expression = facetExpression(facet, tableColumns, options.model)
+    return db
+      .select({ value: expression, count: count() })
+      .from(table)
+      .where(where)
+      .groupBy(expression)
+      .orderBy(...(facet.interval ? [asc(expression)] : [desc(count()), asc(expression)]))
+      .limit(MAX_FACET_BUCKETS)
+  })
+
+  // 总数和分组计数在同一个 batch 中执行
+  const totalQuery = db.select({ total: count() }).from(table).where(where)
+  const [[totalRow], ...facetRows] = (await db.batch([totalQuery, ...facetQueries])) as [
+    { total: number }[],
+    ...FacetBucket[][],
+  ]
+
+  return {
+    total: totalRow.total,
+    facets: Object.fromEntries(facets.map((facet, i) => [facetKey(facet), facetRows[i]])),
+  }
+}
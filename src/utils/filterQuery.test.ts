@@ -0,0 +1,149 @@
+/**
+ * 过滤参数解析单元测试
+ */
+
+import Database from 'better-sqlite3'
+import { getTableColumns } from 'drizzle-orm'
+import { drizzle } from 'drizzle-orm/better-sqlite3'
+import { integer, sqliteTable, text } from 'drizzle-orm/sqlite-core'
+import { describe, expect, it } from 'vitest'
+import { ValidationError } from '../errors'
+import { parseFilterQuery } from './filterQuery'
+import { buildQuery } from './queryBuilder'
+
+function parse(query: string, allowedFields?: string[]) {
+  return parseFilterQuery(new URLSearchParams(query), { allowedFields })
+}
+
+describe('parseFilterQuery', () => {
+  it('should return undefined without filter parameters', () => {
+    expect(parse('page=1&sort=id')).toBeUndefined()
+  })
+
+  it('should parse equality and operator conditions', () => {
+    expect(
+      parse('filter[status]=NORMAL&filter[channel_id][in]=3,5,9&filter[end_time][isNull]')
+    ).toEqual({
+      logic: 'and',
+      conditions: [
+        { field: 'status', operator: 'eq', value: 'NORMAL' },
+        { field: 'channel_id', operator: 'in', value: ['3', '5', '9'] },
+        { field: 'end_time', operator: 'isNull' },
+      ],
+    })
+  })
+
+  it('should group OR conditions by index', () => {
+    expect(
+      parse('filter[or][0][is_top]=1&filter[or][1][type]=HOT&filter[or][1][channel_id]=2')
+    ).toEqual({
+      logic: 'and',
+      conditions: [
+        {
+          logic: 'or',
+          conditions: [
+            { logic: 'and', conditions: [{ field: 'is_top', operator: 'eq', value: '1' }] },
+            {
+              logic: 'and',
+              conditions: [
+                { field: 'type', operator: 'eq', value: 'HOT' },
+                { field: 'channel_id', operator: 'eq', value: '2' },
+              ],
+            },
+          ],
+        },
+      ],
+    })
+  })
+
+  it('should reject unknown operators and malformed keys', () => {
+    expect(() => parse('filter[id][like]=1')).toThrow(ValidationError)
+    expect(() => parse('filter[or][x][id]=1')).toThrow(ValidationError)
+    expect(() => parse('filter[id][gt][x]=1')).toThrow(ValidationError)
+    expect(() => parse('filter[Id;drop]=1')).toThrow(ValidationError)
+  })
+
+  it('should require two values for between', () => {
+    expect(() => parse('filter[id][between]=1')).toThrow(ValidationError)
+    expect(parse('filter[id][between]=1,5')?.conditions).toEqual([
+      { field: 'id', operator: 'between', value: ['1', '5'] },
+    ])
+  })
+
+  it('should reject fields that are not allowed', () => {
+    expect(() => parse('filter[user_id]=1', ['channel_id'])).toThrow('不支持按 user_id 过滤')
+    expect(parse('filter[channel_id]=1', ['channel_id'])).toBeDefined()
+  })
+
+  it('should limit nesting depth', () => {
+    expect(() => parse('filter[or][0][and][0][or][0][and][0][id]=1')).toThrow(ValidationError)
+  })
+})
+
+describe('buildQuery with filter groups', () => {
+  const items = sqliteTable('items', {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    name: text('name').notNull(),
+    channel_id: integer('channel_id').notNull(),
+    end_time: integer('end_time', { mode: 'timestamp' }),
+  })
+
+  const sqlite = new Database(':memory:')
+  sqlite.exec(
+    'CREATE TABLE items (id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT NOT NULL, channel_id INTEGER NOT NULL, end_time INTEGER)'
+  )
+  const insert = sqlite.prepare('INSERT INTO items (name, channel_id, end_time) VALUES (?, ?, ?)')
+  insert.run('alpha', 3, null)
+  insert.run('beta', 5, 1700000000)
+  insert.run('al_pha', 9, 1800000000)
+  insert.run('gamma', 7, null)
+  const db = drizzle(sqlite)
+
+  function ids(query: string): number[] {
+    const { where } = buildQuery(
+      { filterGroup: parse(query) },
+      {
+        siteId: 0,
+        tableColumns: getTableColumns(items),
+        hasSiteId: false,
+        hasStatus: false,
+      }
+    )
+    return db
+      .select({ id: items.id })
+      .from(items)
+      .where(where)
+      .orderBy(items.id)
+      .all()
+      .map((row) => row.id)
+  }
+
+  it('should apply list operators with coerced values', () => {
+    expect(ids('filter[channel_id][in]=3,5,9')).toEqual([1, 2, 3])
+    expect(ids('filter[channel_id][nin]=3,5')).toEqual([3, 4])
+    expect(ids('filter[channel_id][between]=4,8')).toEqual([2, 4])
+    expect(ids('filter[channel_id][ne]=3')).toEqual([2, 3, 4])
+  })
+
+  it('should apply null checks and date comparisons', () => {
+    expect(ids('filter[end_time][isNull]')).toEqual([1, 4])
+    expect(ids('filter[end_time][notNull]')).toEqual([2, 3])
+    expect(ids('filter[end_time][gt]=2024-01-01')).toEqual([3])
+  })
+
+  it('should treat LIKE wildcards in startsWith literally', () => {
+    expect(ids('filter[name][startsWith]=al')).toEqual([1, 3])
+    expect(ids('filter[name][startsWith]=al_')).toEqual([3])
+  })
+
+  it('should combine nested OR groups', () => {
+    expect(ids('filter[or][0][channel_id]=3&filter[or][1][name][startsWith]=g')).toEqual([1, 4])
+    expect(
+      ids('filter[end_time][isNull]&filter[or][0][channel_id]=3&filter[or][1][channel_id]=5')
+    ).toEqual([1])
+  })
+
+  it('should reject values that do not match the column type', () => {
+    expect(() => ids('filter[channel_id][gt]=abc')).toThrow(ValidationError)
+  })
+})
@@ -0,0 +1,214 @@
+/**
+ * 过滤参数解析模块
+ * 把查询字符串中的 filter[...] 参数解析为过滤条件组（FilterGroup），列表接口共用
+ *
+ * 语法：
+ * - filter[channel_id]=3                      等于
+ * - filter[channel_id][in]=3,5,9              运算符（值为逗号分隔列表时用于 in/nin/between）
+ * - filter[end_time][isNull]                  无值运算符
+ * - filter[or][0][is_top]=1&filter[or][1][type]=HOT
+ *                                             OR 条件组，同一下标内的条件为 AND 关系
+ * - filter[or][0][and][0][...]                条件组可以嵌套
+ *
+ * 所有 filter 参数组成顶层 AND 条件组。字段值按字段类型在 buildQuery 中转换。
+ */
+
+import { ValidationError } from '../errors'
+import type { FilterCondition, FilterGroup, FilterOperator } from '../types'
+
+// 支持的运算符
+const FILTER_OPERATORS: readonly FilterOperator[] = [
+  'eq',
+  'ne',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'in',
+  'nin',
+  'between',
+  'isNull',
+  'notNull',
+  'startsWith',
+]
+
+// 值为逗号分隔列表的运算符
+const LIST_OPERATORS: readonly FilterOperator[] = ['in', 'nin', 'between']
+
+// 不需要值的运算符
+const VALUELESS_OPERATORS: readonly FilterOperator[] = ['isNull', 'notNull']
+
+// 条件组最大嵌套层数
+const MAX_FILTER_DEPTH = 3
+
+// 过滤条件最大数量
+const MAX_FILTER_CONDITIONS = 30
+
+// in/nin 列表最大长度
+const MAX_LIST_SIZE = 100
+
+// 字段名格式
+const FIELD_PATTERN = /^[a-z][a-z0-9_]*$/
+
+/**
+ * 解析选项
+ */
+export interface FilterQueryOptions {
+  allowedFields?: readonly string[] // 允许过滤的字段（默认不限制，不存在的字段由 buildQuery 忽略）
+}
+
+/**
+ * 拆分 filter 参数名
+ *
+ * @example
+ * splitFilterKey('filter[or][0][channel_id][in]') // ['or', '0', 'channel_id', 'in']
+ */
+function splitFilterKey(key: string): string[] | null {
+  const match = key.match(/^filter((?:\[[^[\]]*\])+)$/)
+  if (!match) {
+    return null
+  }
+  return match[1].slice(1, -1).split('][')
+}
+
+/**
+ * 获取或创建子条件组
+ *
+ * 同一父组内的 or/and 下标共用一个子组，下标对应子组中的一个 AND 条件组。
+ */
+function getChildGroup(
+  parent: FilterGroup,
+  logic: 'and' | 'or',
+  index: string,
+  indexes: Map<FilterGroup, Map<string, FilterGroup>>
+): FilterGroup {
+  let logicGroup = parent.conditions.find(
+    (node): node is FilterGroup => 'logic' in node && node.logic === logic && indexes.has(node)
+  )
+  if (!logicGroup) {
+    logicGroup = { logic, conditions: [] }
+    parent.conditions.push(logicGroup)
+    indexes.set(logicGroup, new Map())
+  }
+
+  const children = indexes.get(logicGroup) as Map<string, FilterGroup>
+  let child = children.get(index)
+  if (!child) {
+    child = { logic: 'and', conditions: [] }
+    children.set(index, child)
+    logicGroup.conditions.push(child)
+  }
+  return child
+}
+
+/**
+ * 解析单个过滤条件
+ */
+function parseCondition(
+  field: string,
+  operatorName: string | undefined,
+  rawValue: string,
+  options: FilterQueryOptions
+): FilterCondition {
+  if (!FIELD_PATTERN.test(field)) {
+    throw new ValidationError(`无效的过滤字段: ${field}`)
+  }
+  if (options.allowedFields && !options.allowedFields.includes(field)) {
+    throw new ValidationError(
+      `不支持按 ${field} 过滤，允许的字段: ${options.allowedFields.join(', ')}`
+    )
+  }
+
+  const operator = (operatorName ?? 'eq') as FilterOperator
+  if (!FILTER_OPERATORS.includes(operator)) {
+    throw new ValidationError(`无效的过滤运算符: ${operatorName}`)
+  }
+
+  if (VALUELESS_OPERATORS.includes(operator)) {
+    return { field, operator }
+  }
+
+  if (LIST_OPERATORS.includes(operator)) {
+    const values = rawValue.split(',').map((item) => item.trim())
+    if (values.some((item) => item === '')) {
+      throw new ValidationError(`无效的 ${field} 过滤值`)
+    }
+    if (operator === 'between' && values.length !== 2) {
+      throw new ValidationError(`${field} 的 between 过滤需要两个值`)
+    }
+    if (values.length > MAX_LIST_SIZE) {
+      throw new ValidationError(`${field} 的过滤值不能超过 ${MAX_LIST_SIZE} 个`)
+    }
+    return { field, operator, value: values }
+  }
+
+  if (operator === 'startsWith' && rawValue === '') {
+    throw new ValidationError(`无效的 ${field} 过滤值`)
+  }
+
+  return { field, operator, value: rawValue }
+}
+
+/**
+ * 解析查询字符串中的 filter[...] 参数
+ *
+ * @param searchParams - 查询字符串参数
+ * @param options - 解析选项
+ * @returns 过滤条件组，没有 filter 参数时返回 undefined
+ * @throws ValidationError 如果参数格式、字段或运算符无效
+ *
+ * @example
+ * parseFilterQuery(new URLSearchParams('filter[channel_id][in]=3,5,9&filter[end_time][isNull]'))
+ * // { logic: 'and', conditions: [
+ * //   { field: 'channel_id', operator: 'in', value: ['3', '5', '9'] },
+ * //   { field: 'end_time', operator: 'isNull' },
+ * // ] }
+ */
+export function parseFilterQuery(
+  searchParams: URLSearchParams,
+  options: FilterQueryOptions = {}
+): FilterGroup | undefined {
+  const root: FilterGroup = { logic: 'and', conditions: [] }
+  const indexes = new Map<FilterGroup, Map<string, FilterGroup>>()
+  let count = 0
+
+  for (const [key, rawValue] of searchParams) {
+    if (!key.startsWith('filter[')) {
+      continue
+    }
+
+    const segments = splitFilterKey(key)
+    if (!segments) {
+      throw new ValidationError(`无效的过滤参数: ${key}`)
+    }
+
+    // 逐层进入条件组
+    let group = root
+    let depth = 0
+    while (segments[0] === 'and' || segments[0] === 'or') {
+      const logic = segments.shift() as 'and' | 'or'
+      const index = segments.shift()
+      if (index === undefined || !/^\d+$/.test(index)) {
+        throw new ValidationError(`无效的过滤参数: ${key}`)
+      }
+      depth++
+      if (depth > MAX_FILTER_DEPTH) {
+        throw new ValidationError(`过滤条件组嵌套不能超过 ${MAX_FILTER_DEPTH} 层`)
+      }
+      group = getChildGroup(group, logic, index, indexes)
+    }
+
+    if (segments.length < 1 || segments.length > 2) {
+      throw new ValidationError(`无效的过滤参数: ${key}`)
+    }
+
+    count++
+    if (count > MAX_FILTER_CONDITIONS) {
+      throw new ValidationError(`过滤条件不能超过 ${MAX_FILTER_CONDITIONS} 个`)
+    }
+
+    group.conditions.push(parseCondition(segments[0], segments[1], rawValue, options))
+  }
+
+  return root.conditions.length > 0 ? root : undefined
+}
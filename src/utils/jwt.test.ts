@@ -78,6 +78,17 @@ describe('JWT Utils', () => {
       expect(decoded.exp).toBeDefined()
     })
 
+    it('should round-trip jti and default to a short expiration', async () => {
+      const token = await generateToken(
+        { userId: 1, username: 'testuser', type: UserTypeEnum.EDITOR, siteId: 1, jti: 'token-id' },
+        testSecret
+      )
+      const decoded = await verifyToken(token, testSecret)
+
+      expect(decoded.jti).toBe('token-id')
+      expect((decoded.exp ?? 0) - (decoded.iat ?? 0)).toBe(15 * 60)
+    })
+
     it('should verify token with null siteId', async () => {
       const payload = {
         userId: 1,
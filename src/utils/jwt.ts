@@ -1,21 +1,24 @@
 import { jwtVerify, SignJWT } from 'jose'
 import type { JWTPayload } from '../types'
 
+// 访问令牌默认有效期（过期后使用刷新令牌换取新的访问令牌）
+export const DEFAULT_ACCESS_TOKEN_EXPIRATION = '15m'
+
 /**
  * 生成 JWT 令牌
- * @param payload JWT 载荷（包含 userId、username、type、siteId）
+ * @param payload JWT 载荷（包含 userId、username、type、siteId，可选 jti 用于撤销）
  * @param secret JWT 密钥
- * @param expiresIn 过期时间（例如 "7d"）
+ * @param expiresIn 过期时间（例如 "15m"）
  * @returns JWT 令牌字符串
  */
 export async function generateToken(
   payload: Omit<JWTPayload, 'iat' | 'exp'>,
   secret: string,
-  expiresIn: string = '7d'
+  expiresIn: string = DEFAULT_ACCESS_TOKEN_EXPIRATION
 ): Promise<string> {
   const secretKey = new TextEncoder().encode(secret)
 
-  const token = await new SignJWT({
+  const jwt = new SignJWT({
     userId: payload.userId,
     username: payload.username,
     type: payload.type,
@@ -24,9 +27,12 @@ export async function generateToken(
     .setProtectedHeader({ alg: 'HS256' })
     .setIssuedAt()
     .setExpirationTime(expiresIn)
-    .sign(secretKey)
 
-  return token
+  if (payload.jti) {
+    jwt.setJti(payload.jti)
+  }
+
+  return jwt.sign(secretKey)
 }
 
 /**
@@ -46,6 +52,7 @@ export async function verifyToken(token: string, secret: string): Promise<JWTPay
     username: payload.username as string,
     type: payload.type as JWTPayload['type'],
     siteId: payload.siteId as number | null,
+    jti: payload.jti,
     iat: payload.iat,
     exp: payload.exp,
   }
@@ -0,0 +1,133 @@
+/**
+ * OpenAPI 文档生成测试
+ */
+
+import type { Context } from 'hono'
+import { Hono } from 'hono'
+import { describe, expect, it } from 'vitest'
+import { dictModel } from '../db/models'
+import { authMiddleware } from '../middleware/auth'
+import { siteMiddleware } from '../middleware/site'
+import { validateJson, validateQuery } from '../middleware/validation'
+import { BusinessCode } from '../types'
+import { createDictSchema, dictQuerySchema } from '../types/schemas'
+import {
+  describeRoute,
+  generateOpenAPIDocument,
+  type JsonSchema,
+  listSchema,
+  modelSchema,
+} from './openapi'
+
+type Operation = {
+  tags: string[]
+  summary: string
+  parameters?: JsonSchema[]
+  requestBody?: { content: Record<string, { schema: JsonSchema }> }
+  security?: unknown[]
+  responses: Record<string, { content?: Record<string, { schema: JsonSchema }> }>
+}
+
+function buildDocument() {
+  const dict = new Hono()
+  const handler = (c: Context) => c.json({})
+  dict.get(
+    '/',
+    describeRoute({ summary: '查询字典条目', response: listSchema(modelSchema(dictModel)) }),
+    authMiddleware,
+    siteMiddleware,
+    validateQuery(dictQuerySchema),
+    handler
+  )
+  dict.post(
+    '/',
+    describeRoute({ summary: '创建字典条目', status: 201 }),
+    authMiddleware,
+    siteMiddleware,
+    validateJson(createDictSchema),
+    handler
+  )
+  dict.patch('/:id', authMiddleware, handler)
+
+  const app = new Hono()
+  app.get('/health', describeRoute({ summary: '健康检查', tags: ['system'], raw: true }), handler)
+  app.route('/api/v1/dict', dict)
+  app.use('*', async (_c, next) => next())
+
+  const document = generateOpenAPIDocument(app, { title: 'CMS', version: 'v1' })
+  const paths = document.paths as Record<string, Record<string, Operation>>
+  return { document, paths }
+}
+
+describe('generateOpenAPIDocument', () => {
+  it('should list every route with converted path parameters', () => {
+    const { document, paths } = buildDocument()
+    expect(document.openapi).toBe('3.1.0')
+    expect(Object.keys(paths).sort()).toEqual(['/api/v1/dict', '/api/v1/dict/{id}', '/health'])
+    expect(Object.keys(paths['/api/v1/dict'])).toEqual(['get', 'post'])
+    expect(paths['/api/v1/dict/{id}'].patch.parameters?.[0]).toEqual({
+      name: 'id',
+      in: 'path',
+      required: true,
+      schema: { type: 'integer', minimum: 1 },
+    })
+  })
+
+  it('should build query parameters and request bodies from validation schemas', () => {
+    const { paths } = buildDocument()
+    const list = paths['/api/v1/dict'].get
+    expect(list.parameters?.map((parameter) => parameter.name ?? parameter.$ref)).toEqual([
+      'type',
+      '#/components/parameters/SiteId',
+    ])
+
+    const body = paths['/api/v1/dict'].post.requestBody?.content['application/json'].schema
+    expect(body?.required).toEqual(['name', 'type'])
+    expect((body?.properties as Record<string, JsonSchema>).name).toMatchObject({ maxLength: 50 })
+  })
+
+  it('should describe authentication, status and response envelopes', () => {
+    const { paths } = buildDocument()
+    const list = paths['/api/v1/dict'].get
+    expect(list.summary).toBe('查询字典条目')
+    expect(list.tags).toEqual(['dict'])
+    expect(list.security).toEqual([{ bearerAuth: [] }])
+    expect(list.responses['200'].content?.['application/json'].schema).toEqual({
+      type: 'object',
+      required: ['success', 'data'],
+      properties: {
+        success: { const: true },
+        data: { type: 'array', items: { $ref: '#/components/schemas/Dict' } },
+      },
+    })
+    expect(Object.keys(list.responses)).toEqual(['200', '400', '401', '403', 'default'])
+    expect(Object.keys(paths['/api/v1/dict'].post.responses)).toContain('201')
+
+    const health = paths['/health'].get
+    expect(health.security).toBeUndefined()
+    expect(health.tags).toEqual(['system'])
+    expect(health.responses['200'].content?.['application/json'].schema).toEqual({})
+  })
+
+  it('should accept both patch formats on PATCH routes', () => {
+    const { paths } = buildDocument()
+    const patch = paths['/api/v1/dict/{id}'].patch
+    expect(Object.keys(patch.requestBody?.content ?? {})).toEqual([
+      'application/merge-patch+json',
+      'application/json-patch+json',
+    ])
+    expect(Object.keys(patch.responses)).toContain('415')
+  })
+
+  it('should include models, error envelope and business codes in components', () => {
+    const { document } = buildDocument()
+    const components = document.components as Record<string, Record<string, JsonSchema>>
+    const dict = components.schemas.Dict.properties as Record<string, JsonSchema>
+    expect(dict.id).toEqual({ type: 'integer' })
+    expect(dict.created_at).toEqual({ type: 'string', format: 'date-time' })
+    expect(dict.value).toEqual({ anyOf: [{ type: 'string' }, { type: 'null' }] })
+    expect(components.schemas.ErrorResponse).toBeDefined()
+    expect(components.schemas.BusinessCode.enum).toContain(BusinessCode.UNAUTHORIZED)
+    expect(components.securitySchemes.bearerAuth).toMatchObject({ scheme: 'bearer' })
+  })
+})
@@ -0,0 +1,454 @@
+/**
+ * OpenAPI 文档模块
+ * 从 Hono 应用的路由表生成 OpenAPI 3.1 文档，与路由使用相同的校验模式和模型定义，避免文档与实现不一致
+ *
+ * - 路径、方法和路径参数：来自路由注册（/:id 转换为 /{id}）
+ * - 查询参数和请求体：来自 validateQuery / validateJson 的校验模式（zod 转换为 JSON Schema）
+ * - 认证和站点：使用 authMiddleware 的路由需要 Bearer 令牌，使用 siteMiddleware 的路由接受 Site-Id 头
+ * - 限流：使用 rateLimit 的路由包含 429 响应和限流响应头
+ * - 摘要、成功状态码和响应数据：来自 describeRoute 中间件
+ * - 数据模型：来自 db/models 的模型定义（selectable 字段）
+ *
+ * @example
+ * articles.get('/:id', describeRoute({ summary: '获取文章', response: modelSchema(articleModel) }),
+ *   authMiddleware, siteMiddleware, handler)
+ */
+
+import { getTableColumns } from 'drizzle-orm'
+import type { SQLiteColumn } from 'drizzle-orm/sqlite-core'
+import type { Hono, MiddlewareHandler } from 'hono'
+import { z } from 'zod'
+import { type ModelDefinition, MODELS } from '../db/models'
+import { authMiddleware } from '../middleware/auth'
+import { siteMiddleware } from '../middleware/site'
+import { BusinessCode, type RateLimitPolicy } from '../types'
+import { JSON_PATCH_CONTENT_TYPE, MERGE_PATCH_CONTENT_TYPE } from './patch'
+
+// JSON Schema（OpenAPI 3.1 使用 JSON Schema 2020-12）
+export type JsonSchema = Record<string, unknown>
+
+/**
+ * 路由文档
+ */
+export interface RouteDoc {
+  summary: string // 摘要
+  description?: string // 详细说明
+  tags?: string[] // 分组（默认为 /api/v1 之后的第一段路径）
+  status?: number // 成功状态码（默认 200）
+  response?: JsonSchema // 响应 data 的结构（默认不限制）
+  raw?: boolean // 响应不使用 successResponse 包装（response 为整个响应的结构）
+  contentType?: string // 响应类型（默认 application/json）
+  requestBody?: JsonSchema // 非 JSON 请求体（如图片上传的 multipart/form-data），值为 OpenAPI requestBody 对象
+}
+
+// 路由中间件携带的文档信息
+interface RouteMetadata {
+  doc?: RouteDoc
+  query?: z.ZodType
+  json?: z.ZodType
+  rateLimit?: RateLimitPolicy
+}
+
+// 按中间件函数索引的文档信息（app.routes 中保留原始中间件函数）
+const routeMetadata = new WeakMap<object, RouteMetadata>()
+
+// 错误码（与 errors 模块中的错误类一致）
+const ERROR_CODES = [
+  'VALIDATION_ERROR',
+  'AUTHENTICATION_ERROR',
+  'AUTHORIZATION_ERROR',
+  'NOT_FOUND_ERROR',
+  'CONFLICT_ERROR',
+  'ARTICLE_STATUS_ERROR',
+  'PRECONDITION_FAILED',
+  'UNSUPPORTED_MEDIA_TYPE',
+  'TOO_MANY_REQUESTS',
+  'INTERNAL_ERROR',
+]
+
+// HTTP 方法（app.routes 中 use() 注册的中间件方法为 ALL，不生成文档）
+const HTTP_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE']
+
+/**
+ * 记录中间件的文档信息
+ *
+ * 由 validateJson / validateQuery / rateLimit 调用，生成文档时按中间件找到路由使用的校验模式和限流策略。
+ *
+ * @param middleware - 中间件
+ * @param metadata - 文档信息
+ */
+export function setRouteMetadata(middleware: MiddlewareHandler, metadata: RouteMetadata): void {
+  routeMetadata.set(middleware, metadata)
+}
+
+/**
+ * 路由文档中间件
+ *
+ * 不处理请求，只为 OpenAPI 文档提供摘要、成功状态码和响应结构。
+ *
+ * @param doc - 路由文档
+ * @returns Hono 中间件处理函数
+ */
+export function describeRoute(doc: RouteDoc): MiddlewareHandler {
+  const middleware: MiddlewareHandler = async (_c, next) => {
+    await next()
+  }
+  routeMetadata.set(middleware, { doc })
+  return middleware
+}
+
+/**
+ * 模型的组件名称（如 public_article → PublicArticle）
+ */
+function componentName(model: ModelDefinition): string {
+  return model.name
+    .split('_')
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('')
+}
+
+/**
+ * 引用模型结构
+ *
+ * @param model - 模型定义
+ * @returns 指向 components.schemas 的引用
+ */
+export function modelSchema(model: ModelDefinition): JsonSchema {
+  return { $ref: `#/components/schemas/${componentName(model)}` }
+}
+
+/**
+ * 数组结构
+ */
+export function listSchema(items: JsonSchema): JsonSchema {
+  return { type: 'array', items }
+}
+
+/**
+ * 分页结果结构
+ */
+export function paginatedSchema(items: JsonSchema): JsonSchema {
+  return {
+    allOf: [
+      { $ref: '#/components/schemas/PaginatedResult' },
+      { type: 'object', properties: { data: listSchema(items) } },
+    ],
+  }
+}
+
+// 操作结果消息（如删除成功）
+export const messageSchema: JsonSchema = {
+  type: 'object',
+  required: ['message'],
+  properties: { message: { type: 'string' } },
+}
+
+/**
+ * 将 zod 校验模式转换为 JSON Schema（使用输入类型，即客户端需要发送的结构）
+ */
+function toJsonSchema(schema: z.ZodType): JsonSchema {
+  const { $schema: _schema, ...jsonSchema } = z.toJSONSchema(schema, {
+    io: 'input',
+    unrepresentable: 'any',
+  }) as JsonSchema
+  return jsonSchema
+}
+
+/**
+ * 列定义对应的 JSON Schema
+ */
+function columnSchema(column: SQLiteColumn): JsonSchema {
+  let schema: JsonSchema
+  switch (column.dataType) {
+    case 'number':
+      schema = { type: column.columnType === 'SQLiteInteger' ? 'integer' : 'number' }
+      break
+    case 'date':
+      schema = { type: 'string', format: 'date-time' }
+      break
+    case 'boolean':
+      schema = { type: 'boolean' }
+      break
+    case 'string':
+      schema = column.enumValues?.length
+        ? { type: 'string', enum: column.enumValues }
+        : { type: 'string' }
+      break
+    default:
+      schema = {}
+  }
+  return column.notNull ? schema : { anyOf: [schema, { type: 'null' }] }
+}
+
+/**
+ * 模型结构（模型的可返回字段，关联展开的字段不固定，允许额外属性）
+ */
+function buildModelSchema(model: ModelDefinition): JsonSchema {
+  const columns = getTableColumns(model.table) as Record<string, SQLiteColumn>
+  return {
+    type: 'object',
+    description: `${model.name} 模型（fields 参数可以只返回部分字段，expand 参数展开的关联会附加到记录上）`,
+    properties: Object.fromEntries(
+      model.selectable.map((field) => [field, columnSchema(columns[field])])
+    ),
+  }
+}
+
+/**
+ * 成功响应结构（successResponse）
+ */
+function successSchema(data: JsonSchema = {}): JsonSchema {
+  return {
+    type: 'object',
+    required: ['success', 'data'],
+    properties: { success: { const: true }, data },
+  }
+}
+
+/**
+ * 公共组件：安全方案、Site-Id 参数、通用结构和错误响应
+ */
+function buildComponents(): JsonSchema {
+  const errorResponse = (description: string) => ({
+    description,
+    content: { 'application/json': { schema: { $ref: '#/components/schemas/ErrorResponse' } } },
+  })
+
+  const businessCodes = Object.entries(BusinessCode).filter(
+    (entry): entry is [string, number] => typeof entry[1] === 'number'
+  )
+
+  return {
+    securitySchemes: {
+      bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+    },
+    headers: {
+      RateLimitLimit: { description: '窗口内允许的请求数', schema: { type: 'integer' } },
+      RateLimitRemaining: { description: '窗口内剩余的请求数', schema: { type: 'integer' } },
+      RateLimitReset: {
+        description: '当前窗口重置时间（Unix 秒级时间戳）',
+        schema: { type: 'integer' },
+      },
+      RetryAfter: { description: '距离可以再次请求的秒数', schema: { type: 'integer' } },
+    },
+    parameters: {
+      SiteId: {
+        name: 'Site-Id',
+        in: 'header',
+        required: false,
+        description: '站点ID（未通过请求域名确定站点时必填，登录后也可以使用令牌中的站点）',
+        schema: { type: 'integer', minimum: 1 },
+      },
+    },
+    schemas: {
+      ...Object.fromEntries(
+        Object.values(MODELS).map((model) => [componentName(model), buildModelSchema(model)])
+      ),
+      PaginatedResult: {
+        type: 'object',
+        required: ['data', 'page', 'pageSize', 'hasMore'],
+        properties: {
+          data: { type: 'array', items: {} },
+          total: { type: ['integer', 'null'], description: 'withTotal=false 时为 null' },
+          page: { type: ['integer', 'null'], description: '游标分页时为 null' },
+          pageSize: { type: 'integer' },
+          totalPages: { type: ['integer', 'null'] },
+          hasMore: { type: 'boolean' },
+          nextCursor: { type: ['string', 'null'] },
+          prevCursor: { type: ['string', 'null'] },
+        },
+      },
+      ErrorResponse: {
+        type: 'object',
+        required: ['success', 'error'],
+        properties: {
+          success: { const: false },
+          error: {
+            type: 'object',
+            required: ['code', 'message'],
+            properties: {
+              code: { type: 'string', enum: ERROR_CODES },
+              message: { type: 'string' },
+              details: {
+                type: 'object',
+                description: '校验失败的字段及错误信息（VALIDATION_ERROR）',
+                additionalProperties: { type: 'array', items: { type: 'string' } },
+              },
+              etag: { type: 'string', description: '资源当前版本（PRECONDITION_FAILED）' },
+              retryAfter: {
+                type: 'integer',
+                description: '距离可以再次请求的秒数（TOO_MANY_REQUESTS）',
+              },
+            },
+          },
+        },
+      },
+      JsonPatchOperation: {
+        type: 'object',
+        required: ['op', 'path'],
+        properties: {
+          op: { type: 'string', enum: ['add', 'remove', 'replace', 'move', 'copy', 'test'] },
+          path: { type: 'string', description: 'JSON Pointer（如 /title）' },
+          from: { type: 'string', description: 'move、copy 操作的源路径' },
+          value: { description: 'add、replace、test 操作的值' },
+        },
+      },
+      BusinessCode: {
+        type: 'integer',
+        description: '业务状态码（前后端同步）',
+        enum: businessCodes.map(([, code]) => code),
+        'x-enum-varnames': businessCodes.map(([name]) => name),
+      },
+    },
+    responses: {
+      BadRequest: errorResponse('请求参数错误'),
+      Unauthorized: errorResponse('未登录或令牌无效'),
+      Forbidden: errorResponse('权限不足'),
+      NotFound: errorResponse('资源不存在'),
+      UnsupportedMediaType: errorResponse('不支持的请求体格式'),
+      Error: errorResponse('其他错误'),
+    },
+  }
+}
+
+/**
+ * 生成单个操作
+ *
+ * @param method - HTTP 方法
+ * @param path - 路由路径（Hono 格式）
+ * @param handlers - 路由的中间件和处理函数
+ */
+function buildOperation(method: string, path: string, handlers: unknown[]): JsonSchema {
+  const metadata: RouteMetadata = {}
+  for (const handler of handlers) {
+    Object.assign(metadata, routeMetadata.get(handler as object))
+  }
+  const { doc, query, json, rateLimit } = metadata
+  const requiresAuth = handlers.includes(authMiddleware)
+  const pathParams = [...path.matchAll(/:(\w+)/g)].map((match) => match[1])
+
+  // 参数：路径参数、查询参数、Site-Id 头
+  const parameters: JsonSchema[] = pathParams.map((name) => ({
+    name,
+    in: 'path',
+    required: true,
+    schema: /id$/i.test(name) ? { type: 'integer', minimum: 1 } : { type: 'string' },
+  }))
+  if (query) {
+    const querySchema = toJsonSchema(query)
+    const required = (querySchema.required as string[] | undefined) ?? []
+    for (const [name, schema] of Object.entries((querySchema.properties ?? {}) as JsonSchema)) {
+      parameters.push({ name, in: 'query', required: required.includes(name), schema })
+    }
+  }
+  if (handlers.includes(siteMiddleware)) {
+    parameters.push({ $ref: '#/components/parameters/SiteId' })
+  }
+
+  // 请求体：JSON 校验模式、PATCH 补丁或路由文档声明的其他格式
+  let requestBody: JsonSchema | undefined = doc?.requestBody
+  if (json) {
+    requestBody = {
+      required: true,
+      content: { 'application/json': { schema: toJsonSchema(json) } },
+    }
+  } else if (method === 'PATCH') {
+    requestBody = {
+      required: true,
+      content: {
+        [MERGE_PATCH_CONTENT_TYPE]: { schema: { type: 'object' } },
+        [JSON_PATCH_CONTENT_TYPE]: {
+          schema: listSchema({ $ref: '#/components/schemas/JsonPatchOperation' }),
+        },
+      },
+    }
+  }
+
+  // 响应：成功响应和可能的错误响应
+  const responses: JsonSchema = {
+    [String(doc?.status ?? 200)]: {
+      description: '成功',
+      content: {
+        [doc?.contentType ?? 'application/json']: {
+          schema: doc?.raw ? (doc.response ?? {}) : successSchema(doc?.response),
+        },
+      },
+    },
+  }
+  if (query || json || requestBody || pathParams.length > 0) {
+    responses['400'] = { $ref: '#/components/responses/BadRequest' }
+  }
+  if (requiresAuth) {
+    responses['401'] = { $ref: '#/components/responses/Unauthorized' }
+    responses['403'] = { $ref: '#/components/responses/Forbidden' }
+  }
+  if (pathParams.length > 0) {
+    responses['404'] = { $ref: '#/components/responses/NotFound' }
+  }
+  if (method === 'PATCH') {
+    responses['415'] = { $ref: '#/components/responses/UnsupportedMediaType' }
+  }
+  if (rateLimit) {
+    responses['429'] = {
+      description: `请求过于频繁（每 ${rateLimit.window} 秒 ${rateLimit.limit} 次）`,
+      headers: {
+        'Retry-After': { $ref: '#/components/headers/RetryAfter' },
+        'X-RateLimit-Limit': { $ref: '#/components/headers/RateLimitLimit' },
+        'X-RateLimit-Remaining': { $ref: '#/components/headers/RateLimitRemaining' },
+        'X-RateLimit-Reset': { $ref: '#/components/headers/RateLimitReset' },
+      },
+      content: { 'application/json': { schema: { $ref: '#/components/schemas/ErrorResponse' } } },
+    }
+  }
+  responses.default = { $ref: '#/components/responses/Error' }
+
+  const segment = path.replace(/^\/api\/v1\/?/, '').split('/')[0]
+  return {
+    tags: doc?.tags ?? [segment || 'api'],
+    summary: doc?.summary ?? `${method} ${path}`,
+    ...(doc?.description && { description: doc.description }),
+    ...(parameters.length > 0 && { parameters }),
+    ...(requestBody && { requestBody }),
+    ...(requiresAuth && { security: [{ bearerAuth: [] }] }),
+    responses,
+  }
+}
+
+/**
+ * 从应用路由表生成 OpenAPI 3.1 文档
+ *
+ * 同一路径和方法的中间件和处理函数在路由表中是多条记录，按注册顺序合并为一个操作。
+ *
+ * @param app - Hono 应用（所有路由注册完成后调用）
+ * @param info - 文档信息
+ * @returns OpenAPI 文档
+ */
+export function generateOpenAPIDocument(
+  app: Hono<any>,
+  info: { title: string; version: string; description?: string }
+): JsonSchema {
+  const routes = new Map<string, { method: string; path: string; handlers: unknown[] }>()
+  for (const route of app.routes) {
+    if (!HTTP_METHODS.includes(route.method)) {
+      continue
+    }
+    const key = `${route.method} ${route.path}`
+    const entry = routes.get(key) ?? { method: route.method, path: route.path, handlers: [] }
+    entry.handlers.push(route.handler)
+    routes.set(key, entry)
+  }
+
+  const paths: Record<string, JsonSchema> = {}
+  for (const { method, path, handlers } of routes.values()) {
+    const openAPIPath = path.replace(/:(\w+)/g, '{$1}')
+    paths[openAPIPath] ??= {}
+    paths[openAPIPath][method.toLowerCase()] = buildOperation(method, path, handlers)
+  }
+
+  return {
+    openapi: '3.1.0',
+    info,
+    paths,
+    components: buildComponents(),
+  }
+}
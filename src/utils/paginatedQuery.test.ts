@@ -0,0 +1,262 @@
+/**
+ * 分页查询单元测试
+ */
+
+import Database from 'better-sqlite3'
+import { eq, sql } from 'drizzle-orm'
+import { drizzle } from 'drizzle-orm/better-sqlite3'
+import type { DrizzleD1Database } from 'drizzle-orm/d1'
+import { integer, sqliteTable, text } from 'drizzle-orm/sqlite-core'
+import { beforeEach, describe, expect, it } from 'vitest'
+import type { ModelDefinition } from '../db/models'
+import { ValidationError } from '../errors'
+import { paginatedQuery } from './paginatedQuery'
+
+const items = sqliteTable('items', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  name: text('name').notNull(),
+  status: text('status').notNull(),
+  site_id: integer('site_id').notNull(),
+  group_id: integer('group_id'),
+})
+
+const groups = sqliteTable('groups', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  name: text('name').notNull(),
+})
+
+const itemModel: ModelDefinition = {
+  name: 'item',
+  table: items,
+  filterable: ['status'],
+  sortable: ['id', 'name'],
+  searchable: ['name'],
+  selectable: ['id', 'name', 'status', 'group_id'],
+  facetable: ['status'],
+  writable: [],
+  nullable: [],
+  expandable: {
+    group: {
+      type: 'one',
+      table: groups,
+      on: eq(groups.id, items.group_id),
+      columns: { id: groups.id, name: groups.name },
+    },
+    siblings: {
+      type: 'many',
+      query:
+        sql`${sql`(SELECT json_group_array(${groups.name}) FROM ${groups} WHERE ${groups.id} != ${items.group_id})`}`.mapWith(
+          (value: string) => JSON.parse(value)
+        ),
+    },
+  },
+}
+
+type Item = typeof items.$inferSelect
+
+describe('paginatedQuery', () => {
+  let db: DrizzleD1Database
+
+  beforeEach(() => {
+    const sqlite = new Database(':memory:')
+    sqlite.exec(
+      'CREATE TABLE items (id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT NOT NULL, status TEXT NOT NULL, site_id INTEGER NOT NULL, group_id INTEGER)'
+    )
+    sqlite.exec('CREATE TABLE groups (id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT NOT NULL)')
+    sqlite.exec("INSERT INTO groups (name) VALUES ('odd'), ('even')")
+    const insert = sqlite.prepare(
+      'INSERT INTO items (name, status, site_id, group_id) VALUES (?, ?, ?, ?)'
+    )
+    for (let i = 1; i <= 12; i++) {
+      insert.run(`item${i}`, i === 12 ? 'DELETE' : 'NORMAL', 1, i % 2 === 1 ? 1 : 2)
+    }
+    insert.run('other', 'NORMAL', 2, null)
+
+    // better-sqlite3 驱动没有 batch，按顺序执行模拟 D1 batch
+    const local = drizzle(sqlite) as any
+    local.batch = (queries: any[]) => Promise.all(queries)
+    db = local as DrizzleD1Database
+  })
+
+  it('should return the page with total counts', async () => {
+    const result = await paginatedQuery<Item>(db, items, { page: 2, pageSize: 5 }, { siteId: 1 })
+
+    // 默认按 id 降序
+    expect(result.data.map((item) => item.id)).toEqual([6, 5, 4, 3, 2])
+    expect(result.total).toBe(11)
+    expect(result.totalPages).toBe(3)
+    expect(result.hasMore).toBe(true)
+  })
+
+  it('should report no more pages on the last page', async () => {
+    const result = await paginatedQuery<Item>(db, items, { page: 3, pageSize: 5 }, { siteId: 1 })
+
+    expect(result.data).toHaveLength(1)
+    expect(result.hasMore).toBe(false)
+  })
+
+  it('should skip the count when withTotal is false', async () => {
+    const result = await paginatedQuery<Item>(
+      db,
+      items,
+      { page: 2, pageSize: 5, withTotal: false },
+      { siteId: 1 }
+    )
+
+    expect(result.data).toHaveLength(5)
+    expect(result.total).toBeNull()
+    expect(result.totalPages).toBeNull()
+    expect(result.hasMore).toBe(true)
+
+    const last = await paginatedQuery<Item>(
+      db,
+      items,
+      { page: 3, pageSize: 5, withTotal: false },
+      { siteId: 1 }
+    )
+    expect(last.data).toHaveLength(1)
+    expect(last.hasMore).toBe(false)
+  })
+
+  it('should combine the extra condition and default order', async () => {
+    const result = await paginatedQuery<Item>(
+      db,
+      items,
+      { page: 1, pageSize: 10 },
+      {
+        siteId: 1,
+        hasStatus: false,
+        where: eq(items.status, 'DELETE'),
+        defaultSort: { field: 'name', order: 'asc' },
+      }
+    )
+
+    expect(result.data.map((item) => item.name)).toEqual(['item12'])
+    expect(result.total).toBe(1)
+  })
+
+  it('should select only the requested columns', async () => {
+    const result = await paginatedQuery<{ id: number }>(
+      db,
+      items,
+      { page: 1, pageSize: 1 },
+      { siteId: 2, columns: { id: items.id } }
+    )
+
+    expect(result.data).toEqual([{ id: 13 }])
+  })
+
+  it('should walk forward and backward with cursors', async () => {
+    const params = { pageSize: 4, sort: 'name', sortOrder: 'desc' as const }
+    const first = await paginatedQuery<Item>(db, items, { ...params, page: 1 }, { siteId: 1 })
+    expect(first.prevCursor).toBeNull()
+
+    const second = await paginatedQuery<Item>(
+      db,
+      items,
+      { ...params, cursor: first.nextCursor ?? undefined },
+      { siteId: 1 }
+    )
+    const third = await paginatedQuery<Item>(
+      db,
+      items,
+      { ...params, cursor: second.nextCursor ?? undefined },
+      { siteId: 1 }
+    )
+
+    const names = [...first.data, ...second.data, ...third.data].map((item) => item.name)
+    expect(names).toEqual(
+      Array.from({ length: 11 }, (_, i) => `item${i + 1}`).sort((a, b) => b.localeCompare(a))
+    )
+    expect(second.page).toBeNull()
+    expect(third.hasMore).toBe(false)
+    expect(third.nextCursor).toBeNull()
+
+    const back = await paginatedQuery<Item>(
+      db,
+      items,
+      { ...params, cursor: second.prevCursor ?? undefined },
+      { siteId: 1 }
+    )
+    expect(back.data).toEqual(first.data)
+    expect(back.prevCursor).toBeNull()
+    expect(back.hasMore).toBe(true)
+  })
+
+  it('should not return rows inserted before the cursor position', async () => {
+    const first = await paginatedQuery<Item>(db, items, { page: 1, pageSize: 5 }, { siteId: 1 })
+    await db.insert(items).values({ name: 'new', status: 'NORMAL', site_id: 1 })
+
+    const second = await paginatedQuery<Item>(
+      db,
+      items,
+      { pageSize: 5, cursor: first.nextCursor ?? undefined },
+      { siteId: 1 }
+    )
+    expect(second.data.map((item) => item.id)).toEqual([6, 5, 4, 3, 2])
+  })
+
+  it('should reject invalid cursors and cursors for another sort', async () => {
+    const first = await paginatedQuery<Item>(db, items, { page: 1, pageSize: 5 }, { siteId: 1 })
+
+    await expect(
+      paginatedQuery<Item>(db, items, { cursor: 'not-a-cursor' }, { siteId: 1 })
+    ).rejects.toThrow(ValidationError)
+    await expect(
+      paginatedQuery<Item>(
+        db,
+        items,
+        { sort: 'name', cursor: first.nextCursor ?? undefined },
+        { siteId: 1 }
+      )
+    ).rejects.toThrow('游标与排序参数不匹配')
+  })
+
+  it('should return only the requested fields plus id and the sort field', async () => {
+    const result = await paginatedQuery<Partial<Item>>(
+      db,
+      items,
+      { page: 1, pageSize: 2, fields: ['status'], sort: 'name', sortOrder: 'asc' },
+      { siteId: 1, model: itemModel }
+    )
+
+    expect(result.data).toEqual([
+      { status: 'NORMAL', id: 1, name: 'item1' },
+      { status: 'NORMAL', id: 10, name: 'item10' },
+    ])
+    expect(result.nextCursor).toBeTruthy()
+  })
+
+  it('should reject fields and relations the model does not declare', async () => {
+    await expect(
+      paginatedQuery<Item>(db, items, { fields: ['site_id'] }, { siteId: 1, model: itemModel })
+    ).rejects.toThrow('不支持返回 site_id 字段，允许的字段: id, name, status, group_id')
+    await expect(
+      paginatedQuery<Item>(db, items, { expand: ['owner'] }, { siteId: 1, model: itemModel })
+    ).rejects.toThrow('不支持展开 owner，允许的关联: group, siblings')
+    await expect(
+      paginatedQuery<Item>(db, items, { expand: ['group'] }, { siteId: 1 })
+    ).rejects.toThrow(ValidationError)
+  })
+
+  it('should expand relations in the same query', async () => {
+    const result = await paginatedQuery<Record<string, unknown>>(
+      db,
+      items,
+      { page: 1, pageSize: 2, fields: ['name'], expand: ['group', 'siblings'] },
+      { siteId: 2, model: itemModel, hasStatus: false }
+    )
+    expect(result.data).toEqual([{ name: 'other', id: 13, group: null, siblings: [] }])
+
+    const expanded = await paginatedQuery<Record<string, unknown>>(
+      db,
+      items,
+      { page: 1, pageSize: 2, fields: ['name'], expand: ['group', 'siblings'] },
+      { siteId: 1, model: itemModel }
+    )
+    expect(expanded.data).toEqual([
+      { name: 'item11', id: 11, group: { id: 1, name: 'odd' }, siblings: ['even'] },
+      { name: 'item10', id: 10, group: { id: 2, name: 'even' }, siblings: ['odd'] },
+    ])
+  })
+})
@@ -0,0 +1,138 @@
+/**
+ * 分页查询模块
+ * 基于 buildQuery 执行分页查询，列表接口共用
+ *
+ * 数据查询和 count(*) 查询通过一次 D1 batch 执行，只传输当前页的数据；
+ * 客户端传 withTotal=false 时跳过总数统计，多取一条记录判断是否有下一页。
+ * 传 cursor 时使用键集分页（见 utils/cursor），否则使用 OFFSET 分页，
+ * 两种模式都返回 nextCursor/prevCursor，客户端可以从任意一页切换到游标分页。
+ * fields/expand 参数由 buildSelection 转换为查询字段和左连接，id 和排序字段始终返回。
+ */
+
+import { and, count, getTableColumns, type SQL } from 'drizzle-orm'
+import type { DrizzleD1Database } from 'drizzle-orm/d1'
+import type { SQLiteColumn, SQLiteTable } from 'drizzle-orm/sqlite-core'
+import type { PaginatedResult, QueryParams } from '../types'
+import {
+  type CursorSort,
+  cursorFromRow,
+  decodeCursor,
+  keysetCondition,
+  keysetOrderBy,
+  scanOrder,
+} from './cursor'
+import { type BuildQueryOptions, buildQuery, buildSelection } from './queryBuilder'
+
+/**
+ * 分页查询选项
+ */
+export interface PaginatedQueryOptions extends Omit<BuildQueryOptions, 'tableColumns'> {
+  columns?: Record<string, SQLiteColumn> // 查询字段（默认全部字段）
+  where?: SQL // 额外的查询条件（与 buildQuery 的条件 AND 组合）
+  defaultSort?: CursorSort // 未指定 sort 时的排序（默认 id 降序）
+}
+
+/**
+ * 执行分页查询
+ *
+ * 排序固定追加 id 作为第二排序键，保证翻页结果稳定。
+ *
+ * @param db - 数据库实例
+ * @param table - 数据表（必须有 id 字段）
+ * @param params - 查询参数（过滤、排序、分页、搜索、cursor、withTotal、fields、expand）
+ * @param options - 分页查询选项
+ * @returns 分页结果（withTotal=false 时 total、totalPages 为 null，游标分页时 page 为 null）
+ * @throws ValidationError 如果游标无效或与排序参数不匹配，或返回字段、关联不支持
+ *
+ * @example
+ * const result = await paginatedQuery<Article>(db, articles, { page: 2, pageSize: 10 }, { siteId })
+ * // { data: [...], total: 45, page: 2, pageSize: 10, totalPages: 5, hasMore: true, nextCursor: '...', prevCursor: '...' }
+ */
+export async function paginatedQuery<T>(
+  db: DrizzleD1Database,
+  table: SQLiteTable,
+  params: QueryParams,
+  options: PaginatedQueryOptions
+): Promise<PaginatedResult<T>> {
+  const { columns, where: extraWhere, defaultSort, ...buildOptions } = options
+  const tableColumns = getTableColumns(table) as Record<string, SQLiteColumn>
+
+  // 构建查询条件
+  const built = buildQuery(params, { ...buildOptions, tableColumns })
+  const where = extraWhere ? and(built.where, extraWhere) : built.where
+  const pageSize = built.limit ?? 10
+  const withTotal = params.withTotal !== false
+
+  // 确定排序方式
+  const sort: CursorSort =
+    params.sort && tableColumns[params.sort]
+      ? { field: params.sort, order: params.sortOrder === 'desc' ? 'desc' : 'asc' }
+      : (defaultSort ?? { field: 'id', order: 'desc' })
+  const sortColumn = tableColumns[sort.field]
+  const idColumn = tableColumns.id
+
+  // 游标分页从游标位置开始扫描，向前翻页时反向扫描
+  const cursor = params.cursor ? decodeCursor(params.cursor, sort) : undefined
+  const direction = cursor?.direction ?? 'next'
+  const offset = cursor ? 0 : (built.offset ?? 0)
+  const fetchExtra = cursor !== undefined || !withTotal
+
+  // 构建查询字段（游标需要 id 和排序字段）
+  const selection = buildSelection(params, columns ?? tableColumns, buildOptions.model, [
+    'id',
+    sort.field,
+  ])
+
+  // 构建数据查询（需要判断是否有更多记录时多取一条）
+  let pageQuery = db.select(selection.columns).from(table).$dynamic()
+  for (const join of selection.joins) {
+    pageQuery = pageQuery.leftJoin(join.table, join.on)
+  }
+  pageQuery = pageQuery
+    .where(cursor ? and(where, keysetCondition(sortColumn, idColumn, cursor)) : where)
+    .orderBy(...keysetOrderBy(sortColumn, idColumn, scanOrder(sort, direction)))
+    .limit(fetchExtra ? pageSize + 1 : pageSize)
+    .offset(offset)
+
+  let rows: Record<string, any>[]
+  let total: number | null = null
+  if (withTotal) {
+    // 数据查询和总数查询在同一个 batch 中执行
+    const countQuery = db.select({ total: count() }).from(table).where(where)
+    const [pageRows, [countRow]] = await db.batch([pageQuery, countQuery])
+    rows = pageRows
+    total = countRow.total
+  } else {
+    rows = await pageQuery.all()
+  }
+
+  // 判断前后是否还有记录
+  const extra = fetchExtra && rows.length > pageSize
+  rows = rows.slice(0, pageSize)
+  let hasMore: boolean
+  let hasPrev: boolean
+  if (cursor) {
+    hasMore = direction === 'next' ? extra : true
+    hasPrev = direction === 'prev' ? extra : true
+    if (direction === 'prev') {
+      rows.reverse()
+    }
+  } else {
+    hasMore = total !== null ? offset + rows.length < total : extra
+    hasPrev = offset > 0
+  }
+
+  const first = rows[0]
+  const last = rows[rows.length - 1]
+
+  return {
+    data: rows as T[],
+    total,
+    page: cursor ? null : params.page && params.page > 0 ? params.page : 1,
+    pageSize,
+    totalPages: total !== null ? Math.ceil(total / pageSize) : null,
+    hasMore,
+    nextCursor: hasMore && last ? cursorFromRow(last, sort, 'next') : null,
+    prevCursor: hasPrev && first ? cursorFromRow(first, sort, 'prev') : null,
+  }
+}
@@ -0,0 +1,218 @@
+/**
+ * PATCH 请求模块单元测试
+ */
+
+import { integer, sqliteTable, text } from 'drizzle-orm/sqlite-core'
+import { Hono } from 'hono'
+import { describe, expect, it } from 'vitest'
+import type { ModelDefinition } from '../db/models'
+import { ConflictError, PreconditionFailedError, ValidationError } from '../errors'
+import { errorHandler } from '../middleware/errorHandler'
+import { applyJsonPatch, applyMergePatch, applyPatch, parsePatchRequest } from './patch'
+
+const items = sqliteTable('items', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  title: text('title').notNull(),
+  description: text('description').default(''),
+  owner_id: integer('owner_id'),
+  status: text('status').default('NORMAL'),
+  tags: text('tags').default(''),
+  end_time: integer('end_time', { mode: 'timestamp' }),
+  update_at: integer('update_at', { mode: 'timestamp' }).notNull(),
+})
+
+const itemModel: ModelDefinition = {
+  name: 'item',
+  table: items,
+  filterable: [],
+  sortable: [],
+  searchable: [],
+  selectable: ['id', 'title', 'description', 'owner_id', 'status', 'tags', 'end_time'],
+  facetable: [],
+  writable: ['title', 'description', 'owner_id', 'status', 'tags', 'end_time'],
+  nullable: ['description', 'owner_id', 'end_time'],
+  expandable: {},
+}
+
+const item = {
+  id: 1,
+  title: '标题',
+  description: '描述',
+  owner_id: 3,
+  status: 'NORMAL',
+  tags: '["a","b"]',
+  end_time: new Date('2024-03-01T00:00:00Z'),
+  update_at: new Date(1708070400000),
+}
+
+describe('applyMergePatch', () => {
+  it('should replace values, remove nulls and merge nested objects', () => {
+    expect(
+      applyMergePatch({ a: 'b', c: { d: 'e', f: 'g' } }, { a: 'z', c: { f: null, h: [1] } })
+    ).toEqual({ a: 'z', c: { d: 'e', h: [1] } })
+    expect(applyMergePatch({ a: [1, 2] }, { a: [3] })).toEqual({ a: [3] })
+  })
+})
+
+describe('applyJsonPatch', () => {
+  const document = { title: 'a', tags: ['x', 'y'], owner_id: 3 }
+
+  it('should apply operations in order without changing the input', () => {
+    const result = applyJsonPatch(document, [
+      { op: 'test', path: '/title', value: 'a' },
+      { op: 'replace', path: '/title', value: 'b' },
+      { op: 'add', path: '/tags/-', value: 'z' },
+      { op: 'add', path: '/tags/0', value: 'w' },
+      { op: 'remove', path: '/tags/2' },
+      { op: 'copy', from: '/tags/0', path: '/tags/-' },
+      { op: 'move', from: '/owner_id', path: '/editor_id' },
+    ])
+
+    expect(result).toEqual({ title: 'b', tags: ['w', 'x', 'z', 'w'], editor_id: 3 })
+    expect(document).toEqual({ title: 'a', tags: ['x', 'y'], owner_id: 3 })
+  })
+
+  it('should unescape JSON pointers', () => {
+    expect(applyJsonPatch({ 'a/b': 1, 'c~d': 2 }, [{ op: 'remove', path: '/a~1b' }])).toEqual({
+      'c~d': 2,
+    })
+    expect(applyJsonPatch({ 'c~d': 2 }, [{ op: 'test', path: '/c~0d', value: 2 }])).toEqual({
+      'c~d': 2,
+    })
+  })
+
+  it('should reject missing paths and failed tests', () => {
+    expect(() => applyJsonPatch(document, [{ op: 'remove', path: '/missing' }])).toThrow(
+      '补丁路径不存在: /missing'
+    )
+    expect(() =>
+      applyJsonPatch(document, [{ op: 'replace', path: '/tags/2', value: 'z' }])
+    ).toThrow(ValidationError)
+    expect(() => applyJsonPatch(document, [{ op: 'add', path: '', value: {} }])).toThrow(
+      ValidationError
+    )
+    expect(() =>
+      applyJsonPatch(document, [{ op: 'move', from: '/tags', path: '/tags/0' }])
+    ).toThrow(ValidationError)
+    expect(() =>
+      applyJsonPatch(document, [{ op: 'test', path: '/tags', value: ['y', 'x'] }])
+    ).toThrow(ConflictError)
+  })
+})
+
+describe('applyPatch', () => {
+  it('should return only changed fields', () => {
+    const { changes, ifMatch } = applyPatch(
+      item,
+      { type: 'merge', patch: { title: '新标题', status: 'NORMAL' } },
+      itemModel
+    )
+
+    expect(changes).toEqual({ title: '新标题' })
+    expect(ifMatch).toBe('"1708070400000"')
+  })
+
+  it('should clear nullable fields to their empty value', () => {
+    const merge = applyPatch(
+      item,
+      { type: 'merge', patch: { description: null, owner_id: null, end_time: null } },
+      itemModel
+    )
+    expect(merge.changes).toEqual({ description: '', owner_id: null, end_time: null })
+
+    const json = applyPatch(
+      item,
+      { type: 'json', operations: [{ op: 'remove', path: '/owner_id' }] },
+      itemModel
+    )
+    expect(json.changes).toEqual({ owner_id: null })
+  })
+
+  it('should reject clearing required fields and writing undeclared fields', () => {
+    expect(() => applyPatch(item, { type: 'merge', patch: { title: null } }, itemModel)).toThrow(
+      'title 不能为空'
+    )
+    expect(() => applyPatch(item, { type: 'merge', patch: { id: 2 } }, itemModel)).toThrow(
+      `不支持修改 id 字段，允许的字段: ${itemModel.writable.join(', ')}`
+    )
+    expect(() =>
+      applyPatch(
+        item,
+        { type: 'json', operations: [{ op: 'copy', from: '/update_at', path: '/title' }] },
+        itemModel
+      )
+    ).toThrow('不支持修改 update_at 字段')
+  })
+
+  it('should compare dates with the serialized value and keep patched values as sent', () => {
+    const unchanged = applyPatch(
+      item,
+      { type: 'merge', patch: { end_time: '2024-03-01T00:00:00.000Z' } },
+      itemModel
+    )
+    expect(unchanged.changes).toEqual({})
+
+    const { changes } = applyPatch(
+      item,
+      { type: 'merge', patch: { end_time: 1709337600 } },
+      itemModel
+    )
+    expect(changes).toEqual({ end_time: 1709337600 })
+  })
+
+  it('should check If-Match against the current version', () => {
+    expect(() =>
+      applyPatch(item, { type: 'merge', patch: { title: 'x' } }, itemModel, '"1"')
+    ).toThrow(PreconditionFailedError)
+    expect(
+      applyPatch(item, { type: 'merge', patch: { title: 'x' } }, itemModel, '"1708070400000"')
+        .changes
+    ).toEqual({ title: 'x' })
+  })
+})
+
+describe('parsePatchRequest', () => {
+  const app = new Hono()
+  app.onError(errorHandler)
+  app.patch('/item', async (c) => c.json(await parsePatchRequest(c)))
+
+  function patch(contentType: string, body: string) {
+    return app.request('/item', {
+      method: 'PATCH',
+      headers: { 'Content-Type': contentType },
+      body,
+    })
+  }
+
+  it('should parse both patch formats', async () => {
+    const merge = await patch('application/merge-patch+json; charset=utf-8', '{"title":"a"}')
+    expect(await merge.json()).toEqual({ type: 'merge', patch: { title: 'a' } })
+
+    const operations = [{ op: 'remove', path: '/title' }]
+    const json = await patch('application/json-patch+json', JSON.stringify(operations))
+    expect(await json.json()).toEqual({ type: 'json', operations })
+  })
+
+  it('should reject other content types with Accept-Patch', async () => {
+    const res = await patch('application/json', '{"title":"a"}')
+    expect(res.status).toBe(415)
+    expect(res.headers.get('Accept-Patch')).toBe(
+      'application/merge-patch+json, application/json-patch+json'
+    )
+  })
+
+  it('should reject malformed bodies', async () => {
+    expect((await patch('application/merge-patch+json', '[1]')).status).toBe(400)
+    expect((await patch('application/merge-patch+json', '{')).status).toBe(400)
+    expect((await patch('application/json-patch+json', '{"op":"add"}')).status).toBe(400)
+    expect((await patch('application/json-patch+json', '[{"op":"add","path":"/a"}]')).status).toBe(
+      400
+    )
+    expect((await patch('application/json-patch+json', '[{"op":"copy","path":"/a"}]')).status).toBe(
+      400
+    )
+    expect(
+      (await patch('application/json-patch+json', '[{"op":"merge","path":"/a"}]')).status
+    ).toBe(400)
+  })
+})
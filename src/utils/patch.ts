@@ -0,0 +1,404 @@
+/**
+ * PATCH 请求模块
+ * 支持 JSON Merge Patch（RFC 7396）和 JSON Patch（RFC 6902），按模型定义校验可修改字段
+ *
+ * 补丁作用于资源当前记录中 writable 字段组成的文档（日期为 ISO 字符串，与 GET 响应一致），
+ * 应用后比较得到变更字段，交给各服务原有的 update 方法处理：
+ * - Content-Type: application/merge-patch+json   { "author_id": null, "title": "新标题" }
+ * - Content-Type: application/json-patch+json    [{ "op": "replace", "path": "/title", "value": "新标题" }]
+ *
+ * null（或 remove 操作）表示清空字段，只允许模型 nullable 声明的字段：
+ * 默认值为空字符串的文本字段清空为空字符串，其余字段清空为 NULL。
+ * 变更字段的类型和长度由路由使用对应的 Update 校验模式（types/schemas.ts）校验，
+ * 日期字段接受 ISO 字符串或 Unix 秒级时间戳。
+ */
+
+import { getTableColumns } from 'drizzle-orm'
+import type { SQLiteColumn } from 'drizzle-orm/sqlite-core'
+import type { Context } from 'hono'
+import type { ModelDefinition } from '../db/models'
+import { ConflictError, UnsupportedMediaTypeError, ValidationError } from '../errors'
+import type { JsonPatchOperation, PatchRequest } from '../types'
+import { assertIfMatch, getETag, type VersionedResource } from './etag'
+
+// 支持的补丁格式
+export const MERGE_PATCH_CONTENT_TYPE = 'application/merge-patch+json'
+export const JSON_PATCH_CONTENT_TYPE = 'application/json-patch+json'
+
+// 单次请求最多的 JSON Patch 操作数
+const MAX_PATCH_OPERATIONS = 100
+
+// JSON Patch 操作类型
+const PATCH_OPERATIONS: readonly JsonPatchOperation['op'][] = [
+  'add',
+  'remove',
+  'replace',
+  'move',
+  'copy',
+  'test',
+]
+
+// JSON 容器（对象或数组）
+type JsonContainer = Record<string, unknown> | unknown[]
+
+/**
+ * 补丁应用结果
+ */
+export interface PatchResult {
+  changes: Record<string, unknown> // 变更字段（清空的字段已转换为存储值）
+  ifMatch: string // 补丁所基于的版本（传给 update，防止读取后被其他请求修改）
+}
+
+/**
+ * 判断是否为普通对象
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * 判断对象自身是否有指定字段（不含原型链）
+ */
+function hasKey(object: Record<string, unknown>, key: string): boolean {
+  return Object.keys(object).includes(key)
+}
+
+/**
+ * 判断两个 JSON 值是否相等
+ */
+function jsonEqual(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => jsonEqual(item, b[i]))
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a)
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => hasKey(b, key) && jsonEqual(a[key], b[key]))
+    )
+  }
+  return a === b
+}
+
+/**
+ * 解析 JSON Pointer（RFC 6901）
+ *
+ * @throws ValidationError 如果不是以 / 开头的非根路径
+ */
+function parsePointer(pointer: string): string[] {
+  if (!pointer.startsWith('/')) {
+    throw new ValidationError(`无效的补丁路径: ${pointer === '' ? '（根路径）' : pointer}`)
+  }
+  return pointer
+    .slice(1)
+    .split('/')
+    .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+}
+
+/**
+ * 解析数组下标
+ *
+ * @param allowEnd - 是否允许 -（数组末尾）和等于长度的下标（add 操作）
+ */
+function arrayIndex(array: unknown[], segment: string, pointer: string, allowEnd: boolean): number {
+  if (allowEnd && segment === '-') {
+    return array.length
+  }
+  const index = /^(0|[1-9][0-9]*)$/.test(segment) ? Number(segment) : -1
+  if (index < 0 || index > array.length || (!allowEnd && index === array.length)) {
+    throw new ValidationError(`补丁路径不存在: ${pointer}`)
+  }
+  return index
+}
+
+/**
+ * 定位 JSON Pointer 的父容器和最后一段
+ *
+ * @throws ValidationError 如果中间路径不存在
+ */
+function locate(document: Record<string, unknown>, pointer: string): [JsonContainer, string] {
+  const segments = parsePointer(pointer)
+  let container: unknown = document
+
+  for (const segment of segments.slice(0, -1)) {
+    if (Array.isArray(container)) {
+      container = container[arrayIndex(container, segment, pointer, false)]
+    } else if (isObject(container) && hasKey(container, segment)) {
+      container = container[segment]
+    } else {
+      throw new ValidationError(`补丁路径不存在: ${pointer}`)
+    }
+  }
+
+  if (!Array.isArray(container) && !isObject(container)) {
+    throw new ValidationError(`补丁路径不存在: ${pointer}`)
+  }
+  return [container, segments[segments.length - 1]]
+}
+
+/**
+ * 读取 JSON Pointer 指向的值
+ */
+function getValue(document: Record<string, unknown>, pointer: string): unknown {
+  const [container, key] = locate(document, pointer)
+  if (Array.isArray(container)) {
+    return container[arrayIndex(container, key, pointer, false)]
+  }
+  if (!hasKey(container, key)) {
+    throw new ValidationError(`补丁路径不存在: ${pointer}`)
+  }
+  return container[key]
+}
+
+/**
+ * 在 JSON Pointer 位置添加值（数组中插入，对象中新增或替换）
+ */
+function addValue(document: Record<string, unknown>, pointer: string, value: unknown): void {
+  const [container, key] = locate(document, pointer)
+  if (Array.isArray(container)) {
+    container.splice(arrayIndex(container, key, pointer, true), 0, value)
+  } else {
+    container[key] = value
+  }
+}
+
+/**
+ * 删除 JSON Pointer 指向的值
+ */
+function removeValue(document: Record<string, unknown>, pointer: string): void {
+  const [container, key] = locate(document, pointer)
+  if (Array.isArray(container)) {
+    container.splice(arrayIndex(container, key, pointer, false), 1)
+  } else {
+    if (!hasKey(container, key)) {
+      throw new ValidationError(`补丁路径不存在: ${pointer}`)
+    }
+    delete container[key]
+  }
+}
+
+/**
+ * 应用 JSON Merge Patch（RFC 7396）
+ *
+ * @param target - 目标文档
+ * @param patch - 补丁（null 表示删除字段，对象递归合并，其余值直接替换）
+ * @returns 合并后的文档
+ */
+export function applyMergePatch(target: unknown, patch: unknown): unknown {
+  if (!isObject(patch)) {
+    return patch
+  }
+
+  const result: Record<string, unknown> = isObject(target) ? { ...target } : {}
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete result[key]
+    } else {
+      result[key] = applyMergePatch(result[key], value)
+    }
+  }
+  return result
+}
+
+/**
+ * 应用 JSON Patch（RFC 6902）
+ *
+ * 操作按顺序应用在文档副本上，任一操作失败时整个补丁不生效。
+ *
+ * @param document - 目标文档
+ * @param operations - 补丁操作
+ * @returns 应用后的文档
+ * @throws ValidationError 如果路径不存在或无效
+ * @throws ConflictError 如果 test 操作不匹配
+ */
+export function applyJsonPatch(
+  document: Record<string, unknown>,
+  operations: JsonPatchOperation[]
+): Record<string, unknown> {
+  const result = structuredClone(document)
+
+  for (const operation of operations) {
+    switch (operation.op) {
+      case 'add':
+        addValue(result, operation.path, structuredClone(operation.value))
+        break
+      case 'remove':
+        removeValue(result, operation.path)
+        break
+      case 'replace':
+        removeValue(result, operation.path)
+        addValue(result, operation.path, structuredClone(operation.value))
+        break
+      case 'move': {
+        const from = operation.from as string
+        if (operation.path.startsWith(`${from}/`)) {
+          throw new ValidationError(`不能将 ${from} 移动到其子路径`)
+        }
+        const value = getValue(result, from)
+        removeValue(result, from)
+        addValue(result, operation.path, value)
+        break
+      }
+      case 'copy':
+        addValue(
+          result,
+          operation.path,
+          structuredClone(getValue(result, operation.from as string))
+        )
+        break
+      case 'test':
+        if (!jsonEqual(getValue(result, operation.path), operation.value)) {
+          throw new ConflictError(`补丁 test 操作不匹配: ${operation.path}`)
+        }
+        break
+    }
+  }
+
+  return result
+}
+
+/**
+ * 校验 JSON Patch 操作格式
+ *
+ * @throws ValidationError 如果操作格式无效
+ */
+function parseJsonPatch(body: unknown): JsonPatchOperation[] {
+  if (!Array.isArray(body)) {
+    throw new ValidationError('JSON Patch 请求体必须是操作数组')
+  }
+  if (body.length > MAX_PATCH_OPERATIONS) {
+    throw new ValidationError(`JSON Patch 操作不能超过 ${MAX_PATCH_OPERATIONS} 个`)
+  }
+
+  return body.map((operation, i) => {
+    if (
+      !isObject(operation) ||
+      !PATCH_OPERATIONS.includes(operation.op as JsonPatchOperation['op'])
+    ) {
+      throw new ValidationError(
+        `第 ${i + 1} 个补丁操作无效，允许的操作: ${PATCH_OPERATIONS.join(', ')}`
+      )
+    }
+    if (typeof operation.path !== 'string') {
+      throw new ValidationError(`第 ${i + 1} 个补丁操作缺少 path`)
+    }
+    if (['move', 'copy'].includes(operation.op as string) && typeof operation.from !== 'string') {
+      throw new ValidationError(`第 ${i + 1} 个补丁操作缺少 from`)
+    }
+    if (['add', 'replace', 'test'].includes(operation.op as string) && !('value' in operation)) {
+      throw new ValidationError(`第 ${i + 1} 个补丁操作缺少 value`)
+    }
+    return operation as unknown as JsonPatchOperation
+  })
+}
+
+/**
+ * 读取 PATCH 请求体
+ *
+ * 按 Content-Type 区分补丁格式，不支持的格式返回 415 并通过 Accept-Patch 响应头列出支持的格式。
+ *
+ * @param c - Hono 上下文
+ * @returns 补丁
+ * @throws UnsupportedMediaTypeError 如果 Content-Type 不是支持的补丁格式
+ * @throws ValidationError 如果请求体不是有效的补丁
+ */
+export async function parsePatchRequest(c: Context): Promise<PatchRequest> {
+  const contentType = c.req.header('Content-Type')?.split(';')[0].trim().toLowerCase()
+  if (contentType !== MERGE_PATCH_CONTENT_TYPE && contentType !== JSON_PATCH_CONTENT_TYPE) {
+    c.header('Accept-Patch', `${MERGE_PATCH_CONTENT_TYPE}, ${JSON_PATCH_CONTENT_TYPE}`)
+    throw new UnsupportedMediaTypeError(
+      `PATCH 请求的 Content-Type 必须是 ${MERGE_PATCH_CONTENT_TYPE} 或 ${JSON_PATCH_CONTENT_TYPE}`
+    )
+  }
+
+  let body: unknown
+  try {
+    body = await c.req.json()
+  } catch {
+    throw new ValidationError('请求体不是有效的 JSON')
+  }
+
+  if (contentType === JSON_PATCH_CONTENT_TYPE) {
+    return { type: 'json', operations: parseJsonPatch(body) }
+  }
+  if (!isObject(body)) {
+    throw new ValidationError('JSON Merge Patch 请求体必须是对象')
+  }
+  return { type: 'merge', patch: body }
+}
+
+/**
+ * 将补丁应用到资源并计算变更字段
+ *
+ * 补丁只能修改模型 writable 声明的字段，清空字段只允许 nullable 声明的字段。
+ * 携带 If-Match 时先校验读取到的版本，返回的 ifMatch 始终为读取到的版本，
+ * 保证补丁不会覆盖读取之后其他请求的修改。
+ *
+ * @param resource - 资源当前记录
+ * @param request - 补丁
+ * @param model - 模型定义
+ * @param ifMatch - If-Match 请求头（可选）
+ * @returns 变更字段和补丁所基于的版本
+ * @throws ValidationError 如果修改了不允许的字段或清空了不可为空的字段
+ * @throws ConflictError 如果 JSON Patch 的 test 操作不匹配
+ * @throws PreconditionFailedError 如果 If-Match 与资源当前版本不一致
+ *
+ * @example
+ * const { changes, ifMatch } = applyPatch(channel, await parsePatchRequest(c), channelModel)
+ * await channelService.update(id, parseSchema(updateChannelSchema, changes), siteId, ifMatch)
+ */
+export function applyPatch<T extends VersionedResource>(
+  resource: T,
+  request: PatchRequest,
+  model: ModelDefinition,
+  ifMatch?: string
+): PatchResult {
+  assertIfMatch(ifMatch, resource)
+
+  // 校验补丁涉及的字段
+  const fields =
+    request.type === 'merge'
+      ? Object.keys(request.patch)
+      : request.operations.flatMap((operation) =>
+          [operation.path, operation.from]
+            .filter((pointer): pointer is string => pointer !== undefined)
+            .map((pointer) => parsePointer(pointer)[0])
+        )
+  for (const field of fields) {
+    if (!model.writable.includes(field)) {
+      throw new ValidationError(
+        `不支持修改 ${field} 字段，允许的字段: ${model.writable.join(', ')}`
+      )
+    }
+  }
+
+  // 补丁文档：writable 字段的 JSON 表示
+  const source = JSON.parse(JSON.stringify(resource)) as Record<string, unknown>
+  const document = Object.fromEntries(
+    model.writable.filter((field) => field in source).map((field) => [field, source[field]])
+  )
+  const patched =
+    request.type === 'merge'
+      ? (applyMergePatch(document, request.patch) as Record<string, unknown>)
+      : applyJsonPatch(document, request.operations)
+
+  // 比较得到变更字段
+  const columns = getTableColumns(model.table) as Record<string, SQLiteColumn>
+  const changes: Record<string, unknown> = {}
+  for (const field of model.writable) {
+    const value = patched[field] ?? null
+    if (jsonEqual(value, document[field] ?? null)) {
+      continue
+    }
+    if (value === null) {
+      if (!model.nullable.includes(field)) {
+        throw new ValidationError(`${field} 不能为空`)
+      }
+      changes[field] = columns[field].default === '' ? '' : null
+    } else {
+      changes[field] = value
+    }
+  }
+
+  return { changes, ifMatch: getETag(resource) }
+}
@@ -1,7 +1,28 @@
-import { and, asc, desc, eq, gt, gte, like, lt, lte, or, type SQL, sql } from 'drizzle-orm'
-import type { SQLiteColumn } from 'drizzle-orm/sqlite-core'
+import {
+  and,
+  asc,
+  between,
+  desc,
+  eq,
+  gt,
+  gte,
+  inArray,
+  isNotNull,
+  isNull,
+  like,
+  lt,
+  lte,
+  ne,
+  notInArray,
+  or,
+  type SQL,
+  sql,
+} from 'drizzle-orm'
+import type { SelectedFields, SQLiteColumn, SQLiteTable } from 'drizzle-orm/sqlite-core'
+import type { ModelDefinition } from '../db/models'
 import { StatusEnum } from '../db/schema'
-import type { QueryParams } from '../types'
+import { ValidationError } from '../errors'
+import type { FilterCondition, FilterGroup, QueryParams } from '../types'
 
 /**
  * 查询构建器 - 处理通用查询参数
@@ -11,9 +32,12 @@ import type { QueryParams } from '../types'
  * - 排序：按指定字段升序/降序
  * - 分页：page 和 pageSize
  * - 搜索：模糊匹配文本字段
- * - 比较运算符：gt, lt, gte, lte
+ * - 比较运算符：eq, ne, gt, lt, gte, lte, in, nin, between, isNull, notNull, startsWith
+ * - 过滤条件组：嵌套 AND/OR
  * - 自动应用 site_id 过滤
  * - 自动应用 status != DELETE 过滤（软删除）
+ * - 按模型定义校验过滤、排序和搜索字段（见 db/models）
+ * - 返回字段和关联展开：fields、expand（见 buildSelection）
  */
 
 export interface BuildQueryOptions {
@@ -21,6 +45,7 @@ export interface BuildQueryOptions {
   tableColumns: Record<string, SQLiteColumn>
   hasSiteId?: boolean // 表是否有 site_id 字段（默认 true）
   hasStatus?: boolean // 表是否有 status 字段（默认 true）
+  model?: ModelDefinition // 模型定义（指定后按模型校验过滤、排序和搜索字段）
 }
 
 /**
@@ -35,9 +60,14 @@ export function buildQuery(
   limit: number | undefined
   offset: number | undefined
 } {
-  const { siteId, tableColumns, hasSiteId = true, hasStatus = true } = options
+  const { siteId, tableColumns, hasSiteId = true, hasStatus = true, model } = options
   const conditions: SQL[] = []
 
+  // 按模型定义校验查询字段
+  if (model) {
+    validateQueryFields(params, model)
+  }
+
   // 1. 自动应用 site_id 过滤（多站点隔离）
   if (hasSiteId && tableColumns.site_id) {
     conditions.push(eq(tableColumns.site_id, siteId))
@@ -64,29 +94,28 @@ export function buildQuery(
       const column = tableColumns[comparison.field]
       if (!column) continue
 
-      switch (comparison.operator) {
-        case 'gt':
-          conditions.push(gt(column, comparison.value))
-          break
-        case 'lt':
-          conditions.push(lt(column, comparison.value))
-          break
-        case 'gte':
-          conditions.push(gte(column, comparison.value))
-          break
-        case 'lte':
-          conditions.push(lte(column, comparison.value))
-          break
+      const condition = buildCondition(column, comparison)
+      if (condition) {
+        conditions.push(condition)
       }
     }
   }
 
-  // 5. 应用搜索参数（模糊匹配）
-  if (params.search && params.searchFields && params.searchFields.length > 0) {
+  // 4.1 应用过滤条件组（嵌套 AND/OR）
+  if (params.filterGroup) {
+    const condition = buildFilterGroup(params.filterGroup, tableColumns)
+    if (condition) {
+      conditions.push(condition)
+    }
+  }
+
+  // 5. 应用搜索参数（模糊匹配，指定模型时默认搜索全部可搜索字段）
+  const searchFields = params.searchFields ?? model?.searchable
+  if (params.search && searchFields && searchFields.length > 0) {
     const searchConditions: SQL[] = []
     const searchPattern = `%${params.search}%`
 
-    for (const field of params.searchFields) {
+    for (const field of searchFields) {
       const column = tableColumns[field]
       if (column) {
         searchConditions.push(like(column, searchPattern))
@@ -122,6 +151,267 @@ export function buildQuery(
   }
 }
 
+/**
+ * 查询字段和关联连接
+ */
+export interface QuerySelection {
+  columns: SelectedFields // 查询字段（展开的单条关联为嵌套对象）
+  joins: { table: SQLiteTable; on: SQL | undefined }[] // 需要左连接的关联表
+}
+
+/**
+ * 构建查询字段
+ *
+ * - fields：只返回指定字段，必须是 columns 中且模型声明为可返回的字段
+ * - expand：展开模型声明的关联，单条关联通过左连接返回，多条关联通过子查询返回 JSON 数组，
+ *   都在同一次查询中完成
+ *
+ * @param params - 查询参数
+ * @param columns - 默认查询字段
+ * @param model - 模型定义（可选，未指定时不支持 expand）
+ * @param required - 始终返回的字段（如游标分页需要的 id 和排序字段，不存在时忽略）
+ * @returns 查询字段和需要左连接的关联表
+ * @throws ValidationError 如果字段不可返回或关联不存在
+ *
+ * @example
+ * buildSelection({ fields: ['title'], expand: ['channel'] }, getTableColumns(articles), articleModel, ['id'])
+ * // { columns: { title, id, channel: { id, name, pid, img } }, joins: [{ table: channels, on }] }
+ */
+export function buildSelection(
+  params: Pick<QueryParams, 'fields' | 'expand'>,
+  columns: Record<string, SQLiteColumn>,
+  model?: ModelDefinition,
+  required: readonly string[] = []
+): QuerySelection {
+  let selected: Record<string, SQLiteColumn | SQL | Record<string, SQLiteColumn>> = columns
+  const joins: QuerySelection['joins'] = []
+
+  // 稀疏字段集
+  if (params.fields && params.fields.length > 0) {
+    const allowed = Object.keys(columns).filter(
+      (field) => !model || model.selectable.includes(field)
+    )
+    for (const field of params.fields) {
+      if (!allowed.includes(field)) {
+        throw new ValidationError(`不支持返回 ${field} 字段，允许的字段: ${allowed.join(', ')}`)
+      }
+    }
+
+    selected = {}
+    for (const field of new Set([...params.fields, ...required])) {
+      if (columns[field]) {
+        selected[field] = columns[field]
+      }
+    }
+  }
+
+  // 关联展开
+  if (params.expand && params.expand.length > 0) {
+    const relations = model?.expandable ?? {}
+    const allowed = Object.keys(relations)
+    selected = { ...selected }
+    for (const name of new Set(params.expand)) {
+      if (!allowed.includes(name)) {
+        throw new ValidationError(
+          `不支持展开 ${name}，允许的关联: ${allowed.length > 0 ? allowed.join(', ') : '无'}`
+        )
+      }
+
+      const relation = relations[name]
+      if (relation.type === 'one') {
+        selected[name] = relation.columns
+        joins.push({ table: relation.table, on: relation.on })
+      } else {
+        selected[name] = relation.query
+      }
+    }
+  }
+
+  return { columns: selected as SelectedFields, joins }
+}
+
+/**
+ * 校验字段是否在允许列表中
+ *
+ * @throws ValidationError 如果字段不在允许列表中（错误信息列出允许的字段）
+ */
+function assertAllowedField(field: string, allowed: readonly string[], action: string): void {
+  if (!allowed.includes(field)) {
+    throw new ValidationError(`不支持按 ${field} ${action}，允许的字段: ${allowed.join(', ')}`)
+  }
+}
+
+/**
+ * 收集过滤条件组中的字段
+ */
+function collectGroupFields(group: FilterGroup, fields: string[]): string[] {
+  for (const node of group.conditions) {
+    if ('logic' in node) {
+      collectGroupFields(node, fields)
+    } else {
+      fields.push(node.field)
+    }
+  }
+  return fields
+}
+
+/**
+ * 按模型定义校验查询参数中的过滤、排序和搜索字段
+ *
+ * @param params - 查询参数
+ * @param model - 模型定义
+ * @throws ValidationError 如果使用了模型未声明的字段
+ */
+function validateQueryFields(params: QueryParams, model: ModelDefinition): void {
+  const filterFields = [
+    ...Object.keys(params.filters ?? {}),
+    ...(params.comparisons ?? []).map((comparison) => comparison.field),
+    ...(params.filterGroup ? collectGroupFields(params.filterGroup, []) : []),
+  ]
+  for (const field of filterFields) {
+    assertAllowedField(field, model.filterable, '过滤')
+  }
+
+  if (params.sort) {
+    assertAllowedField(params.sort, model.sortable, '排序')
+  }
+
+  for (const field of params.searchFields ?? []) {
+    assertAllowedField(field, model.searchable, '搜索')
+  }
+}
+
+/**
+ * 按字段类型转换过滤值
+ *
+ * 查询字符串中的值都是字符串，数字、日期和布尔字段需要转换后才能比较
+ * （日期字段必须转换为 Date，否则无法写入查询参数）。
+ *
+ * @param column - 字段
+ * @param field - 字段名（用于错误信息）
+ * @param value - 过滤值
+ * @returns 转换后的值
+ * @throws ValidationError 如果值无法转换为字段类型
+ */
+function coerceValue(column: SQLiteColumn, field: string, value: any): any {
+  if (typeof value !== 'string') {
+    return value
+  }
+
+  switch (column.dataType) {
+    case 'number': {
+      const numericValue = Number(value)
+      if (value.trim() === '' || Number.isNaN(numericValue)) {
+        throw new ValidationError(`无效的 ${field} 过滤值`)
+      }
+      return numericValue
+    }
+    case 'date': {
+      const date = /^\d+$/.test(value) ? new Date(Number(value)) : new Date(value)
+      if (Number.isNaN(date.getTime())) {
+        throw new ValidationError(`无效的 ${field} 过滤值`)
+      }
+      return date
+    }
+    case 'boolean':
+      if (value !== 'true' && value !== 'false' && value !== '1' && value !== '0') {
+        throw new ValidationError(`无效的 ${field} 过滤值`)
+      }
+      return value === 'true' || value === '1'
+    default:
+      return value
+  }
+}
+
+/**
+ * 转义 LIKE 通配符
+ */
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`)
+}
+
+/**
+ * 构建单个过滤条件
+ *
+ * 值格式不符合运算符要求时（如 between 不是两个值）忽略该条件。
+ *
+ * @param column - 字段
+ * @param condition - 过滤条件
+ * @returns SQL 条件
+ */
+function buildCondition(column: SQLiteColumn, condition: FilterCondition): SQL | undefined {
+  const { field, operator } = condition
+  const value = Array.isArray(condition.value)
+    ? condition.value.map((item) => coerceValue(column, field, item))
+    : coerceValue(column, field, condition.value)
+
+  switch (operator) {
+    case 'eq':
+      return eq(column, value)
+    case 'ne':
+      return ne(column, value)
+    case 'gt':
+      return gt(column, value)
+    case 'lt':
+      return lt(column, value)
+    case 'gte':
+      return gte(column, value)
+    case 'lte':
+      return lte(column, value)
+    case 'in':
+      return Array.isArray(value) && value.length > 0 ? inArray(column, value) : undefined
+    case 'nin':
+      return Array.isArray(value) && value.length > 0 ? notInArray(column, value) : undefined
+    case 'between':
+      return Array.isArray(value) && value.length === 2
+        ? between(column, value[0], value[1])
+        : undefined
+    case 'isNull':
+      return isNull(column)
+    case 'notNull':
+      return isNotNull(column)
+    case 'startsWith':
+      return typeof value === 'string'
+        ? sql`${column} LIKE ${`${escapeLike(value)}%`} ESCAPE '\\'`
+        : undefined
+    default:
+      return undefined
+  }
+}
+
+/**
+ * 构建过滤条件组
+ *
+ * 不存在的字段和无效条件会被忽略，空组返回 undefined。
+ *
+ * @param group - 过滤条件组
+ * @param tableColumns - 表字段
+ * @returns SQL 条件
+ */
+function buildFilterGroup(
+  group: FilterGroup,
+  tableColumns: Record<string, SQLiteColumn>
+): SQL | undefined {
+  const conditions: SQL[] = []
+
+  for (const node of group.conditions) {
+    let condition: SQL | undefined
+    if ('logic' in node) {
+      condition = buildFilterGroup(node, tableColumns)
+    } else if (tableColumns[node.field]) {
+      condition = buildCondition(tableColumns[node.field], node)
+    }
+    if (condition) {
+      conditions.push(condition)
+    }
+  }
+
+  if (conditions.length === 0) {
+    return undefined
+  }
+  return group.logic === 'or' ? or(...conditions) : and(...conditions)
+}
+
 /**
  * 应用站点过滤（用于手动查询）
  */
@@ -0,0 +1,28 @@
+/**
+ * 请求工具单元测试
+ */
+
+import { Hono } from 'hono'
+import { describe, expect, it } from 'vitest'
+import { getClientIp } from './request'
+
+describe('getClientIp', () => {
+  const app = new Hono()
+  app.get('/', (c) => c.text(getClientIp(c)))
+
+  async function clientIp(headers: Record<string, string>): Promise<string> {
+    return (await app.request('/', { headers })).text()
+  }
+
+  it('should prefer CF-Connecting-IP', async () => {
+    expect(await clientIp({ 'CF-Connecting-IP': '1.2.3.4', 'X-Forwarded-For': '5.6.7.8' })).toBe(
+      '1.2.3.4'
+    )
+  })
+
+  it('should take the first address of X-Forwarded-For', async () => {
+    expect(await clientIp({ 'X-Forwarded-For': ' 1.2.3.4 , 10.0.0.1' })).toBe('1.2.3.4')
+    expect(await clientIp({ 'X-Real-IP': '5.6.7.8' })).toBe('5.6.7.8')
+    expect(await clientIp({})).toBe('')
+  })
+})
@@ -0,0 +1,24 @@
+/**
+ * 请求工具模块
+ * 提取客户端请求信息（限流计数、审计日志和登录尝试记录共用）
+ */
+
+import type { Context } from 'hono'
+
+/**
+ * 获取客户端 IP
+ *
+ * 依次读取 CF-Connecting-IP、X-Forwarded-For、X-Real-IP。
+ * X-Forwarded-For 可能包含代理链，取第一个地址（客户端）。
+ *
+ * @param c - Hono 上下文
+ * @returns 客户端 IP（无法获取时为空字符串）
+ */
+export function getClientIp(c: Context): string {
+  return (
+    c.req.header('CF-Connecting-IP') ||
+    c.req.header('X-Forwarded-For')?.split(',')[0].trim() ||
+    c.req.header('X-Real-IP') ||
+    ''
+  )
+}
@@ -0,0 +1,126 @@
+/**
+ * 全文搜索工具单元测试
+ */
+
+import { describe, expect, it } from 'vitest'
+import {
+  buildMatchQuery,
+  extractSearchTerms,
+  highlight,
+  normalizeSearchText,
+  stripHtml,
+  tokenizeForIndex,
+} from './search'
+
+describe('normalizeSearchText', () => {
+  it('should convert full-width characters and lowercase', () => {
+    expect(normalizeSearchText('ＳＱＬｉｔｅ Ｄ1')).toBe('sqlite d1')
+  })
+})
+
+describe('stripHtml', () => {
+  it('should remove tags and decode entities', () => {
+    expect(stripHtml('<p>Hello&nbsp;<b>world</b> &amp; more</p>')).toBe('Hello world & more')
+  })
+
+  it('should drop script and style content', () => {
+    expect(stripHtml('<style>p{}</style><p>text</p><script>alert(1)</script>')).toBe('text')
+  })
+})
+
+describe('tokenizeForIndex', () => {
+  it('should split CJK runs into bigrams and keep the last character', () => {
+    expect(tokenizeForIndex('全文搜索')).toBe('全文 文搜 搜索 索')
+  })
+
+  it('should keep a single CJK character as is', () => {
+    expect(tokenizeForIndex('中')).toBe('中')
+  })
+
+  it('should keep non-CJK text for the FTS5 tokenizer', () => {
+    expect(tokenizeForIndex('Cloudflare D1 数据库')).toBe('cloudflare d1 数据 据库 库')
+  })
+
+  it('should split mixed words at script boundaries', () => {
+    expect(tokenizeForIndex('Vue3教程')).toBe('vue3 教程 程')
+  })
+
+  it('should handle Japanese and Korean text', () => {
+    expect(tokenizeForIndex('カタカナ')).toBe('カタ タカ カナ ナ')
+    expect(tokenizeForIndex('한국어')).toBe('한국 국어 어')
+  })
+
+  it('should return an empty string for empty text', () => {
+    expect(tokenizeForIndex('')).toBe('')
+  })
+})
+
+describe('extractSearchTerms', () => {
+  it('should split by whitespace and script boundaries', () => {
+    expect(extractSearchTerms('SQLite 全文搜索 vue3教程')).toEqual([
+      'sqlite',
+      '全文搜索',
+      'vue3',
+      '教程',
+    ])
+  })
+
+  it('should drop punctuation and query syntax', () => {
+    expect(extractSearchTerms('"foo" OR bar* -(baz)')).toEqual(['foo', 'or', 'bar', 'baz'])
+  })
+
+  it('should remove duplicates', () => {
+    expect(extractSearchTerms('hono Hono')).toEqual(['hono'])
+  })
+})
+
+describe('buildMatchQuery', () => {
+  it('should build a bigram phrase for CJK terms', () => {
+    expect(buildMatchQuery('全文搜索')).toBe('"全文 文搜 搜索"')
+  })
+
+  it('should use prefix matching for single CJK characters', () => {
+    expect(buildMatchQuery('搜')).toBe('"搜"*')
+  })
+
+  it('should use prefix matching for other terms', () => {
+    expect(buildMatchQuery('SQLite 搜索')).toBe('"sqlite"* "搜索"')
+  })
+
+  it('should neutralize FTS5 syntax in user input', () => {
+    expect(buildMatchQuery('title:foo NEAR(bar)')).toBe('"title"* "foo"* "near"* "bar"*')
+  })
+
+  it('should return null when there are no terms', () => {
+    expect(buildMatchQuery('')).toBeNull()
+    expect(buildMatchQuery('*"()')).toBeNull()
+  })
+})
+
+describe('highlight', () => {
+  it('should mark every matched term', () => {
+    expect(highlight('SQLite 全文搜索', ['sqlite', '搜索'])).toBe(
+      '<mark>SQLite</mark> 全文<mark>搜索</mark>'
+    )
+  })
+
+  it('should escape HTML outside and inside matches', () => {
+    expect(highlight('<b>a & b</b>', ['a'])).toBe('&lt;b&gt;<mark>a</mark> &amp; b&lt;/b&gt;')
+  })
+
+  it('should cut a snippet around the first match', () => {
+    const text = `${'x'.repeat(100)}目标${'y'.repeat(100)}`
+    const snippet = highlight(text, ['目标'], 40)
+    expect(snippet.startsWith('…')).toBe(true)
+    expect(snippet.endsWith('…')).toBe(true)
+    expect(snippet).toContain('<mark>目标</mark>')
+  })
+
+  it('should start from the beginning when nothing matches', () => {
+    expect(highlight('abcdef', ['z'], 3)).toBe('abc…')
+  })
+
+  it('should return an empty string for empty text', () => {
+    expect(highlight('', ['a'])).toBe('')
+  })
+})
@@ -0,0 +1,218 @@
+/**
+ * 全文搜索工具模块
+ * 提供 FTS5 索引文本的 CJK 二元分词、MATCH 查询构建和搜索结果高亮
+ *
+ * FTS5 的 unicode61 分词器会把连续的中日韩字符当作一个词，无法按词搜索。
+ * 写入索引前把 CJK 字符序列拆成重叠的二元组（"全文搜索" -> "全文 文搜 搜索 索"），
+ * 查询时按同样规则拆分并使用短语匹配，从而在 D1 中实现中文搜索。
+ */
+
+// 中日韩字符（汉字、平假名、片假名、谚文）
+const CJK_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u
+
+// 按 CJK 与非 CJK 字符序列切分
+const SEGMENT_PATTERN =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]+|[^\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]+/gu
+
+// 搜索词中的非字母数字字符（包括 FTS5 查询语法字符）
+const NON_WORD_PATTERN = /[^\p{L}\p{N}]+/gu
+
+// 高亮标签
+const HIGHLIGHT_START = '<mark>'
+const HIGHLIGHT_END = '</mark>'
+
+/**
+ * 判断文本是否为 CJK 字符序列
+ * @param text 文本
+ * @returns 是否以 CJK 字符开头
+ */
+function isCjk(text: string): boolean {
+  return CJK_PATTERN.test(text.charAt(0))
+}
+
+/**
+ * 标准化文本（全角转半角、转小写）
+ * @param text 文本
+ * @returns 标准化后的文本
+ */
+export function normalizeSearchText(text: string): string {
+  return text.normalize('NFKC').toLowerCase()
+}
+
+/**
+ * 去除 HTML 标签并解码常用实体
+ * @param html HTML 文本
+ * @returns 纯文本
+ */
+export function stripHtml(html: string): string {
+  return html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * 把 CJK 字符序列拆分为二元组
+ * 末尾字符单独保留，使单字查询（前缀匹配）能命中序列最后一个字
+ * @param run CJK 字符序列
+ * @returns 二元组数组
+ */
+function toBigrams(run: string): string[] {
+  const chars = Array.from(run)
+  if (chars.length === 1) {
+    return chars
+  }
+
+  const bigrams: string[] = []
+  for (let i = 0; i < chars.length - 1; i++) {
+    bigrams.push(chars[i] + chars[i + 1])
+  }
+  bigrams.push(chars[chars.length - 1])
+  return bigrams
+}
+
+/**
+ * 生成写入 FTS5 索引的文本
+ * CJK 字符序列拆分为二元组，其他文本保持不变（由 unicode61 分词）
+ * @param text 原始文本
+ * @returns 索引文本
+ */
+export function tokenizeForIndex(text: string): string {
+  const normalized = normalizeSearchText(text)
+  const segments = normalized.match(SEGMENT_PATTERN) ?? []
+
+  return segments
+    .map((segment) => (isCjk(segment) ? toBigrams(segment).join(' ') : segment))
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * 从用户输入中提取搜索词
+ * 去除标点和查询语法字符，按空白拆分后再按 CJK 与非 CJK 切分
+ * @param query 用户输入
+ * @returns 搜索词数组（已去重）
+ */
+export function extractSearchTerms(query: string): string[] {
+  const normalized = normalizeSearchText(query).replace(NON_WORD_PATTERN, ' ')
+  const terms: string[] = []
+
+  for (const word of normalized.split(' ')) {
+    for (const segment of word.match(SEGMENT_PATTERN) ?? []) {
+      if (!terms.includes(segment)) {
+        terms.push(segment)
+      }
+    }
+  }
+
+  return terms
+}
+
+/**
+ * 构建 FTS5 MATCH 查询
+ * - 多个 CJK 字符：二元组短语匹配（"全文 文搜 搜索"）
+ * - 单个 CJK 字符：前缀匹配（"搜"*）
+ * - 其他词：前缀匹配（"sqlite"*）
+ * 所有搜索词之间为 AND 关系
+ * @param query 用户输入
+ * @returns MATCH 查询，没有有效搜索词时返回 null
+ */
+export function buildMatchQuery(query: string): string | null {
+  const terms = extractSearchTerms(query)
+  if (terms.length === 0) {
+    return null
+  }
+
+  return terms
+    .map((term) => {
+      if (isCjk(term) && Array.from(term).length > 1) {
+        const bigrams = toBigrams(term)
+        return `"${bigrams.slice(0, -1).join(' ')}"`
+      }
+      return `"${term}"*`
+    })
+    .join(' ')
+}
+
+/**
+ * 转义 HTML 特殊字符
+ * @param text 文本
+ * @returns 转义后的文本
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+/**
+ * 转义正则表达式特殊字符
+ * @param text 文本
+ * @returns 转义后的文本
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * 生成高亮摘要
+ * 截取第一个命中位置附近的文本，用 <mark> 标记命中的搜索词，其余文本做 HTML 转义
+ * @param text 纯文本
+ * @param terms 搜索词（extractSearchTerms 的结果）
+ * @param maxLength 摘要最大长度（字符数），不提供时返回全文
+ * @returns 高亮后的 HTML 片段
+ */
+export function highlight(text: string, terms: string[], maxLength?: number): string {
+  if (!text) {
+    return ''
+  }
+
+  const validTerms = terms.filter((term) => term.length > 0)
+  const pattern =
+    validTerms.length > 0
+      ? new RegExp(
+          [...validTerms]
+            .sort((a, b) => b.length - a.length)
+            .map(escapeRegExp)
+            .join('|'),
+          'gi'
+        )
+      : null
+
+  // 截取第一个命中位置附近的文本
+  let snippet = text
+  if (maxLength !== undefined && text.length > maxLength) {
+    const firstMatch = pattern ? text.search(pattern) : -1
+    const start = firstMatch > 0 ? Math.max(0, firstMatch - Math.floor(maxLength / 4)) : 0
+    const end = Math.min(text.length, start + maxLength)
+    snippet = `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`
+  }
+
+  if (!pattern) {
+    return escapeHtml(snippet)
+  }
+
+  // 标记命中的搜索词
+  let result = ''
+  let lastIndex = 0
+  for (const match of snippet.matchAll(pattern)) {
+    const index = match.index ?? 0
+    result += escapeHtml(snippet.slice(lastIndex, index))
+    result += `${HIGHLIGHT_START}${escapeHtml(match[0])}${HIGHLIGHT_END}`
+    lastIndex = index + match[0].length
+  }
+  result += escapeHtml(snippet.slice(lastIndex))
+
+  return result
+}
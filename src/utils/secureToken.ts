@@ -0,0 +1,33 @@
+/**
+ * 安全令牌工具模块
+ * 生成随机令牌（刷新令牌、重置密码令牌等），数据库中只保存令牌的 SHA-256 哈希
+ */
+
+/**
+ * 生成随机令牌
+ *
+ * @param bytes - 随机字节数（默认 32）
+ * @returns 十六进制字符串（长度为字节数的两倍）
+ */
+export function generateSecureToken(bytes = 32): string {
+  const randomValues = new Uint8Array(bytes)
+  crypto.getRandomValues(randomValues)
+  return toHex(randomValues)
+}
+
+/**
+ * 计算字符串的 SHA-256 哈希
+ *
+ * @param value - 原始字符串
+ * @returns 64 位十六进制哈希
+ */
+export async function sha256Hex(value: string): Promise<string> {
+  const hashBuffer = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value))
+  return toHex(new Uint8Array(hashBuffer))
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes)
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('')
+}
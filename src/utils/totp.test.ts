@@ -0,0 +1,88 @@
+import * as fc from 'fast-check'
+import { describe, expect, it } from 'vitest'
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUri,
+  generateTotp,
+  generateTotpSecret,
+  getTotpStep,
+  verifyTotp,
+} from './totp'
+
+// RFC 6238 附录 B 的 SHA1 测试密钥（ASCII "12345678901234567890"）
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ'
+
+describe('TOTP Utils', () => {
+  describe('base32', () => {
+    it('should round-trip arbitrary bytes', () => {
+      fc.assert(
+        fc.property(fc.uint8Array({ maxLength: 40 }), (bytes) => {
+          expect(Array.from(base32Decode(base32Encode(bytes)))).toEqual(Array.from(bytes))
+        })
+      )
+    })
+
+    it('should encode the RFC 6238 secret', () => {
+      expect(base32Encode(new TextEncoder().encode('12345678901234567890'))).toBe(RFC_SECRET)
+      expect(() => base32Decode('ABC1')).toThrow()
+    })
+
+    it('should generate 160-bit secrets', () => {
+      const secret = generateTotpSecret()
+      expect(secret).toMatch(/^[A-Z2-7]{32}$/)
+      expect(generateTotpSecret()).not.toBe(secret)
+    })
+  })
+
+  describe('generateTotp', () => {
+    it('should match the RFC 6238 test vectors', async () => {
+      const vectors: Array<[number, string]> = [
+        [59, '94287082'],
+        [1111111109, '07081804'],
+        [1111111111, '14050471'],
+        [1234567890, '89005924'],
+        [2000000000, '69279037'],
+        [20000000000, '65353130'],
+      ]
+
+      for (const [seconds, code] of vectors) {
+        expect(await generateTotp(RFC_SECRET, getTotpStep(seconds * 1000), 8)).toBe(code)
+      }
+      expect(await generateTotp(RFC_SECRET, getTotpStep(59 * 1000))).toBe('287082')
+    })
+  })
+
+  describe('verifyTotp', () => {
+    it('should accept codes within one time step', async () => {
+      const time = 1111111111 * 1000
+      const step = getTotpStep(time)
+
+      expect(await verifyTotp(RFC_SECRET, await generateTotp(RFC_SECRET, step), time)).toBe(step)
+      expect(await verifyTotp(RFC_SECRET, await generateTotp(RFC_SECRET, step - 1), time)).toBe(
+        step - 1
+      )
+      expect(
+        await verifyTotp(RFC_SECRET, await generateTotp(RFC_SECRET, step + 2), time)
+      ).toBeNull()
+    })
+
+    it('should reject malformed codes', async () => {
+      expect(await verifyTotp(RFC_SECRET, '12345')).toBeNull()
+      expect(await verifyTotp(RFC_SECRET, 'abcdef')).toBeNull()
+    })
+  })
+
+  describe('buildOtpauthUri', () => {
+    it('should include the issuer and parameters', () => {
+      const uri = buildOtpauthUri('JBSWY3DPEHPK3PXP', 'alice', '示例站点')
+
+      expect(uri.startsWith(`otpauth://totp/${encodeURIComponent('示例站点:alice')}?`)).toBe(true)
+      const params = new URL(uri).searchParams
+      expect(params.get('secret')).toBe('JBSWY3DPEHPK3PXP')
+      expect(params.get('issuer')).toBe('示例站点')
+      expect(params.get('digits')).toBe('6')
+      expect(params.get('period')).toBe('30')
+    })
+  })
+})
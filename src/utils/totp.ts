@@ -0,0 +1,182 @@
+/**
+ * TOTP 工具模块
+ * 实现 RFC 6238 基于时间的一次性密码（HMAC-SHA1、6 位数字、30 秒时间步），
+ * 兼容 Google Authenticator、1Password 等验证器应用
+ */
+
+// 时间步长（秒）
+export const TOTP_PERIOD = 30
+
+// 验证码位数
+export const TOTP_DIGITS = 6
+
+// 验证时允许的时间步偏差（前后各 1 步，容忍客户端时钟误差）
+export const TOTP_WINDOW = 1
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+
+/**
+ * Base32 编码（RFC 4648，不带填充）
+ *
+ * @param bytes - 原始字节
+ * @returns Base32 字符串
+ */
+export function base32Encode(bytes: Uint8Array): string {
+  let bits = 0
+  let value = 0
+  let output = ''
+
+  for (const byte of bytes) {
+    value = (value << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+  }
+
+  return output
+}
+
+/**
+ * Base32 解码（忽略大小写、空格和填充）
+ *
+ * @param input - Base32 字符串
+ * @returns 原始字节
+ * @throws Error 如果包含无效字符
+ */
+export function base32Decode(input: string): Uint8Array {
+  const cleaned = input.toUpperCase().replace(/[\s=]/g, '')
+  const output: number[] = []
+  let bits = 0
+  let value = 0
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char)
+    if (index === -1) {
+      throw new Error(`无效的 Base32 字符: ${char}`)
+    }
+    value = (value << 5) | index
+    bits += 5
+    if (bits >= 8) {
+      output.push((value >>> (bits - 8)) & 255)
+      bits -= 8
+    }
+  }
+
+  return new Uint8Array(output)
+}
+
+/**
+ * 生成 TOTP 密钥
+ *
+ * @returns Base32 编码的 160 位随机密钥
+ */
+export function generateTotpSecret(): string {
+  const bytes = new Uint8Array(20)
+  crypto.getRandomValues(bytes)
+  return base32Encode(bytes)
+}
+
+/**
+ * 计算时间对应的时间步
+ *
+ * @param time - 时间（毫秒时间戳，默认当前时间）
+ * @returns 时间步
+ */
+export function getTotpStep(time: number = Date.now()): number {
+  return Math.floor(time / 1000 / TOTP_PERIOD)
+}
+
+/**
+ * 生成指定时间步的验证码（RFC 4226 HOTP）
+ *
+ * @param secret - Base32 编码的密钥
+ * @param step - 时间步
+ * @param digits - 验证码位数（默认 6）
+ * @returns 验证码（左侧补零）
+ */
+export async function generateTotp(
+  secret: string,
+  step: number,
+  digits: number = TOTP_DIGITS
+): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    base32Decode(secret),
+    { name: 'HMAC', hash: 'SHA-1' },
+    false,
+    ['sign']
+  )
+
+  // 时间步为 8 字节大端整数
+  const counter = new DataView(new ArrayBuffer(8))
+  counter.setUint32(0, Math.floor(step / 2 ** 32))
+  counter.setUint32(4, step >>> 0)
+
+  const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, counter.buffer))
+
+  // 动态截断
+  const offset = hmac[hmac.length - 1] & 0x0f
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3]
+
+  return (binary % 10 ** digits).toString().padStart(digits, '0')
+}
+
+/**
+ * 校验验证码
+ *
+ * 在当前时间步前后 TOTP_WINDOW 步内查找匹配的验证码。
+ *
+ * @param secret - Base32 编码的密钥
+ * @param code - 用户输入的验证码
+ * @param time - 时间（毫秒时间戳，默认当前时间）
+ * @returns 匹配的时间步，不匹配时返回 null
+ */
+export async function verifyTotp(
+  secret: string,
+  code: string,
+  time: number = Date.now()
+): Promise<number | null> {
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(code)) {
+    return null
+  }
+
+  const current = getTotpStep(time)
+  for (let step = current - TOTP_WINDOW; step <= current + TOTP_WINDOW; step++) {
+    if ((await generateTotp(secret, step)) === code) {
+      return step
+    }
+  }
+
+  return null
+}
+
+/**
+ * 生成验证器应用的 otpauth URI（通常渲染为二维码）
+ *
+ * @param secret - Base32 编码的密钥
+ * @param account - 账户名（如用户名）
+ * @param issuer - 签发方（如站点名称）
+ * @returns otpauth://totp/... URI
+ */
+export function buildOtpauthUri(secret: string, account: string, issuer: string): string {
+  const label = encodeURIComponent(issuer ? `${issuer}:${account}` : account)
+  const params = new URLSearchParams({
+    secret,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD),
+  })
+  if (issuer) {
+    params.set('issuer', issuer)
+  }
+  return `otpauth://totp/${label}?${params.toString()}`
+}